@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitStore, type StoredHistory } from '../commit-store';
+import type { GitCommit } from '../../types/expert';
+
+const REPO = '/work/repo';
+
+function makeCommit(sha: string): GitCommit {
+    return {
+        sha,
+        author: { name: 'Alice', email: 'alice@test.com' },
+        message: `commit ${sha}`,
+        date: '2026-07-01T10:00:00+00:00',
+        files: ['src/a.ts'],
+        additions: 1,
+        deletions: 0,
+    };
+}
+
+function history(head: string, shas: string[], coveredSince = ''): StoredHistory {
+    return { head, coveredSince, truncated: false, commits: shas.map(makeCommit) };
+}
+
+describe('CommitStore', () => {
+    let storageDir: string;
+    let store: CommitStore;
+
+    beforeEach(async () => {
+        storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'teamxray-store-'));
+        store = new CommitStore(storageDir);
+    });
+
+    afterEach(async () => {
+        await fs.rm(storageDir, { recursive: true, force: true });
+    });
+
+    it('returns null when nothing is stored', async () => {
+        expect(await store.load(REPO)).toBeNull();
+    });
+
+    it('round-trips a full history', async () => {
+        await store.replace(REPO, history('c3', ['c3', 'c2', 'c1'], '2026-01-01'));
+
+        const loaded = await store.load(REPO);
+        expect(loaded?.head).toBe('c3');
+        expect(loaded?.coveredSince).toBe('2026-01-01');
+        expect(loaded?.commits.map(c => c.sha)).toEqual(['c3', 'c2', 'c1']);
+        expect(loaded?.commits[0].additions).toBe(1);
+    });
+
+    it('appends newer batches and restores newest-first order', async () => {
+        const initial = history('c2', ['c2', 'c1']);
+        await store.replace(REPO, initial);
+        await store.append(REPO, initial, 'c4', ['c4', 'c3'].map(makeCommit));
+
+        const afterFirst = await store.load(REPO);
+        await store.append(REPO, afterFirst!, 'c5', [makeCommit('c5')]);
+
+        const loaded = await store.load(REPO);
+        expect(loaded?.head).toBe('c5');
+        expect(loaded?.commits.map(c => c.sha)).toEqual(['c5', 'c4', 'c3', 'c2', 'c1']);
+    });
+
+    it('moves HEAD forward even when the range had no commits', async () => {
+        const initial = history('c1', ['c1']);
+        await store.replace(REPO, initial);
+        await store.append(REPO, initial, 'merge-free-head', []);
+
+        expect((await store.load(REPO))?.head).toBe('merge-free-head');
+    });
+
+    it('treats a data file that disagrees with its meta as no cache', async () => {
+        await store.replace(REPO, history('c1', ['c1']));
+        const [repoDir] = await fs.readdir(path.join(storageDir, 'commit-cache'));
+        await fs.appendFile(path.join(storageDir, 'commit-cache', repoDir, 'commits.ndjson'), '{"sha":"orphan"}\n');
+
+        expect(await store.load(REPO)).toBeNull();
+    });
+
+    it('treats a missing or corrupt data file as no cache', async () => {
+        await store.replace(REPO, history('c2', ['c2', 'c1']));
+        const [repoDir] = await fs.readdir(path.join(storageDir, 'commit-cache'));
+        const dataPath = path.join(storageDir, 'commit-cache', repoDir, 'commits.ndjson');
+
+        await fs.writeFile(dataPath, '{"sha":"c2"}\n{"sha":\n');
+        expect(await store.load(REPO)).toBeNull();
+
+        await fs.rm(dataPath);
+        expect(await store.load(REPO)).toBeNull();
+    });
+
+    it('reports whether stored history covers a requested window', () => {
+        expect(CommitStore.covers(history('h', [], ''), undefined)).toBe(true);
+        expect(CommitStore.covers(history('h', [], '2026-01-01'), '2026-02-01')).toBe(true);
+        expect(CommitStore.covers(history('h', [], '2026-01-01'), '2025-12-01')).toBe(false);
+        expect(CommitStore.covers(history('h', [], '2026-01-01'), undefined)).toBe(false);
+    });
+
+    it('treats truncated history as covering only windows after its oldest commit', () => {
+        const commits = ['c2', 'c1'].map(makeCommit);
+        commits[1].date = '2026-05-01T10:00:00+00:00';
+        const coveredSince = CommitStore.coverageStart(commits, true, '2026-01-01');
+        const truncated: StoredHistory = { head: 'h', coveredSince, truncated: true, commits };
+
+        expect(coveredSince).toBe('2026-05-01T10:00:00.000Z');
+        expect(CommitStore.coverageStart(commits, false, '2026-01-01')).toBe('2026-01-01');
+        expect(CommitStore.covers(truncated, '2026-06-01')).toBe(true);
+        expect(CommitStore.covers(truncated, '2026-01-01')).toBe(false);
+        expect(CommitStore.covers(truncated, undefined)).toBe(false);
+        expect(CommitStore.covers({ ...truncated, coveredSince: '' }, undefined)).toBe(false);
+    });
+});
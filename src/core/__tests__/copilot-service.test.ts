@@ -239,7 +239,9 @@ describe('CopilotService', () => {
             expect(result.repository).toBe('test-org/test-repo');
             expect(result.experts).toHaveLength(2);
             expect(result.experts[0].name).toBe('Alice');
-            expect(result.experts[0].expertise).toBe(6);
+            // Top on both commits and lines changed
+            expect(result.experts[0].expertise).toBe(100);
+            expect(result.experts[1].scoreBreakdown.components.map((c: any) => c.factor)).toEqual(['commits', 'linesChanged']);
             expect(result.insights[0].type).toBe('gap');
             expect(result.insights[0].title).toContain('incomplete');
         });
@@ -399,15 +401,17 @@ describe('CopilotService', () => {
     });
 
     describe('buildTools (private)', () => {
-        it('creates 5 tools with correct names', async () => {
+        it('creates 7 tools with correct names', async () => {
             const data = makeRepoData();
             const stats = makeStats();
             const tools = await getPrivate(service).buildTools(data, stats);
 
-            expect(tools).toHaveLength(5);
+            expect(tools).toHaveLength(7);
             const names = tools.map((t: any) => t.name);
             expect(names).toContain('get_contributors');
             expect(names).toContain('get_recent_commits');
+            expect(names).toContain('get_pull_requests');
+            expect(names).toContain('get_temporal_coupling');
             expect(names).toContain('get_file_experts');
             expect(names).toContain('get_repo_stats');
             expect(names).toContain('get_collaboration_patterns');
@@ -448,6 +452,57 @@ describe('CopilotService', () => {
             expect(parsed).toHaveLength(1);
         });
 
+        it('get_pull_requests tool filters by author or merger', async () => {
+            const pullRequest = (number: number, author: string, merger: string) => ({
+                number,
+                kind: 'merge' as const,
+                sourceBranch: `${author.toLowerCase()}/topic`,
+                mergeSha: `merge${number}`,
+                mergedAt: '2025-05-03T00:00:00Z',
+                merger: { name: merger, email: `${merger.toLowerCase()}@test.com` },
+                author: { name: author, email: `${author.toLowerCase()}@test.com` },
+                commits: [`c${number}`],
+                firstCommitAt: '2025-05-01T00:00:00Z',
+                additions: 10,
+                deletions: 2,
+            });
+            const data = makeRepoData({
+                pullRequests: [pullRequest(12, 'Alice', 'Bob'), pullRequest(11, 'Carol', 'Carol')],
+            });
+            const tools = await getPrivate(service).buildTools(data, makeStats());
+            const pullRequestsTool = tools.find((t: any) => t.name === 'get_pull_requests');
+
+            const byBob = JSON.parse(await pullRequestsTool.handler({ person: 'bob' }));
+            expect(byBob.pullRequests.map((pr: any) => pr.number)).toEqual([12]);
+
+            const limited = JSON.parse(await pullRequestsTool.handler({ limit: 1 }));
+            expect(limited.pullRequests).toHaveLength(1);
+            expect(limited.summary).toBeNull();
+        });
+
+        it('get_temporal_coupling tool filters rules by file', async () => {
+            const rule = (file: string, coupledFile: string, confidence: number) => ({
+                file,
+                coupledFile,
+                coChanges: 4,
+                support: 0.2,
+                confidence,
+                crossModule: true,
+                authors: [{ name: 'Alice', commits: 4 }],
+            });
+            const data = makeRepoData({
+                temporalCoupling: [rule('src/api.ts', 'db/schema.sql', 0.9), rule('web/app.ts', 'web/styles.css', 0.6)],
+            });
+            const tools = await getPrivate(service).buildTools(data, makeStats());
+            const couplingTool = tools.find((t: any) => t.name === 'get_temporal_coupling');
+
+            const forSchema = JSON.parse(await couplingTool.handler({ file_path: 'db/schema.sql' }));
+            expect(forSchema.map((r: any) => r.file)).toEqual(['src/api.ts']);
+
+            const limited = JSON.parse(await couplingTool.handler({ limit: 1 }));
+            expect(limited).toHaveLength(1);
+        });
+
         it('get_file_experts tool finds experts for a file', async () => {
             const data = makeRepoData();
             const stats = makeStats();
@@ -460,6 +515,26 @@ describe('CopilotService', () => {
             expect(parsed[0].name).toBe('Alice');
         });
 
+        it('get_file_experts tool ranks by surviving lines when ownership is known', async () => {
+            const data = makeRepoData({
+                fileOwnership: [{
+                    filePath: 'src/utils.ts',
+                    totalLines: 40,
+                    owners: [
+                        { name: 'Bob', email: 'bob@test.com', lines: 30, share: 0.75, lastCommitDate: '2025-05-02T00:00:00.000Z' },
+                        { name: 'Alice', email: 'alice@test.com', lines: 10, share: 0.25, lastCommitDate: '2025-05-01T00:00:00.000Z' },
+                    ],
+                }],
+            });
+            const tools = await getPrivate(service).buildTools(data, makeStats());
+            const fileExpertsTool = tools.find((t: any) => t.name === 'get_file_experts');
+
+            const parsed = JSON.parse(await fileExpertsTool.handler({ file_path: 'src/utils.ts' }));
+            expect(parsed.map((e: any) => e.name)).toEqual(['Bob', 'Alice']);
+            expect(parsed[0]).toMatchObject({ commits: 0, survivingLines: 30, lineShare: 0.75 });
+            expect(parsed[1]).toMatchObject({ commits: 1, survivingLines: 10 });
+        });
+
         it('get_repo_stats tool returns stats', async () => {
             const data = makeRepoData();
             const stats = makeStats();
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let workspaceRoot = '';
+
+vi.mock('vscode', () => ({
+    workspace: {
+        getConfiguration: vi.fn(() => ({
+            get: (_key: string, fallback?: unknown) => fallback,
+        })),
+        getWorkspaceFolder: vi.fn(() => ({ name: 'repo', uri: { fsPath: workspaceRoot }, index: 0 })),
+    },
+    window: {
+        createOutputChannel: vi.fn(() => ({
+            appendLine: vi.fn(),
+            show: vi.fn(),
+            dispose: vi.fn(),
+        })),
+    },
+    Uri: {
+        file: (fsPath: string) => ({ fsPath }),
+    },
+}));
+
+vi.mock('@github/copilot-sdk', () => ({
+    CopilotClient: vi.fn(),
+    CopilotSession: vi.fn(),
+    defineTool: vi.fn(),
+    approveAll: vi.fn(),
+}));
+
+import { ExpertiseAnalyzer } from '../expertise-analyzer';
+import { clearRepositoryRootCache } from '../workspace-repositories';
+
+function git(cwd: string, ...args: string[]): void {
+    execFileSync('git', ['-c', 'user.name=Alice', '-c', 'user.email=alice@example.com', ...args], { cwd });
+}
+
+describe('ExpertiseAnalyzer.findExpertsForRange', () => {
+    let filePath: string;
+    let analyzer: ExpertiseAnalyzer;
+
+    beforeEach(async () => {
+        workspaceRoot = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'teamxray-range-')));
+        filePath = path.join(workspaceRoot, 'a.ts');
+        git(workspaceRoot, 'init', '-q');
+        await fs.writeFile(filePath, 'one\ntwo\nthree\n');
+        git(workspaceRoot, 'add', 'a.ts');
+        git(workspaceRoot, 'commit', '-q', '-m', 'Add a');
+        analyzer = new ExpertiseAnalyzer({} as any, {} as any);
+    });
+
+    afterEach(async () => {
+        clearRepositoryRootCache();
+        await fs.rm(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('finds the experts of committed lines', async () => {
+        const result = await analyzer.findExpertsForRange(filePath, { start: 2, end: 2 });
+
+        expect(result?.experts.map(expert => expert.email)).toEqual(['alice@example.com']);
+    });
+
+    it('refuses a file whose lines no longer match HEAD', async () => {
+        await fs.writeFile(filePath, 'zero\none\ntwo\nthree\n');
+
+        await expect(analyzer.findExpertsForRange(filePath, { start: 2, end: 2 }))
+            .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+});
+
+describe('ExpertiseAnalyzer.scoreFileExperts', () => {
+    it('scores and ranks an expert listed under an alias as the resolved person', () => {
+        const analyzer = new ExpertiseAnalyzer({} as any, {} as any) as any;
+        const commit = (sha: string, name: string, email: string, date: string) =>
+            ({ sha, author: { name, email }, message: 'Change', date, files: ['src/a.ts'] });
+        const alias = { name: 'Alice Smith', email: 'alice@old.example' };
+        const resolveAuthor = (author: { name: string; email: string }) =>
+            author.email === alias.email ? { name: 'Alice', email: 'alice@example.com' } : author;
+        const experts = [
+            { name: 'Bob', email: 'bob@example.com', expertise: 0 },
+            { ...alias, expertise: 0 },
+        ];
+
+        const ranked = analyzer.scoreFileExperts(experts, [
+            commit('a1', 'Alice', 'alice@example.com', new Date().toISOString()),
+            commit('a2', 'Alice Smith', 'alice@old.example', new Date().toISOString()),
+            commit('b1', 'Bob', 'bob@example.com', '2020-01-01T00:00:00Z'),
+        ], null, resolveAuthor);
+
+        expect(ranked.map((expert: { email: string }) => expert.email)).toEqual([alias.email, 'bob@example.com']);
+        expect(ranked[0].recencyScore).toBe(100);
+        expect(ranked[0].expertise).toBeGreaterThan(ranked[1].expertise);
+    });
+});
+
+describe('ExpertiseAnalyzer.getLastAnalysis', () => {
+    it('never returns a scoped analysis, even as the most recent one', () => {
+        const state = new Map<string, unknown>([['analysesByRepository', {
+            '/repo': { repository: 'repo', repositoryRoot: '/repo', generatedAt: '2026-10-01T00:00:00Z' },
+            '/repo#scope': {
+                repository: 'repo',
+                repositoryRoot: '/repo',
+                generatedAt: '2026-10-02T00:00:00Z',
+                scope: { from: 'v2.0', to: 'v3.0' },
+            },
+        }]]);
+        const context = { workspaceState: { get: (key: string, fallback?: unknown) => state.get(key) ?? fallback } };
+        const analyzer = new ExpertiseAnalyzer(context as any, {} as any);
+
+        expect(analyzer.getLastAnalysis()?.generatedAt.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+        expect(analyzer.getLastAnalysis('/repo')?.scope).toBeUndefined();
+    });
+});
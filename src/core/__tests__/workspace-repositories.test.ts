@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const folders: Array<{ name: string; uri: { fsPath: string }; index: number }> = [];
+
+vi.mock('vscode', () => ({
+    workspace: {
+        get workspaceFolders() {
+            return folders;
+        },
+    },
+}));
+
+import {
+    clearRepositoryRootCache,
+    getRepositoryDirectories,
+    getWorkspaceRepositories,
+    toRepositoryRelativePath,
+} from '../workspace-repositories';
+
+describe('getWorkspaceRepositories', () => {
+    let tempDir: string;
+
+    function addFolder(fsPath: string): void {
+        folders.push({ name: path.basename(fsPath), uri: { fsPath }, index: folders.length });
+    }
+
+    beforeEach(async () => {
+        tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'teamxray-roots-')));
+        const repo = path.join(tempDir, 'repo');
+        await fs.mkdir(path.join(repo, 'client'), { recursive: true });
+        await fs.mkdir(path.join(repo, 'server'), { recursive: true });
+        await fs.mkdir(path.join(tempDir, 'plain'));
+        execFileSync('git', ['init', '-q', repo]);
+    });
+
+    afterEach(async () => {
+        folders.length = 0;
+        clearRepositoryRootCache();
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('collapses folders that share a repository and keeps non-git folders', async () => {
+        addFolder(path.join(tempDir, 'repo', 'client'));
+        addFolder(path.join(tempDir, 'repo', 'server'));
+        addFolder(path.join(tempDir, 'plain'));
+
+        const repositories = await getWorkspaceRepositories();
+
+        expect(repositories.map(r => r.rootPath)).toEqual([
+            path.join(tempDir, 'repo'),
+            path.join(tempDir, 'plain'),
+        ]);
+        expect(repositories[0].name).toBe('client (repo)');
+        expect(repositories[1].name).toBe('plain');
+    });
+
+    it('keeps every folder of a shared repository so files are listed from all of them', async () => {
+        addFolder(path.join(tempDir, 'repo', 'client'));
+        addFolder(path.join(tempDir, 'repo', 'server'));
+
+        const [repository] = await getWorkspaceRepositories();
+
+        expect(repository.folders.map(folder => folder.name)).toEqual(['client', 'server']);
+        expect(getRepositoryDirectories(repository)).toEqual(['client', 'server']);
+
+        addFolder(path.join(tempDir, 'repo'));
+        expect(getRepositoryDirectories((await getWorkspaceRepositories())[0])).toBeUndefined();
+    });
+
+    it('notices a repository created or removed after the first lookup', async () => {
+        const plain = path.join(tempDir, 'plain');
+        const nested = path.join(plain, 'nested');
+        await fs.mkdir(nested);
+        addFolder(nested);
+        expect((await getWorkspaceRepositories())[0].rootPath).toBe(nested);
+
+        execFileSync('git', ['init', '-q', plain]);
+        expect((await getWorkspaceRepositories())[0].rootPath).toBe(plain);
+
+        await fs.rm(path.join(plain, '.git'), { recursive: true, force: true });
+        expect((await getWorkspaceRepositories())[0].rootPath).toBe(nested);
+    });
+});
+
+describe('toRepositoryRelativePath', () => {
+    it('produces forward-slash paths relative to the root', () => {
+        const root = path.join(os.tmpdir(), 'repo');
+        expect(toRepositoryRelativePath(root, path.join(root, 'src', 'a.ts'))).toBe('src/a.ts');
+    });
+});
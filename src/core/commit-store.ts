@@ -0,0 +1,200 @@
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { GitCommit } from '../types/expert';
+
+/** Parsed history for one repository as last read from git. */
+export interface StoredHistory {
+    /** HEAD the history was read up to */
+    head: string;
+    /**
+     * Date the history covers back to: the `--since` date of the read, or the
+     * oldest commit actually read when it was truncated. '' means the full
+     * history.
+     */
+    coveredSince: string;
+    /** The read stopped at the worker's memory ceiling, so older history is missing */
+    truncated: boolean;
+    /** Newest first, unique by SHA */
+    commits: GitCommit[];
+}
+
+interface StoreMeta {
+    version: number;
+    repoPath: string;
+    head: string;
+    coveredSince: string;
+    truncated: boolean;
+    /** Line count of each appended batch, oldest batch first */
+    batches: number[];
+}
+
+/**
+ * On-disk commit cache under the extension's global storage, one directory
+ * per repository. Commits are kept as NDJSON so a pull that lands a few
+ * commits appends a few lines instead of rewriting the whole history; the
+ * meta file records HEAD and the batch boundaries needed to restore
+ * newest-first order on load. A meta/data mismatch (e.g. a crash between
+ * the two writes) reads as "no cache" and costs one full re-scan.
+ */
+export class CommitStore {
+    // Bump when GitCommit gains fields parsed from git or their parsing changes, so stale caches re-scan
+    private static readonly VERSION = 4;
+    // Appends accumulate small batches; fold them back into one after this many
+    private static readonly MAX_BATCHES = 32;
+
+    constructor(private readonly storageDir: string) {}
+
+    /**
+     * Whether stored history satisfies a read that starts at `sinceDate`
+     * (undefined = all history). A truncated history is partial: it covers
+     * only windows that start after its oldest commit, never all history.
+     */
+    static covers(history: StoredHistory, sinceDate?: string): boolean {
+        if (history.coveredSince === '') {
+            return !history.truncated;
+        }
+        if (sinceDate === undefined) {
+            return false;
+        }
+        return history.truncated
+            ? Date.parse(sinceDate) > Date.parse(history.coveredSince)
+            : sinceDate >= history.coveredSince;
+    }
+
+    /**
+     * The coveredSince to record for a fresh read: its `--since` date, or
+     * for a truncated read the date of the oldest commit that was read.
+     * @param commits - The read's commits, newest first
+     */
+    static coverageStart(commits: GitCommit[], truncated: boolean, sinceDate?: string): string {
+        if (!truncated) {
+            return sinceDate ?? '';
+        }
+        // reduce, not Math.min(...): truncated reads hold hundreds of thousands of commits
+        const oldest = commits.reduce((min, commit) => {
+            const time = Date.parse(commit.committedDate ?? commit.date);
+            return Number.isFinite(time) && time < min ? time : min;
+        }, Infinity);
+        // Nothing read before the ceiling: the history covers no window at all
+        return Number.isFinite(oldest) ? new Date(oldest).toISOString() : new Date().toISOString();
+    }
+
+    /**
+     * Load stored history, or null when absent, from another version, or inconsistent.
+     * The commit file is streamed and parsed line by line rather than read and
+     * split whole, so a large history never blocks the extension host in one go:
+     * the event loop gets a turn between stream chunks.
+     */
+    async load(repoPath: string): Promise<StoredHistory | null> {
+        const dir = this.getRepoDir(repoPath);
+        let meta: StoreMeta;
+        try {
+            meta = JSON.parse(await fs.readFile(path.join(dir, 'meta.json'), 'utf8'));
+        } catch {
+            return null;
+        }
+        if (meta.version !== CommitStore.VERSION || meta.repoPath !== repoPath || !meta.head) {
+            return null;
+        }
+
+        const stored: GitCommit[] = [];
+        const lines = readline.createInterface({
+            input: createReadStream(path.join(dir, 'commits.ndjson'), { encoding: 'utf8' }),
+            crlfDelay: Infinity,
+        });
+        try {
+            for await (const line of lines) {
+                if (line.length > 0) {
+                    stored.push(JSON.parse(line) as GitCommit);
+                }
+            }
+        } catch {
+            return null;
+        } finally {
+            lines.close();
+        }
+        if (stored.length !== meta.batches.reduce((sum, count) => sum + count, 0)) {
+            return null;
+        }
+
+        // Each batch is newest-first; later batches are newer than earlier ones
+        const seen = new Set<string>();
+        const commits: GitCommit[] = [];
+        let end = stored.length;
+        for (let i = meta.batches.length - 1; i >= 0; i--) {
+            const start = end - meta.batches[i];
+            for (let index = start; index < end; index++) {
+                const commit = stored[index];
+                if (!seen.has(commit.sha)) {
+                    seen.add(commit.sha);
+                    commits.push(commit);
+                }
+            }
+            end = start;
+        }
+
+        return { head: meta.head, coveredSince: meta.coveredSince, truncated: meta.truncated, commits };
+    }
+
+    /** Replace the stored history after a full read. */
+    async replace(repoPath: string, history: StoredHistory): Promise<void> {
+        const dir = this.getRepoDir(repoPath);
+        await fs.mkdir(dir, { recursive: true });
+        await this.writeAtomic(path.join(dir, 'commits.ndjson'), this.toNdjson(history.commits));
+        await this.writeMeta(dir, {
+            version: CommitStore.VERSION,
+            repoPath,
+            head: history.head,
+            coveredSince: history.coveredSince,
+            truncated: history.truncated,
+            batches: [history.commits.length],
+        });
+    }
+
+    /**
+     * Record commits read from `previous.head..head` (newest first) and move
+     * the stored HEAD forward. `previous` is only used when batches are folded.
+     */
+    async append(repoPath: string, previous: StoredHistory, head: string, commits: GitCommit[]): Promise<void> {
+        const dir = this.getRepoDir(repoPath);
+        const metaPath = path.join(dir, 'meta.json');
+        const meta: StoreMeta = JSON.parse(await fs.readFile(metaPath, 'utf8'));
+
+        if (meta.batches.length >= CommitStore.MAX_BATCHES) {
+            await this.replace(repoPath, { ...previous, head, commits: [...commits, ...previous.commits] });
+            return;
+        }
+
+        if (commits.length > 0) {
+            await fs.appendFile(path.join(dir, 'commits.ndjson'), this.toNdjson(commits), 'utf8');
+            meta.batches.push(commits.length);
+        }
+        meta.head = head;
+        await this.writeMeta(dir, meta);
+    }
+
+    async clear(repoPath: string): Promise<void> {
+        await fs.rm(this.getRepoDir(repoPath), { recursive: true, force: true });
+    }
+
+    private getRepoDir(repoPath: string): string {
+        const key = createHash('sha1').update(repoPath).digest('hex').slice(0, 16);
+        return path.join(this.storageDir, 'commit-cache', key);
+    }
+
+    private toNdjson(commits: GitCommit[]): string {
+        return commits.map(commit => JSON.stringify(commit)).join('\n') + (commits.length > 0 ? '\n' : '');
+    }
+
+    private async writeMeta(dir: string, meta: StoreMeta): Promise<void> {
+        await this.writeAtomic(path.join(dir, 'meta.json'), JSON.stringify(meta));
+    }
+
+    private async writeAtomic(filePath: string, content: string): Promise<void> {
+        const tempPath = `${filePath}.tmp`;
+        await fs.writeFile(tempPath, content, 'utf8');
+        await fs.rename(tempPath, filePath);
+    }
+}
@@ -22,6 +22,10 @@ import type {
     TeamInsight,
 } from '../types/expert';
 import { detectBotContributor } from '../utils/bot-detection';
+import { mergeOwnershipWithCommits } from '../utils/git-blame';
+import { describeCommitExclusions } from '../utils/commit-exclusions';
+import { couplingForFile } from '../utils/temporal-coupling';
+import { contributorSignals, normalizeScoringWeights, scoreExpertise } from '../utils/expertise-score';
 import {
     buildFallbackManagementInsights,
     buildFallbackTeamHealthMetrics,
@@ -566,7 +570,7 @@ export class CopilotService {
         const { defineTool } = await loadSdk();
         return [
             defineTool('get_contributors', {
-                description: 'Get all git contributors with their commit counts, additions, deletions, and activity dates.',
+                description: 'Get all git contributors with their commit counts, additions, deletions, activity dates, working-hours profile (local hour/weekday histograms, dominant UTC offset, after-hours and weekend shares), and recencyScore (0-100, commits decayed by age; use it to judge who knows the code today).',
                 parameters: z.object({}),
                 handler: async () => {
                     return JSON.stringify(data.contributors);
@@ -593,8 +597,48 @@ export class CopilotService {
                 },
             }),
 
+            defineTool('get_pull_requests', {
+                description: 'Get pull requests reconstructed from local merge history (GitHub merge commits and squash merges), newest first: number, source branch, author, merger, merge date, and the commits inside. Optionally filter by author or merger name.',
+                parameters: z.object({
+                    person: z.string().optional().describe('Filter by PR author or merger name/email (case-insensitive partial match)'),
+                    limit: z.number().optional().describe('Maximum number of pull requests to return (default 30)'),
+                }),
+                handler: async (args) => {
+                    let pullRequests = data.pullRequests ?? [];
+                    if (args.person) {
+                        const query = args.person.toLowerCase();
+                        const matches = (identity?: { name: string; email: string }) => !!identity && (
+                            identity.name.toLowerCase().includes(query) ||
+                            identity.email.toLowerCase().includes(query)
+                        );
+                        pullRequests = pullRequests.filter(pr => matches(pr.author) || matches(pr.merger));
+                    }
+                    const limit = args.limit ?? 30;
+                    return JSON.stringify({
+                        summary: stats.pullRequests ?? null,
+                        pullRequests: pullRequests.slice(0, limit),
+                    });
+                },
+            }),
+
+            defineTool('get_temporal_coupling', {
+                description: 'Get files that change together ("when you touch X you usually also touch Y"), strongest first: shared commits, support, confidence, whether the files sit in different directories (hidden coupling), and who made the co-changes. Optionally limit to rules involving one file.',
+                parameters: z.object({
+                    file_path: z.string().optional().describe('Only rules where this repository-relative path is on either side'),
+                    limit: z.number().optional().describe('Maximum number of rules to return (default 20)'),
+                }),
+                handler: async (args) => {
+                    let rules = data.temporalCoupling ?? [];
+                    if (args.file_path) {
+                        rules = couplingForFile(rules, args.file_path);
+                    }
+                    const limit = args.limit ?? 20;
+                    return JSON.stringify(rules.slice(0, limit));
+                },
+            }),
+
             defineTool('get_file_experts', {
-                description: 'Get contributors who have modified a specific file, with commit counts and change details.',
+                description: 'Get contributors who have modified a specific file, with commit counts and, when available, surviving lines of current code (git blame).',
                 parameters: z.object({
                     file_path: z.string().describe('Path of the file to find experts for'),
                 }),
@@ -602,22 +646,19 @@ export class CopilotService {
                     const relevantCommits = data.commits.filter(c =>
                         c.files.some(f => f.includes(args.file_path) || args.file_path.includes(f))
                     );
-                    const authorMap = new Map<string, { name: string; email: string; commits: number }>();
-                    for (const commit of relevantCommits) {
-                        const key = commit.author.email;
-                        const existing = authorMap.get(key);
-                        if (existing) {
-                            existing.commits++;
-                        } else {
-                            authorMap.set(key, {
-                                name: commit.author.name,
-                                email: commit.author.email,
-                                commits: 1,
-                            });
-                        }
-                    }
-                    const experts = Array.from(authorMap.values())
-                        .sort((a, b) => b.commits - a.commits);
+                    const ownership = data.fileOwnership?.find(o =>
+                        o.filePath.includes(args.file_path) || args.file_path.includes(o.filePath)
+                    ) ?? null;
+                    const experts = mergeOwnershipWithCommits(relevantCommits, ownership)
+                        .map(author => ownership
+                            ? {
+                                name: author.name,
+                                email: author.email,
+                                commits: author.commits,
+                                survivingLines: author.survivingLines,
+                                lineShare: Math.round(author.lineShare * 100) / 100,
+                            }
+                            : { name: author.name, email: author.email, commits: author.commits });
                     return JSON.stringify(experts);
                 },
             }),
@@ -631,7 +672,7 @@ export class CopilotService {
             }),
 
             defineTool('get_collaboration_patterns', {
-                description: 'Get collaboration data including team size, communication patterns, knowledge sharing scores, and expertise distribution.',
+                description: 'Get measured collaboration data: team size, commit message habits, knowledge sharing scores, expertise distribution by area, and the strongest contributor pairs (shared files and co-authored commits).',
                 parameters: z.object({}),
                 handler: async () => {
                     return JSON.stringify(data.collaborationData);
@@ -649,6 +690,7 @@ export class CopilotService {
             `Repository overview: ${stats.totalFiles} files, ${stats.totalCommits} commits,`,
             `${stats.totalContributors} contributors. Primary languages: ${stats.primaryLanguages.join(', ')}.`,
             `Size category: ${stats.repositorySize}. Recent activity: ${stats.recentActivityLevel}.`,
+            ...(stats.commitExclusions ? [`${describeCommitExclusions(stats.commitExclusions)}; the tools already leave them out.`] : []),
             '',
             'Use the available tools to gather detailed data, then produce a JSON object with this structure:',
             '',
@@ -657,7 +699,6 @@ export class CopilotService {
             '  "experts": [{ "name", "email", "expertise" (0-100), "contributions", "lastCommit" (ISO date),',
             '    "specializations" (string[]), "communicationStyle", "teamRole",',
             '    "hiddenStrengths" (string[]), "idealChallenges" (string[]),',
-            '    "workloadIndicator": "balanced"|"overloaded"|"underutilized",',
             '    "collaborationStyle": "independent"|"collaborative"|"mentoring",',
             '    "riskFactors": string[],',
             '    NOTE: expertise is 0-100, NOT 0-1 }],',
@@ -984,11 +1025,17 @@ export class CopilotService {
         stats: RepositoryStats
     ): ExpertiseAnalysis {
         // Build basic expert profiles from contributor data when AI parsing fails
-        const experts: Expert[] = data.contributors.slice(0, 20).map(c => ({
+        const contributors = data.contributors.slice(0, 20);
+        const scores = scoreExpertise(
+            new Map(contributors.map(c => [c, contributorSignals(c)])),
+            normalizeScoringWeights(vscode.workspace.getConfiguration('teamxray').get('scoringWeights'))
+        );
+        const experts: Expert[] = contributors.map(c => ({
             name: c.name,
             email: c.email,
             isBot: detectBotContributor(c.name, c.email),
-            expertise: Math.min(100, (c.commits / (stats.totalCommits || 1)) * 100),
+            expertise: scores.get(c)?.score ?? 0,
+            scoreBreakdown: scores.get(c),
             contributions: c.commits,
             lastCommit: this.ensureValidDate(c.lastCommit),
             specializations: [],
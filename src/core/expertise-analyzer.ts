@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import axios from 'axios';
 import { RepositoryActivityService } from './repository-activity-service';
 import { CopilotService } from './copilot-service';
@@ -13,7 +15,24 @@ import {
     ManagementInsight,
     TeamHealthMetrics,
     AiAttributionSummary,
-    GitCommit
+    BusFactor,
+    BusFactorReport,
+    CollaborationData,
+    CollaborationEdge,
+    CodeownersDriftReport,
+    CommitExclusionSummary,
+    DirectoryOwnership,
+    FileLineOwnership,
+    FileOwnership,
+    GitAuthor,
+    GitCommit,
+    OrphanedCodeReport,
+    ReconstructedPullRequest,
+    ReviewerSuggestion,
+    ScoringWeights,
+    TemporalCoupling,
+    TimezoneCoverage,
+    WorkingTreeChange
 } from '../types/expert';
 import { ErrorHandler } from '../utils/error-handler';
 import { ResourceManager } from '../utils/resource-manager';
@@ -30,6 +49,64 @@ import {
     normalizeTeamHealthMetrics
 } from '../utils/analysis-enrichment';
 import { GitWorkerClient } from './git-worker-client';
+import { CommitStore } from './commit-store';
+import {
+    getRepositoryDirectories,
+    getRepositoryForPath,
+    getWorkspaceRepositories,
+    toRepositoryRelativePath,
+    type WorkspaceRepository
+} from './workspace-repositories';
+import type { CommitLogQuery, CommitStreamResult } from '../utils/git-log-format';
+import {
+    collectReviewActivity,
+    combineReviewActivity,
+    mapTrailerIdentities,
+    summarizeReviewParticipation,
+    trailerIdentities
+} from '../utils/review-participation';
+import { buildIdentityResolver, clusterIdentities, type IdentityCluster } from '../utils/identity-clustering';
+import { reconstructPullRequests, summarizePullRequests } from '../utils/pull-requests';
+import { buildActivityProfile, computeTimezoneCoverage, measureWorkload } from '../utils/activity-profile';
+import {
+    BLAME_IGNORE_REVS_FILE,
+    compileExclusionPattern,
+    describeCommitExclusions,
+    parseIgnoreRevs,
+    partitionCommits,
+    selectBlameIgnoreRevs,
+    type CommitExclusionContext
+} from '../utils/commit-exclusions';
+import { filterCommitFiles, filterFileInventory, type FileInventoryFilter } from '../utils/file-inventory';
+import { COLLABORATION_WINDOW_DAYS, buildCollaborationData } from '../utils/collaboration-graph';
+import { computeBusFactors, summarizeBusFactorRisk } from '../utils/bus-factor';
+import { buildOwnershipRollup } from '../utils/ownership-rollup';
+import { CODEOWNERS_LOCATIONS, DEFAULT_CODEOWNERS_MIN_SHARE } from '../utils/codeowners';
+import { detectCodeownersDrift } from '../utils/codeowners-drift';
+import { DEFAULT_ORPHANED_INACTIVE_DAYS, detectOrphanedCode } from '../utils/orphaned-code';
+import { suggestReviewers, type FileExpertScores } from '../utils/reviewer-suggestions';
+import { UNCOMMITTED_SHA, fileRecencyScores, mergeOwnershipWithCommits, ownershipFromBlameLines, resolveOwnership, type LineRange } from '../utils/git-blame';
+import { buildLineOwnership } from '../utils/line-ownership';
+import {
+    contributorSignals,
+    fileExpertSignals,
+    normalizeScoringWeights,
+    rankByExpertise,
+    scoreExpertise,
+    type ExpertiseSignals
+} from '../utils/expertise-score';
+import {
+    DEFAULT_HALF_LIFE_DAYS,
+    decayedCommitCounts,
+    relativeScores
+} from '../utils/knowledge-decay';
+import { computeTemporalCoupling } from '../utils/temporal-coupling';
+import {
+    describeAnalysisScope,
+    describeHistoryWindow,
+    scopeToLogQuery,
+    type AnalysisScope
+} from '../utils/analysis-scope';
 
 export interface ExpertiseAnalysis extends AnalysisResult {
     teamDynamics?: TeamDynamics;
@@ -37,13 +114,53 @@ export interface ExpertiseAnalysis extends AnalysisResult {
     managementInsights?: ManagementInsight[];
     teamHealthMetrics?: TeamHealthMetrics;
     aiAttribution?: AiAttributionSummary;
+    /** Root of the git repository this analysis covers (absent in pre-multi-root analyses) */
+    repositoryRoot?: string;
+    /** Explicit revision/date scope; absent for the rolling history window */
+    scope?: AnalysisScope;
+    /** History the analysis covered, e.g. "Last 90 days" or "v2.0..v3.0" */
+    historyLabel?: string;
+    /** Follow-the-sun coverage of the human contributors, from author dates */
+    timezoneCoverage?: TimezoneCoverage;
+    /** Commits left out of expertise scoring, and why */
+    commitExclusions?: CommitExclusionSummary;
+    /** Strongest "files that change together" rules */
+    temporalCoupling?: TemporalCoupling[];
+    /** Owners, bus factor and last activity per folder, from the repository root down */
+    directoryOwnership?: DirectoryOwnership;
+    /** Where the repository's CODEOWNERS disagrees with the history; absent without one */
+    codeownersDrift?: CodeownersDriftReport;
+    /** Files whose experts are all inactive, or that only automation changed */
+    orphanedCode?: OrphanedCodeReport;
 }
 
 /** One in-memory pass over the repo: files, commits, and contributors derived from those commits. */
 interface RepoSnapshot {
     files: string[];
+    /** Every commit in the analysed history — raw totals, PRs, reviews, AI attribution */
     commits: GitCommit[];
+    /** Commits that count towards expertise and ownership (mass changes excluded) */
+    scoredCommits: GitCommit[];
+    /** scoredCommits with file lists narrowed by the inventory filter, for file-level metrics */
+    inventoryCommits: GitCommit[];
     contributors: any[];
+    /** Pull requests reconstructed from the commits' merge topology, newest first */
+    pullRequests: ReconstructedPullRequest[];
+    commitExclusions: CommitExclusionSummary;
+    /** Exclusion rules in effect, with the rule-excluded SHAs blame should ignore */
+    exclusions: CommitExclusionContext;
+    /** SHAs of every excluded commit, for matching per-file histories */
+    excludedShas: Set<string>;
+    /** Files that change together in the scored commits, strongest first */
+    temporalCoupling: TemporalCoupling[];
+    /** Who works with whom, measured from shared files and co-authorship */
+    collaborationData: CollaborationData;
+    /** Truck factor of the repository and its directories, riskiest first */
+    busFactor: BusFactorReport;
+    /** Ownership rolled up the folder hierarchy */
+    directoryOwnership: DirectoryOwnership;
+    /** Alias resolution the snapshot was built with */
+    resolveAuthor: (author: GitAuthor) => GitAuthor;
 }
 
 export interface TeamDynamics {
@@ -79,9 +196,33 @@ export class ExpertiseAnalyzer {
     private copilotService: CopilotService | null;
     private tokenManager: TokenManager;
     private resourceManager: ResourceManager;
-    private gitService: GitService | null = null;
     private gitWorkerClient: GitWorkerClient | null = null;
-    private snapshotCache: { head: string; windowDays: number; snapshot: RepoSnapshot } | null = null;
+    private commitStore: CommitStore | null = null;
+    // Keyed by repository root so multi-root workspaces keep one snapshot per repo
+    private snapshotCache = new Map<string, {
+        head: string;
+        historyKey: string;
+        exclusionKey: string;
+        filesKey: string;
+        resolveIdentities: boolean;
+        snapshot: RepoSnapshot;
+    }>();
+    private static readonly ANALYSES_KEY = 'analysesByRepository';
+    private static readonly LEGACY_ANALYSIS_KEY = 'lastAnalysis';
+
+    // Blame is one git process per file, so repository-wide ownership is
+    // computed for a bounded sample; Find Expert blames the file on demand
+    private readonly OWNERSHIP_FILE_LIMIT = 40;
+    // Coupling rules kept for the Copilot tool; stored analyses keep fewer
+    private readonly COUPLING_RULE_LIMIT = 200;
+    private readonly STORED_COUPLING_LIMIT = 50;
+    // Riskiest directories kept with a stored analysis
+    private readonly STORED_BUS_FACTOR_LIMIT = 30;
+    // Orphaned files kept with a stored analysis, for the report and on-open warnings
+    private readonly STORED_ORPHANED_FILE_LIMIT = 500;
+    // Reviewer suggestions read each changed file's history, so only the
+    // largest changes are looked at
+    private readonly REVIEWER_FILE_LIMIT = 25;
 
     // Limits for different repository sizes
     private readonly SIZE_LIMITS = {
@@ -108,15 +249,21 @@ export class ExpertiseAnalyzer {
      * Analyzes repository expertise using local git analysis and AI analysis
      * Now with smart data chunking for large repositories
      * @param onDelta Optional callback to stream incremental analysis chunks to the UI
+     * @param repository Repository to analyze; defaults to the first workspace repository
+     * @param scope Revision/date range to analyze instead of the rolling history window
      */
-    async analyzeRepository(onDelta?: (chunk: string) => void): Promise<ExpertiseAnalysis | null> {
+    async analyzeRepository(
+        onDelta?: (chunk: string) => void,
+        repository?: WorkspaceRepository,
+        scope?: AnalysisScope
+    ): Promise<ExpertiseAnalysis | null> {
         return await ErrorHandler.withErrorHandling(async () => {
             this.outputChannel.show();
             this.outputChannel.appendLine('🚀 Starting repository expertise analysis...');
 
             // Step 1: Validate workspace
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const target = repository ?? (await getWorkspaceRepositories())[0];
+            if (!target) {
                 throw ErrorHandler.createError(
                     'VALIDATION_ERROR',
                     'No workspace folder found',
@@ -125,8 +272,11 @@ export class ExpertiseAnalyzer {
                 );
             }
 
-            const repositoryName = workspaceFolder.name;
-            this.outputChannel.appendLine(`📊 Analyzing repository: ${repositoryName}`);
+            const repositoryName = target.name;
+            const historyLabel = scope
+                ? describeAnalysisScope(scope)
+                : describeHistoryWindow(vscode.workspace.getConfiguration('teamxray').get<number>('historyWindowDays', 90));
+            this.outputChannel.appendLine(`📊 Analyzing repository: ${repositoryName} (${historyLabel})`);
 
             // Step 2: Validate GitHub token (only required when Copilot SDK is unavailable)
             const hasCopilot = this.copilotService?.isAvailable() ?? false;
@@ -140,7 +290,7 @@ export class ExpertiseAnalyzer {
             // Step 3: Collect repository data once (files + commits in parallel,
             // contributors derived in memory) and assess size from it
             const snapshotStart = Date.now();
-            const snapshot = await this.collectRepoSnapshot();
+            const snapshot = await this.collectRepoSnapshot(target, scope);
             const snapshotMs = Date.now() - snapshotStart;
 
             const repoStats = this.assessRepositorySize(snapshot);
@@ -159,6 +309,13 @@ export class ExpertiseAnalyzer {
                 );
             }
 
+            // Step 4b: Line-level ownership for a sample of files (blame mode).
+            // Blame reflects HEAD, not the end of an explicit range, so scoped
+            // analyses rank by the commits inside the scope instead
+            repositoryData.fileOwnership = scope
+                ? []
+                : await this.collectFileOwnership(target.rootPath, repositoryData.files, snapshot.exclusions);
+
             // Step 5: Perform AI analysis with chunking for large repos
             const aiStart = Date.now();
             const analysis = await this.performSmartAIAnalysis(repositoryData, repoStats, onDelta);
@@ -175,6 +332,15 @@ export class ExpertiseAnalyzer {
             // Attach git-derived AI attribution and expert classifications —
             // computed locally, independent of what the AI returned
             this.enrichAnalysisWithAttribution(analysis, repositoryData);
+            this.applyFileOwnership(analysis, repositoryData.fileOwnership ?? [], snapshot.scoredCommits, snapshot.resolveAuthor);
+            this.applyExpertiseScores(analysis, repositoryData);
+            this.applyBusFactors(analysis, repositoryData);
+            analysis.codeownersDrift = await this.checkCodeownersDrift(target.rootPath, snapshot);
+            analysis.orphanedCode = await this.findOrphanedCode(snapshot, target.rootPath, scope);
+            analysis.repositoryRoot = target.rootPath;
+            analysis.scope = scope;
+            analysis.historyLabel = historyLabel;
+            analysis.commitExclusions = repoStats.commitExclusions;
 
             this.outputChannel.appendLine(
                 `⏱ Timings: snapshot ${snapshotMs}ms · sampling ${samplingMs}ms · ai ${Math.round(aiMs / 1000)}s`
@@ -191,16 +357,35 @@ export class ExpertiseAnalyzer {
      * stats) are derived from the commit list in memory instead of separate
      * `git shortlog` + per-author date invocations. Results are cached keyed
      * on HEAD and the configured history window, so repeated commands within
-     * a session cost a single `git rev-parse`.
+     * a session cost a single `git rev-parse`; across sessions the on-disk
+     * CommitStore means only commits since the last seen HEAD are read.
+     * Contributors are derived from the scored commits only, so mass changes
+     * (reformatting sweeps, vendored drops) make nobody an expert.
      */
-    private async collectRepoSnapshot(): Promise<RepoSnapshot> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return { files: [], commits: [], contributors: [] };
+    private async collectRepoSnapshot(repository: WorkspaceRepository | null, scope?: AnalysisScope): Promise<RepoSnapshot> {
+        if (!repository) {
+            return {
+                files: [],
+                commits: [],
+                scoredCommits: [],
+                inventoryCommits: [],
+                contributors: [],
+                pullRequests: [],
+                commitExclusions: { excluded: 0, byReason: {} },
+                exclusions: { rules: { ignoreRevs: new Set(), excludeMerges: false }, blame: {} },
+                excludedShas: new Set(),
+                temporalCoupling: [],
+                collaborationData: buildCollaborationData([]),
+                busFactor: computeBusFactors([]),
+                directoryOwnership: buildOwnershipRollup([]),
+                resolveAuthor: author => author
+            };
         }
 
-        const repoPath = workspaceFolder.uri.fsPath;
-        const windowDays = vscode.workspace.getConfiguration('teamxray').get<number>('historyWindowDays', 90);
+        const repoPath = repository.rootPath;
+        const historyKey = scope
+            ? await this.getScopeCacheKey(repoPath, scope)
+            : `window:${vscode.workspace.getConfiguration('teamxray').get<number>('historyWindowDays', 90)}`;
 
         let head = '';
         try {
@@ -209,38 +394,97 @@ export class ExpertiseAnalyzer {
             // Not a git repo or git unavailable — proceed uncached
         }
 
-        if (head && this.snapshotCache &&
-            this.snapshotCache.head === head &&
-            this.snapshotCache.windowDays === windowDays) {
+        const exclusionRules = await this.loadCommitExclusionRules(repoPath);
+        const exclusionKey = this.getExclusionKey(exclusionRules);
+        const fileFilter = this.getFileInventoryFilter();
+        const filesKey = JSON.stringify(fileFilter);
+        const resolveIdentities = this.isIdentityResolutionEnabled();
+        const cached = this.snapshotCache.get(repoPath);
+        if (head && cached && cached.head === head && cached.historyKey === historyKey
+            && cached.exclusionKey === exclusionKey && cached.filesKey === filesKey
+            && cached.resolveIdentities === resolveIdentities) {
             this.outputChannel.appendLine('⚡ Using cached repository snapshot (HEAD unchanged)');
-            return this.snapshotCache.snapshot;
+            return cached.snapshot;
         }
 
-        const [files, commits] = await Promise.all([
-            this.getWorkspaceFiles(),
-            this.getLocalGitCommits()
+        const [files, loggedCommits] = await Promise.all([
+            this.getWorkspaceFiles(repository, fileFilter),
+            scope ? this.getScopedGitCommits(repoPath, scope) : this.getLocalGitCommits(repoPath, head)
         ]);
+        const commits = await this.applyMailmapToTrailers(repoPath, loggedCommits);
+
+        const { scored, excluded, summary } = partitionCommits(commits, exclusionRules.rules);
+        if (summary.excluded > 0) {
+            this.outputChannel.appendLine(`🧹 ${describeCommitExclusions(summary)}`);
+        }
 
-        let contributors = this.extractContributorsFromCommits(commits);
-        if (contributors.length === 0) {
+        const resolveAuthor = this.buildAuthorResolver(commits);
+        let contributors = this.extractContributorsFromCommits(scored, commits, resolveAuthor);
+        // shortlog covers all of HEAD, so it is no stand-in for an empty scope
+        if (commits.length === 0 && !scope) {
             // Degenerate case (no parseable commits) — fall back to shortlog
-            contributors = await this.getLocalGitContributors();
+            contributors = await this.getLocalGitContributors(repoPath);
         }
 
-        const snapshot: RepoSnapshot = { files, commits, contributors };
+        // Coupling, authorship and ownership see only the files that count
+        const inventoryCommits = filterCommitFiles(scored, fileFilter);
+        const snapshot: RepoSnapshot = {
+            files,
+            commits,
+            scoredCommits: scored,
+            inventoryCommits,
+            contributors,
+            pullRequests: reconstructPullRequests(commits),
+            commitExclusions: summary,
+            exclusions: {
+                rules: exclusionRules.rules,
+                blame: { ...exclusionRules.blame, ignoreRevs: selectBlameIgnoreRevs(excluded, exclusionRules.rules) }
+            },
+            excludedShas: new Set(excluded.map(commit => commit.sha.toLowerCase())),
+            temporalCoupling: computeTemporalCoupling(inventoryCommits, {
+                limit: this.COUPLING_RULE_LIMIT,
+                resolveAuthor
+            }),
+            collaborationData: buildCollaborationData(inventoryCommits, { resolveAuthor }),
+            busFactor: computeBusFactors(inventoryCommits, { resolveAuthor, files }),
+            directoryOwnership: buildOwnershipRollup(inventoryCommits, { resolveAuthor, files }),
+            resolveAuthor
+        };
         if (head) {
-            this.snapshotCache = { head, windowDays, snapshot };
+            this.snapshotCache.set(repoPath, { head, historyKey, exclusionKey, filesKey, resolveIdentities, snapshot });
         }
         return snapshot;
     }
 
+    /**
+     * Git maps commit authors through .mailmap but leaves trailer identities
+     * (Co-authored-by, Reviewed-by, ...) as written; map them the same way so
+     * a reviewer is recognised under any of their addresses. Best-effort:
+     * without a mailmap or on failure the commits are returned as they are.
+     */
+    private async applyMailmapToTrailers(repoPath: string, commits: GitCommit[]): Promise<GitCommit[]> {
+        const identities = trailerIdentities(commits);
+        if (identities.length === 0) {
+            return commits;
+        }
+        try {
+            const mapped = await GitService.getInstance(repoPath, this.outputChannel).checkMailmap(identities);
+            return mapped.size === 0
+                ? commits
+                : mapTrailerIdentities(commits, identity => mapped.get(`${identity.name}\0${identity.email}`) ?? identity);
+        } catch (error) {
+            this.outputChannel.appendLine(`⚠️ Could not apply .mailmap to commit trailers: ${error}`);
+            return commits;
+        }
+    }
+
     /**
      * Assesses repository size and characteristics to determine analysis strategy.
      * Pure computation over an already-collected snapshot — no git/FS access.
      */
     private assessRepositorySize(snapshot: RepoSnapshot): RepositoryStats {
         try {
-            const { files, commits, contributors } = snapshot;
+            const { files, commits, contributors, pullRequests } = snapshot;
 
             // Determine repository size
             let repositorySize: 'small' | 'medium' | 'large' | 'enterprise' = 'small';
@@ -255,7 +499,7 @@ export class ExpertiseAnalyzer {
             // Determine primary languages
             const languageCount: Record<string, number> = {};
             files.forEach(file => {
-                const ext = file.split('.').pop()?.toLowerCase();
+                const ext = this.getLanguageKey(file);
                 if (ext) {
                     languageCount[ext] = (languageCount[ext] || 0) + 1;
                 }
@@ -280,6 +524,10 @@ export class ExpertiseAnalyzer {
                 recentActivityLevel = 'medium';
             }
 
+            const automationBotEmails = new Set(contributors
+                .filter(c => c.contributorKind === 'automation-bot')
+                .map(c => String(c.email).toLowerCase()));
+
             return {
                 totalFiles: files.length,
                 totalCommits: commits.length,
@@ -288,7 +536,10 @@ export class ExpertiseAnalyzer {
                 recentActivity: recentCommits.length,
                 primaryLanguages,
                 recentActivityLevel,
-                repositorySize
+                repositorySize,
+                reviewParticipation: summarizeReviewParticipation(commits, automationBotEmails, snapshot.resolveAuthor),
+                pullRequests: summarizePullRequests(pullRequests),
+                commitExclusions: snapshot.commitExclusions.excluded > 0 ? snapshot.commitExclusions : undefined
             };
 
         } catch (error) {
@@ -325,11 +576,36 @@ export class ExpertiseAnalyzer {
             'rb': 'Ruby',
             'php': 'PHP',
             'swift': 'Swift',
-            'kt': 'Kotlin'
+            'kt': 'Kotlin',
+            'md': 'Markdown',
+            'yml': 'YAML',
+            'yaml': 'YAML',
+            'json': 'JSON',
+            'tf': 'Terraform',
+            'sql': 'SQL',
+            'sh': 'Shell',
+            'html': 'HTML',
+            'css': 'CSS',
+            'scss': 'SCSS',
+            'dockerfile': 'Dockerfile',
+            'makefile': 'Makefile'
         };
         return languageMap[ext] || ext.toUpperCase();
     }
 
+    /**
+     * Lowercased extension of a path's file name, or the name itself for
+     * well-known extensionless files (Dockerfile, Makefile); undefined otherwise.
+     */
+    private getLanguageKey(file: string): string | undefined {
+        const name = (file.split('/').pop() ?? '').toLowerCase();
+        const dot = name.lastIndexOf('.');
+        if (dot > 0) {
+            return name.slice(dot + 1);
+        }
+        return name === 'dockerfile' || name === 'makefile' ? name : undefined;
+    }
+
     /**
      * Gathers repository data with size-appropriate limits
      */
@@ -340,7 +616,7 @@ export class ExpertiseAnalyzer {
             const limits = this.SIZE_LIMITS[repoStats.repositorySize];
             this.outputChannel.appendLine(`🎯 Using ${repoStats.repositorySize} repo limits: ${limits.files} files, ${limits.contributors} contributors, ${limits.commits} commits`);
 
-            const { files: allFiles, commits: allCommits, contributors: allContributors } = snapshot;
+            const { files: allFiles, commits: allCommits, scoredCommits, contributors: allContributors, pullRequests, temporalCoupling, collaborationData, busFactor, directoryOwnership } = snapshot;
 
             // Bot-aware split: automation bots (Dependabot, Renovate, …) are
             // aggregated into a one-line summary instead of occupying top
@@ -350,12 +626,21 @@ export class ExpertiseAnalyzer {
             const analyzableContributors = allContributors.filter(c => c.contributorKind !== 'automation-bot');
             const botEmails = new Set(automationBots.map(c => c.email));
 
-            const analyzableCommits = allCommits.filter(c => !botEmails.has(c.author?.email));
+            // Excluded mass changes say nothing about who knows the code
+            const analyzableCommits = scoredCommits.filter(c => !botEmails.has(c.author?.email));
+
+            // Older commits count for less, so people who still know the
+            // code outrank those who wrote a lot of it long ago
+            const halfLifeDays = this.getKnowledgeHalfLife();
+            const recency = halfLifeDays > 0
+                ? relativeScores(decayedCommitCounts(analyzableCommits, { halfLifeDays, resolveAuthor: snapshot.resolveAuthor }))
+                : new Map<string, number>();
+            const withRecency = (c: any) => ({ ...c, recencyScore: recency.get(String(c.email ?? '').toLowerCase()) });
 
             // Apply intelligent sampling
             const files = this.sampleFiles(allFiles, limits.files);
             const commits = this.sampleCommits(analyzableCommits, limits.commits);
-            const contributors = this.sampleContributors(analyzableContributors, limits.contributors);
+            const contributors = this.sampleContributors(analyzableContributors, limits.contributors).map(withRecency);
 
             const botSummary = automationBots
                 .map(c => `${c.name}: ${c.commits} automated commits`)
@@ -375,11 +660,15 @@ export class ExpertiseAnalyzer {
                 files,
                 commits,
                 contributors,
-                pullRequests: [],
+                pullRequests,
+                temporalCoupling,
+                collaborationData,
+                busFactor,
+                directoryOwnership,
                 repositoryStats: repoStats,
                 botSummary,
                 aiAttribution,
-                allContributors,
+                allContributors: allContributors.map(withRecency),
                 samplingApplied: {
                     originalFiles: allFiles.length,
                     originalCommits: allCommits.length,
@@ -453,13 +742,392 @@ export class ExpertiseAnalyzer {
                 expert.contributorKind = contributor.contributorKind ?? expert.contributorKind;
                 expert.aiAssistRate = contributor.aiAssistRate ?? expert.aiAssistRate;
                 expert.agentName = contributor.agentName ?? expert.agentName;
+                if (typeof contributor.additions === 'number' && typeof contributor.deletions === 'number') {
+                    expert.additions = contributor.additions;
+                    expert.deletions = contributor.deletions;
+                }
+                if (contributor.reviews) {
+                    expert.reviews = contributor.reviews;
+                }
                 if (contributor.contributorKind === 'ai-agent' || contributor.contributorKind === 'automation-bot') {
                     expert.isBot = true;
                 }
             }
+            // Measured from commit times or left unset — never the model's guess
+            expert.activity = contributor?.activity;
+            expert.recencyScore = contributor?.recencyScore;
+            expert.workloadIndicator = expert.isBot ? undefined : measureWorkload(expert.activity);
+        }
+
+        const humans = new Map<string, Expert>();
+        for (const expert of [...(analysis.expertProfiles ?? []), ...(analysis.experts ?? [])]) {
+            if (!expert.isBot && expert.activity) {
+                humans.set(String(expert.email).toLowerCase(), expert);
+            }
+        }
+        analysis.timezoneCoverage = computeTimezoneCoverage(Array.from(humans.values()));
+        analysis.temporalCoupling = (repositoryData.temporalCoupling ?? []).slice(0, this.STORED_COUPLING_LIMIT);
+        if (repositoryData.directoryOwnership?.files > 0) {
+            analysis.directoryOwnership = repositoryData.directoryOwnership;
         }
     }
 
+    /**
+     * Replace the AI's expertise numbers with the measured score for every
+     * expert that matches a contributor, keeping the breakdown behind it.
+     * Runs after blame so surviving lines count.
+     */
+    private applyExpertiseScores(analysis: ExpertiseAnalysis, repositoryData: any): void {
+        const byEmail = new Map<string, any>(
+            (repositoryData.allContributors ?? repositoryData.contributors ?? [])
+                .map((c: any) => [String(c.email ?? '').toLowerCase(), c])
+        );
+        const experts = [...(analysis.expertProfiles ?? []), ...(analysis.experts ?? [])];
+
+        const signals = new Map<string, ExpertiseSignals>();
+        for (const expert of experts) {
+            const email = String(expert.email ?? '').toLowerCase();
+            const contributor = byEmail.get(email);
+            if (contributor) {
+                signals.set(email, { ...contributorSignals(contributor), survivingLines: expert.survivingLines });
+            }
+        }
+
+        const scores = scoreExpertise(signals, this.getScoringWeights());
+        for (const expert of experts) {
+            const breakdown = scores.get(String(expert.email ?? '').toLowerCase());
+            if (breakdown) {
+                expert.expertise = breakdown.score;
+                expert.scoreBreakdown = breakdown;
+            }
+        }
+    }
+
+    /**
+     * Attach the measured truck factors to the team health metrics and let
+     * them replace the model's single points of failure and risk score.
+     */
+    private applyBusFactors(analysis: ExpertiseAnalysis, repositoryData: any): void {
+        const report: BusFactorReport | undefined = repositoryData.busFactor;
+        if (!report || report.repository.files === 0) {
+            return;
+        }
+        const metrics = analysis.teamHealthMetrics
+            ?? buildFallbackTeamHealthMetrics(analysis.expertProfiles ?? analysis.experts ?? [], repositoryData.repositoryStats);
+        const { singlePointsOfFailure, riskScore } = summarizeBusFactorRisk(report);
+        metrics.knowledgeDistribution.singlePointsOfFailure = singlePointsOfFailure;
+        metrics.knowledgeDistribution.riskScore = riskScore;
+        metrics.busFactor = {
+            repository: report.repository,
+            scopes: report.scopes.slice(0, this.STORED_BUS_FACTOR_LIMIT)
+        };
+        analysis.teamHealthMetrics = metrics;
+    }
+
+    /**
+     * Compare the repository's CODEOWNERS, wherever GitHub would find it,
+     * with the scored history. Undefined when there is no such file.
+     */
+    private async checkCodeownersDrift(repoPath: string, snapshot: RepoSnapshot): Promise<CodeownersDriftReport | undefined> {
+        for (const location of CODEOWNERS_LOCATIONS) {
+            let content: string;
+            try {
+                content = await fs.promises.readFile(path.join(repoPath, location), 'utf8');
+            } catch {
+                continue;
+            }
+            const report = detectCodeownersDrift(location, content, snapshot.inventoryCommits, {
+                files: snapshot.files,
+                resolveAuthor: snapshot.resolveAuthor,
+                minShare: vscode.workspace.getConfiguration('teamxray').get<number>('codeownersMinShare', DEFAULT_CODEOWNERS_MIN_SHARE)
+            });
+            this.outputChannel.appendLine(`📋 ${location}: ${report.issues.length} drift issue${report.issues.length === 1 ? '' : 's'}`);
+            return report;
+        }
+        return undefined;
+    }
+
+    /**
+     * Files whose experts have all been inactive for longer than
+     * `teamxray.orphanedCodeInactiveDays`, or that no human ever changed.
+     * Judged against the repository's full history, not the analysed window
+     * or scope: a window no longer than the threshold holds nobody who has
+     * been gone that long, and files untouched in it would go unchecked.
+     * The full read is cached in the commit store, so later windowed reads
+     * are served from it.
+     */
+    private async findOrphanedCode(snapshot: RepoSnapshot, repoPath: string, scope?: AnalysisScope): Promise<OrphanedCodeReport> {
+        const config = vscode.workspace.getConfiguration('teamxray');
+        const inactiveDays = Math.max(1, config.get<number>('orphanedCodeInactiveDays', DEFAULT_ORPHANED_INACTIVE_DAYS));
+        let commits = snapshot.inventoryCommits;
+        let resolveAuthor = snapshot.resolveAuthor;
+        if (scope || this.getHistoryWindowSinceDate()) {
+            try {
+                const head = await this.getOrCreateWorkerClient().getHead(repoPath);
+                const history = partitionCommits(await this.loadCommitHistory(repoPath, head), snapshot.exclusions.rules).scored;
+                commits = filterCommitFiles(history, this.getFileInventoryFilter());
+                resolveAuthor = this.buildAuthorResolver(history);
+            } catch (error) {
+                this.outputChannel.appendLine(`⚠️ Could not read full history for orphaned code, using the analysed history: ${error}`);
+            }
+        }
+        const report = detectOrphanedCode(commits, {
+            inactiveDays,
+            contributors: snapshot.contributors,
+            resolveAuthor,
+            files: snapshot.files
+        });
+        this.outputChannel.appendLine(`🏚 ${report.orphanedFiles} orphaned file${report.orphanedFiles === 1 ? '' : 's'} (experts inactive > ${inactiveDays} days, or no human changes)`);
+        return {
+            ...report,
+            files: report.files.slice(0, this.STORED_ORPHANED_FILE_LIMIT)
+        };
+    }
+
+    private isIdentityResolutionEnabled(): boolean {
+        return vscode.workspace.getConfiguration('teamxray').get<boolean>('resolveIdentities', true);
+    }
+
+    /** Maps likely aliases to one identity, or is the identity when resolution is off. */
+    private buildAuthorResolver(commits: GitCommit[]): (author: GitAuthor) => GitAuthor {
+        return this.isIdentityResolutionEnabled()
+            ? buildIdentityResolver(clusterIdentities(commits))
+            : author => author;
+    }
+
+    /**
+     * The alias resolver of the repository's cached snapshot, for lookups
+     * that should not trigger a full history read. Identity when uncached.
+     */
+    private getCachedAuthorResolver(repoPath: string): (author: GitAuthor) => GitAuthor {
+        return this.snapshotCache.get(repoPath)?.snapshot.resolveAuthor ?? (author => author);
+    }
+
+    /**
+     * Likely aliases of the same person in the repository's analysed history,
+     * for the .mailmap suggestion command.
+     */
+    async suggestIdentityClusters(repository: WorkspaceRepository): Promise<IdentityCluster[]> {
+        const snapshot = await this.collectRepoSnapshot(repository);
+        return clusterIdentities(snapshot.commits);
+    }
+
+    /**
+     * Drop cached history for a repository so the next analysis re-reads it,
+     * e.g. after a .mailmap change rewrote the identities git reports.
+     */
+    async forgetRepositoryHistory(repositoryRoot: string): Promise<void> {
+        this.snapshotCache.delete(repositoryRoot);
+        await this.getCommitStore()?.clear(repositoryRoot);
+    }
+
+    /**
+     * Exclusion rules from settings plus the repository's
+     * .git-blame-ignore-revs, which blame also reads directly. An invalid
+     * message pattern is reported and ignored rather than failing analysis.
+     */
+    private async loadCommitExclusionRules(repoPath: string): Promise<CommitExclusionContext> {
+        const config = vscode.workspace.getConfiguration('teamxray');
+        const ignoreRevsFile = path.join(repoPath, BLAME_IGNORE_REVS_FILE);
+        let ignoreRevs = new Set<string>();
+        let hasIgnoreRevsFile = false;
+        try {
+            ignoreRevs = parseIgnoreRevs(await fs.promises.readFile(ignoreRevsFile, 'utf8'));
+            hasIgnoreRevsFile = true;
+        } catch {
+            // No ignore list — nothing to honour
+        }
+
+        const patternSource = config.get<string>('excludeCommitPattern', '');
+        const messagePattern = compileExclusionPattern(patternSource);
+        if (patternSource.trim() && !messagePattern) {
+            this.outputChannel.appendLine(`⚠️ Ignoring invalid teamxray.excludeCommitPattern: ${patternSource}`);
+        }
+
+        return {
+            rules: {
+                ignoreRevs,
+                messagePattern,
+                maxFilesPerCommit: Math.max(0, config.get<number>('maxFilesPerCommit', 100)),
+                excludeMerges: config.get<boolean>('excludeMergeCommits', true)
+            },
+            blame: hasIgnoreRevsFile ? { ignoreRevsFile } : {}
+        };
+    }
+
+    private getExclusionKey({ rules }: CommitExclusionContext): string {
+        return [
+            rules.messagePattern?.source ?? '',
+            rules.maxFilesPerCommit ?? 0,
+            rules.excludeMerges,
+            Array.from(rules.ignoreRevs).sort().join(',')
+        ].join('|');
+    }
+
+    /**
+     * Exclusions for a single file's history. Per-file logs list only that
+     * file, so mass changes are recognised by SHA from the repository
+     * snapshot when one is cached; the ignore list and message pattern
+     * apply regardless.
+     */
+    private async getFileHistoryExclusions(repoPath: string): Promise<CommitExclusionContext> {
+        const current = await this.loadCommitExclusionRules(repoPath);
+        const cached = this.snapshotCache.get(repoPath);
+        if (!cached || cached.exclusionKey !== this.getExclusionKey(current)) {
+            return current;
+        }
+        return {
+            rules: { ...current.rules, ignoreRevs: new Set([...current.rules.ignoreRevs, ...cached.snapshot.excludedShas]) },
+            blame: cached.snapshot.exclusions.blame
+        };
+    }
+
+    /** Knowledge half-life in days; 0 turns recency weighting off. */
+    private getKnowledgeHalfLife(): number {
+        return Math.max(0, vscode.workspace.getConfiguration('teamxray').get<number>('knowledgeHalfLifeDays', DEFAULT_HALF_LIFE_DAYS));
+    }
+
+    private getScoringWeights(): ScoringWeights {
+        return normalizeScoringWeights(vscode.workspace.getConfiguration('teamxray').get('scoringWeights'));
+    }
+
+    private getOwnershipMode(): 'blame' | 'commits' {
+        const mode = vscode.workspace.getConfiguration('teamxray').get<string>('ownershipMode', 'blame');
+        return mode === 'commits' ? 'commits' : 'blame';
+    }
+
+    /**
+     * Blame a bounded sample of files in the worker, looking through excluded
+     * commits. Returns an empty list in commits mode or when blame fails, so
+     * callers degrade to commit counts.
+     */
+    private async collectFileOwnership(repoPath: string, files: string[], exclusions: CommitExclusionContext): Promise<FileOwnership[]> {
+        if (this.getOwnershipMode() !== 'blame' || files.length === 0) {
+            return [];
+        }
+        try {
+            const sample = this.sampleFiles(files, this.OWNERSHIP_FILE_LIMIT);
+            const ownership = await this.getOrCreateWorkerClient().getFileOwnership(repoPath, sample, exclusions.blame);
+            this.outputChannel.appendLine(`🧬 Computed line ownership for ${ownership.length}/${sample.length} files`);
+            return ownership;
+        } catch (error) {
+            this.outputChannel.appendLine(`⚠️ Blame ownership unavailable, using commit counts: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Replace file expertise for blamed files with experts scored from
+     * surviving lines and the files' commits, and total each expert's
+     * surviving lines across the blamed sample. Aliases merge first.
+     */
+    private applyFileOwnership(
+        analysis: ExpertiseAnalysis,
+        ownership: FileOwnership[],
+        commits: GitCommit[],
+        resolveAuthor: (author: GitAuthor) => GitAuthor
+    ): void {
+        if (ownership.length === 0) {
+            return;
+        }
+
+        const commitsByFile = new Map(ownership.map(file => [file.filePath, [] as GitCommit[]]));
+        for (const commit of commits) {
+            for (const file of new Set(commit.files ?? [])) {
+                commitsByFile.get(file)?.push(commit);
+            }
+        }
+
+        const experts = [...(analysis.expertProfiles ?? []), ...(analysis.experts ?? [])];
+        const linesByEmail = new Map<string, number>();
+        const ownedFiles: FileExpertise[] = ownership
+            .filter(file => file.totalLines > 0)
+            .map(file => resolveOwnership(file, resolveAuthor))
+            .map(file => {
+                for (const owner of file.owners) {
+                    const key = owner.email.toLowerCase();
+                    linesByEmail.set(key, (linesByEmail.get(key) ?? 0) + owner.lines);
+                }
+                return {
+                    fileName: file.filePath.split('/').pop() || file.filePath,
+                    filePath: file.filePath,
+                    experts: this.ownershipToExperts(file, experts, commitsByFile.get(file.filePath) ?? [], resolveAuthor).slice(0, 3),
+                    lastModified: new Date(file.owners.reduce(
+                        (latest, owner) => owner.lastCommitDate > latest ? owner.lastCommitDate : latest,
+                        file.owners[0]?.lastCommitDate ?? new Date(0).toISOString()
+                    )),
+                    changeFrequency: 0,
+                    totalLines: file.totalLines,
+                };
+            });
+
+        const ownedPaths = new Set(ownedFiles.map(file => file.filePath));
+        analysis.fileExpertise = [
+            ...ownedFiles,
+            ...(analysis.fileExpertise ?? []).filter(file => !ownedPaths.has(file.filePath)),
+        ];
+
+        for (const expert of experts) {
+            const lines = linesByEmail.get(String(expert.email ?? '').toLowerCase());
+            if (lines !== undefined) {
+                expert.survivingLines = lines;
+            }
+        }
+    }
+
+    /**
+     * Turn a file's blame owners and commit authors into Expert entries,
+     * reusing analysed profiles where the email matches so AI-derived
+     * context carries over. Scored with the same signals as Find Expert on
+     * git history alone (surviving lines, commits, lines changed, reviews
+     * and, with a knowledge half-life, decayed lines), and ordered by that
+     * score.
+     */
+    private ownershipToExperts(
+        ownership: FileOwnership,
+        knownExperts: Expert[],
+        fileCommits: GitCommit[],
+        resolveAuthor: (author: GitAuthor) => GitAuthor
+    ): Expert[] {
+        const halfLifeDays = this.getKnowledgeHalfLife();
+        const authors = mergeOwnershipWithCommits(fileCommits, ownership, { halfLifeDays, resolveAuthor });
+        const scores = scoreExpertise(
+            fileExpertSignals(authors, fileCommits, { hasOwnership: true, decay: halfLifeDays > 0, resolveAuthor }),
+            this.getScoringWeights()
+        );
+        const recency = halfLifeDays > 0 ? fileRecencyScores(authors, true) : undefined;
+
+        const experts = authors.map(author => {
+            const known = knownExperts.find(e => String(e.email ?? '').toLowerCase() === author.email.toLowerCase());
+            const classification = classifyContributor(author.name, author.email);
+            const base: Expert = known ?? {
+                name: author.name,
+                email: author.email,
+                expertise: 0,
+                contributions: author.commits,
+                lastCommit: new Date(author.lastDate),
+                specializations: this.inferSpecializationsFromFile(ownership.filePath),
+                communicationStyle: 'Inferred from commit patterns',
+                teamRole: 'Contributor',
+                hiddenStrengths: [],
+                idealChallenges: [],
+                isBot: classification.kind === 'ai-agent' || classification.kind === 'automation-bot',
+                contributorKind: classification.kind,
+                agentName: classification.agentName,
+            };
+            const breakdown = scores.get(author.email.toLowerCase());
+            return {
+                ...base,
+                expertise: breakdown?.score ?? 0,
+                scoreBreakdown: breakdown,
+                survivingLines: author.survivingLines,
+                recencyScore: recency?.get(author.email.toLowerCase()),
+            };
+        });
+
+        return rankByExpertise(experts);
+    }
+
     /**
      * Intelligently samples files to include diverse types and important files
      */
@@ -603,17 +1271,10 @@ export class ExpertiseAnalyzer {
             commits: raw.commits ?? [],
             contributors: raw.contributors ?? [],
             stats,
-            collaborationData: {
-                teamSize: (raw.contributors ?? []).length,
-                communicationPatterns: (raw.contributors ?? []).map((c: any) => ({
-                    author: c.name,
-                    frequency: c.commits ?? 0,
-                    style: 'technical' as const,
-                    avgMessageLength: 50,
-                })),
-                knowledgeSharing: [],
-                expertiseDistribution: [],
-            },
+            collaborationData: raw.collaborationData ?? buildCollaborationData(raw.commits ?? []),
+            fileOwnership: raw.fileOwnership ?? [],
+            pullRequests: raw.pullRequests ?? [],
+            temporalCoupling: raw.temporalCoupling ?? [],
         };
     }
 
@@ -850,9 +1511,16 @@ export class ExpertiseAnalyzer {
         const maxFiles = Math.min(repositoryData.files.length, 15);
 
         const contributorsInfo = repositoryData.contributors.slice(0, maxContributors)
-            .map((c: any) => `${c.name} (${c.email}) - ${c.commits} commits`)
+            .map((c: any) => `${c.name} (${c.email}) - ${c.commits} commits` +
+                (c.recencyScore !== undefined ? `, current knowledge ${c.recencyScore}/100` : '') +
+                (c.additions || c.deletions ? `, +${c.additions}/-${c.deletions} lines` : '') +
+                (c.reviews?.reviewed || c.reviews?.acked ? `, reviewed ${c.reviews.reviewed + c.reviews.acked} others' commits` : ''))
             .join('\n');
 
+        const recencyNote = repositoryData.contributors.some((c: any) => c.recencyScore !== undefined)
+            ? '; current knowledge decays older commits, 100 is the most current person, so rank experts by it'
+            : '';
+
         const recentCommitMessages = repositoryData.commits.slice(0, maxCommits)
             .map((c: any) => `${c.author.name}: ${c.message.substring(0, 100)}`)
             .join('\n');
@@ -868,6 +1536,42 @@ export class ExpertiseAnalyzer {
         const botInfo = repositoryData.botSummary
             ? `\nAutomation bots (excluded from team profiles): ${repositoryData.botSummary}\n`
             : '';
+        const prs = repoStats.pullRequests;
+        const pullRequestInfo = prs && prs.total > 0
+            ? `\nPull Requests (reconstructed from merge history): ${prs.total} merged, ${prs.perWeek.toFixed(1)}/week` +
+              (prs.attributedMerges > 0 ? `, ${prs.mergedByOthers}/${prs.attributedMerges} merge commits by someone other than the author` : '') +
+              (prs.medianHoursToMerge !== undefined ? `, median ${Math.round(prs.medianHoursToMerge)}h from first commit to merge` : '') +
+              '.\n'
+            : '';
+        const exclusionSummary = describeCommitExclusions(repoStats.commitExclusions);
+        const exclusionInfo = exclusionSummary
+            ? `\nMass changes: ${exclusionSummary}. They are left out of the data above; do not credit expertise from them.\n`
+            : '';
+        const hiddenCoupling = (repositoryData.temporalCoupling ?? [])
+            .filter((rule: TemporalCoupling) => rule.crossModule)
+            .slice(0, 5);
+        const couplingInfo = hiddenCoupling.length > 0
+            ? '\nHidden coupling (files in different directories that change together):\n' +
+              hiddenCoupling.map((rule: TemporalCoupling) =>
+                  `${rule.file} -> ${rule.coupledFile}: ${Math.round(rule.confidence * 100)}% of the time, ${rule.coChanges} commits, by ${rule.authors.map(author => author.name).join(', ')}`
+              ).join('\n') + '\n'
+            : '';
+        const busFactor: BusFactorReport | undefined = repositoryData.busFactor;
+        const riskiest = (busFactor?.scopes ?? []).filter(scope => scope.busFactor <= 1).slice(0, 5);
+        const busFactorInfo = busFactor && busFactor.repository.files > 0
+            ? `\nBus factor (fewest people whose departure orphans over half the files): ${busFactor.repository.busFactor} for the repository` +
+              (busFactor.repository.keyPeople.length > 0 ? ` (${busFactor.repository.keyPeople.join(', ')})` : '') + '.\n' +
+              riskiest.map((scope: BusFactor) =>
+                  `${scope.path}: bus factor ${scope.busFactor}${scope.keyPeople.length > 0 ? ` (${scope.keyPeople.join(', ')})` : ''}, ${scope.files} files`
+              ).join('\n') + (riskiest.length > 0 ? '\n' : '')
+            : '';
+        const collaborations = (repositoryData.collaborationData?.collaborations ?? []).slice(0, 5);
+        const collaborationInfo = collaborations.length > 0
+            ? `\nStrongest working relationships (files changed in the same ${COLLABORATION_WINDOW_DAYS}-day window, co-authored commits):\n` +
+              collaborations.map((edge: CollaborationEdge) =>
+                  `${edge.a} <-> ${edge.b}: ${edge.sharedFiles} shared files, ${edge.coAuthoredCommits} co-authored commits`
+              ).join('\n') + '\n'
+            : '';
 
         return `You are an AI assistant helping engineering managers understand their team dynamics and make data-driven decisions. Analyze this ${repoStats.repositorySize} software repository for actionable management insights.
 
@@ -876,12 +1580,12 @@ Size: ${repoStats.repositorySize} (${repoStats.totalFiles} files, ${repoStats.to
 Primary Languages: ${repoStats.primaryLanguages.join(', ')}
 Activity Level: ${repoStats.recentActivityLevel}
 
-Team Members (showing top ${maxContributors}):
+Team Members (showing top ${maxContributors}${recencyNote}):
 ${contributorsInfo}
 
 Recent Communication Patterns (${maxCommits} commits):
 ${recentCommitMessages}
-${attributionInfo}${botInfo}
+${attributionInfo}${botInfo}${pullRequestInfo}${exclusionInfo}${couplingInfo}${collaborationInfo}${busFactorInfo}
 Key Files: ${filesSample}
 
 ENGINEERING MANAGER FOCUS AREAS:
@@ -905,7 +1609,6 @@ Respond with JSON only (NO markdown, NO explanations):
       "teamRole": "Senior Developer",
       "hiddenStrengths": ["Code review quality", "Knowledge sharing"],
       "idealChallenges": ["Technical leadership", "Architecture decisions"],
-      "workloadIndicator": "balanced|overloaded|underutilized",
       "collaborationStyle": "independent|collaborative|mentoring",
       "riskFactors": ["single point of failure in payments", "inconsistent code style"]
     }
@@ -965,31 +1668,41 @@ Respond with JSON only (NO markdown, NO explanations):
         try {
             this.outputChannel.appendLine(`🔍 Finding experts for file: ${filePath}`);
 
+            // The repository that owns this file — not necessarily the first
+            // workspace folder in a multi-root workspace
+            const owningRepository = await getRepositoryForPath(filePath);
+
             // Try Copilot SDK first
             if (this.copilotService?.isAvailable()) {
                 try {
                     // Gather only file-scoped git data instead of full repo scan
-                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                    if (workspaceFolder) {
-                        if (!this.gitService) {
-                            this.gitService = new GitService(workspaceFolder.uri.fsPath, this.outputChannel);
-                        }
+                    if (owningRepository) {
+                        const gitService = GitService.getInstance(owningRepository.rootPath, this.outputChannel);
+                        const snapshot = await this.collectRepoSnapshot(owningRepository);
+                        const repoStats = this.assessRepositorySize(snapshot);
+                        const exclusions = await this.getFileHistoryExclusions(owningRepository.rootPath);
                         // Per-file history (with --follow) — a plain `git log`
                         // carries no file lists, so filtering it finds nothing
-                        const fileCommits = await this.gitService.getCommitsForFile(filePath, 200);
-                        const repoStats = this.assessRepositorySize(await this.collectRepoSnapshot());
+                        const [allFileCommits, ownership] = await Promise.all([
+                            gitService.getCommitsForFile(filePath, 200),
+                            this.getOwnershipMode() === 'blame'
+                                ? gitService.getFileOwnership(filePath, exclusions.blame)
+                                : Promise.resolve(null),
+                        ]);
+                        const fileCommits = partitionCommits(allFileCommits, exclusions.rules).scored;
                         const minimalData: RepositoryData = {
-                            repository: workspaceFolder.name,
+                            repository: owningRepository.name,
                             files: [],
                             contributors: this.extractContributorsFromCommits(fileCommits),
                             commits: fileCommits,
                             collaborationData: { teamSize: 0, communicationPatterns: [], knowledgeSharing: [], expertiseDistribution: [] },
                             stats: repoStats,
+                            fileOwnership: ownership ? [ownership] : [],
                         };
                         const experts = await this.copilotService.analyzeFileExpert(filePath, minimalData);
                         if (experts.length > 0) {
                             this.outputChannel.appendLine(`✅ Found ${experts.length} experts via Copilot SDK`);
-                            return experts;
+                            return this.scoreFileExperts(experts, fileCommits, ownership, snapshot.resolveAuthor);
                         }
                     }
                 } catch (err) {
@@ -999,9 +1712,15 @@ Respond with JSON only (NO markdown, NO explanations):
             }
 
             // Try repository activity service
-            const repository = await this.repositoryActivityService.detectRepository();
+            const repository = await this.repositoryActivityService.detectRepository(owningRepository?.rootPath);
             if (repository) {
-                const fileExperts = await this.repositoryActivityService.analyzeFileExperts(filePath, repository);
+                const fileExperts = await this.repositoryActivityService.analyzeFileExperts(
+                    filePath,
+                    repository,
+                    owningRepository?.rootPath,
+                    owningRepository ? await this.getFileHistoryExclusions(owningRepository.rootPath) : undefined,
+                    owningRepository ? this.getCachedAuthorResolver(owningRepository.rootPath) : undefined
+                );
                 if (fileExperts && fileExperts.length > 0) {
                     this.outputChannel.appendLine(`✅ Found ${fileExperts.length} experts from git history for file`);
                     return fileExperts;
@@ -1027,20 +1746,255 @@ Respond with JSON only (NO markdown, NO explanations):
         }
     }
 
-    private async getWorkspaceFiles(): Promise<string[]> {
-        const files: string[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        
-        if (workspaceFolder) {
-            const pattern = new vscode.RelativePattern(workspaceFolder, '**/*.{js,ts,jsx,tsx,py,java,cpp,c,h,cs,rb,php,go,rs,kt,swift}');
-            const fileUris = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
-            
-            for (const uri of fileUris) {
-                files.push(vscode.workspace.asRelativePath(uri));
+    /**
+     * Measured scores and order for file experts the model picked: the same
+     * formula and order Find Expert uses on git history alone, rather than
+     * the model's.
+     */
+    private scoreFileExperts(
+        experts: Expert[],
+        fileCommits: GitCommit[],
+        ownership: FileOwnership | null,
+        resolveAuthor: (author: GitAuthor) => GitAuthor
+    ): Expert[] {
+        const halfLifeDays = this.getKnowledgeHalfLife();
+        const hasOwnership = (ownership?.totalLines ?? 0) > 0;
+        const authors = mergeOwnershipWithCommits(fileCommits, ownership, { halfLifeDays, resolveAuthor });
+        const scores = scoreExpertise(
+            fileExpertSignals(authors, fileCommits, { hasOwnership, decay: halfLifeDays > 0, resolveAuthor }),
+            this.getScoringWeights()
+        );
+        const recency = halfLifeDays > 0 ? fileRecencyScores(authors, hasOwnership) : undefined;
+        for (const expert of experts) {
+            // Scores and recency are keyed by resolved identity
+            const key = (expert.email ? resolveAuthor({ name: expert.name, email: expert.email }).email : '').toLowerCase();
+            const breakdown = scores.get(key);
+            if (breakdown) {
+                expert.expertise = breakdown.score;
+                expert.scoreBreakdown = breakdown;
+            }
+            expert.recencyScore = recency?.get(key) ?? expert.recencyScore;
+        }
+        return rankByExpertise(experts);
+    }
+
+    /**
+     * Experts for a range of lines rather than a whole file: the commits
+     * that shaped those lines (`git log -L`) and blame of just that range,
+     * scored with the same formula as Find Expert on git history alone.
+     * Line numbers are HEAD's, so a file that differs from HEAD is refused
+     * rather than answered for whichever lines now sit at those numbers.
+     * Null when the lines have no history.
+     */
+    async findExpertsForRange(filePath: string, range: LineRange): Promise<{ experts: Expert[]; commits: GitCommit[] } | null> {
+        const owningRepository = await getRepositoryForPath(filePath);
+        if (!owningRepository) {
+            return null;
+        }
+        this.outputChannel.appendLine(`🔍 Finding experts for ${filePath}:${range.start}-${range.end}`);
+
+        const gitService = GitService.getInstance(owningRepository.rootPath, this.outputChannel);
+        if (!await gitService.getCommittedRevision(filePath)) {
+            throw ErrorHandler.createError(
+                'VALIDATION_ERROR',
+                `${filePath} is untracked or differs from HEAD`,
+                'Team X-Ray: This file has uncommitted changes, so the selected lines may not be the lines in its history. Commit or stash the changes, or use Find Expert for the whole file.',
+                false
+            );
+        }
+        const exclusions = await this.getFileHistoryExclusions(owningRepository.rootPath);
+        const [history, ownership] = await Promise.all([
+            gitService.getCommitsForLineRange(filePath, range, 100),
+            gitService.getFileOwnership(filePath, exclusions.blame, range)
+        ]);
+        const commits = partitionCommits(history, exclusions.rules).scored;
+        if (commits.length === 0 && !ownership?.owners.length) {
+            return null;
+        }
+
+        const halfLifeDays = this.getKnowledgeHalfLife();
+        const hasOwnership = (ownership?.totalLines ?? 0) > 0;
+        const resolveAuthor = this.getCachedAuthorResolver(owningRepository.rootPath);
+        const authors = mergeOwnershipWithCommits(commits, ownership, { halfLifeDays, resolveAuthor });
+        const recency = halfLifeDays > 0 ? fileRecencyScores(authors, hasOwnership) : undefined;
+        const scores = scoreExpertise(
+            fileExpertSignals(authors, commits, { hasOwnership, decay: halfLifeDays > 0, resolveAuthor }),
+            this.getScoringWeights()
+        );
+        const experts: Expert[] = authors.map(author => {
+            const classification = classifyContributor(author.name, author.email);
+            const breakdown = scores.get(author.email.toLowerCase());
+            return {
+                name: author.name,
+                email: author.email,
+                expertise: breakdown?.score ?? 0,
+                scoreBreakdown: breakdown,
+                contributions: author.commits,
+                lastCommit: new Date(author.lastDate),
+                specializations: this.inferSpecializationsFromFile(filePath),
+                communicationStyle: 'Inferred from commit patterns',
+                teamRole: author.commits > 10 ? 'Regular contributor' : 'Occasional contributor',
+                hiddenStrengths: [],
+                idealChallenges: [],
+                isBot: classification.kind === 'ai-agent' || classification.kind === 'automation-bot',
+                contributorKind: classification.kind,
+                agentName: classification.agentName,
+                survivingLines: hasOwnership ? author.survivingLines : undefined,
+                recencyScore: recency?.get(author.email.toLowerCase())
+            };
+        });
+        const top = rankByExpertise(experts).slice(0, 5);
+        this.outputChannel.appendLine(`✅ Found ${top.length} experts from ${commits.length} commits for the range`);
+        return { experts: top, commits };
+    }
+
+    /**
+     * Who last changed each line of a file as saved on disk, with each
+     * author's rank among the file's experts and the agent signals of the
+     * commits behind the lines. Authors are ranked as Find Expert lists them
+     * from git history: by score over the file's last 100 commits and, in
+     * blame ownership mode, its blamed lines, then by recency. Blame looks
+     * through excluded commits, and aliases merge when the repository has
+     * been analyzed.
+     */
+    async getLineOwnership(filePath: string): Promise<FileLineOwnership | null> {
+        const owningRepository = await getRepositoryForPath(filePath);
+        if (!owningRepository) {
+            return null;
+        }
+
+        const gitService = GitService.getInstance(owningRepository.rootPath, this.outputChannel);
+        const exclusions = await this.getFileHistoryExclusions(owningRepository.rootPath);
+        const blame = await gitService.getLineBlame(filePath, exclusions.blame);
+        if (blame.length === 0) {
+            return null;
+        }
+        const [commits, history] = await Promise.all([
+            gitService.getCommitsBySha(blame.map(line => line.sha).filter(sha => sha !== UNCOMMITTED_SHA)),
+            gitService.getCommitsForFile(filePath, 100).catch(() => [])
+        ]);
+        const relativePath = toRepositoryRelativePath(owningRepository.rootPath, filePath);
+
+        // Rank as Find Expert lists the file's experts: same commits, ownership mode and order
+        const fileCommits = partitionCommits(history, exclusions.rules).scored;
+        const ownership = this.getOwnershipMode() === 'blame' ? ownershipFromBlameLines(relativePath, blame) : null;
+        const hasOwnership = (ownership?.totalLines ?? 0) > 0;
+        const halfLifeDays = this.getKnowledgeHalfLife();
+        const resolveAuthor = this.getCachedAuthorResolver(owningRepository.rootPath);
+        const authors = mergeOwnershipWithCommits(fileCommits, ownership, { halfLifeDays, resolveAuthor });
+        const recency = halfLifeDays > 0 ? fileRecencyScores(authors, hasOwnership) : undefined;
+        const scores = scoreExpertise(
+            fileExpertSignals(authors, fileCommits, { hasOwnership, decay: halfLifeDays > 0, resolveAuthor }),
+            this.getScoringWeights()
+        );
+        const ranking = rankByExpertise(authors.map(author => {
+            const key = author.email.toLowerCase();
+            return { key, expertise: scores.get(key)?.score ?? 0, recencyScore: recency?.get(key) };
+        }));
+        return buildLineOwnership(relativePath, blame, commits, {
+            resolveAuthor,
+            ranking: ranking.map(author => author.key)
+        });
+    }
+
+    /**
+     * Reviewers for the working tree's staged and unstaged changes. Each
+     * changed file's experts are scored from its history the way Find Expert
+     * scores them without the model, then weighted by the file's share of
+     * the changed lines. The configured git user is left out.
+     */
+    async suggestReviewers(repository: WorkspaceRepository): Promise<{ changes: WorkingTreeChange[]; reviewers: ReviewerSuggestion[] }> {
+        const gitService = GitService.getInstance(repository.rootPath, this.outputChannel);
+        const changes = await gitService.getWorkingTreeChanges();
+        if (changes.length === 0) {
+            return { changes, reviewers: [] };
+        }
+
+        const [author, exclusions] = await Promise.all([
+            gitService.getCurrentUser(),
+            this.getFileHistoryExclusions(repository.rootPath)
+        ]);
+        const halfLifeDays = this.getKnowledgeHalfLife();
+        const weights = this.getScoringWeights();
+        const resolveAuthor = this.getCachedAuthorResolver(repository.rootPath);
+        const largest = [...changes].sort((x, y) => y.lines - x.lines).slice(0, this.REVIEWER_FILE_LIMIT);
+        const fileExperts: FileExpertScores[] = [];
+        for (const change of largest) {
+            try {
+                const [history, ownership] = await Promise.all([
+                    gitService.getCommitsForFile(change.path, 200),
+                    this.getOwnershipMode() === 'blame'
+                        ? gitService.getFileOwnership(change.path, exclusions.blame)
+                        : Promise.resolve(null)
+                ]);
+                const commits = partitionCommits(history, exclusions.rules).scored;
+                const hasOwnership = (ownership?.totalLines ?? 0) > 0;
+                const authors = mergeOwnershipWithCommits(commits, ownership, { halfLifeDays, resolveAuthor });
+                const scores = scoreExpertise(
+                    fileExpertSignals(authors, commits, { hasOwnership, decay: halfLifeDays > 0, resolveAuthor }),
+                    weights
+                );
+                fileExperts.push({
+                    path: change.path,
+                    experts: authors.map(stats => ({
+                        name: stats.name,
+                        email: stats.email,
+                        score: scores.get(stats.email.toLowerCase())?.score ?? 0
+                    }))
+                });
+            } catch (error) {
+                this.outputChannel.appendLine(`⚠️ No history for ${change.path}: ${error}`);
             }
         }
 
-        return files;
+        const reviewers = suggestReviewers(changes, fileExperts, {
+            author,
+            resolveAuthor
+        });
+        this.outputChannel.appendLine(`👀 ${reviewers.length} reviewer${reviewers.length === 1 ? '' : 's'} for ${changes.length} changed file${changes.length === 1 ? '' : 's'}`);
+        return { changes, reviewers };
+    }
+
+    private getFileInventoryFilter(): FileInventoryFilter {
+        const config = vscode.workspace.getConfiguration('teamxray');
+        return {
+            include: config.get<string[]>('includeFiles', []),
+            exclude: config.get<string[]>('excludeFiles', []),
+            excludeGenerated: config.get<boolean>('excludeGeneratedFiles', true)
+        };
+    }
+
+    /**
+     * Tracked files in the repository's workspace folder from `git ls-files`
+     * (so .gitignore'd build output never counts), narrowed by the include/
+     * exclude globs and the built-in generated/vendored list. Paths are
+     * repository-relative so they line up with git pathspecs (blame, log)
+     * even when the folder is a subdirectory of the repository.
+     */
+    private async getWorkspaceFiles(repository: WorkspaceRepository, filter: FileInventoryFilter): Promise<string[]> {
+        const directories = getRepositoryDirectories(repository);
+        try {
+            if (!directories) {
+                return await this.getOrCreateWorkerClient().listFiles(repository.rootPath, undefined, filter);
+            }
+            // Folders that share a repository each contribute their subtree
+            const files = new Set<string>();
+            for (const directory of directories) {
+                for (const file of await this.getOrCreateWorkerClient().listFiles(repository.rootPath, directory, filter)) {
+                    files.add(file);
+                }
+            }
+            return Array.from(files);
+        } catch (error) {
+            // Not a git work tree — list the folders, still applying the filter
+            this.outputChannel.appendLine(`⚠️ git ls-files unavailable, listing workspace files instead: ${error}`);
+            const files = new Set<string>();
+            for (const folder of repository.folders) {
+                const fileUris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/*'), '**/node_modules/**');
+                fileUris.forEach(uri => files.add(toRepositoryRelativePath(repository.rootPath, uri.fsPath)));
+            }
+            return filterFileInventory(Array.from(files), filter);
+        }
     }
 
     private async gatherFileData(filePath: string): Promise<any> {
@@ -1063,50 +2017,71 @@ Respond with JSON only (NO markdown, NO explanations):
 
     /**
      * Derive contributors from a commit list in one in-memory pass: commit
-     * counts, first/last dates, classification (human / agent / bot), and
-     * per-contributor AI-assist stats from commit trailers. Replaces separate
-     * `git shortlog` and per-author date invocations.
+     * counts, first/last dates, line churn (numstat), classification
+     * (human / agent / bot), and per-contributor AI-assist stats from commit
+     * trailers. Replaces separate `git shortlog` and per-author date invocations.
+     * Authorship comes from `commits`; identities and review trailers from
+     * `allCommits`, since an excluded commit still records who reviewed it.
+     * Pass `resolveIdentity` when it was already built for `allCommits`.
      */
-    private extractContributorsFromCommits(commits: any[]): any[] {
+    private extractContributorsFromCommits(
+        commits: any[],
+        allCommits: any[] = commits,
+        resolveIdentity: (author: GitAuthor) => GitAuthor = this.buildAuthorResolver(allCommits)
+    ): any[] {
         interface Aggregate {
             name: string;
             email: string;
             commits: number;
+            additions: number;
+            deletions: number;
             firstCommit: string;
             lastCommit: string;
             authoredCommits: any[];
+            /** Lowercased resolved emails folded into this contributor (review activity keys) */
+            emails: Set<string>;
         }
+        // Likely aliases fold into one contributor, as a .mailmap would
         const authorMap = new Map<string, Aggregate>();
         for (const c of commits) {
-            const key = c.author?.email ?? 'unknown';
+            const author = c.author ? resolveIdentity(c.author) : undefined;
+            const email = author?.email ?? 'unknown';
+            const key = email.toLowerCase();
             const existing = authorMap.get(key);
             if (existing) {
                 existing.commits++;
+                existing.additions += c.additions ?? 0;
+                existing.deletions += c.deletions ?? 0;
                 if (c.date > existing.lastCommit) { existing.lastCommit = c.date; }
                 if (c.date < existing.firstCommit) { existing.firstCommit = c.date; }
                 existing.authoredCommits.push(c);
             } else {
                 authorMap.set(key, {
-                    name: c.author?.name ?? 'Unknown',
-                    email: key,
+                    name: author?.name ?? 'Unknown',
+                    email,
                     commits: 1,
+                    additions: c.additions ?? 0,
+                    deletions: c.deletions ?? 0,
                     firstCommit: c.date ?? new Date().toISOString(),
                     lastCommit: c.date ?? new Date().toISOString(),
                     authoredCommits: [c],
+                    emails: new Set([key]),
                 });
             }
         }
 
+        const reviewActivity = collectReviewActivity(allCommits, resolveIdentity);
+
         return Array.from(authorMap.values())
-            .map(({ authoredCommits, ...contributor }) => {
+            .map(({ authoredCommits, emails, ...contributor }) => {
                 const classification = classifyContributor(contributor.name, contributor.email, authoredCommits);
                 return {
                     ...contributor,
-                    additions: 0,
-                    deletions: 0,
                     contributorKind: classification.kind,
                     aiAssistRate: classification.aiAssistRate,
                     agentName: classification.agentName,
+                    reviews: combineReviewActivity(Array.from(emails, email => reviewActivity.get(email))),
+                    activity: buildActivityProfile(authoredCommits),
                 };
             })
             .sort((a, b) => b.commits - a.commits);
@@ -1114,20 +2089,26 @@ Respond with JSON only (NO markdown, NO explanations):
 
     private async analyzeFileExperts(fileData: any): Promise<Expert[]> {
         try {
-            const snapshot = await this.collectRepoSnapshot();
-            const repositoryData = this.gatherRepositoryData(fileData.repository || 'current', this.assessRepositorySize(snapshot), snapshot);
-            
             const filePath = fileData.path || fileData.filePath;
             if (!filePath) {
                 throw new Error('File path not found in file data');
             }
+
+            const owningRepository = await getRepositoryForPath(filePath);
+            const snapshot = await this.collectRepoSnapshot(owningRepository);
+            const repositoryData = this.gatherRepositoryData(fileData.repository || 'current', this.assessRepositorySize(snapshot), snapshot);
             
-            const fileExperts = repositoryData.contributors
-                .filter((contributor: any) => contributor.commits > 0)
+            const active = repositoryData.contributors.filter((contributor: any) => contributor.commits > 0);
+            const scores = scoreExpertise(
+                new Map(active.map((contributor: any) => [contributor, contributorSignals(contributor)])),
+                this.getScoringWeights()
+            );
+            const fileExperts = active
                 .map((contributor: any) => ({
                     name: contributor.name,
                     email: contributor.email,
-                    expertise: Math.min(100, (contributor.commits / Math.max(1, repositoryData.contributors[0]?.commits || 1)) * 100),
+                    expertise: scores.get(contributor)?.score ?? 0,
+                    scoreBreakdown: scores.get(contributor),
                     contributions: contributor.commits,
                     lastCommit: contributor.lastCommit,
                     specializations: this.inferSpecializationsFromFile(filePath),
@@ -1140,12 +2121,22 @@ Respond with JSON only (NO markdown, NO explanations):
                         : detectBotContributor(contributor.name, contributor.email),
                     contributorKind: contributor.contributorKind,
                     aiAssistRate: contributor.aiAssistRate,
-                    agentName: contributor.agentName
+                    agentName: contributor.agentName,
+                    recencyScore: contributor.recencyScore
                 }))
-                .sort((a: any, b: any) => b.contributions - a.contributions)
-                .slice(0, 5);
+                .sort((a: any, b: any) => b.contributions - a.contributions);
+
+            // Surviving lines outrank repository-wide commit counts when blame works
+            const ownership = owningRepository && this.getOwnershipMode() === 'blame'
+                ? await GitService.getInstance(owningRepository.rootPath, this.outputChannel).getFileOwnership(filePath, snapshot.exclusions.blame)
+                : null;
+            if (owningRepository && ownership && ownership.totalLines > 0) {
+                const relativePath = toRepositoryRelativePath(owningRepository.rootPath, filePath);
+                const fileCommits = snapshot.scoredCommits.filter(commit => commit.files?.includes(relativePath));
+                return this.ownershipToExperts(ownership, fileExperts, fileCommits, snapshot.resolveAuthor).slice(0, 5);
+            }
 
-            return fileExperts;
+            return rankByExpertise<Expert>(fileExperts).slice(0, 5);
         } catch (error) {
             this.outputChannel.appendLine(`❌ Error analyzing file experts: ${error}`);
             throw new Error(`Cannot analyze file experts: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1382,10 +2373,16 @@ Respond with JSON only (NO markdown, NO explanations):
     private createFallbackAnalysis(repositoryData: any): ExpertiseAnalysis {
         this.outputChannel.appendLine(`📋 Creating fallback analysis from repository data`);
         
-        const experts: Expert[] = (repositoryData.contributors || []).map((contributor: any, index: number) => ({
+        const contributors: any[] = repositoryData.contributors || [];
+        const scores = scoreExpertise(
+            new Map(contributors.map(contributor => [contributor, contributorSignals(contributor)])),
+            this.getScoringWeights()
+        );
+        const experts: Expert[] = contributors.map((contributor: any, index: number) => ({
             name: contributor.name || `Contributor ${index + 1}`,
             email: contributor.email || 'unknown@example.com',
-            expertise: Math.min(90, 30 + (contributor.commits || 0) * 2),
+            expertise: scores.get(contributor)?.score ?? 0,
+            scoreBreakdown: scores.get(contributor),
             contributions: contributor.commits || 0,
             lastCommit: contributor.lastCommit ? new Date(contributor.lastCommit) : new Date(),
             specializations: this.inferSpecializationsFromFiles(repositoryData.files || []),
@@ -1479,7 +2476,7 @@ Respond with JSON only (NO markdown, NO explanations):
 
     private inferSpecializationsFromFiles(files: string[]): string[] {
         const extensions = files
-            .map(f => f.split('.').pop()?.toLowerCase())
+            .map(f => this.getLanguageKey(f))
             .filter((ext): ext is string => Boolean(ext));
             
         const extensionCounts = extensions.reduce((acc: Record<string, number>, ext: string) => {
@@ -1523,27 +2520,28 @@ Respond with JSON only (NO markdown, NO explanations):
         return this.gitWorkerClient;
     }
 
-    private async getLocalGitCommits(): Promise<any[]> {
-        try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                return [];
-            }
+    private getCommitStore(): CommitStore | null {
+        const storagePath = this.context.globalStorageUri?.fsPath;
+        if (!this.commitStore && storagePath) {
+            this.commitStore = new CommitStore(storagePath);
+        }
+        return this.commitStore;
+    }
 
-            const client = this.getOrCreateWorkerClient();
-            const repoPath = workspaceFolder.uri.fsPath;
+    private async getLocalGitCommits(repoPath: string, head: string = ''): Promise<any[]> {
+        try {
             const sinceDate = this.getHistoryWindowSinceDate();
 
             if (sinceDate) {
                 this.outputChannel.appendLine(`🗓️ Limiting git history to commits since ${sinceDate}`);
-                const windowed = await client.getCommits(repoPath, 500, sinceDate);
+                const windowed = await this.loadCommitHistory(repoPath, head, sinceDate);
                 if (windowed.length > 0) {
                     return windowed;
                 }
                 this.outputChannel.appendLine('⚠️ No commits in configured window, falling back to full history');
             }
 
-            return await client.getCommits(repoPath, 500);
+            return await this.loadCommitHistory(repoPath, head);
 
         } catch (error) {
             this.outputChannel.appendLine(`⚠️ Failed to get local git commits: ${error}`);
@@ -1551,6 +2549,127 @@ Respond with JSON only (NO markdown, NO explanations):
         }
     }
 
+    /**
+     * Commits since `sinceDate` (or all history), served from the on-disk
+     * commit store when it covers the window. When HEAD moved forward only
+     * `lastSeenHead..HEAD` is read from git; rewritten history (rebase,
+     * force-push) or a wider window than was stored triggers a full read.
+     */
+    private async loadCommitHistory(repoPath: string, head: string, sinceDate?: string): Promise<GitCommit[]> {
+        const store = head ? this.getCommitStore() : null;
+        const stored = store ? await store.load(repoPath) : null;
+
+        if (store && stored && CommitStore.covers(stored, sinceDate)) {
+            if (stored.head === head) {
+                this.outputChannel.appendLine(`⚡ Loaded ${stored.commits.length.toLocaleString()} commits from commit cache`);
+                return this.filterCommitsSince(stored.commits, sinceDate);
+            }
+
+            let movedForward = false;
+            try {
+                movedForward = await this.getOrCreateWorkerClient().isAncestor(repoPath, stored.head, head);
+            } catch {
+                // Cached HEAD no longer exists (gc after a rewrite) — rescan below
+            }
+
+            if (movedForward) {
+                const { commits: newCommits } = await this.getOrCreateWorkerClient().getCommits(
+                    repoPath,
+                    { range: `${stored.head}..${head}` }
+                );
+                this.outputChannel.appendLine(
+                    `⚡ Read ${newCommits.length} new commits since ${stored.head.slice(0, 7)}; ` +
+                    `${stored.commits.length.toLocaleString()} from commit cache`
+                );
+                await this.saveCommitHistory(() => store.append(repoPath, stored, head, newCommits));
+                return this.filterCommitsSince([...newCommits, ...stored.commits], sinceDate);
+            }
+            this.outputChannel.appendLine('🔁 History was rewritten since the last scan — re-reading commits');
+        }
+
+        const { commits, truncated } = await this.streamLocalGitCommits(repoPath, { sinceDate });
+        if (store) {
+            await this.saveCommitHistory(() => store.replace(repoPath, {
+                head,
+                coveredSince: CommitStore.coverageStart(commits, truncated, sinceDate),
+                truncated,
+                commits,
+            }));
+        }
+        return commits;
+    }
+
+    /** The commit cache is best-effort: a failed write only costs a rescan later. */
+    private async saveCommitHistory(write: () => Promise<void>): Promise<void> {
+        try {
+            await write();
+        } catch (error) {
+            this.outputChannel.appendLine(`⚠️ Could not update commit cache: ${error}`);
+        }
+    }
+
+    /** Re-apply a `--since` window (committer date) to cached history. */
+    private filterCommitsSince(commits: GitCommit[], sinceDate?: string): GitCommit[] {
+        if (!sinceDate) {
+            return commits;
+        }
+        const since = new Date(sinceDate).getTime();
+        return commits.filter(commit => new Date(commit.committedDate ?? commit.date).getTime() >= since);
+    }
+
+    /**
+     * Read the full (optionally windowed or scoped) history through the
+     * worker's streaming parser, logging progress as records arrive.
+     */
+    private async streamLocalGitCommits(repoPath: string, query: CommitLogQuery): Promise<CommitStreamResult> {
+        const { commits, truncated } = await this.getOrCreateWorkerClient().getCommits(
+            repoPath,
+            query,
+            progress => this.outputChannel.appendLine(`📥 Read ${progress.commits.toLocaleString()} commits...`)
+        );
+        if (truncated) {
+            this.outputChannel.appendLine(
+                `⚠️ History truncated at ${commits.length.toLocaleString()} commits (memory ceiling) — ` +
+                'narrow the history window or range to analyze a fully covered history'
+            );
+        }
+        return { commits, truncated };
+    }
+
+    /**
+     * Commits inside an explicit scope, read straight from git. The commit
+     * store only holds the rolling window up to HEAD, so it is bypassed.
+     * Git errors reach the user: an empty result would read as "no activity".
+     */
+    private async getScopedGitCommits(repoPath: string, scope: AnalysisScope): Promise<GitCommit[]> {
+        this.outputChannel.appendLine(`🗓️ Limiting git history to ${describeAnalysisScope(scope)}`);
+        try {
+            const { commits } = await this.streamLocalGitCommits(repoPath, scopeToLogQuery(scope));
+            return commits;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.outputChannel.appendLine(`⚠️ Failed to get git commits for ${describeAnalysisScope(scope)}: ${message}`);
+            throw ErrorHandler.createValidationError(`Could not read ${describeAnalysisScope(scope)}: ${message}`);
+        }
+    }
+
+    /**
+     * Snapshot cache key for a scope. Refs are resolved to SHAs so that a
+     * moving branch name (e.g. "release/3.x") is not served stale; an unknown
+     * ref fails here with a readable error instead of an empty analysis.
+     */
+    private async getScopeCacheKey(repoPath: string, scope: AnalysisScope): Promise<string> {
+        let revisions: string[] = [];
+        if (scope.range) {
+            try {
+                revisions = await this.getOrCreateWorkerClient().resolveRevisions(repoPath, scope.range.trim());
+            } catch {
+                throw ErrorHandler.createValidationError(`Unknown revision or range: ${scope.range}`);
+            }
+        }
+        return `scope:${revisions.join(',')}|${scope.since ?? ''}|${scope.until ?? ''}`;
+    }
+
     private getHistoryWindowSinceDate(): string | undefined {
         const raw = vscode.workspace.getConfiguration('teamxray').get<number>('historyWindowDays', 90);
         const days = Number.isInteger(raw) && raw! >= 0 ? raw! : 90;
@@ -1561,15 +2680,10 @@ Respond with JSON only (NO markdown, NO explanations):
         return since.toISOString().split('T')[0];
     }
 
-    private async getLocalGitContributors(): Promise<any[]> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return [];
-        }
-
+    private async getLocalGitContributors(repoPath: string): Promise<any[]> {
         try {
             const client = this.getOrCreateWorkerClient();
-            const contributors = await client.getContributors(workspaceFolder.uri.fsPath);
+            const contributors = await client.getContributors(repoPath);
             if (contributors.length > 0) {
                 return contributors;
             }
@@ -1578,7 +2692,7 @@ Respond with JSON only (NO markdown, NO explanations):
             this.outputChannel.appendLine(`⚠️ Failed to get local git contributors: ${error}`);
         }
 
-        const commits = await this.getLocalGitCommits();
+        const commits = await this.getLocalGitCommits(repoPath);
         if (commits.length === 0) {
             return [];
         }
@@ -1593,20 +2707,54 @@ Respond with JSON only (NO markdown, NO explanations):
             this.gitWorkerClient.dispose();
             this.gitWorkerClient = null;
         }
-        this.snapshotCache = null;
+        this.snapshotCache.clear();
     }
 
+    /**
+     * Store an analysis under its repository root, replacing any earlier
+     * analysis of the same repository. Analyses of other roots are kept.
+     * A revision/date-range analysis has its own slot per repository, so it
+     * never replaces the rolling-window analysis the editor features read.
+     */
     async saveAnalysis(analysis: ExpertiseAnalysis): Promise<void> {
-        await this.context.workspaceState.update('lastAnalysis', analysis);
+        const stored = this.context.workspaceState.get<Record<string, ExpertiseAnalysis>>(ExpertiseAnalyzer.ANALYSES_KEY, {});
+        const root = analysis.repositoryRoot ?? analysis.repository;
+        await this.context.workspaceState.update(ExpertiseAnalyzer.ANALYSES_KEY, {
+            ...stored,
+            [analysis.scope ? `${root}#scope` : root]: analysis,
+        });
+        // Superseded by the per-repository map
+        await this.context.workspaceState.update(ExpertiseAnalyzer.LEGACY_ANALYSIS_KEY, undefined);
         await vscode.commands.executeCommand('setContext', 'teamxray.hasAnalysis', true);
     }
 
-    getLastAnalysis(): ExpertiseAnalysis | undefined {
-        const analysis = this.context.workspaceState.get('lastAnalysis') as any;
-        if (!analysis) {
-            return undefined;
+    /** All stored analyses, newest first. Includes a pre-multi-root `lastAnalysis` if present. */
+    getStoredAnalyses(): ExpertiseAnalysis[] {
+        const stored = Object.values(
+            this.context.workspaceState.get<Record<string, any>>(ExpertiseAnalyzer.ANALYSES_KEY, {})
+        );
+        const legacy = this.context.workspaceState.get<any>(ExpertiseAnalyzer.LEGACY_ANALYSIS_KEY);
+        if (legacy && stored.length === 0) {
+            stored.push(legacy);
         }
 
+        return stored
+            .map(analysis => this.hydrateAnalysis(analysis))
+            .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime());
+    }
+
+    /**
+     * The stored rolling-window analysis for a repository root, or the most
+     * recent rolling-window analysis of any repository when no root is
+     * given. Scoped analyses are never returned.
+     */
+    getLastAnalysis(repositoryRoot?: string): ExpertiseAnalysis | undefined {
+        return this.getStoredAnalyses().find(analysis => !analysis.scope
+            && (!repositoryRoot || analysis.repositoryRoot === repositoryRoot));
+    }
+
+    // workspaceState round-trips through JSON, so dates come back as strings
+    private hydrateAnalysis(analysis: any): ExpertiseAnalysis {
         return {
             ...analysis,
             generatedAt: new Date(analysis.generatedAt),
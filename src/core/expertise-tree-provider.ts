@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
-import { Expert, FileExpertise } from '../types/expert';
+import { DirectoryOwnership, Expert, FileExpertise } from '../types/expert';
 import { ExpertiseAnalysis } from './expertise-analyzer';
+import { explainScore } from '../utils/expertise-score';
+import { findOwningDirectory } from '../utils/ownership-rollup';
 
 export class ExpertiseTreeProvider implements vscode.TreeDataProvider<ExpertiseTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<ExpertiseTreeItem | undefined | null | void> = new vscode.EventEmitter<ExpertiseTreeItem | undefined | null | void>();
@@ -82,7 +84,9 @@ export class ExpertiseTreeProvider implements vscode.TreeDataProvider<ExpertiseT
                             `${expert.name} (${expert.expertise}%)`,
                             vscode.TreeItemCollapsibleState.Collapsed,
                             'expert',
-                            expert
+                            expert,
+                            undefined,
+                            this.analysis?.repositoryRoot
                         )
                     )
                 );
@@ -96,10 +100,16 @@ export class ExpertiseTreeProvider implements vscode.TreeDataProvider<ExpertiseT
                             'expert-detail'
                         ),
                         new ExpertiseTreeItem(
-                            `📈 ${element.expert.contributions} contributions`,
+                            `📈 ${element.expert.contributions} contributions` +
+                                (element.expert.recencyScore !== undefined ? ` · ${element.expert.recencyScore}% current` : ''),
                             vscode.TreeItemCollapsibleState.None,
                             'expert-detail'
                         ),
+                        ...(element.expert.scoreBreakdown ? [new ExpertiseTreeItem(
+                            `🧮 Why: ${explainScore(element.expert.scoreBreakdown)}`,
+                            vscode.TreeItemCollapsibleState.None,
+                            'expert-detail'
+                        )] : []),
                         new ExpertiseTreeItem(
                             `⏰ Last commit: ${this.safeFormatDate(element.expert.lastCommit)}`,
                             vscode.TreeItemCollapsibleState.None,
@@ -115,24 +125,36 @@ export class ExpertiseTreeProvider implements vscode.TreeDataProvider<ExpertiseT
                 break;
 
             case 'files':
+                // Analyses saved before the folder rollup keep the flat list
+                if (this.analysis.directoryOwnership) {
+                    return Promise.resolve(this.getFolderChildren(this.analysis.directoryOwnership));
+                }
                 return Promise.resolve(
-                    this.analysis.fileExpertise.slice(0, 10).map(file => 
-                        new ExpertiseTreeItem(
-                            file.fileName,
-                            vscode.TreeItemCollapsibleState.Collapsed,
-                            'file',
-                            undefined,
-                            file
-                        )
-                    )
+                    this.analysis.fileExpertise.slice(0, 10).map(file => this.createFileItem(file))
                 );
 
+            case 'folder':
+                if (element.folder) {
+                    return Promise.resolve([
+                        ...element.folder.topExperts.map(expert =>
+                            new ExpertiseTreeItem(
+                                `👤 ${expert.name} (${expert.files}/${element.folder!.files} files, ${expert.commits} commits)`,
+                                vscode.TreeItemCollapsibleState.None,
+                                'folder-expert'
+                            )
+                        ),
+                        ...this.getFolderChildren(element.folder)
+                    ]);
+                }
+                break;
+
             case 'file':
                 if (element.fileExpertise) {
                     return Promise.resolve(
                         element.fileExpertise.experts.map(expert =>
                             new ExpertiseTreeItem(
-                                `👤 ${expert.name} (${expert.expertise}%)`,
+                                `👤 ${expert.name} (${expert.expertise}%` +
+                                    (expert.recencyScore !== undefined ? `, ${expert.recencyScore}% current)` : ')'),
                                 vscode.TreeItemCollapsibleState.None,
                                 'file-expert',
                                 expert
@@ -157,6 +179,42 @@ export class ExpertiseTreeProvider implements vscode.TreeDataProvider<ExpertiseT
         return Promise.resolve([]);
     }
 
+    /**
+     * Subfolders of `folder`, then the analysed files whose deepest folder
+     * in the rollup is this one
+     */
+    private getFolderChildren(folder: DirectoryOwnership): ExpertiseTreeItem[] {
+        const root = this.analysis?.directoryOwnership;
+        const files = root
+            ? (this.analysis?.fileExpertise ?? []).filter(file => findOwningDirectory(root, file.filePath)?.path === folder.path)
+            : [];
+        return [
+            ...folder.children.map(child =>
+                new ExpertiseTreeItem(
+                    child.path.split('/').pop() ?? child.path,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'folder',
+                    undefined,
+                    undefined,
+                    this.analysis?.repositoryRoot,
+                    child
+                )
+            ),
+            ...files.map(file => this.createFileItem(file))
+        ];
+    }
+
+    private createFileItem(file: FileExpertise): ExpertiseTreeItem {
+        return new ExpertiseTreeItem(
+            file.fileName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'file',
+            undefined,
+            file,
+            this.analysis?.repositoryRoot
+        );
+    }
+
     /**
      * Safely formats a date that might be a Date object or string
      */
@@ -177,11 +235,24 @@ class ExpertiseTreeItem extends vscode.TreeItem {
         public override readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public override readonly contextValue: string,
         public readonly expert?: Expert,
-        public readonly fileExpertise?: FileExpertise
+        public readonly fileExpertise?: FileExpertise,
+        /** Root of the analyzed repository; file paths are relative to it */
+        public readonly repositoryRoot?: string,
+        public readonly folder?: DirectoryOwnership
     ) {
         super(label, collapsibleState);
 
-        this.tooltip = label;
+        this.tooltip = expert?.scoreBreakdown ? `${label}\nWhy: ${explainScore(expert.scoreBreakdown)}` : label;
+        if (folder) {
+            const lastActivity = folder.lastActivity ? new Date(folder.lastActivity).toLocaleDateString() : undefined;
+            this.description = `bus factor ${folder.busFactor}` + (folder.topExperts[0] ? ` · ${folder.topExperts[0].name}` : '');
+            this.tooltip = [
+                `${folder.path}/ — ${folder.files} files`,
+                `Owners: ${folder.topExperts.map(owner => `${owner.name} (${owner.files} files)`).join(', ') || 'none'}`,
+                `Bus factor: ${folder.busFactor}`,
+                ...(lastActivity ? [`Last activity: ${lastActivity}`] : [])
+            ].join('\n');
+        }
 
         // Set icons based on context
         switch (contextValue) {
@@ -203,12 +274,16 @@ class ExpertiseTreeItem extends vscode.TreeItem {
                 this.command = {
                     command: 'teamxray.openFileFromTree',
                     title: 'Open File',
-                    arguments: [this.fileExpertise?.filePath]
+                    arguments: [this.fileExpertise?.filePath, this.repositoryRoot]
                 };
                 break;
+            case 'folder':
+                this.iconPath = new vscode.ThemeIcon('folder');
+                break;
             case 'insights':
                 this.iconPath = new vscode.ThemeIcon('lightbulb');
                 break;
+            case 'folder-expert':
             case 'file-expert':
                 this.iconPath = new vscode.ThemeIcon('account');
                 break;
@@ -227,7 +302,7 @@ class ExpertiseTreeItem extends vscode.TreeItem {
             this.command = {
                 command: 'teamxray.showExpertDetails',
                 title: 'Show Expert Details',
-                arguments: [this.expert]
+                arguments: [this.expert, this.repositoryRoot]
             };
         }
     }
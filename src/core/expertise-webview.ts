@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { Expert } from '../types/expert';
 import { ExpertiseAnalysis } from './expertise-analyzer';
+import { formatUtcOffset } from '../utils/activity-profile';
+import { explainScore } from '../utils/expertise-score';
+import { describeCommitExclusions } from '../utils/commit-exclusions';
+import { guessGitHubUsername } from '../utils/github-username';
 import {
     escapeCsvCell,
     escapeHtml,
@@ -47,13 +51,15 @@ export class ExpertiseWebviewProvider {
 
         // Handle messages from the webview
         panel.webview.onDidReceiveMessage(
-            (message: unknown) => this.handleWebviewMessage(message),
+            (message: unknown) => this.handleWebviewMessage(message, analysis),
             undefined,
             this.context.subscriptions
         );
     }
 
-    private handleWebviewMessage(message: unknown): void {
+    // Each panel answers for its own analysis — in a multi-root workspace
+    // several panels can be open for different repositories at once
+    private handleWebviewMessage(message: unknown, analysis: ExpertiseAnalysis): void {
         if (!this.isWebviewCommandMessage(message)) {
             return;
         }
@@ -66,12 +72,12 @@ export class ExpertiseWebviewProvider {
                 break;
             case 'getExpertActivity':
                 if (message.expert) {
-                    this.getExpertActivity(message.expert);
+                    this.getExpertActivity(message.expert, analysis.repositoryRoot);
                 }
                 break;
             case 'openFile':
                 if (message.filePath) {
-                    this.openFile(message.filePath);
+                    this.openFile(message.filePath, analysis.repositoryRoot);
                 }
                 break;
             case 'refreshAnalysis':
@@ -122,6 +128,8 @@ export class ExpertiseWebviewProvider {
         const items = [
             `Email: ${expert.email}`,
             `Expertise Score: ${expert.expertise}/100`,
+            ...(expert.recencyScore !== undefined ? [`Current Knowledge: ${expert.recencyScore}/100`] : []),
+            ...(expert.scoreBreakdown ? [`Why: ${explainScore(expert.scoreBreakdown)}`] : []),
             `Contributions: ${expert.contributions}`,
             `Last Commit: ${this.safeFormatDate(expert.lastCommit)}`,
             `Specializations: ${(expert.specializations || []).join(', ')}`
@@ -136,19 +144,23 @@ export class ExpertiseWebviewProvider {
     /**
      * Gets expert recent activity from local git history.
      */
-    private async getExpertActivity(expert: Expert): Promise<void> {
+    private async getExpertActivity(expert: Expert, repositoryRoot?: string): Promise<void> {
         // Trigger the extension command for getting expert activity
-        vscode.commands.executeCommand('teamxray.showExpertDetails', expert);
+        vscode.commands.executeCommand('teamxray.showExpertDetails', expert, repositoryRoot);
     }
 
     /**
-     * Opens a file in the editor
+     * Opens a file in the editor. Paths are relative to the analyzed
+     * repository root; analyses saved before multi-root support fall back
+     * to the first workspace folder.
      */
-    private async openFile(filePath: string): Promise<void> {
+    private async openFile(filePath: string, repositoryRoot?: string): Promise<void> {
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (workspaceFolder) {
-                const fullPath = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
+            const baseUri = repositoryRoot
+                ? vscode.Uri.file(repositoryRoot)
+                : vscode.workspace.workspaceFolders?.[0]?.uri;
+            if (baseUri) {
+                const fullPath = vscode.Uri.joinPath(baseUri, filePath);
                 const document = await vscode.workspace.openTextDocument(fullPath);
                 await vscode.window.showTextDocument(document);
             }
@@ -157,39 +169,6 @@ export class ExpertiseWebviewProvider {
         }
     }
 
-    /**
-     * Extracts GitHub username from email or name
-     */
-    private getGitHubUsername(email: string, name: string): string {
-        let candidate = '';
-
-        // First try to extract from email (common patterns)
-        if (email.includes('@github.com') || email.includes('@users.noreply.github.com')) {
-            // Handle GitHub noreply emails like: username@users.noreply.github.com
-            // Also handle: 12345+username@users.noreply.github.com
-            const match = email.match(/^(?:\d+\+)?([^@]+)@(users\.noreply\.)?github\.com$/);
-            if (match) {
-                candidate = match[1];
-            }
-        }
-        
-        // Try to extract from common email patterns
-        if (!candidate && email.includes('@')) {
-            candidate = email.split('@')[0];
-        }
-
-        return this.normalizeGitHubUsername(candidate || name);
-    }
-
-    private normalizeGitHubUsername(value: string): string {
-        return value
-            .replace(/^\d+\+/, '')
-            .toLowerCase()
-            .replace(/[^a-z0-9-]/g, '')
-            .replace(/^-+|-+$/g, '')
-            .slice(0, 39);
-    }
-
     /**
      * Safely formats a date that might be a Date object or string
      */
@@ -293,6 +272,8 @@ export class ExpertiseWebviewProvider {
         const knowledgeRiskScore = normalizePercentage(metrics.knowledgeDistribution.riskScore);
         const crossTeamWork = normalizePercentage(metrics.collaborationMetrics.crossTeamWork);
         const codeReviewParticipation = normalizePercentage(metrics.collaborationMetrics.codeReviewParticipation);
+        // Analyses saved before review trailers were parsed have no flag; show their value as before
+        const reviewMeasured = metrics.collaborationMetrics.codeReviewMeasured !== false;
         const knowledgeSharing = normalizePercentage(metrics.collaborationMetrics.knowledgeSharing);
         
         return `
@@ -333,9 +314,9 @@ export class ExpertiseWebviewProvider {
                             <span class="stat-value">${crossTeamWork}%</span>
                             <span class="stat-label">Cross-team Work</span>
                         </div>
-                        <div class="collab-stat">
-                            <span class="stat-value">${codeReviewParticipation}%</span>
-                            <span class="stat-label">Code Review Participation</span>
+                        <div class="collab-stat" title="${reviewMeasured ? 'Share of commits with a Reviewed-by, Acked-by or Tested-by trailer from someone other than the author' : 'No Reviewed-by, Acked-by or Tested-by trailers in the analyzed history'}">
+                            <span class="stat-value">${reviewMeasured ? `${codeReviewParticipation}%` : '—'}</span>
+                            <span class="stat-label">Code Review Participation${reviewMeasured ? '' : ' (not in git history)'}</span>
                         </div>
                         <div class="collab-stat">
                             <span class="stat-value">${knowledgeSharing}%</span>
@@ -585,7 +566,9 @@ export class ExpertiseWebviewProvider {
         .role-badge{display:inline-block;font-size:0.7em;text-transform:uppercase;letter-spacing:0.08em;color:var(--accent-2);border:1px solid rgba(139,92,246,0.3);border-radius:4px;padding:2px 8px;margin-left:8px;vertical-align:middle}
         .bar-chart{width:100%;margin:10px 0}
         .bar-chart svg{width:100%;height:24px;border-radius:4px;overflow:hidden}
-        .expert-stats{display:grid;grid-template-columns:repeat(3,1fr);gap:8px;margin:12px 0}
+        .expert-stats{display:grid;grid-template-columns:repeat(auto-fit,minmax(70px,1fr));gap:8px;margin:12px 0}
+        .score-why{font-size:0.8em;color:var(--text-muted);margin:-4px 0 10px}
+        .expert-churn{font-size:.85em;color:var(--text-muted);margin:-4px 0 10px}
         .stat{text-align:center;padding:8px;background:var(--bg);border-radius:6px;border:1px solid var(--border)}
         .stat-value{font-weight:700;font-size:1.05em;color:var(--accent)}
         .stat-label{font-size:0.78em;color:var(--text-muted)}
@@ -621,8 +604,10 @@ export class ExpertiseWebviewProvider {
         <div class="stats">
             <span class="pill">Generated <strong>${this.safeFormatDate(analysis.generatedAt)}</strong></span>
             <span class="pill"><strong>${totalFiles}</strong> files scanned</span>
+            ${analysis.historyLabel ? `<span class="pill">🗓️ <strong>${escapeHtml(analysis.historyLabel)}</strong></span>` : ''}
             <span class="pill"><strong>${analysis.expertProfiles.filter((e: any) => !e.isBot).length}</strong> humans · <strong>${analysis.expertProfiles.filter((e: any) => e.isBot).length}</strong> agents</span>
             ${assistedCommits > 0 ? `<span class="pill">🤝 <strong>${Math.round(assistedShare * 100)}%</strong> AI-assisted commits</span>` : ''}
+            ${this.renderExclusionPill(analysis)}
         </div>
     </div>
 
@@ -647,8 +632,13 @@ export class ExpertiseWebviewProvider {
                     <div class="expert-stats">
                         <div class="stat"><div class="stat-value">${expertise}%</div><div class="stat-label">Expertise</div></div>
                         <div class="stat"><div class="stat-value">${contributions}</div><div class="stat-label">Commits</div></div>
+                        ${expert.recencyScore !== undefined ? `<div class="stat"><div class="stat-value">${normalizePercentage(expert.recencyScore)}%</div><div class="stat-label">Current</div></div>` : ''}
                         <div class="stat"><div class="stat-value">${this.calculateDaysAgo(expert.lastCommit)}</div><div class="stat-label">Days Ago</div></div>
                     </div>
+                    ${expert.scoreBreakdown ? `<div class="score-why">Why: ${escapeHtml(explainScore(expert.scoreBreakdown))}</div>` : ''}
+                    ${this.renderChurn(expert)}
+                    ${this.renderReviews(expert)}
+                    ${this.renderActivity(expert)}
                     ${expert.specializations?.length ? `<div class="chips">${specializations}</div>` : ''}
                 </div>`;
             }).join('')}
@@ -741,18 +731,25 @@ export class ExpertiseWebviewProvider {
         const analysis = this.currentAnalysis;
         
         // Experts CSV
-        const expertsHeader = 'Name,Email,Expertise %,Contributions,Last Commit,Specializations,Team Role,Communication Style,Workload,Collaboration Style\n';
+        const expertsHeader = 'Name,Email,Expertise %,Contributions,Current Knowledge %,Lines Added,Lines Deleted,Reviews Given,Own Commits Reviewed,Last Commit,Specializations,Team Role,Communication Style,Workload,Timezone,Outside Hours %,Collaboration Style\n';
         const expertsRows = analysis.expertProfiles.map((expert: any) => {
             return [
                 escapeCsvCell(expert.name),
                 escapeCsvCell(expert.email),
                 normalizePercentage(expert.expertise),
                 normalizeCount(expert.contributions),
+                expert.recencyScore === undefined ? '' : normalizePercentage(expert.recencyScore),
+                expert.additions === undefined ? '' : normalizeCount(expert.additions),
+                expert.deletions === undefined ? '' : normalizeCount(expert.deletions),
+                expert.reviews ? normalizeCount(this.countReviewsGiven(expert.reviews)) : '',
+                expert.reviews ? normalizeCount(expert.reviews.reviewedCommits) : '',
                 escapeCsvCell(this.safeFormatDate(expert.lastCommit)),
                 escapeCsvCell((expert.specializations || []).join('; ')),
                 escapeCsvCell(expert.teamRole || ''),
                 escapeCsvCell(expert.communicationStyle || ''),
                 escapeCsvCell(expert.workloadIndicator || ''),
+                expert.activity ? escapeCsvCell(formatUtcOffset(Number(expert.activity.dominantUtcOffset))) : '',
+                expert.activity ? Math.round(normalizeRatio(expert.activity.afterHoursShare + expert.activity.weekendShare) * 100) : '',
                 escapeCsvCell(expert.collaborationStyle || '')
             ].join(',');
         }).join('\n');
@@ -796,6 +793,303 @@ export class ExpertiseWebviewProvider {
         return result;
     }
 
+    /**
+     * Line churn (git log --numstat) for an expert card; empty when the
+     * analysis predates numstat or the expert came from AI output alone.
+     */
+    private renderChurn(expert: Expert): string {
+        if (expert.additions === undefined || expert.deletions === undefined) {
+            return '';
+        }
+        return `<div class="expert-churn">+${normalizeCount(expert.additions).toLocaleString()} / −${normalizeCount(expert.deletions).toLocaleString()} lines</div>`;
+    }
+
+    /** Review-trailer activity for an expert card; empty when the history has none for them. */
+    private renderReviews(expert: Expert): string {
+        if (!expert.reviews) {
+            return '';
+        }
+        const given = normalizeCount(this.countReviewsGiven(expert.reviews));
+        const received = normalizeCount(expert.reviews.reviewedCommits);
+        if (given === 0 && received === 0) {
+            return '';
+        }
+        return `<div class="expert-churn">✅ ${given.toLocaleString()} reviews given · ${received.toLocaleString()} own commits reviewed</div>`;
+    }
+
+    /** Working-hours pattern for an expert card; empty for analyses saved before it was measured. */
+    private renderActivity(expert: Expert): string {
+        if (!expert.activity) {
+            return '';
+        }
+        const afterHours = Math.round(normalizeRatio(expert.activity.afterHoursShare) * 100);
+        const weekend = Math.round(normalizeRatio(expert.activity.weekendShare) * 100);
+        const overloaded = expert.workloadIndicator === 'overloaded' ? ' · ⚠️ overloaded' : '';
+        return `<div class="expert-churn">🕒 ${escapeHtml(formatUtcOffset(Number(expert.activity.dominantUtcOffset)))} · ${afterHours}% after hours · ${weekend}% weekends${overloaded}</div>`;
+    }
+
+    /** Header pill saying how many commits were left out of expertise scoring, and why. */
+    private renderExclusionPill(analysis: ExpertiseAnalysis): string {
+        const summary = describeCommitExclusions(analysis.commitExclusions);
+        if (!summary) {
+            return '';
+        }
+        return `<span class="pill">🧹 ${escapeHtml(summary)}</span>`;
+    }
+
+    /** Truck factor per directory and module, riskiest first. */
+    private renderBusFactor(analysis: ExpertiseAnalysis): string {
+        const report = analysis.teamHealthMetrics?.busFactor;
+        if (!report || report.repository.files === 0) {
+            return `<div class="health-empty">
+                <div class="empty-state-icon">🚌</div>
+                <div>Not enough commit history to measure the bus factor</div>
+            </div>`;
+        }
+
+        const repository = report.repository;
+        const rows = report.scopes.slice(0, 15).map(scope => {
+            const busFactor = normalizeCount(scope.busFactor);
+            const level = busFactor <= 1 ? 'high' : busFactor === 2 ? 'medium' : 'low';
+            return `
+                <tr>
+                    <td><code>${escapeHtml(scope.path)}</code>${scope.scope === 'module' ? ' <span class="coupling-flag">module</span>' : ''}</td>
+                    <td><span class="bus-factor ${level}">${busFactor}</span></td>
+                    <td>${scope.keyPeople.map(person => escapeHtml(person)).join(', ') || '—'}</td>
+                    <td>${normalizeCount(scope.files)}</td>
+                    <td>${normalizeCount(scope.authors)}</td>
+                    <td><div class="mini-bar"><div class="mini-bar-fill" style="width:${Math.round(normalizeRatio(scope.orphanedShare) * 100)}%"></div></div> ${Math.round(normalizeRatio(scope.orphanedShare) * 100)}%</td>
+                </tr>`;
+        }).join('');
+
+        return `
+            <div class="metric-details">
+                <div class="metric-item ${repository.busFactor <= 1 ? 'critical' : repository.busFactor === 2 ? 'warning' : 'positive'}">
+                    <strong>Repository bus factor: ${normalizeCount(repository.busFactor)}</strong>
+                    — ${repository.keyPeople.length > 0 ? `if ${repository.keyPeople.map(person => escapeHtml(person)).join(', ')} left, ` : ''}${Math.round(normalizeRatio(repository.orphanedShare) * 100)}% of ${normalizeCount(repository.files)} files would have no author left.
+                </div>
+            </div>
+            ${rows ? `<table class="contributor-table coupling-table">
+                <thead>
+                    <tr>
+                        <th>Directory</th>
+                        <th>Bus factor</th>
+                        <th>Key people</th>
+                        <th>Files</th>
+                        <th>Authors</th>
+                        <th>Orphaned if they leave</th>
+                    </tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>` : ''}
+        `;
+    }
+
+    /** Where CODEOWNERS disagrees with the history, most actionable first. */
+    private renderCodeownersDrift(analysis: ExpertiseAnalysis): string {
+        const report = analysis.codeownersDrift;
+        if (!report) {
+            return `<div class="health-empty">
+                <div class="empty-state-icon">📋</div>
+                <div>No CODEOWNERS file in .github/, the repository root or docs/</div>
+            </div>`;
+        }
+
+        const labels: Record<string, string> = {
+            'inactive-owner': 'inactive owner',
+            'unlisted-expert': 'expert not listed',
+            unowned: 'unowned',
+        };
+        const rows = report.issues.slice(0, 25).map(issue => `
+                <tr>
+                    <td><span class="coupling-flag${issue.kind === 'unowned' ? '' : ' silo'}">${labels[issue.kind] ?? escapeHtml(issue.kind)}</span></td>
+                    <td><code>${escapeHtml(issue.pattern)}</code>${issue.line !== undefined ? ` <span class="rule-line">line ${normalizeCount(issue.line)}</span>` : ''}</td>
+                    <td>${escapeHtml(issue.message)}</td>
+                </tr>`).join('');
+        const unownedShare = report.checkedFiles > 0 ? Math.round(report.unownedFiles / report.checkedFiles * 100) : 0;
+
+        return `
+            <div class="metric-details">
+                <div class="metric-item ${report.issues.length > 0 ? 'warning' : 'positive'}">
+                    <strong><code>${escapeHtml(report.file)}</code>: ${report.issues.length > 0 ? `${normalizeCount(report.issues.length)} issue${report.issues.length === 1 ? '' : 's'}` : 'matches the history'}</strong>
+                    — ${normalizeCount(report.rules)} rules, ${normalizeCount(report.unownedFiles)} of ${normalizeCount(report.checkedFiles)} files (${unownedShare}%) without an owner.
+                </div>
+            </div>
+            ${rows ? `<table class="contributor-table coupling-table">
+                <thead>
+                    <tr>
+                        <th>Issue</th>
+                        <th>Rule</th>
+                        <th>Details</th>
+                    </tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>` : ''}
+        `;
+    }
+
+    /** Files nobody active knows, longest-inactive first. */
+    private renderOrphanedCode(analysis: ExpertiseAnalysis): string {
+        const report = analysis.orphanedCode;
+        if (!report) {
+            return `<div class="health-empty">
+                <div class="empty-state-icon">🏚</div>
+                <div>Orphaned code was not measured for this analysis</div>
+            </div>`;
+        }
+
+        const rows = report.files.slice(0, 25).map(file => `
+                <tr>
+                    <td><code>${escapeHtml(file.filePath)}</code></td>
+                    <td><span class="coupling-flag${file.reason === 'inactive-experts' ? ' silo' : ''}">${file.reason === 'inactive-experts' ? 'experts inactive' : 'no human changes'}</span></td>
+                    <td>${escapeHtml(file.lastKnownBy)}${file.experts.length > 1 ? ` <span class="rule-line">+${normalizeCount(file.experts.length - 1)} more</span>` : ''}</td>
+                    <td>${this.safeFormatDate(file.lastActive)} <span class="rule-line">${this.calculateDaysAgo(file.lastActive)} days ago</span></td>
+                </tr>`).join('');
+
+        return `
+            <div class="metric-details">
+                <div class="metric-item ${report.orphanedFiles > 0 ? 'warning' : 'positive'}">
+                    <strong>${normalizeCount(report.orphanedFiles)} of ${normalizeCount(report.checkedFiles)} files orphaned</strong>
+                    — every expert inactive for more than ${normalizeCount(report.inactiveDays)} days, or never changed by a human.
+                </div>
+            </div>
+            ${rows ? `<table class="contributor-table coupling-table">
+                <thead>
+                    <tr>
+                        <th>File</th>
+                        <th>Why</th>
+                        <th>Last known by</th>
+                        <th>Last active</th>
+                    </tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>` : ''}
+        `;
+    }
+
+    /**
+     * "When you touch X you usually also touch Y" rules. Pairs across
+     * directories are flagged as hidden coupling, and pairs only one person
+     * ever changed together as knowledge held by one head.
+     */
+    private renderTemporalCoupling(analysis: ExpertiseAnalysis): string {
+        const rules = (analysis.temporalCoupling ?? []).slice(0, 15);
+        if (rules.length === 0) {
+            return `<div class="health-empty">
+                <div class="empty-state-icon">🔗</div>
+                <div>No files change together often enough to show coupling</div>
+            </div>`;
+        }
+
+        // Rules are directional; count each file pair once
+        const hidden = new Set((analysis.temporalCoupling ?? [])
+            .filter(rule => rule.crossModule)
+            .map(rule => [rule.file, rule.coupledFile].sort().join('\0'))).size;
+        const rows = rules.map(rule => {
+            const authors = rule.authors.map(author => `${escapeHtml(author.name)} (${normalizeCount(author.commits)})`).join(', ');
+            const soleAuthor = rule.authors.length === 1 ? ' <span class="coupling-flag silo">only one person</span>' : '';
+            return `
+                <tr>
+                    <td><code>${escapeHtml(rule.file)}</code></td>
+                    <td><code>${escapeHtml(rule.coupledFile)}</code>${rule.crossModule ? ' <span class="coupling-flag">hidden</span>' : ''}</td>
+                    <td><div class="mini-bar"><div class="mini-bar-fill" style="width:${Math.round(normalizeRatio(rule.confidence) * 100)}%"></div></div> ${Math.round(normalizeRatio(rule.confidence) * 100)}%</td>
+                    <td>${normalizeCount(rule.coChanges)}</td>
+                    <td>${authors}${soleAuthor}</td>
+                </tr>`;
+        }).join('');
+
+        return `
+            <div class="metric-details">
+                <div class="metric-item ${hidden > 0 ? 'warning' : 'positive'}">
+                    <strong>${hidden > 0 ? `${hidden} hidden coupling${hidden === 1 ? '' : 's'}` : 'No hidden coupling'}</strong>
+                    ${hidden > 0 ? 'between files in different directories — nothing in the layout says they belong together.' : 'Files that change together live side by side.'}
+                </div>
+            </div>
+            <table class="contributor-table coupling-table">
+                <thead>
+                    <tr>
+                        <th>When you touch</th>
+                        <th>You usually also touch</th>
+                        <th>Confidence</th>
+                        <th>Together</th>
+                        <th>Changed together by</th>
+                    </tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>
+        `;
+    }
+
+    /** Follow-the-sun coverage: timezones, active people per UTC hour, and uncovered hours. */
+    private renderTimezoneCoverage(analysis: ExpertiseAnalysis): string {
+        const coverage = analysis.timezoneCoverage;
+        if (!coverage || coverage.timezones.length === 0) {
+            return `<div class="health-empty">
+                <div class="empty-state-icon">🌍</div>
+                <div>Not enough commit history to infer working hours</div>
+            </div>`;
+        }
+
+        const peak = Math.max(1, ...coverage.activeByUtcHour.map(count => normalizeCount(count)));
+        const cells = coverage.activeByUtcHour.map((rawCount, hour) => {
+            const count = normalizeCount(rawCount);
+            const label = `${String(hour).padStart(2, '0')}:00 UTC — ${count} ${count === 1 ? 'person' : 'people'}`;
+            return count === 0
+                ? `<div class="coverage-cell gap" title="${label}"></div>`
+                : `<div class="coverage-cell" title="${label}" style="opacity:${(0.25 + 0.75 * count / peak).toFixed(2)}"></div>`;
+        }).join('');
+        const formatHour = (hour: number) => `${String(hour % 24).padStart(2, '0')}:00`;
+        const gaps = coverage.gaps.map(gap => {
+            const hours = normalizeCount(gap.hours);
+            const start = normalizeCount(gap.startUtcHour);
+            return `<li>${formatHour(start)}–${formatHour(start + hours)} UTC (${hours}h)</li>`;
+        }).join('');
+        const overloaded = analysis.expertProfiles
+            .filter(expert => !expert.isBot && expert.workloadIndicator === 'overloaded' && expert.activity)
+            .map(expert => {
+                const share = Math.round(normalizeRatio(expert.activity!.afterHoursShare + expert.activity!.weekendShare) * 100);
+                return `<li>${escapeHtml(expert.name)} — ${share}% of commits on evenings or weekends</li>`;
+            }).join('');
+
+        return `
+            <div class="health-metrics-grid">
+                <div class="health-metric-card">
+                    <h4>🌍 Timezones</h4>
+                    <div class="metric-details">
+                        ${coverage.timezones.map(zone => `
+                            <div class="metric-item"><strong>${escapeHtml(formatUtcOffset(Number(zone.utcOffset)))}</strong>${zone.members.map(name => escapeHtml(name)).join(', ')}</div>
+                        `).join('')}
+                    </div>
+                </div>
+                <div class="health-metric-card">
+                    <h4>☀️ Follow-the-Sun Coverage</h4>
+                    <div class="coverage-strip">${cells}</div>
+                    <div class="coverage-axis"><span>00</span><span>06</span><span>12</span><span>18</span><span>24 UTC</span></div>
+                    <div class="metric-details">
+                        ${coverage.timezones.length < 2
+                            ? '<div class="metric-item">The team works from a single timezone, so uncovered hours are expected.</div>'
+                            : gaps
+                                ? `<div class="metric-item warning"><strong>Coverage gaps:</strong><ul>${gaps}</ul></div>`
+                                : '<div class="metric-item positive"><strong>Every UTC hour has someone working</strong></div>'}
+                    </div>
+                </div>
+                <div class="health-metric-card">
+                    <h4>🔥 Workload</h4>
+                    <div class="metric-details">
+                        ${overloaded
+                            ? `<div class="metric-item critical"><strong>Working outside hours:</strong><ul>${overloaded}</ul></div>`
+                            : '<div class="metric-item positive"><strong>No one commits mostly outside working hours</strong></div>'}
+                    </div>
+                </div>
+            </div>
+        `;
+    }
+
+    // Reviewed-by, Acked-by and Tested-by on other people's commits; sign-offs are not reviews
+    private countReviewsGiven(reviews: NonNullable<Expert['reviews']>): number {
+        return reviews.reviewed + reviews.acked + reviews.tested;
+    }
+
     private calculateDaysAgo(lastCommitDate: any): string {
         try {
             if (!lastCommitDate) {
@@ -879,7 +1173,7 @@ export class ExpertiseWebviewProvider {
 
         // Re-register message handler for the final panel
         panel.webview.onDidReceiveMessage(
-            (message: unknown) => this.handleWebviewMessage(message),
+            (message: unknown) => this.handleWebviewMessage(message, analysis),
             undefined,
             this.context.subscriptions
         );
@@ -1106,6 +1400,7 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
 
         /* Stats row */
         .expert-stats{display:grid;grid-template-columns:repeat(3,1fr);gap:8px;margin:12px 0}
+        .expert-churn{font-size:.85em;color:var(--text-muted);margin:-4px 0 10px}
         .stat{text-align:center;padding:8px;background:var(--bg);border-radius:6px;border:1px solid var(--border)}
         .stat-value{font-weight:700;font-size:1.05em;color:var(--accent);display:block}
         .stat-label{font-size:0.78em;color:var(--text-muted);text-transform:uppercase;letter-spacing:0.5px}
@@ -1178,6 +1473,18 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
         .metric-item.positive strong{color:#10b981}
         .metric-item strong{display:block;margin-bottom:8px;color:var(--text)}
         .metric-item ul{margin:0;padding-left:16px;color:var(--text-soft)}
+        .coverage-strip{display:grid;grid-template-columns:repeat(24,1fr);gap:2px;margin-bottom:4px}
+        .coverage-cell{height:28px;border-radius:3px;background:var(--accent)}
+        .coverage-cell.gap{background:transparent;border:1px dashed rgba(239,68,68,0.6)}
+        .coverage-axis{display:flex;justify-content:space-between;font-size:0.75em;color:var(--text-muted);margin-bottom:8px}
+        .coupling-table code{font-size:0.9em;word-break:break-all}
+        .coupling-flag{display:inline-block;padding:1px 8px;border-radius:999px;font-size:0.75em;background:rgba(245,158,11,0.15);color:#f59e0b;white-space:nowrap}
+        .coupling-flag.silo{background:rgba(239,68,68,0.15);color:#ef4444}
+        .rule-line{font-size:0.8em;color:var(--text-muted);white-space:nowrap}
+        .bus-factor{display:inline-block;min-width:28px;padding:2px 8px;border-radius:6px;text-align:center;font-weight:700}
+        .bus-factor.high{background:rgba(239,68,68,0.15);color:#ef4444}
+        .bus-factor.medium{background:rgba(245,158,11,0.15);color:#f59e0b}
+        .bus-factor.low{background:rgba(16,185,129,0.15);color:#10b981}
         .collaboration-stats{display:grid;grid-template-columns:repeat(auto-fit,minmax(120px,1fr));gap:12px;margin-bottom:16px}
         .collab-stat{background:var(--bg);border:1px solid var(--border);padding:12px;border-radius:6px;text-align:center}
         .collab-stat .stat-value{display:block;font-size:1.4em;font-weight:700;color:var(--accent);margin-bottom:4px}
@@ -1249,8 +1556,10 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
         <div class="stats">
             <span class="pill">Generated <strong>${this.safeFormatDate(analysis.generatedAt)}</strong></span>
             <span class="pill"><strong>${totalFiles}</strong> files scanned</span>
+            ${analysis.historyLabel ? `<span class="pill">🗓️ <strong>${escapeHtml(analysis.historyLabel)}</strong></span>` : ''}
             <span class="pill"><strong>${analysis.expertProfiles.filter((e: any) => !e.isBot).length}</strong> humans · <strong>${analysis.expertProfiles.filter((e: any) => e.isBot).length}</strong> agents</span>
             ${assistedCommits > 0 ? `<span class="pill">🤝 <strong>${Math.round(assistedShare * 100)}%</strong> AI-assisted commits</span>` : ''}
+            ${this.renderExclusionPill(analysis)}
             <span class="pill"><strong>${analysis.insights.length}</strong> insights</span>
         </div>
     </div>
@@ -1272,6 +1581,8 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
                         <th class="sortable" data-sort-col="email">Email <span class="sort-arrow" id="sort-email"></span></th>
                         <th class="sortable" data-sort-col="expertise">Expertise <span class="sort-arrow" id="sort-expertise"></span></th>
                         <th class="sortable" data-sort-col="contributions">Commits <span class="sort-arrow" id="sort-contributions"></span></th>
+                        <th class="sortable" data-sort-col="current" title="Commits decayed by age: 100% is the person who knows the code best today">Current <span class="sort-arrow" id="sort-current"></span></th>
+                        <th>Lines +/−</th>
                         <th class="sortable" data-sort-col="lastCommit">Last Commit <span class="sort-arrow" id="sort-lastCommit"></span></th>
                         <th>Specializations</th>
                     </tr>
@@ -1287,11 +1598,13 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
                             .map(specialization => `<span class="chip">${escapeHtml(specialization)}</span>`)
                             .join('');
                         return `
-                        <tr data-name="${expertName}" data-email="${expertEmail}" data-expertise="${expertise}" data-contributions="${contributions}" data-lastcommit="${this.toSafeIsoDate(expert.lastCommit)}" data-specs="${escapeHtml((expert.specializations || []).join(', '))}">
+                        <tr data-name="${expertName}" data-email="${expertEmail}" data-expertise="${expertise}" data-contributions="${contributions}" data-current="${expert.recencyScore ?? ''}" data-lastcommit="${this.toSafeIsoDate(expert.lastCommit)}" data-specs="${escapeHtml((expert.specializations || []).join(', '))}">
                             <td>${expert.isBot ? '🤖 ' : expert.contributorKind === 'ai-assisted-human' ? '🤝 ' : ''}${expertName}${teamRole}</td>
                             <td class="email-cell">${expertEmail}</td>
-                            <td><div class="mini-bar"><div class="mini-bar-fill" style="width:${expertise}%"></div></div> ${expertise}%</td>
+                            <td${expert.scoreBreakdown ? ` title="Why: ${escapeHtml(explainScore(expert.scoreBreakdown))}"` : ''}><div class="mini-bar"><div class="mini-bar-fill" style="width:${expertise}%"></div></div> ${expertise}%</td>
                             <td>${contributions}</td>
+                            <td>${expert.recencyScore === undefined ? '—' : `${normalizePercentage(expert.recencyScore)}%`}</td>
+                            <td class="churn-cell">${expert.additions === undefined ? '—' : `+${normalizeCount(expert.additions)} / −${normalizeCount(expert.deletions)}`}</td>
                             <td>${this.safeFormatDate(expert.lastCommit)}</td>
                             <td><div class="chips">${specializations}</div></td>
                         </tr>
@@ -1310,7 +1623,7 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
                     const expertFiles = filesByExpert.get(expert.name) || [];
                     const escapedExpertName = escapeHtml(expert.name || 'Unknown');
                     const escapedExpertEmail = escapeHtml(expert.email);
-                    const avatarUsername = escapeHtml(this.getGitHubUsername(expert.email, expert.name));
+                    const avatarUsername = escapeHtml(guessGitHubUsername(expert.email, expert.name));
                     const teamRole = expert.teamRole ? `<span class="role-badge">${escapeHtml(expert.teamRole)}</span>` : '';
                     const initials = escapeHtml(expert.name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2));
                     const specializations = (expert.specializations || [])
@@ -1344,6 +1657,9 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
                             <div class="stat"><div class="stat-value">${contributions}</div><div class="stat-label">Commits</div></div>
                             <div class="stat"><div class="stat-value">${this.calculateDaysAgo(expert.lastCommit)}</div><div class="stat-label">Days Ago</div></div>
                         </div>
+                        ${this.renderChurn(expert)}
+                        ${this.renderReviews(expert)}
+                        ${this.renderActivity(expert)}
 
                         ${(expert.specializations || []).length ? `<div class="chips">${specializations}</div>` : ''}
 
@@ -1404,6 +1720,56 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
         </div>
     </div>
 
+    <div class="section">
+        <h2 data-section-id="bus-factor" class="collapsible-header">
+            <span><span class="accent">▸</span> Bus Factor</span>
+            <span class="toggle-icon" id="bus-factor-icon">▼</span>
+        </h2>
+        <div class="collapsible-content" id="bus-factor-content">
+            <div class="cc-inner">${this.renderBusFactor(analysis)}</div>
+        </div>
+    </div>
+
+    <div class="section">
+        <h2 data-section-id="codeowners-drift" class="collapsible-header">
+            <span><span class="accent">▸</span> CODEOWNERS Drift</span>
+            <span class="toggle-icon" id="codeowners-drift-icon">▼</span>
+        </h2>
+        <div class="collapsible-content" id="codeowners-drift-content">
+            <div class="cc-inner">${this.renderCodeownersDrift(analysis)}</div>
+        </div>
+    </div>
+
+    <div class="section">
+        <h2 data-section-id="orphaned-code" class="collapsible-header">
+            <span><span class="accent">▸</span> Orphaned Code</span>
+            <span class="toggle-icon" id="orphaned-code-icon">▼</span>
+        </h2>
+        <div class="collapsible-content" id="orphaned-code-content">
+            <div class="cc-inner">${this.renderOrphanedCode(analysis)}</div>
+        </div>
+    </div>
+
+    <div class="section">
+        <h2 data-section-id="working-hours" class="collapsible-header">
+            <span><span class="accent">▸</span> Working Hours &amp; Coverage</span>
+            <span class="toggle-icon" id="working-hours-icon">▼</span>
+        </h2>
+        <div class="collapsible-content" id="working-hours-content">
+            <div class="cc-inner">${this.renderTimezoneCoverage(analysis)}</div>
+        </div>
+    </div>
+
+    <div class="section">
+        <h2 data-section-id="change-coupling" class="collapsible-header">
+            <span><span class="accent">▸</span> Change Coupling</span>
+            <span class="toggle-icon" id="change-coupling-icon">▼</span>
+        </h2>
+        <div class="collapsible-content" id="change-coupling-content">
+            <div class="cc-inner">${this.renderTemporalCoupling(analysis)}</div>
+        </div>
+    </div>
+
     <div class="section">
         <h2 data-section-id="ai-insights" class="collapsible-header">
             <span><span class="accent">▸</span> Key Insights</span>
@@ -1693,7 +2059,7 @@ body.theme-dark{--bg:#0a0a0f;--surface:#12121a;--border:#1e293b;--border-hover:#
                 let va = a.getAttribute('data-' + col) || '';
                 let vb = b.getAttribute('data-' + col) || '';
 
-                if (col === 'expertise' || col === 'contributions') {
+                if (col === 'expertise' || col === 'contributions' || col === 'current') {
                     return currentSortAsc ? Number(va) - Number(vb) : Number(vb) - Number(va);
                 }
                 if (col === 'lastcommit' || col === 'lastCommit') {
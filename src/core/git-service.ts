@@ -1,15 +1,27 @@
-import { execFile } from 'child_process';
+import { execFile, spawn } from 'child_process';
 import { promisify } from 'util';
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { GitCommit, GitContributor } from '../types/expert';
+import type { FileOwnership, GitAuthor, GitCommit, GitContributor, WorkingTreeChange } from '../types/expert';
 import {
     COMMIT_LOG_FORMAT,
     COMMIT_LOG_FORMAT_WITH_FILES,
+    NUMSTAT_LOG_ARGS,
+    createRecordSplitter,
     parseCommitLog,
-    parseCommitLogWithFiles
+    parseCommitLogWithFiles,
+    parseDiffNumstat,
+    parseNumstatRecord
 } from '../utils/git-log-format';
+import {
+    buildBlameArgs,
+    parseBlameLines,
+    parseBlamePorcelain,
+    type BlameIgnoreOptions,
+    type BlameLine,
+    type LineRange
+} from '../utils/git-blame';
 
 const execFileAsync = promisify(execFile);
 
@@ -22,6 +34,7 @@ export class GitService {
     private readonly AUTHOR_DATE_TIMEOUT_MS = 5000; // Keep contributor enrichment responsive
     private readonly MAX_BUFFER = 10 * 1024 * 1024; // 10MB
     private readonly CONTRIBUTOR_DATE_ENRICHMENT_LIMIT = 5;
+    private readonly COMMITS_PER_LOOKUP = 200; // SHAs or identities per git call, well under argument limits
     private static instanceCache = new Map<string, GitService>();
 
     constructor(
@@ -117,23 +130,49 @@ export class GitService {
     }
 
     /**
-     * Get commits from the repository
-     * @param limit - Maximum number of commits to retrieve
+     * Get recent commits from the repository, with touched files and line
+     * counts from the same `--numstat` pass. This runs on the extension host,
+     * so the count is always capped; whole histories go through the worker
+     * (GitWorkerClient), which bounds the log it retains.
+     * @param limit - Maximum number of commits to retrieve (1-1000)
      * @returns Array of git commits
      */
-    async getCommits(limit: number = 500, sinceDate?: string): Promise<GitCommit[]> {
-        const args = [
-            'log',
-            `--pretty=format:${COMMIT_LOG_FORMAT}`,
-            '-n',
-            String(Math.max(1, Math.min(limit, 1000))) // Clamp between 1 and 1000
-        ];
+    async getCommits(limit: number, sinceDate?: string): Promise<GitCommit[]> {
+        const args = [...NUMSTAT_LOG_ARGS, '-n', String(Math.max(1, Math.min(Math.floor(limit), 1000)))];
         if (sinceDate) {
             args.push(`--since=${sinceDate}`);
         }
 
-        const output = await this.executeGitCommand(args);
-        return this.parseCommitOutput(output);
+        this.outputChannel?.appendLine(`Executing: git ${args.join(' ')}`);
+        return new Promise((resolve, reject) => {
+            const child = spawn('git', args, { cwd: this.repoPath, stdio: ['ignore', 'pipe', 'pipe'] });
+            const commits: GitCommit[] = [];
+            let stderr = '';
+            const splitter = createRecordSplitter(record => {
+                const commit = parseNumstatRecord(record);
+                if (commit) {
+                    commits.push(commit);
+                }
+            });
+
+            child.stdout.setEncoding('utf8');
+            child.stdout.on('data', (chunk: string) => splitter.push(chunk));
+            child.stderr.setEncoding('utf8');
+            child.stderr.on('data', (chunk: string) => {
+                if (stderr.length < 4096) { stderr += chunk; }
+            });
+            child.on('error', reject);
+            child.on('close', code => {
+                if (code !== 0) {
+                    const message = stderr.trim() || `git log exited with code ${code}`;
+                    this.outputChannel?.appendLine(`Git command failed: ${message}`);
+                    reject(new Error(`Git command failed: ${message}`));
+                    return;
+                }
+                splitter.flush();
+                resolve(commits);
+            });
+        });
     }
 
     /**
@@ -177,8 +216,8 @@ export class GitService {
                         name: match[2],
                         email: match[3],
                         commits: parseInt(match[1], 10),
-                        additions: 0,      // Would require git log --numstat to calculate
-                        deletions: 0,      // Would require git log --numstat to calculate
+                        additions: 0,      // Shortlog has no line counts; churn comes from getCommits (--numstat)
+                        deletions: 0,
                         firstCommit: '',   // Will be populated below for top 20 contributors
                         lastCommit: ''     // Will be populated below for top 20 contributors
                     };
@@ -302,6 +341,171 @@ export class GitService {
         return this.parseCommitOutputWithFiles(output);
     }
 
+    /**
+     * Get the commits that shaped a range of lines (`git log -L`), following
+     * the lines back through edits and renames. `-L` supports no diff format
+     * besides patches, so the log is read with `-s` and each commit lists
+     * only the file itself, without line counts.
+     * @param filePath - Absolute or repository-relative file path
+     * @param range - Lines at HEAD, 1-based and inclusive
+     * @param limit - Maximum number of commits
+     * @returns Commits that changed those lines, newest first
+     */
+    async getCommitsForLineRange(filePath: string, range: LineRange, limit: number = 100): Promise<GitCommit[]> {
+        const normalizedPath = this.normalizeGitPath(filePath);
+        const args = [
+            'log',
+            `-L${range.start},${range.end}:${normalizedPath}`,
+            '-s',
+            `--pretty=format:${COMMIT_LOG_FORMAT_WITH_FILES}`,
+            '-n',
+            String(Math.max(1, Math.min(limit, 1000))),
+        ];
+
+        const output = await this.executeGitCommand(args);
+        return this.parseCommitOutputWithFiles(output).map(commit => ({ ...commit, files: [normalizedPath] }));
+    }
+
+    /**
+     * Compute line-level ownership of a file via git blame: how many of its
+     * current lines each author last changed.
+     * @param filePath - Absolute or repository-relative file path
+     * @param ignore - Commits to look through (reformatting sweeps, mass changes)
+     * @param range - Blame only these lines at HEAD
+     * @returns Ownership, or null when the file isn't tracked at HEAD
+     */
+    async getFileOwnership(filePath: string, ignore?: BlameIgnoreOptions, range?: LineRange): Promise<FileOwnership | null> {
+        const normalizedPath = this.normalizeGitPath(filePath);
+        try {
+            const output = await this.executeGitCommand(buildBlameArgs(normalizedPath, ignore, range));
+            return parseBlamePorcelain(output, normalizedPath);
+        } catch (error) {
+            this.outputChannel?.appendLine(`Blame unavailable for ${normalizedPath}: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Blame the file as saved on disk, one entry per line. Lines changed
+     * since HEAD carry UNCOMMITTED_SHA.
+     * @param filePath - Absolute or repository-relative file path
+     * @param ignore - Commits to look through (reformatting sweeps, mass changes)
+     * @returns Lines in file order, or an empty list when the file isn't tracked
+     */
+    async getLineBlame(filePath: string, ignore?: BlameIgnoreOptions): Promise<BlameLine[]> {
+        const normalizedPath = this.normalizeGitPath(filePath);
+        try {
+            return parseBlameLines(await this.executeGitCommand(buildBlameArgs(normalizedPath, ignore, undefined, true)));
+        } catch (error) {
+            this.outputChannel?.appendLine(`Blame unavailable for ${normalizedPath}: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Look up commits by SHA, with their co-author and attribution trailers
+     * @param shas - Full commit SHAs
+     * @returns The commits git knows, in no particular order
+     */
+    async getCommitsBySha(shas: string[]): Promise<GitCommit[]> {
+        const valid = Array.from(new Set(shas.filter(sha => /^[0-9a-f]{40}$/.test(sha))));
+        const commits: GitCommit[] = [];
+        for (let i = 0; i < valid.length; i += this.COMMITS_PER_LOOKUP) {
+            const output = await this.executeGitCommand([
+                'log',
+                '--no-walk=unsorted',
+                `--pretty=format:${COMMIT_LOG_FORMAT}`,
+                ...valid.slice(i, i + this.COMMITS_PER_LOOKUP),
+            ]);
+            commits.push(...this.parseCommitOutput(output));
+        }
+        return commits;
+    }
+
+    /**
+     * The file's blob id at HEAD, when the file on disk still matches it.
+     * Line numbers in the working copy are then line numbers at HEAD, and
+     * the id changes whenever a commit changes the file.
+     * @param filePath - Absolute or repository-relative file path
+     * @returns The blob id, or null when the file is untracked or modified
+     */
+    async getCommittedRevision(filePath: string): Promise<string | null> {
+        const normalizedPath = this.normalizeGitPath(filePath);
+        try {
+            const [committed, working] = await Promise.all([
+                this.executeGitCommand(['rev-parse', `HEAD:${normalizedPath}`]),
+                this.executeGitCommand(['hash-object', '--', normalizedPath]),
+            ]);
+            return committed.trim() === working.trim() ? committed.trim() : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Files changed in the working tree, staged and unstaged, with the lines
+     * changed summed over both. `--numstat` is `--name-only` plus line
+     * counts, and `-z` keeps paths unquoted; renamed files are reported
+     * under their new path.
+     * @returns One entry per changed file
+     */
+    async getWorkingTreeChanges(): Promise<WorkingTreeChange[]> {
+        const [unstaged, staged] = await Promise.all([
+            this.executeGitCommand(['diff', '--numstat', '-z']),
+            this.executeGitCommand(['diff', '--numstat', '-z', '--cached']),
+        ]);
+
+        const lines = new Map<string, number>();
+        for (const change of [...parseDiffNumstat(unstaged), ...parseDiffNumstat(staged)]) {
+            lines.set(change.path, (lines.get(change.path) ?? 0) + change.lines);
+        }
+        return Array.from(lines, ([filePath, count]) => ({ path: filePath, lines: count }));
+    }
+
+    /**
+     * Apply the repository's mailmap to identities git does not map itself,
+     * such as those named in commit trailers
+     * @param identities - Identities to map
+     * @returns Mapped identities keyed by `${name}\0${email}`; unmapped ones are left out
+     */
+    async checkMailmap(identities: GitAuthor[]): Promise<Map<string, GitAuthor>> {
+        // check-mailmap reads "Name <email>"; angle brackets inside either part can't be passed
+        const valid = identities.filter(identity => identity.email && !/[<>\n]/.test(identity.name + identity.email));
+        const mapped = new Map<string, GitAuthor>();
+        for (let i = 0; i < valid.length; i += this.COMMITS_PER_LOOKUP) {
+            const batch = valid.slice(i, i + this.COMMITS_PER_LOOKUP);
+            const output = await this.executeGitCommand([
+                'check-mailmap',
+                ...batch.map(identity => identity.name ? `${identity.name} <${identity.email}>` : `<${identity.email}>`),
+            ]);
+            output.split('\n').filter(line => line.trim()).forEach((line, index) => {
+                const match = line.match(/^(.*?)\s*<([^>]*)>$/);
+                const identity = batch[index];
+                if (!match || !identity || (match[1] === identity.name && match[2] === identity.email)) {
+                    return;
+                }
+                mapped.set(`${identity.name}\0${identity.email}`, { name: match[1] || identity.name, email: match[2] });
+            });
+        }
+        return mapped;
+    }
+
+    /**
+     * Get the configured git identity (user.name and user.email)
+     * @returns The identity, or null when no email is configured
+     */
+    async getCurrentUser(): Promise<GitAuthor | null> {
+        const read = async (key: string) => {
+            try {
+                return (await this.executeGitCommand(['config', key])).trim();
+            } catch (error) {
+                return '';
+            }
+        };
+        const [name, email] = await Promise.all([read('user.name'), read('user.email')]);
+        return email ? { name, email } : null;
+    }
+
     /**
      * Get files modified by a specific author
      * @param email - Author email (will be escaped)
@@ -1,23 +1,50 @@
 import { Worker } from 'worker_threads';
 import * as path from 'path';
+import type { FileOwnership } from '../types/expert';
+import type { CommitLogQuery, CommitStreamProgress, CommitStreamResult } from '../utils/git-log-format';
+import type { BlameIgnoreOptions } from '../utils/git-blame';
+import type { FileInventoryFilter } from '../utils/file-inventory';
+
+interface PendingRequest {
+    resolve: (v: any) => void;
+    reject: (e: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+    onProgress?: (progress: any) => void;
+    /** The streaming git child the worker spawned for this request */
+    pid?: number;
+}
 
 /**
  * Client wrapper for the git worker thread.
  * Lazily spawns a Worker and provides async methods for git operations.
+ * The timeout is an idle timeout: progress messages from long-running
+ * operations (streamed history) re-arm it, so only a stalled git is killed.
+ * Terminating a worker leaves its child processes running, so the worker
+ * reports the pid of each streaming git and teardown kills them.
  */
 export class GitWorkerClient {
     private worker: Worker | null = null;
     private nextId = 0;
-    private pending = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void; timer: ReturnType<typeof setTimeout> }>();
+    private pending = new Map<number, PendingRequest>();
     private static readonly TIMEOUT_MS = 120_000;
 
     private ensureWorker(): Worker {
         if (!this.worker) {
             const workerPath = path.join(__dirname, 'git-worker.js');
             this.worker = new Worker(workerPath);
-            this.worker.on('message', (msg: { id: number; result?: any; error?: string }) => {
+            this.worker.on('message', (msg: { id: number; result?: any; error?: string; progress?: any; pid?: number }) => {
                 const entry = this.pending.get(msg.id);
                 if (!entry) { return; }
+                if (msg.pid !== undefined) {
+                    entry.pid = msg.pid;
+                    return;
+                }
+                if (msg.progress !== undefined) {
+                    clearTimeout(entry.timer);
+                    entry.timer = this.armTimeout(msg.id, entry.reject);
+                    entry.onProgress?.(msg.progress);
+                    return;
+                }
                 this.pending.delete(msg.id);
                 clearTimeout(entry.timer);
                 if (msg.error) {
@@ -27,6 +54,7 @@ export class GitWorkerClient {
                 }
             });
             this.worker.on('error', (err) => {
+                this.killChildren();
                 // Reject all pending
                 for (const [, entry] of this.pending) {
                     clearTimeout(entry.timer);
@@ -36,6 +64,7 @@ export class GitWorkerClient {
                 this.worker = null;
             });
             this.worker.on('exit', () => {
+                this.killChildren();
                 for (const [, entry] of this.pending) {
                     clearTimeout(entry.timer);
                     entry.reject(new Error('Worker exited unexpectedly'));
@@ -47,24 +76,52 @@ export class GitWorkerClient {
         return this.worker;
     }
 
-    private send(msg: Record<string, any>): Promise<any> {
+    private armTimeout(id: number, reject: (e: Error) => void): ReturnType<typeof setTimeout> {
+        return setTimeout(() => {
+            this.killChildren();
+            this.pending.delete(id);
+            if (this.worker) {
+                void this.worker.terminate();
+                this.worker = null;
+            }
+            reject(new Error('Worker timeout while running git operation'));
+        }, GitWorkerClient.TIMEOUT_MS);
+    }
+
+    // Stop git processes still streaming for pending requests
+    private killChildren(): void {
+        for (const [, entry] of this.pending) {
+            if (entry.pid === undefined) {
+                continue;
+            }
+            try {
+                process.kill(entry.pid);
+            } catch {
+                // Already exited
+            }
+            entry.pid = undefined;
+        }
+    }
+
+    private send(msg: Record<string, any>, onProgress?: (progress: any) => void): Promise<any> {
         return new Promise((resolve, reject) => {
             const id = this.nextId++;
-            const timer = setTimeout(() => {
-                this.pending.delete(id);
-                if (this.worker) {
-                    void this.worker.terminate();
-                    this.worker = null;
-                }
-                reject(new Error('Worker timeout while running git operation'));
-            }, GitWorkerClient.TIMEOUT_MS);
-            this.pending.set(id, { resolve, reject, timer });
+            const timer = this.armTimeout(id, reject);
+            this.pending.set(id, { resolve, reject, timer, onProgress });
             this.ensureWorker().postMessage({ ...msg, id });
         });
     }
 
-    async getCommits(repoPath: string, limit: number = 500, sinceDate?: string): Promise<any[]> {
-        return this.send({ type: 'getCommits', repoPath, limit, sinceDate });
+    /**
+     * Stream commit history in the worker. Omit `limit` to read the whole
+     * history (subject to the worker's memory ceiling — see `truncated`).
+     */
+    async getCommits(
+        repoPath: string,
+        query: CommitLogQuery = {},
+        onProgress?: (progress: CommitStreamProgress) => void
+    ): Promise<CommitStreamResult> {
+        return this.send({ type: 'getCommits', repoPath, ...query }, onProgress);
     }
 
     async getContributors(repoPath: string): Promise<any[]> {
@@ -75,7 +132,24 @@ export class GitWorkerClient {
         return this.send({ type: 'getHead', repoPath });
     }
 
+    async resolveRevisions(repoPath: string, range: string): Promise<string[]> {
+        return this.send({ type: 'resolveRevisions', repoPath, range });
+    }
+
+    async isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+        return this.send({ type: 'isAncestor', repoPath, ancestor, descendant });
+    }
+
+    async listFiles(repoPath: string, directory: string | undefined, filter: FileInventoryFilter): Promise<string[]> {
+        return this.send({ type: 'listFiles', repoPath, directory, filter });
+    }
+
+    async getFileOwnership(repoPath: string, files: string[], ignore?: BlameIgnoreOptions): Promise<FileOwnership[]> {
+        return this.send({ type: 'getFileOwnership', repoPath, files, ignore });
+    }
+
     dispose(): void {
+        this.killChildren();
         if (this.worker) {
             this.worker.terminate();
             this.worker = null;
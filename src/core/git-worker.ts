@@ -3,47 +3,135 @@
  * Must NOT import 'vscode'. Only Node built-ins and vscode-free utils.
  */
 import { parentPort } from 'worker_threads';
-import { execFile } from 'child_process';
+import { execFile, spawn } from 'child_process';
 import { promisify } from 'util';
-import { COMMIT_LOG_FORMAT, parseCommitLog } from '../utils/git-log-format';
+import {
+    NUMSTAT_LOG_ARGS,
+    createRecordSplitter,
+    parseNumstatRecord,
+    type CommitLogQuery,
+    type CommitStreamProgress,
+    type CommitStreamResult,
+    type ParsedCommit
+} from '../utils/git-log-format';
+import { buildBlameArgs, parseBlamePorcelain, type BlameIgnoreOptions } from '../utils/git-blame';
+import { buildLsFilesArgs, filterFileInventory, parseLsFiles, type FileInventoryFilter } from '../utils/file-inventory';
 
 const execFileAsync = promisify(execFile);
 
 const GIT_TIMEOUT_MS = 30_000;
 const HEAD_TIMEOUT_MS = 5_000;
 const MAX_BUFFER = 10 * 1024 * 1024;
+// `git ls-files` on large monorepos lists hundreds of thousands of paths
+const LS_FILES_MAX_BUFFER = 64 * 1024 * 1024;
+// Ceiling on raw log text behind retained commits. Parsed commits cost a
+// small multiple of this, which keeps the worker's heap well within limits
+// on decade-old monorepos while still covering hundreds of thousands of commits.
+const MAX_RETAINED_LOG_BYTES = 192 * 1024 * 1024;
+const PROGRESS_EVERY_COMMITS = 2_000;
 
 interface WorkerMessage {
     id: number;
-    type: 'getCommits' | 'getContributors' | 'getHead';
+    type: 'getCommits' | 'getContributors' | 'getHead' | 'getFileOwnership' | 'isAncestor' | 'resolveRevisions' | 'listFiles';
     repoPath: string;
     limit?: number;
     sinceDate?: string;
+    untilDate?: string;
+    range?: string;
+    files?: string[];
+    ignore?: BlameIgnoreOptions;
+    directory?: string;
+    filter?: FileInventoryFilter;
+    ancestor?: string;
+    descendant?: string;
 }
 
-async function getCommits(repoPath: string, limit: number, sinceDate?: string) {
-    const args = [
-        'log',
-        `--pretty=format:${COMMIT_LOG_FORMAT}`,
-        '-n',
-        String(Math.max(1, Math.min(limit, 1000)))
-    ];
-    if (sinceDate) {
-        args.push(`--since=${sinceDate}`);
+/**
+ * Commits with per-commit line counts and touched files from a single
+ * streamed `git log --numstat` pass. Records are parsed as they arrive, so
+ * history length is bounded only by MAX_RETAINED_LOG_BYTES — when that is
+ * reached git is stopped and the (newest-first) prefix is returned as truncated.
+ */
+function getCommits(
+    repoPath: string,
+    query: CommitLogQuery,
+    onProgress: (progress: CommitStreamProgress) => void,
+    onSpawn: (pid: number) => void
+): Promise<CommitStreamResult> {
+    const args = [...NUMSTAT_LOG_ARGS];
+    if (query.limit && query.limit > 0) {
+        args.push('-n', String(Math.floor(query.limit)));
+    }
+    if (query.sinceDate) {
+        args.push(`--since=${query.sinceDate}`);
+    }
+    if (query.untilDate) {
+        args.push(`--until=${query.untilDate}`);
+    }
+    if (query.range) {
+        if (query.range.startsWith('-')) {
+            return Promise.reject(new Error(`Invalid revision range: ${query.range}`));
+        }
+        args.push(query.range);
     }
-    const { stdout } = await execFileAsync('git', args, {
-        cwd: repoPath,
-        timeout: GIT_TIMEOUT_MS,
-        maxBuffer: MAX_BUFFER
-    });
 
-    return parseCommitLog(stdout);
+    return new Promise((resolve, reject) => {
+        const child = spawn('git', args, { cwd: repoPath, stdio: ['ignore', 'pipe', 'pipe'] });
+        // Terminating the worker doesn't end its children; the client kills git by pid
+        if (child.pid !== undefined) {
+            onSpawn(child.pid);
+        }
+        const commits: ParsedCommit[] = [];
+        let retainedBytes = 0;
+        let truncated = false;
+        let stderr = '';
+
+        const splitter = createRecordSplitter(record => {
+            if (truncated) {
+                return;
+            }
+            const commit = parseNumstatRecord(record);
+            if (!commit) {
+                return;
+            }
+            commits.push(commit);
+            retainedBytes += record.length;
+            if (commits.length % PROGRESS_EVERY_COMMITS === 0) {
+                onProgress({ commits: commits.length });
+            }
+            if (retainedBytes >= MAX_RETAINED_LOG_BYTES) {
+                truncated = true;
+                child.kill();
+            }
+        });
+
+        child.stdout.setEncoding('utf8');
+        child.stdout.on('data', (chunk: string) => splitter.push(chunk));
+        child.stderr.setEncoding('utf8');
+        child.stderr.on('data', (chunk: string) => {
+            if (stderr.length < 4096) { stderr += chunk; }
+        });
+        child.on('error', reject);
+        child.on('close', (code) => {
+            if (truncated) {
+                resolve({ commits, truncated });
+                return;
+            }
+            if (code !== 0) {
+                reject(new Error(stderr.trim() || `git log exited with code ${code}`));
+                return;
+            }
+            splitter.flush();
+            resolve({ commits, truncated });
+        });
+    });
 }
 
 /**
  * Contributor list via `git shortlog`. Kept as a fallback for repositories
  * where the commit log comes back empty — the analyzer normally derives
- * contributors (with first/last dates) from the commit list in one pass.
+ * contributors (with first/last dates and numstat churn) from the commit
+ * list in one pass. Shortlog carries no line counts, so churn stays 0 here.
  */
 async function getContributors(repoPath: string) {
     const { stdout } = await execFileAsync('git', [
@@ -72,6 +160,81 @@ async function getContributors(repoPath: string) {
         .sort((a: any, b: any) => b.commits - a.commits);
 }
 
+/**
+ * Blame each file sequentially — one git process at a time keeps the worker
+ * from fanning out hundreds of concurrent blames on large samples. Files
+ * that can't be blamed (deleted, binary, untracked) are skipped. Ignored
+ * commits' lines go to whoever last touched them before.
+ */
+async function getFileOwnership(repoPath: string, files: string[], ignore?: BlameIgnoreOptions) {
+    const results = [];
+    for (const file of files) {
+        try {
+            const { stdout } = await execFileAsync('git', buildBlameArgs(file, ignore), {
+                cwd: repoPath,
+                timeout: GIT_TIMEOUT_MS,
+                maxBuffer: MAX_BUFFER
+            });
+            results.push(parseBlamePorcelain(stdout, file));
+        } catch {
+            // Not blameable at HEAD — leave it out
+        }
+    }
+    return results;
+}
+
+/**
+ * Whether `ancestor` is reachable from `descendant` — i.e. history only moved
+ * forward. `merge-base --is-ancestor` answers with exit code 0 (yes) or 1
+ * (no); anything else (unknown object after a gc, say) is an error.
+ */
+async function isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+    try {
+        await execFileAsync('git', ['merge-base', '--is-ancestor', ancestor, descendant], {
+            cwd: repoPath,
+            timeout: GIT_TIMEOUT_MS,
+            maxBuffer: MAX_BUFFER
+        });
+        return true;
+    } catch (err: any) {
+        if (err?.code === 1) {
+            return false;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Resolve a ref or revision range to the object names git will walk — one
+ * SHA per endpoint, excluded endpoints prefixed with "^". Fails for unknown
+ * refs, so a typo surfaces before a long log read.
+ */
+async function resolveRevisions(repoPath: string, range: string): Promise<string[]> {
+    if (range.startsWith('-')) {
+        throw new Error(`Invalid revision range: ${range}`);
+    }
+    const { stdout } = await execFileAsync('git', ['rev-parse', range], {
+        cwd: repoPath,
+        timeout: HEAD_TIMEOUT_MS,
+        maxBuffer: MAX_BUFFER
+    });
+    return stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * Tracked files (optionally under one directory) that pass the inventory
+ * filter. Matching runs here so globbing a monorepo's paths stays off the
+ * extension host thread.
+ */
+async function listFiles(repoPath: string, directory: string | undefined, filter: FileInventoryFilter): Promise<string[]> {
+    const { stdout } = await execFileAsync('git', buildLsFilesArgs(directory), {
+        cwd: repoPath,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: LS_FILES_MAX_BUFFER
+    });
+    return filterFileInventory(parseLsFiles(stdout), filter);
+}
+
 async function getHead(repoPath: string): Promise<string> {
     const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], {
         cwd: repoPath,
@@ -86,11 +249,24 @@ if (parentPort) {
         try {
             let result: any;
             if (msg.type === 'getCommits') {
-                result = await getCommits(msg.repoPath, msg.limit ?? 500, msg.sinceDate);
+                result = await getCommits(
+                    msg.repoPath,
+                    { limit: msg.limit, sinceDate: msg.sinceDate, untilDate: msg.untilDate, range: msg.range },
+                    progress => parentPort!.postMessage({ id: msg.id, progress }),
+                    pid => parentPort!.postMessage({ id: msg.id, pid })
+                );
             } else if (msg.type === 'getContributors') {
                 result = await getContributors(msg.repoPath);
             } else if (msg.type === 'getHead') {
                 result = await getHead(msg.repoPath);
+            } else if (msg.type === 'resolveRevisions') {
+                result = await resolveRevisions(msg.repoPath, msg.range ?? '');
+            } else if (msg.type === 'isAncestor') {
+                result = await isAncestor(msg.repoPath, msg.ancestor ?? '', msg.descendant ?? 'HEAD');
+            } else if (msg.type === 'listFiles') {
+                result = await listFiles(msg.repoPath, msg.directory, msg.filter ?? { include: [], exclude: [], excludeGenerated: true });
+            } else if (msg.type === 'getFileOwnership') {
+                result = await getFileOwnership(msg.repoPath, msg.files ?? [], msg.ignore);
             } else {
                 throw new Error(`Unknown message type: ${(msg as any).type}`);
             }
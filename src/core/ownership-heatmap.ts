@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { FileLineOwnership, LineAuthorship } from '../types/expert';
+import { ExpertiseAnalyzer } from './expertise-analyzer';
+import { describeLineAuthorship, lineAgeBucket } from '../utils/line-ownership';
+
+// Gutter colors for the file's top experts, by rank; everyone else is grey
+const EXPERT_COLORS = ['#4e79a7', '#f28e2b', '#59a14f', '#e15759', '#b07aa1', '#76b7b2'];
+const OTHER_COLOR = '#9c9c9c';
+// Gutter opacity per age bucket (see LINE_AGE_BUCKET_DAYS), newest first
+const AGE_OPACITY = [1, 0.7, 0.45, 0.25];
+// Files whose line ownership is kept in memory
+const CACHED_FILES = 20;
+
+/**
+ * Blame view framed around expertise, toggled with Toggle Ownership
+ * Heatmap. Each line's gutter bar is colored by its author's rank among
+ * the file's experts and faded by the line's age; lines from commits with
+ * agent-attribution trailers get a dashed bar and uncommitted lines a
+ * hollow one. The first line of each commit's block is labelled with the
+ * author, and hovering a line shows the author, their contributor kind,
+ * their rank and the commit subject.
+ *
+ * Ownership is cached per file until the file is saved or the heatmap is
+ * toggled, so switching editors doesn't re-run blame.
+ */
+export class OwnershipHeatmap implements vscode.Disposable {
+    private enabled = false;
+    private readonly cache = new Map<string, Promise<FileLineOwnership | null>>();
+    private readonly gutterTypes = new Map<string, vscode.TextEditorDecorationType>();
+    private readonly labelType = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+            fontStyle: 'italic',
+            margin: '0 0 0 3em'
+        },
+        rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+    });
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly analyzer: ExpertiseAnalyzer) {
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors(editors => {
+                if (this.enabled) {
+                    editors.forEach(editor => void this.decorate(editor));
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                this.cache.delete(document.uri.fsPath);
+                if (this.enabled) {
+                    vscode.window.visibleTextEditors
+                        .filter(editor => editor.document === document)
+                        .forEach(editor => void this.decorate(editor));
+                }
+            })
+        );
+    }
+
+    /** Turn the heatmap on or off in every editor. Returns the new state. */
+    async toggle(): Promise<boolean> {
+        this.enabled = !this.enabled;
+        // Start fresh either way, so lines committed since are picked up
+        this.cache.clear();
+        await vscode.commands.executeCommand('setContext', 'teamxray.ownershipHeatmap', this.enabled);
+        if (this.enabled) {
+            await Promise.all(vscode.window.visibleTextEditors.map(editor => this.decorate(editor)));
+        } else {
+            this.clearDecorations();
+        }
+        return this.enabled;
+    }
+
+    dispose(): void {
+        this.clearDecorations();
+        this.labelType.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.cache.clear();
+    }
+
+    private async decorate(editor: vscode.TextEditor): Promise<void> {
+        if (editor.document.uri.scheme !== 'file') {
+            return;
+        }
+        const ownership = await this.getOwnership(editor.document.uri.fsPath);
+        // Turned off while blame was running
+        if (!this.enabled || !ownership) {
+            return;
+        }
+
+        const now = Date.now();
+        const gutter = new Map<vscode.TextEditorDecorationType, vscode.DecorationOptions[]>();
+        const labels: vscode.DecorationOptions[] = [];
+        let previousSha = '';
+        for (const line of ownership.lines) {
+            // Lines deleted since the file was saved
+            if (line.line > editor.document.lineCount) {
+                continue;
+            }
+            const range = editor.document.lineAt(line.line - 1).range;
+            const hoverMessage = new vscode.MarkdownString();
+            for (const paragraph of describeLineAuthorship(line, ownership.experts, now)) {
+                hoverMessage.appendText(paragraph).appendMarkdown('\n\n');
+            }
+            const type = this.getGutterType(line, now);
+            const options = gutter.get(type) ?? [];
+            options.push({ range, hoverMessage });
+            gutter.set(type, options);
+
+            if (line.sha !== previousSha && !line.uncommitted) {
+                const date = new Date(line.time * 1000).toISOString().slice(0, 10);
+                labels.push({
+                    range: new vscode.Range(range.end, range.end),
+                    renderOptions: { after: { contentText: `${line.name}${line.agentAssisted ? ' + agent' : ''}, ${date}` } }
+                });
+            }
+            previousSha = line.sha;
+        }
+
+        for (const type of this.gutterTypes.values()) {
+            editor.setDecorations(type, gutter.get(type) ?? []);
+        }
+        editor.setDecorations(this.labelType, labels);
+    }
+
+    private getOwnership(fsPath: string): Promise<FileLineOwnership | null> {
+        let pending = this.cache.get(fsPath);
+        if (!pending) {
+            pending = this.analyzer.getLineOwnership(fsPath).catch(() => null);
+            this.cache.set(fsPath, pending);
+            if (this.cache.size > CACHED_FILES) {
+                this.cache.delete(this.cache.keys().next().value as string);
+            }
+        }
+        return pending;
+    }
+
+    // One decoration type per color, age and style, created on first use
+    private getGutterType(line: LineAuthorship, now: number): vscode.TextEditorDecorationType {
+        const color = line.rank > 0 && line.rank <= EXPERT_COLORS.length ? EXPERT_COLORS[line.rank - 1] : OTHER_COLOR;
+        const opacity = AGE_OPACITY[Math.min(lineAgeBucket(line, now), AGE_OPACITY.length - 1)];
+        const key = line.uncommitted ? 'uncommitted' : `${color}|${opacity}|${line.agentAssisted ? 'agent' : 'human'}`;
+        let type = this.gutterTypes.get(key);
+        if (!type) {
+            const bar = line.uncommitted
+                ? `<rect x="0.5" y="0.5" width="3" height="15" fill="none" stroke="${OTHER_COLOR}"/>`
+                : line.agentAssisted
+                    ? [0, 4, 8, 12].map(y => `<rect y="${y}" width="4" height="2" fill="${color}" fill-opacity="${opacity}"/>`).join('')
+                    : `<rect width="4" height="16" fill="${color}" fill-opacity="${opacity}"/>`;
+            const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="4" height="16">${bar}</svg>`;
+            type = vscode.window.createTextEditorDecorationType({
+                gutterIconPath: vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`),
+                gutterIconSize: 'contain'
+            });
+            this.gutterTypes.set(key, type);
+        }
+        return type;
+    }
+
+    private clearDecorations(): void {
+        this.gutterTypes.forEach(type => type.dispose());
+        this.gutterTypes.clear();
+        vscode.window.visibleTextEditors.forEach(editor => editor.setDecorations(this.labelType, []));
+    }
+}
@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
 import { ExpertiseAnalysis } from './expertise-analyzer';
+import type { DirectoryOwnership } from '../types/expert';
+import { describeHistoryWindow } from '../utils/analysis-scope';
+import { describeCommitExclusions } from '../utils/commit-exclusions';
+import { escapeHtml } from './report-utils';
 
 export class ReportGenerator {
     /**
@@ -7,8 +11,10 @@ export class ReportGenerator {
      */
     public static generateHTMLReport(analysis: ExpertiseAnalysis): string {
         const repoName = analysis.repository.split('/').pop() || 'analysis';
-        const windowDays = vscode.workspace.getConfiguration('teamxray').get<number>('historyWindowDays', 90);
-        const windowLabel = windowDays === 0 ? 'All history' : `Last ${windowDays} days`;
+        // Analyses saved before scopes existed fall back to the current setting
+        const windowLabel = analysis.historyLabel
+            ?? describeHistoryWindow(vscode.workspace.getConfiguration('teamxray').get<number>('historyWindowDays', 90));
+        const exclusionSummary = describeCommitExclusions(analysis.commitExclusions);
         
         const priorityDots = (p: string) => p === 'HIGH' ? '●●●' : p === 'MEDIUM' ? '●●○' : '●○○';
         const categoryColor = (c: string) => ({ RISK: '#ef4444', OPPORTUNITY: '#10b981', EFFICIENCY: '#3b82f6', GROWTH: '#f59e0b' }[c] || '#64748b');
@@ -134,6 +140,28 @@ export class ReportGenerator {
         .key-insight:last-child{border-bottom:none}
         .ki-num{color:var(--accent);font-weight:700;font-family:'JetBrains Mono','Fira Code',monospace;flex-shrink:0}
 
+        /* ── Bus Factor ── */
+        .risk-summary{font-size:0.95em;margin-bottom:16px}
+        .risk-table{width:100%;border-collapse:collapse;font-size:0.85em}
+        .risk-table th{text-align:left;font-size:0.75em;text-transform:uppercase;letter-spacing:0.08em;color:var(--muted);padding:8px 12px;border-bottom:1px solid var(--border)}
+        .risk-table td{padding:8px 12px;border-bottom:1px solid var(--border);vertical-align:top}
+        .risk-table code{word-break:break-all}
+        .bus-factor{display:inline-block;min-width:28px;padding:2px 8px;border-radius:6px;text-align:center;font-weight:700}
+        .bus-factor.high{background:rgba(239,68,68,0.15);color:var(--risk)}
+        .bus-factor.medium{background:rgba(245,158,11,0.15);color:var(--growth)}
+        .bus-factor.low{background:rgba(16,185,129,0.15);color:var(--opportunity)}
+
+        /* ── Folder Ownership ── */
+        .folder-table{font-size:0.85em}
+        .folder-row{display:grid;grid-template-columns:minmax(180px,2fr) 3fr 90px 70px 110px;gap:12px;padding:8px 12px;border-bottom:1px solid var(--border);align-items:center}
+        .folder-head{font-size:0.75em;text-transform:uppercase;letter-spacing:0.08em;color:var(--muted)}
+        .folder-table details>summary{list-style:none;cursor:pointer}
+        .folder-table details>summary::-webkit-details-marker{display:none}
+        .folder-table details>summary .folder-name::before{content:'▸';display:inline-block;width:1em;color:var(--accent);transition:transform .15s}
+        .folder-table details[open]>summary .folder-name::before{transform:rotate(90deg)}
+        .folder-table .leaf .folder-name::before{content:'';display:inline-block;width:1em}
+        .folder-children{padding-left:20px}
+
         /* ── Footer ── */
         .footer{text-align:center;color:var(--muted);font-size:0.8em;margin-top:48px;padding-top:24px;border-top:1px solid var(--border)}
         .footer code{color:var(--accent)}
@@ -158,7 +186,8 @@ export class ReportGenerator {
                 <span class="pill">${analysis.totalFiles} files scanned</span>
                 <span class="pill">${analysis.expertProfiles.filter(e => !e.isBot).length} humans · ${analysis.expertProfiles.filter(e => e.isBot).length} agents</span>
                 ${analysis.aiAttribution?.assistedCommits ? `<span class="pill">🤝 ${Math.round(analysis.aiAttribution.assistedShare * 100)}% AI-assisted commits</span>` : ''}
-                <span class="pill">${windowLabel}</span>
+                <span class="pill">${escapeHtml(windowLabel)}</span>
+                ${exclusionSummary ? `<span class="pill">🧹 ${escapeHtml(exclusionSummary)}</span>` : ''}
             </div>
         </div>
 
@@ -188,6 +217,7 @@ export class ReportGenerator {
                         </div>
                         <div class="expert-meta">
                             <div class="meta-item"><strong>${expert.contributions}</strong> commits</div>
+                            ${expert.recencyScore !== undefined ? `<div class="meta-item"><strong>${expert.recencyScore}%</strong> current</div>` : ''}
                             <div class="meta-item">last <strong>${ReportGenerator.calculateDaysAgo(expert.lastCommit)}</strong>d ago</div>
                         </div>
                         ${expert.specializations?.length ? `<div class="tags">${expert.specializations.map(s => `<span class="tag">${s}</span>`).join('')}</div>` : ''}
@@ -218,6 +248,12 @@ export class ReportGenerator {
             </div>
         </div>` : ''}
 
+        ${ReportGenerator.generateBusFactorSection(analysis)}
+
+        ${ReportGenerator.generateFolderOwnershipSection(analysis)}
+
+        ${ReportGenerator.generateOrphanedCodeSection(analysis)}
+
         ${analysis.insights?.length ? `
         <div class="section">
             <div class="section-title">Key Insights</div>
@@ -246,6 +282,118 @@ export class ReportGenerator {
 </html>`;
     }
 
+    /**
+     * Ranked bus factor table; empty when the analysis has no measured history
+     */
+    private static generateBusFactorSection(analysis: ExpertiseAnalysis): string {
+        const report = analysis.teamHealthMetrics?.busFactor;
+        if (!report || report.repository.files === 0) {
+            return '';
+        }
+
+        const level = (busFactor: number) => busFactor <= 1 ? 'high' : busFactor === 2 ? 'medium' : 'low';
+        const people = (keyPeople: string[]) => keyPeople.map(person => escapeHtml(person)).join(', ') || '—';
+        const repository = report.repository;
+        const rows = report.scopes.map(scope => `
+                    <tr>
+                        <td><code class="mono">${escapeHtml(scope.path)}</code>${scope.scope === 'module' ? ' <span class="tag">module</span>' : ''}</td>
+                        <td><span class="bus-factor ${level(scope.busFactor)}">${scope.busFactor}</span></td>
+                        <td>${people(scope.keyPeople)}</td>
+                        <td>${scope.files}</td>
+                        <td>${scope.authors}</td>
+                        <td>${Math.round(scope.orphanedShare * 100)}%</td>
+                    </tr>`).join('');
+
+        return `
+        <div class="section">
+            <div class="section-title">Bus Factor</div>
+            <div class="ai-section">
+                <div class="risk-summary">
+                    Repository bus factor <span class="bus-factor ${level(repository.busFactor)}">${repository.busFactor}</span>
+                    — if ${people(repository.keyPeople)} left, ${Math.round(repository.orphanedShare * 100)}% of ${repository.files} files would have no author left.
+                </div>
+                ${rows ? `<table class="risk-table">
+                    <thead>
+                        <tr><th>Directory</th><th>Bus factor</th><th>Key people</th><th>Files</th><th>Authors</th><th>Orphaned if they leave</th></tr>
+                    </thead>
+                    <tbody>${rows}</tbody>
+                </table>` : ''}
+            </div>
+        </div>`;
+    }
+
+    /**
+     * Folder ownership rollup as a collapsible table; empty for analyses without one
+     */
+    private static generateFolderOwnershipSection(analysis: ExpertiseAnalysis): string {
+        const root = analysis.directoryOwnership;
+        if (!root || root.children.length === 0) {
+            return '';
+        }
+
+        const level = (busFactor: number) => busFactor <= 1 ? 'high' : busFactor === 2 ? 'medium' : 'low';
+        const renderFolder = (folder: DirectoryOwnership): string => {
+            const owners = folder.topExperts
+                .map(owner => `${escapeHtml(owner.name)} (${owner.files}/${folder.files})`)
+                .join(', ') || '—';
+            const lastActivity = folder.lastActivity ? new Date(folder.lastActivity).toISOString().slice(0, 10) : '—';
+            const row = `<div class="folder-row">
+                        <span class="folder-name"><code class="mono">${escapeHtml(folder.path.split('/').pop() ?? folder.path)}/</code></span>
+                        <span>${owners}</span>
+                        <span><span class="bus-factor ${level(folder.busFactor)}">${folder.busFactor}</span></span>
+                        <span>${folder.files}</span>
+                        <span>${lastActivity}</span>
+                    </div>`;
+            if (folder.children.length === 0) {
+                return `<div class="leaf">${row}</div>`;
+            }
+            return `<details><summary>${row}</summary><div class="folder-children">${folder.children.map(renderFolder).join('')}</div></details>`;
+        };
+
+        return `
+        <div class="section">
+            <div class="section-title">Ownership by Folder</div>
+            <div class="ai-section folder-table">
+                <div class="folder-row folder-head"><span>Folder</span><span>Owners (files authored)</span><span>Bus factor</span><span>Files</span><span>Last activity</span></div>
+                ${root.children.map(renderFolder).join('')}
+            </div>
+        </div>`;
+    }
+
+    /**
+     * Files nobody active knows, longest-inactive first; empty when none were found
+     */
+    private static generateOrphanedCodeSection(analysis: ExpertiseAnalysis): string {
+        const report = analysis.orphanedCode;
+        if (!report || report.files.length === 0) {
+            return '';
+        }
+
+        const rows = report.files.slice(0, 50).map(file => `
+                    <tr>
+                        <td><code class="mono">${escapeHtml(file.filePath)}</code></td>
+                        <td><span class="tag">${file.reason === 'inactive-experts' ? 'experts inactive' : 'no human changes'}</span></td>
+                        <td>${file.experts.length > 0 ? file.experts.map(name => escapeHtml(name)).join(', ') : escapeHtml(file.lastKnownBy)}</td>
+                        <td>${file.lastActive.slice(0, 10)} (${ReportGenerator.calculateDaysAgo(file.lastActive)}d ago)</td>
+                    </tr>`).join('');
+
+        return `
+        <div class="section">
+            <div class="section-title">Orphaned Code</div>
+            <div class="ai-section">
+                <div class="risk-summary">
+                    ${report.orphanedFiles} of ${report.checkedFiles} files have no active expert: everyone who knew them has been inactive for more than ${report.inactiveDays} days, or no human ever changed them.
+                </div>
+                <table class="risk-table">
+                    <thead>
+                        <tr><th>File</th><th>Why</th><th>Known by</th><th>Last active</th></tr>
+                    </thead>
+                    <tbody>${rows}</tbody>
+                </table>
+            </div>
+        </div>`;
+    }
+
     /**
      * Generates a CSV summary for spreadsheet analysis
      */
@@ -1,9 +1,13 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ExpertiseAnalyzer } from './expertise-analyzer';
-import { Expert } from '../types/expert';
+import { Expert, GitAuthor } from '../types/expert';
 import { GitService } from './git-service';
 import { classifyContributor } from '../utils/bot-detection';
+import { fileRecencyScores, mergeOwnershipWithCommits } from '../utils/git-blame';
+import { partitionCommits, type CommitExclusionContext } from '../utils/commit-exclusions';
+import { DEFAULT_HALF_LIFE_DAYS } from '../utils/knowledge-decay';
+import { fileExpertSignals, normalizeScoringWeights, rankByExpertise, scoreExpertise } from '../utils/expertise-score';
 
 export interface GitHubRepository {
     owner: string;
@@ -38,18 +42,25 @@ export class RepositoryActivityService {
 
     // ── Repository detection ──────────────────────────────────────────
 
+    // Callers that know the owning repository (multi-root) pass its root;
+    // everything else keeps the single-folder behaviour
+    private resolveRepoPath(repoPath?: string): string | undefined {
+        return repoPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+
     /**
      * Detect GitHub repository information from the current workspace using
      * secure GitService (no shell injection).
+     * @param repoPath Repository root; defaults to the first workspace folder
      */
-    async detectRepository(): Promise<GitHubRepository | null> {
+    async detectRepository(repoPath?: string): Promise<GitHubRepository | null> {
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const root = this.resolveRepoPath(repoPath);
+            if (!root) {
                 throw new Error('No workspace folder open');
             }
 
-            const gitService = new GitService(workspaceFolder.uri.fsPath, this.outputChannel);
+            const gitService = new GitService(root, this.outputChannel);
             const remoteUrl = await gitService.getRemoteUrl();
 
             if (!remoteUrl) {
@@ -81,17 +92,18 @@ export class RepositoryActivityService {
      */
     async getExpertRecentActivity(
         expertEmail: string,
-        expertName: string
+        expertName: string,
+        repoPath?: string
     ): Promise<{ success: boolean; activity?: any; error?: string }> {
         try {
             this.outputChannel.appendLine(`Getting recent activity for expert: ${expertName} (${expertEmail})`);
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const root = this.resolveRepoPath(repoPath);
+            if (!root) {
                 return { success: false, error: 'No workspace folder found' };
             }
 
             try {
-                const gitService = new GitService(workspaceFolder.uri.fsPath, this.outputChannel);
+                const gitService = new GitService(root, this.outputChannel);
 
                 const commits = await gitService.getCommitsByAuthor(expertEmail, 10);
                 const recentCommits = commits.map(commit => ({
@@ -193,64 +205,72 @@ export class RepositoryActivityService {
 
     /**
      * Analyze file-specific experts using local git blame/log data.
-     * Returns null if analysis cannot be performed — callers should
-     * fall back to other methods.
+     * Expertise is the scoreExpertise score of the file's authors: surviving
+     * lines in blame ownership mode, commits, lines changed, reviews and,
+     * with a knowledge half-life, recency. Experts are ordered by that score
+     * with recency breaking ties. Excluded commits (mass changes, .git-blame-ignore-revs) neither count
+     * nor own lines. Aliases merge through `resolveAuthor`. Returns null if
+     * analysis cannot be performed — callers should fall back to other
+     * methods.
      */
     async analyzeFileExperts(
         filePath: string,
-        _repository: GitHubRepository
+        _repository: GitHubRepository,
+        repoPath?: string,
+        exclusions?: CommitExclusionContext,
+        resolveAuthor?: (author: GitAuthor) => GitAuthor
     ): Promise<Expert[] | null> {
         try {
             this.outputChannel.appendLine(`Analyzing experts for file: ${filePath}`);
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) { return null; }
-
-            const gitService = new GitService(workspaceFolder.uri.fsPath, this.outputChannel);
-            const fileCommits = await gitService.getCommitsForFile(filePath, 100);
-
-            if (fileCommits.length === 0) { return null; }
-
-            // Aggregate by author
-            const authorMap = new Map<string, { name: string; email: string; commits: number; lastDate: string }>();
-            for (const commit of fileCommits) {
-                const key = commit.author.email;
-                const existing = authorMap.get(key);
-                if (existing) {
-                    existing.commits++;
-                    if (commit.date > existing.lastDate) { existing.lastDate = commit.date; }
-                } else {
-                    authorMap.set(key, {
-                        name: commit.author.name,
-                        email: commit.author.email,
-                        commits: 1,
-                        lastDate: commit.date,
-                    });
-                }
-            }
-
-            const maxCommits = Math.max(...Array.from(authorMap.values()).map(a => a.commits));
-
-            return Array.from(authorMap.values())
-                .sort((a, b) => b.commits - a.commits)
-                .slice(0, 5)
-                .map(a => {
-                    const classification = classifyContributor(a.name, a.email);
-                    return {
-                        name: a.name,
-                        email: a.email,
-                        expertise: Math.min(100, Math.round((a.commits / maxCommits) * 100)),
-                        contributions: a.commits,
-                        lastCommit: new Date(a.lastDate),
-                        specializations: this.inferSpecializationsFromFile(filePath),
-                        communicationStyle: 'Inferred from commit patterns',
-                        teamRole: a.commits > 10 ? 'Regular contributor' : 'Occasional contributor',
-                        hiddenStrengths: [],
-                        idealChallenges: [],
-                        isBot: classification.kind === 'ai-agent' || classification.kind === 'automation-bot',
-                        contributorKind: classification.kind,
-                        agentName: classification.agentName,
-                    };
-                });
+            const root = this.resolveRepoPath(repoPath);
+            if (!root) { return null; }
+
+            const gitService = new GitService(root, this.outputChannel);
+            const config = vscode.workspace.getConfiguration('teamxray');
+            const ownershipMode = config.get<string>('ownershipMode', 'blame');
+            const halfLifeDays = config.get<number>('knowledgeHalfLifeDays', DEFAULT_HALF_LIFE_DAYS);
+            const weights = normalizeScoringWeights(config.get('scoringWeights'));
+            const [allFileCommits, ownership] = await Promise.all([
+                gitService.getCommitsForFile(filePath, 100),
+                ownershipMode === 'blame' ? gitService.getFileOwnership(filePath, exclusions?.blame) : Promise.resolve(null),
+            ]);
+            const fileCommits = exclusions
+                ? partitionCommits(allFileCommits, exclusions.rules).scored
+                : allFileCommits;
+
+            if (fileCommits.length === 0 && !ownership?.owners.length) { return null; }
+
+            const authors = mergeOwnershipWithCommits(fileCommits, ownership, { halfLifeDays, resolveAuthor });
+            const hasOwnership = (ownership?.totalLines ?? 0) > 0;
+            const recency = halfLifeDays > 0 ? fileRecencyScores(authors, hasOwnership) : undefined;
+            const scores = scoreExpertise(
+                fileExpertSignals(authors, fileCommits, { hasOwnership, decay: halfLifeDays > 0, resolveAuthor }),
+                weights
+            );
+
+            const experts: Expert[] = authors.map(a => {
+                const classification = classifyContributor(a.name, a.email);
+                const breakdown = scores.get(a.email.toLowerCase());
+                return {
+                    name: a.name,
+                    email: a.email,
+                    expertise: breakdown?.score ?? 0,
+                    scoreBreakdown: breakdown,
+                    contributions: a.commits,
+                    lastCommit: new Date(a.lastDate),
+                    specializations: this.inferSpecializationsFromFile(filePath),
+                    communicationStyle: 'Inferred from commit patterns',
+                    teamRole: a.commits > 10 ? 'Regular contributor' : 'Occasional contributor',
+                    hiddenStrengths: [],
+                    idealChallenges: [],
+                    isBot: classification.kind === 'ai-agent' || classification.kind === 'automation-bot',
+                    contributorKind: classification.kind,
+                    agentName: classification.agentName,
+                    survivingLines: hasOwnership ? a.survivingLines : undefined,
+                    recencyScore: recency?.get(a.email.toLowerCase()),
+                };
+            });
+            return rankByExpertise(experts).slice(0, 5);
         } catch (error) {
             this.outputChannel.appendLine(`Error analyzing file experts: ${error}`);
             return null;
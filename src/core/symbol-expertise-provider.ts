@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { Expert, GitCommit } from '../types/expert';
+import { ExpertiseAnalyzer } from './expertise-analyzer';
+import { GitService } from './git-service';
+import { getRepositoryForPath, toRepositoryRelativePath } from './workspace-repositories';
+import type { LineRange } from '../utils/git-blame';
+import { flattenSymbols, formatSymbolLens } from '../utils/symbol-expertise';
+
+type RangeExperts = { experts: Expert[]; commits: GitCommit[] } | null;
+
+// Symbols that get a lens
+const SYMBOL_KINDS: ReadonlySet<number> = new Set([
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method
+]);
+// File revisions whose symbol experts are kept in memory
+const CACHED_REVISIONS = 50;
+
+class SymbolExpertLens extends vscode.CodeLens {
+    constructor(
+        range: vscode.Range,
+        readonly filePath: string,
+        readonly revision: string,
+        readonly lines: LineRange,
+        readonly target: string,
+        readonly repositoryRoot: string
+    ) {
+        super(range);
+    }
+}
+
+/**
+ * "Top expert: Ana · 12 commits" above each class, function and method,
+ * from the history of the symbol's lines. Behind teamxray.symbolCodeLens.
+ *
+ * Lenses are created cheaply from the document's symbols; the git work
+ * happens in resolveCodeLens, which VS Code calls only for lenses scrolled
+ * into view, one symbol at a time. Results are cached per file revision
+ * (its blob at HEAD), so they are reused until a commit changes the file.
+ * Files with uncommitted changes get no lenses: their line numbers no
+ * longer match the history.
+ */
+export class SymbolExpertiseCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    // `${filePath}@${revision}` -> `${start}-${end}` -> experts, oldest revision first
+    private readonly cache = new Map<string, Map<string, Promise<RangeExperts>>>();
+    private queue: Promise<unknown> = Promise.resolve();
+    private readonly configListener: vscode.Disposable;
+
+    constructor(private readonly analyzer: ExpertiseAnalyzer) {
+        this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('teamxray.symbolCodeLens')) {
+                this._onDidChangeCodeLenses.fire();
+            }
+        });
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        const enabled = vscode.workspace.getConfiguration('teamxray').get<boolean>('symbolCodeLens', false);
+        if (!enabled || document.uri.scheme !== 'file' || document.isDirty) {
+            return [];
+        }
+        const repository = await getRepositoryForPath(document.uri.fsPath);
+        if (!repository || token.isCancellationRequested) {
+            return [];
+        }
+        const revision = await GitService.getInstance(repository.rootPath).getCommittedRevision(document.uri.fsPath);
+        if (!revision || token.isCancellationRequested) {
+            return [];
+        }
+
+        const symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined>(
+            'vscode.executeDocumentSymbolProvider',
+            document.uri
+        );
+        const outline = (symbols ?? []).map(symbol => 'location' in symbol
+            ? { name: symbol.name, kind: symbol.kind, range: symbol.location.range }
+            : symbol);
+        const relativePath = toRepositoryRelativePath(repository.rootPath, document.uri.fsPath);
+
+        return flattenSymbols(outline, SYMBOL_KINDS).map(symbol => {
+            const lines = { start: symbol.range.start.line + 1, end: symbol.range.end.line + 1 };
+            return new SymbolExpertLens(
+                new vscode.Range(symbol.range.start, symbol.range.start),
+                document.uri.fsPath,
+                revision,
+                lines,
+                `${symbol.name} (${relativePath}:${lines.start}-${lines.end})`,
+                repository.rootPath
+            );
+        });
+    }
+
+    async resolveCodeLens(lens: vscode.CodeLens, token: vscode.CancellationToken): Promise<vscode.CodeLens> {
+        if (!(lens instanceof SymbolExpertLens)) {
+            return lens;
+        }
+        const result = await this.getExperts(lens, token);
+        const title = result ? formatSymbolLens(result.experts) : undefined;
+        lens.command = result && title
+            ? {
+                title,
+                tooltip: `Experts for ${lens.target}`,
+                command: 'teamxray.showSymbolExperts',
+                arguments: [lens.target, result.experts, result.commits, lens.repositoryRoot]
+            }
+            : { title: 'No expert history', command: '' };
+        return lens;
+    }
+
+    dispose(): void {
+        this.configListener.dispose();
+        this._onDidChangeCodeLenses.dispose();
+        this.cache.clear();
+    }
+
+    private getExperts(lens: SymbolExpertLens, token: vscode.CancellationToken): Promise<RangeExperts> {
+        const fileKey = `${lens.filePath}@${lens.revision}`;
+        let byRange = this.cache.get(fileKey);
+        if (!byRange) {
+            byRange = new Map();
+            this.cache.set(fileKey, byRange);
+            if (this.cache.size > CACHED_REVISIONS) {
+                this.cache.delete(this.cache.keys().next().value as string);
+            }
+        }
+
+        const rangeKey = `${lens.lines.start}-${lens.lines.end}`;
+        const cached = byRange.get(rangeKey);
+        if (cached) {
+            return cached;
+        }
+        const pending = this.enqueue(async () => {
+            // Scrolled away before its turn: leave it for the next resolve
+            if (token.isCancellationRequested) {
+                byRange?.delete(rangeKey);
+                return null;
+            }
+            return this.analyzer.findExpertsForRange(lens.filePath, lens.lines).catch(() => null);
+        });
+        byRange.set(rangeKey, pending);
+        return pending;
+    }
+
+    // One symbol's history at a time, so a long file doesn't start dozens of git processes
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+}
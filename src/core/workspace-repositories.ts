@@ -0,0 +1,164 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+const execFileAsync = promisify(execFile);
+
+const TOPLEVEL_TIMEOUT_MS = 5_000;
+
+/** A git repository reachable from the open workspace folders. */
+export interface WorkspaceRepository {
+    /** Display name — the workspace folder name, or the repo directory when they differ */
+    name: string;
+    /** Absolute repository root (`git rev-parse --show-toplevel`) */
+    rootPath: string;
+    /** Workspace folder the repository was found through */
+    folder: vscode.WorkspaceFolder;
+    /** Every workspace folder in the repository, `folder` first */
+    folders: vscode.WorkspaceFolder[];
+}
+
+// Directory → repository root, since Find Expert resolves on every
+// invocation. Only found roots are cached, and each is checked before use
+// (a repository can be deleted or re-initialised); extension.ts clears the
+// cache when workspace folders change.
+const rootCache = new Map<string, string>();
+
+function displayName(folder: vscode.WorkspaceFolder, rootPath: string): string {
+    const rootName = path.basename(rootPath);
+    return rootPath === folder.uri.fsPath || rootName === folder.name
+        ? folder.name
+        : `${folder.name} (${rootName})`;
+}
+
+/**
+ * Resolve the git repository that owns a file or directory. Returns null
+ * when the path is not inside a git work tree (or git is unavailable).
+ */
+export async function resolveRepositoryRoot(fsPath: string): Promise<string | null> {
+    let directory = fsPath;
+    try {
+        if (!fs.statSync(fsPath).isDirectory()) {
+            directory = path.dirname(fsPath);
+        }
+    } catch {
+        directory = path.dirname(fsPath);
+    }
+
+    const cached = rootCache.get(directory);
+    if (cached && fs.existsSync(path.join(cached, '.git'))) {
+        return cached;
+    }
+    rootCache.delete(directory);
+
+    let root: string | null = null;
+    try {
+        const { stdout } = await execFileAsync('git', ['rev-parse', '--show-toplevel'], {
+            cwd: directory,
+            timeout: TOPLEVEL_TIMEOUT_MS,
+        });
+        root = path.resolve(stdout.trim()) || null;
+    } catch {
+        root = null;
+    }
+    if (root) {
+        rootCache.set(directory, root);
+    }
+    return root;
+}
+
+/** Forget resolved repository roots, e.g. after workspace folders change. */
+export function clearRepositoryRootCache(): void {
+    rootCache.clear();
+}
+
+/**
+ * One entry per distinct repository across the workspace folders, in folder
+ * order. Folders that share a repository collapse into one entry that keeps
+ * all of them; a folder outside any git repository is kept with its own
+ * path as the root so analysis degrades the same way it does for a single
+ * non-git folder.
+ */
+export async function getWorkspaceRepositories(): Promise<WorkspaceRepository[]> {
+    const repositories = new Map<string, WorkspaceRepository>();
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const rootPath = await resolveRepositoryRoot(folder.uri.fsPath) ?? folder.uri.fsPath;
+        const existing = repositories.get(rootPath);
+        if (existing) {
+            existing.folders.push(folder);
+            continue;
+        }
+        repositories.set(rootPath, { name: displayName(folder, rootPath), rootPath, folder, folders: [folder] });
+    }
+
+    return Array.from(repositories.values());
+}
+
+/** Repository owning `fsPath`, or null when the file is outside every workspace folder. */
+export async function getRepositoryForPath(fsPath: string): Promise<WorkspaceRepository | null> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+    if (!folder) {
+        return null;
+    }
+    const rootPath = await resolveRepositoryRoot(fsPath) ?? folder.uri.fsPath;
+    return { name: displayName(folder, rootPath), rootPath, folder, folders: [folder] };
+}
+
+/**
+ * Let the user choose which repositories a command applies to. Skips the
+ * prompt when there is only one; resolves to undefined when cancelled.
+ */
+export async function pickWorkspaceRepositories(options: {
+    title: string;
+    allowAll: boolean;
+}): Promise<WorkspaceRepository[] | undefined> {
+    const repositories = await getWorkspaceRepositories();
+    if (repositories.length <= 1) {
+        return repositories;
+    }
+
+    type RepositoryItem = vscode.QuickPickItem & { repositories: WorkspaceRepository[] };
+    const items: RepositoryItem[] = repositories.map(repository => ({
+        label: `$(repo) ${repository.name}`,
+        detail: repository.rootPath,
+        repositories: [repository],
+    }));
+    if (options.allowAll) {
+        items.push({
+            label: '$(folder-library) All folders',
+            description: `${repositories.length} repositories, one after another`,
+            repositories,
+        });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: options.title,
+        placeHolder: 'Choose a repository',
+    });
+    return picked?.repositories;
+}
+
+/**
+ * The repository-relative directories the repository's workspace folders
+ * open, or undefined when one of them is the root (or outside it) and so
+ * covers the whole repository.
+ */
+export function getRepositoryDirectories(repository: WorkspaceRepository): string[] | undefined {
+    const directories = new Set<string>();
+    for (const folder of repository.folders) {
+        const directory = toRepositoryRelativePath(repository.rootPath, folder.uri.fsPath);
+        if (!directory || directory.startsWith('..')) {
+            return undefined;
+        }
+        directories.add(directory);
+    }
+    return Array.from(directories);
+}
+
+/** Path of `fsPath` relative to a repository root, with forward slashes (git pathspec form). */
+export function toRepositoryRelativePath(rootPath: string, fsPath: string): string {
+    return path.relative(rootPath, fsPath).split(path.sep).join('/');
+}
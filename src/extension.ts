@@ -1,15 +1,39 @@
 import * as vscode from 'vscode';
-import { ExpertiseAnalyzer } from './core/expertise-analyzer';
+import * as path from 'path';
+import { ExpertiseAnalyzer, type ExpertiseAnalysis } from './core/expertise-analyzer';
 import { CopilotService } from './core/copilot-service';
-import { Expert } from './types/expert';
+import { Expert, GitCommit, ReviewerSuggestion } from './types/expert';
 import { ExpertiseWebviewProvider } from './core/expertise-webview';
 import { ExpertiseTreeProvider } from './core/expertise-tree-provider';
+import { SymbolExpertiseCodeLensProvider } from './core/symbol-expertise-provider';
+import { OwnershipHeatmap } from './core/ownership-heatmap';
 import { RepositoryActivityService } from './core/repository-activity-service';
+import {
+    clearRepositoryRootCache,
+    getRepositoryDirectories,
+    getRepositoryForPath,
+    pickWorkspaceRepositories,
+    toRepositoryRelativePath,
+    type WorkspaceRepository
+} from './core/workspace-repositories';
+import { validateRevisionRange, validateScopeDate, type AnalysisScope } from './utils/analysis-scope';
+import { appendMailmapEntries, formatMailmapEntries, type IdentityCluster } from './utils/identity-clustering';
 import { TokenManager } from './core/token-manager';
 import { ErrorHandler } from './utils/error-handler';
 import { ResourceManager } from './utils/resource-manager';
 import { Validator } from './utils/validation';
 import { setBotDetectionOptions } from './utils/bot-detection';
+import { explainScore } from './utils/expertise-score';
+import {
+    CODEOWNERS_LOCATIONS,
+    DEFAULT_CODEOWNERS_MIN_OWNERS,
+    DEFAULT_CODEOWNERS_MIN_SHARE,
+    buildCodeownersRules,
+    formatCodeownersBlock,
+    mergeCodeowners
+} from './utils/codeowners';
+import { describeOrphanedFile } from './utils/orphaned-code';
+import { formatReviewerHandles } from './utils/reviewer-suggestions';
 
 // Module-level reference for cleanup in deactivate()
 let copilotService: CopilotService | undefined;
@@ -51,6 +75,8 @@ export function activate(context: vscode.ExtensionContext) {
             }
         })
     );
+    // Folders added or removed can bring new repositories or drop old ones
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => clearRepositoryRootCache()));
     
     // Command to allow user to set their GitHub token
     context.subscriptions.push(
@@ -209,62 +235,486 @@ export function activate(context: vscode.ExtensionContext) {
         });
     }
     
+    // CODEOWNERS drift from each repository's latest analysis, in the Problems panel
+    const codeownersDiagnostics = vscode.languages.createDiagnosticCollection('teamxray-codeowners');
+    context.subscriptions.push(codeownersDiagnostics);
+
+    function updateCodeownersDiagnostics(analysis: ExpertiseAnalysis): void {
+        // Diagnostics follow the rolling-window analysis, not a past range
+        if (!analysis.repositoryRoot || analysis.scope) {
+            return;
+        }
+        for (const location of CODEOWNERS_LOCATIONS) {
+            codeownersDiagnostics.delete(vscode.Uri.file(path.join(analysis.repositoryRoot, location)));
+        }
+        const report = analysis.codeownersDrift;
+        if (!report) {
+            return;
+        }
+        codeownersDiagnostics.set(
+            vscode.Uri.file(path.join(analysis.repositoryRoot, report.file)),
+            report.issues.map(issue => {
+                // Rule issues point at the rule's pattern; unowned paths have no line
+                const line = issue.line !== undefined ? issue.line - 1 : 0;
+                const diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(line, 0, line, issue.line !== undefined ? issue.pattern.length : 0),
+                    issue.message,
+                    issue.kind === 'unowned' ? vscode.DiagnosticSeverity.Information : vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = 'Team X-Ray';
+                diagnostic.code = issue.kind;
+                return diagnostic;
+            })
+        );
+    }
+
+    // Orphaned files from the owning repository's latest analysis get a
+    // one-time notice per session when opened
+    const orphanedNoticesShown = new Set<string>();
+
+    async function noticeOrphanedFile(editor: vscode.TextEditor | undefined): Promise<void> {
+        const uri = editor?.document.uri;
+        if (!uri || uri.scheme !== 'file' || orphanedNoticesShown.has(uri.fsPath)
+            || !vscode.workspace.getConfiguration('teamxray').get<boolean>('orphanedCodeWarnings', true)) {
+            return;
+        }
+        const repository = await getRepositoryForPath(uri.fsPath);
+        const report = repository ? analyzer.getLastAnalysis(repository.rootPath)?.orphanedCode : undefined;
+        const relativePath = repository ? toRepositoryRelativePath(repository.rootPath, uri.fsPath) : '';
+        const file = report?.files.find(entry => entry.filePath === relativePath);
+        if (!file) {
+            return;
+        }
+        orphanedNoticesShown.add(uri.fsPath);
+        const choice = await vscode.window.showInformationMessage(describeOrphanedFile(file), 'Don\'t Show Again');
+        if (choice === 'Don\'t Show Again') {
+            await vscode.workspace.getConfiguration('teamxray').update('orphanedCodeWarnings', false, vscode.ConfigurationTarget.Global);
+        }
+    }
+
+    // Analyze one repository into its own streaming panel
+    async function runAnalysis(repository: WorkspaceRepository, scope?: AnalysisScope): Promise<void> {
+        // Create streaming panel immediately
+        const streamingPanel = webviewProvider.createStreamingPanel(repository.name);
+
+        const streamCallback = (chunk: string) => {
+            streamingPanel.webview.postMessage({
+                type: 'chunk',
+                content: chunk
+            });
+        };
+
+        const statusCallback = (status: string) => {
+            streamingPanel.webview.postMessage({
+                type: 'status',
+                text: status
+            });
+        };
+
+        try {
+            statusCallback('Analyzing repository...');
+            const analysis = await withAnalysisTimeout(analyzer.analyzeRepository(streamCallback, repository, scope));
+
+            if (analysis) {
+                statusCallback('Generating report...');
+                await analyzer.saveAnalysis(analysis);
+                treeProvider.refresh(analysis);
+                updateCodeownersDiagnostics(analysis);
+
+                // Update the panel with final analysis HTML
+                webviewProvider.updatePanelWithAnalysis(streamingPanel, analysis);
+                
+                statusCallback('Complete!');
+            } else {
+                streamingPanel.webview.postMessage({
+                    type: 'error',
+                    text: 'Analysis returned no results'
+                });
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            streamingPanel.webview.postMessage({
+                type: 'error',
+                text: message
+            });
+        }
+    }
+
     // Register main analysis command
     const analyzeRepositoryCommand = vscode.commands.registerCommand('teamxray.analyzeRepository', async () => {
         await ErrorHandler.withErrorHandling(async () => {
             if (!await ensureAIAccess()) {
                 return;
             }
-            
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            const repoName = workspaceFolder?.name ?? 'Unknown Repository';
 
-            // Create streaming panel immediately
-            const streamingPanel = webviewProvider.createStreamingPanel(repoName);
+            const repositories = await pickWorkspaceRepositories({
+                title: 'Team X-Ray: Analyze Repository',
+                allowAll: true
+            });
+            if (!repositories) {
+                return;
+            }
+            if (repositories.length === 0) {
+                throw ErrorHandler.createValidationError('No workspace folder found. Please open a folder or workspace.');
+            }
+
+            // One at a time: each analysis already saturates the worker and the model
+            for (const repository of repositories) {
+                await runAnalysis(repository);
+            }
+        }, 'analyze repository');
+    });
 
-            const streamCallback = (chunk: string) => {
-                streamingPanel.webview.postMessage({
-                    type: 'chunk',
-                    content: chunk
-                });
-            };
+    // Ask for a ref/range or a from/to date range; undefined when cancelled
+    async function promptForAnalysisScope(): Promise<AnalysisScope | undefined> {
+        type ScopeKind = vscode.QuickPickItem & { scopeKind: 'range' | 'dates' };
+        const kind = await vscode.window.showQuickPick<ScopeKind>([
+            { label: '$(git-compare) Revision range', description: 'A release range or branch, e.g. v2.0..v3.0', scopeKind: 'range' },
+            { label: '$(calendar) Date range', description: 'Commits between two dates', scopeKind: 'dates' },
+        ], { title: 'Team X-Ray: Analyze Range', placeHolder: 'What should the analysis cover?' });
+        if (!kind) { return undefined; }
 
-            const statusCallback = (status: string) => {
-                streamingPanel.webview.postMessage({
-                    type: 'status',
-                    text: status
-                });
-            };
+        if (kind.scopeKind === 'range') {
+            const range = await vscode.window.showInputBox({
+                title: 'Team X-Ray: Analyze Range',
+                prompt: 'Ref or revision range to analyze',
+                placeHolder: 'v2.0..v3.0',
+                validateInput: validateRevisionRange,
+            });
+            return range === undefined ? undefined : { range: range.trim() };
+        }
+
+        const since = await vscode.window.showInputBox({
+            title: 'Team X-Ray: Analyze Range',
+            prompt: 'First day to include (YYYY-MM-DD)',
+            placeHolder: 'YYYY-MM-DD',
+            validateInput: validateScopeDate,
+        });
+        if (since === undefined) { return undefined; }
 
+        const until = await vscode.window.showInputBox({
+            title: 'Team X-Ray: Analyze Range',
+            prompt: 'Last day to include (YYYY-MM-DD) — leave empty for up to today',
+            placeHolder: 'YYYY-MM-DD',
+            validateInput: (value) => {
+                if (!value) { return null; }
+                return validateScopeDate(value) ?? (value < since ? 'The end date is before the start date' : null);
+            },
+        });
+        if (until === undefined) { return undefined; }
+        return { since, until: until || undefined };
+    }
+
+    const analyzeRangeCommand = vscode.commands.registerCommand('teamxray.analyzeRange', async () => {
+        await ErrorHandler.withErrorHandling(async () => {
+            if (!await ensureAIAccess()) {
+                return;
+            }
+
+            const repositories = await pickWorkspaceRepositories({
+                title: 'Team X-Ray: Analyze Range',
+                allowAll: false
+            });
+            if (!repositories) {
+                return;
+            }
+            if (repositories.length === 0) {
+                throw ErrorHandler.createValidationError('No workspace folder found. Please open a folder or workspace.');
+            }
+
+            const scope = await promptForAnalysisScope();
+            if (scope) {
+                await runAnalysis(repositories[0], scope);
+            }
+        }, 'analyze range');
+    });
+
+    const suggestMailmapCommand = vscode.commands.registerCommand('teamxray.suggestMailmap', async () => {
+        await ErrorHandler.withErrorHandling(async () => {
+            const repositories = await pickWorkspaceRepositories({
+                title: 'Team X-Ray: Suggest .mailmap Entries',
+                allowAll: false
+            });
+            if (!repositories) {
+                return;
+            }
+            if (repositories.length === 0) {
+                throw ErrorHandler.createValidationError('No workspace folder found. Please open a folder or workspace.');
+            }
+            const repository = repositories[0];
+
+            const clusters = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Team X-Ray: Looking for duplicate identities…' },
+                () => analyzer.suggestIdentityClusters(repository)
+            );
+            if (clusters.length === 0) {
+                vscode.window.showInformationMessage('Team X-Ray: No likely duplicate identities found in the analyzed history.');
+                return;
+            }
+
+            type ClusterItem = vscode.QuickPickItem & { cluster: IdentityCluster };
+            const picked = await vscode.window.showQuickPick<ClusterItem>(
+                clusters.map(cluster => ({
+                    label: `${cluster.canonical.name} <${cluster.canonical.email}>`,
+                    description: `${cluster.commits} commits · ${cluster.reasons.join(', ')}`,
+                    detail: `← ${cluster.aliases.map(alias => `${alias.name} <${alias.email}>`).join(', ')}`,
+                    picked: true,
+                    cluster,
+                })),
+                {
+                    title: 'Team X-Ray: Suggest .mailmap Entries',
+                    placeHolder: 'Uncheck merges that are not the same person',
+                    canPickMany: true,
+                    matchOnDetail: true,
+                }
+            );
+            if (!picked || picked.length === 0) {
+                return;
+            }
+
+            const mailmapUri = vscode.Uri.file(path.join(repository.rootPath, '.mailmap'));
+            let existing = '';
             try {
-                statusCallback('Analyzing repository...');
-                const analysis = await withAnalysisTimeout(analyzer.analyzeRepository(streamCallback));
+                existing = Buffer.from(await vscode.workspace.fs.readFile(mailmapUri)).toString('utf8');
+            } catch {
+                // No .mailmap yet — it will be created
+            }
+            const updated = appendMailmapEntries(existing, formatMailmapEntries(picked.map(item => item.cluster)));
+            if (updated === existing) {
+                vscode.window.showInformationMessage('Team X-Ray: .mailmap already contains these entries.');
+                return;
+            }
 
-                if (analysis) {
-                    statusCallback('Generating report...');
-                    await analyzer.saveAnalysis(analysis);
-                    treeProvider.refresh(analysis);
+            await vscode.workspace.fs.writeFile(mailmapUri, Buffer.from(updated, 'utf8'));
+            // git now reports the canonical identities, so cached history is stale
+            await analyzer.forgetRepositoryHistory(repository.rootPath);
+            await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(mailmapUri));
+            vscode.window.showInformationMessage(
+                `Team X-Ray: ${existing ? 'Updated' : 'Created'} .mailmap for ${picked.length} ${picked.length === 1 ? 'person' : 'people'}. Re-run the analysis to apply it.`
+            );
+        }, 'suggest .mailmap entries');
+    });
 
-                    // Update the panel with final analysis HTML
-                    webviewProvider.updatePanelWithAnalysis(streamingPanel, analysis);
-                    
-                    statusCallback('Complete!');
-                } else {
-                    streamingPanel.webview.postMessage({
-                        type: 'error',
-                        text: 'Analysis returned no results'
-                    });
+    // Proposed file contents for the diff preview, keyed by URI path
+    const codeownersPreviews = new Map<string, string>();
+    const codeownersPreviewProvider = vscode.workspace.registerTextDocumentContentProvider('teamxray-codeowners', {
+        provideTextDocumentContent: uri => codeownersPreviews.get(uri.path) ?? ''
+    });
+
+    const generateCodeownersCommand = vscode.commands.registerCommand('teamxray.generateCodeowners', async () => {
+        await ErrorHandler.withErrorHandling(async () => {
+            const repositories = await pickWorkspaceRepositories({
+                title: 'Team X-Ray: Generate CODEOWNERS',
+                allowAll: false
+            });
+            if (!repositories) {
+                return;
+            }
+            if (repositories.length === 0) {
+                throw ErrorHandler.createValidationError('No workspace folder found. Please open a folder or workspace.');
+            }
+            const repository = repositories[0];
+
+            const analysis = analyzer.getLastAnalysis(repository.rootPath);
+            if (!analysis?.directoryOwnership) {
+                const choice = await vscode.window.showInformationMessage(
+                    `Team X-Ray: Analyze ${repository.name} first — CODEOWNERS is proposed from the analysis's folder ownership.`,
+                    'Analyze Repository'
+                );
+                if (choice === 'Analyze Repository') {
+                    await vscode.commands.executeCommand('teamxray.analyzeRepository');
                 }
-            } catch (error) {
-                const message = error instanceof Error ? error.message : String(error);
-                streamingPanel.webview.postMessage({
-                    type: 'error',
-                    text: message
-                });
+                return;
             }
-        }, 'analyze repository');
+
+            const config = vscode.workspace.getConfiguration('teamxray');
+            const minShare = config.get<number>('codeownersMinShare', DEFAULT_CODEOWNERS_MIN_SHARE);
+            const minOwners = config.get<number>('codeownersMinOwners', DEFAULT_CODEOWNERS_MIN_OWNERS);
+            // Bots and agents are matched by how the analysis classified them
+            const exclude = new Set(config.get<boolean>('codeownersExcludeBots', true)
+                ? [...analysis.expertProfiles, ...(analysis.experts ?? [])]
+                    .filter(expert => expert.isBot || expert.contributorKind === 'automation-bot' || expert.contributorKind === 'ai-agent')
+                    .map(expert => String(expert.email ?? '').toLowerCase())
+                : []);
+
+            // A single workspace folder below the repository root owns only its own subtree
+            const directories = getRepositoryDirectories(repository);
+            const rules = buildCodeownersRules(analysis.directoryOwnership, {
+                minShare,
+                minOwners,
+                exclude,
+                folder: directories?.length === 1 ? directories[0] : ''
+            });
+            if (rules.length === 0) {
+                vscode.window.showInformationMessage(
+                    `Team X-Ray: Nobody authors ${Math.round(minShare * 100)}% of any folder's files — lower teamxray.codeownersMinShare to propose owners.`
+                );
+                return;
+            }
+
+            let target = vscode.Uri.file(path.join(repository.rootPath, CODEOWNERS_LOCATIONS[0]));
+            let existing: string | undefined;
+            for (const location of CODEOWNERS_LOCATIONS) {
+                const uri = vscode.Uri.file(path.join(repository.rootPath, location));
+                try {
+                    existing = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+                    target = uri;
+                    break;
+                } catch {
+                    // Not at this location
+                }
+            }
+
+            const description = `Proposed from ${analysis.historyLabel ?? 'the analysed history'} on ${new Date().toISOString().slice(0, 10)}: ` +
+                `owners author at least ${Math.round(minShare * 100)}% of the files under a path.`;
+            const proposed = mergeCodeowners(existing ?? '', formatCodeownersBlock(rules, description));
+            if (proposed === existing) {
+                vscode.window.showInformationMessage('Team X-Ray: CODEOWNERS already matches the analysis.');
+                return;
+            }
+
+            const relative = path.relative(repository.rootPath, target.fsPath).split(path.sep).join('/');
+            const proposedUri = vscode.Uri.from({ scheme: 'teamxray-codeowners', path: `/${repository.name}/proposed/${relative}` });
+            const currentUri = existing === undefined
+                ? vscode.Uri.from({ scheme: 'teamxray-codeowners', path: `/${repository.name}/current/${relative}` })
+                : target;
+            codeownersPreviews.set(proposedUri.path, proposed);
+            if (existing === undefined) {
+                codeownersPreviews.set(currentUri.path, '');
+            }
+            await vscode.commands.executeCommand('vscode.diff', currentUri, proposedUri, `${relative} (current ↔ proposed)`);
+
+            const choice = await vscode.window.showInformationMessage(
+                `Team X-Ray: ${existing === undefined ? 'Create' : 'Update'} ${relative} with ${rules.length} owner rule${rules.length === 1 ? '' : 's'}?`,
+                'Write',
+                'Cancel'
+            );
+            codeownersPreviews.delete(proposedUri.path);
+            codeownersPreviews.delete(currentUri.path);
+            if (choice !== 'Write') {
+                return;
+            }
+
+            await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target.fsPath)));
+            await vscode.workspace.fs.writeFile(target, Buffer.from(proposed, 'utf8'));
+            await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(target));
+        }, 'generate CODEOWNERS');
     });
 
+    // Rank reviewers for the working tree's changes and copy their handles
+    const suggestReviewersCommand = vscode.commands.registerCommand('teamxray.suggestReviewers', async () => {
+        await ErrorHandler.withErrorHandling(async () => {
+            const repositories = await pickWorkspaceRepositories({
+                title: 'Team X-Ray: Suggest Reviewers for My Changes',
+                allowAll: false
+            });
+            if (!repositories) {
+                return;
+            }
+            if (repositories.length === 0) {
+                throw ErrorHandler.createValidationError('No workspace folder found. Please open a folder or workspace.');
+            }
+            const repository = repositories[0];
+
+            const { changes, reviewers } = await resourceManager.withProgress('Finding reviewers for your changes...', async (progress) => {
+                progress.report({ increment: 0, message: 'Reading the history of changed files...' });
+                const result = await analyzer.suggestReviewers(repository);
+                progress.report({ increment: 100, message: 'Complete!' });
+                return result;
+            });
+            if (changes.length === 0) {
+                vscode.window.showInformationMessage(`Team X-Ray: No staged or unstaged changes in ${repository.name}.`);
+                return;
+            }
+            if (reviewers.length === 0) {
+                vscode.window.showInformationMessage(
+                    `Team X-Ray: Nobody else has history in the ${changes.length} changed file${changes.length === 1 ? '' : 's'}.`
+                );
+                return;
+            }
+
+            // The two strongest reviewers start selected
+            type ReviewerItem = vscode.QuickPickItem & { reviewer: ReviewerSuggestion };
+            const items: ReviewerItem[] = reviewers.map((reviewer, index) => ({
+                label: `$(person) ${reviewer.name}`,
+                description: `${reviewer.handle} · ${reviewer.score}% · ${reviewer.files} of ${changes.length} file${changes.length === 1 ? '' : 's'}`,
+                detail: reviewer.reasons.join(' · '),
+                picked: index < 2,
+                reviewer
+            }));
+            const picked = await vscode.window.showQuickPick(items, {
+                title: `Reviewers for ${changes.length} changed file${changes.length === 1 ? '' : 's'} in ${repository.name}`,
+                placeHolder: 'Select reviewers to copy their @handles',
+                canPickMany: true
+            });
+            if (!picked || picked.length === 0) {
+                return;
+            }
+            const handles = formatReviewerHandles(picked.map(item => item.reviewer));
+            await vscode.env.clipboard.writeText(handles);
+            vscode.window.showInformationMessage(`Team X-Ray: Copied ${handles}`);
+        }, 'suggest reviewers');
+    });
+
+    // Experts in a quick pick; picking one shows details with the option to
+    // view their recent activity. Commits, when given, follow the experts and
+    // picking one copies its SHA
+    function displayExperts(experts: Expert[], target: string, repositoryRoot?: string, commits: GitCommit[] = []): void {
+        if (experts && experts.length > 0) {
+            type ExpertItem = vscode.QuickPickItem & { expert?: Expert; commit?: GitCommit };
+            // Show experts in quick pick
+            const items: ExpertItem[] = experts.map(expert => ({
+                label: `$(person) ${expert.name}`,
+                description: `${expert.expertise}% expertise` +
+                    (expert.recencyScore !== undefined ? ` · ${expert.recencyScore}% current` : ''),
+                detail: expert.scoreBreakdown
+                    ? `Why: ${explainScore(expert.scoreBreakdown)}`
+                    : `${expert.contributions} contributions | Specializations: ${(expert.specializations || []).join(', ')}`,
+                expert: expert
+            }));
+            if (commits.length > 0) {
+                items.push(
+                    { label: 'Commits that shaped this code', kind: vscode.QuickPickItemKind.Separator },
+                    ...commits.slice(0, 20).map(commit => ({
+                        label: `$(git-commit) ${commit.message}`,
+                        description: `${commit.sha.slice(0, 7)} · ${commit.author.name} · ${safeFormatDate(commit.date)}`,
+                        commit
+                    }))
+                );
+            }
+
+            vscode.window.showQuickPick(items, {
+                title: `Experts for ${target}`,
+                placeHolder: commits.length > 0 ? 'Select an expert to view details, or a commit to copy its SHA' : 'Select an expert to view details'
+            }).then(selected => {
+                if (selected?.commit) {
+                    const sha = selected.commit.sha;
+                    vscode.env.clipboard.writeText(sha).then(() => {
+                        vscode.window.showInformationMessage(`Team X-Ray: Copied ${sha.slice(0, 7)} (${selected.commit?.message})`);
+                    });
+                } else if (selected?.expert) {
+                    // Show expert details with activity option
+                    const expert = selected.expert;
+
+                    const message = `${expert.name} (${expert.email})
+Expertise: ${expert.expertise}%${expert.recencyScore !== undefined ? ` (current knowledge ${expert.recencyScore}%)` : ''}
+Contributions: ${expert.contributions}
+Last commit: ${safeFormatDate(expert.lastCommit)}
+Specializations: ${(expert.specializations || []).join(', ')}${expert.scoreBreakdown ? `
+Why: ${explainScore(expert.scoreBreakdown)}` : ''}`;
+
+                    vscode.window.showInformationMessage(message, 'View Activity', 'Close').then(selection => {
+                        if (selection === 'View Activity') {
+                            getExpertRecentActivity(expert, repositoryRoot);
+                        }
+                    });
+                }
+            });
+        } else {
+            vscode.window.showInformationMessage(`No experts found for ${target}`);
+        }
+    }
+
     // Register find expert for file command
     const findExpertCommand = vscode.commands.registerCommand('teamxray.findExpertForFile', async (uri?: vscode.Uri) => {
         await ErrorHandler.withErrorHandling(async () => {
@@ -294,65 +744,100 @@ export function activate(context: vscode.ExtensionContext) {
                 throw ErrorHandler.createValidationError(`Invalid file path: ${validation.errors.join(', ')}`);
             }
 
-            // Function to display experts
-            const displayExperts = (experts: Expert[]) => {
-                if (experts && experts.length > 0) {
-                    // Show experts in quick pick
-                    const items = experts.map(expert => ({
-                        label: `$(person) ${expert.name}`,
-                        description: `${expert.expertise}% expertise`,
-                        detail: `${expert.contributions} contributions | Specializations: ${(expert.specializations || []).join(', ')}`,
-                        expert: expert
-                    }));
-
-                    vscode.window.showQuickPick(items, {
-                        title: `Experts for ${vscode.workspace.asRelativePath(filePath)}`,
-                        placeHolder: 'Select an expert to view details'
-                    }).then(selected => {
-                        if (selected) {
-                            // Show expert details with activity option
-                            const expert = selected.expert;
-
-                            const message = `${expert.name} (${expert.email})
-Expertise: ${expert.expertise}%
-Contributions: ${expert.contributions}
-Last commit: ${safeFormatDate(expert.lastCommit)}
-Specializations: ${(expert.specializations || []).join(', ')}`;
-
-                            vscode.window.showInformationMessage(message, 'View Activity', 'Close').then(selection => {
-                                if (selection === 'View Activity') {
-                                    getExpertRecentActivity(expert);
-                                }
-                            });
-                        }
-                    });
-                } else {
-                    vscode.window.showInformationMessage(`No experts found for ${vscode.workspace.asRelativePath(filePath)}`);
-                }
-            };
+            // Activity lookups must run in the repository that owns the file
+            const repositoryRoot = (await getRepositoryForPath(filePath))?.rootPath;
 
             // If called from context menu, find experts directly without progress indicator
             if (isContextMenu) {
                 const experts = await analyzer.findExpertForFile(filePath);
-                displayExperts(experts || []);
+                displayExperts(experts || [], vscode.workspace.asRelativePath(filePath), repositoryRoot);
             } else {
                 // Show progress indicator for command palette invocations
                 await resourceManager.withProgress("Finding experts for file...", async (progress) => {
                     progress.report({ increment: 0, message: "Analyzing file..." });
                     const experts = await analyzer.findExpertForFile(filePath);
                     progress.report({ increment: 100, message: "Complete!" });
-                    displayExperts(experts || []);
+                    displayExperts(experts || [], vscode.workspace.asRelativePath(filePath), repositoryRoot);
                     return null;
                 });
             }
         }, 'find expert for file');
     });
 
+    // Register find expert for the selected lines command
+    const findExpertForSelectionCommand = vscode.commands.registerCommand('teamxray.findExpertForSelection', async () => {
+        await ErrorHandler.withErrorHandling(async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.uri.scheme !== 'file') {
+                throw ErrorHandler.createValidationError('No file selected. Please open a file and select the lines to find experts for.');
+            }
+            const filePath = editor.document.fileName;
+            const validation = Validator.validateFilePath(filePath);
+            if (!validation.isValid) {
+                throw ErrorHandler.createValidationError(`Invalid file path: ${validation.errors.join(', ')}`);
+            }
+            // Selection line numbers are the editor's; history only knows the saved file at HEAD
+            if (editor.document.isDirty) {
+                vscode.window.showWarningMessage('Team X-Ray: Save the file first to find experts for the selected lines.');
+                return;
+            }
+
+            // 1-based and inclusive; a selection ending at the start of a line leaves that line out
+            const { start, end } = editor.selection;
+            const lastLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+            const range = { start: start.line + 1, end: lastLine + 1 };
+            const target = `${vscode.workspace.asRelativePath(filePath)}:${range.start}-${range.end}`;
+            const repositoryRoot = (await getRepositoryForPath(filePath))?.rootPath;
+
+            const result = await resourceManager.withProgress('Finding experts for the selected lines...', async (progress) => {
+                progress.report({ increment: 0, message: 'Reading the history of the lines...' });
+                const found = await analyzer.findExpertsForRange(filePath, range);
+                progress.report({ increment: 100, message: 'Complete!' });
+                return found;
+            });
+            displayExperts(result?.experts ?? [], target, repositoryRoot, result?.commits);
+        }, 'find expert for selection');
+    });
+
+    // Top expert above each class, function and method (teamxray.symbolCodeLens)
+    const symbolExpertiseProvider = new SymbolExpertiseCodeLensProvider(analyzer);
+    const symbolCodeLensRegistration = vscode.languages.registerCodeLensProvider({ scheme: 'file' }, symbolExpertiseProvider);
+
+    // Internal command behind the symbol CodeLens
+    const showSymbolExpertsCommand = vscode.commands.registerCommand('teamxray.showSymbolExperts',
+        (target: string, experts: Expert[], commits: GitCommit[], repositoryRoot?: string) => {
+            displayExperts(experts, target, repositoryRoot, commits);
+        }
+    );
+
+    // Gutter heatmap of line authors and ages across all editors
+    const ownershipHeatmap = new OwnershipHeatmap(analyzer);
+    const toggleOwnershipHeatmapCommand = vscode.commands.registerCommand('teamxray.toggleOwnershipHeatmap', async () => {
+        await ErrorHandler.withErrorHandling(async () => {
+            const enabled = await ownershipHeatmap.toggle();
+            vscode.window.setStatusBarMessage(`Team X-Ray: Ownership heatmap ${enabled ? 'on' : 'off'}`, 3000);
+        }, 'toggle ownership heatmap');
+    });
+
     // Register show team overview command
     const showOverviewCommand = vscode.commands.registerCommand('teamxray.showTeamOverview', async () => {
-        const lastAnalysis = analyzer.getLastAnalysis();
-        if (lastAnalysis) {
-            webviewProvider.showAnalysisResults(lastAnalysis);
+        const analyses = analyzer.getStoredAnalyses();
+        if (analyses.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                analyses.map(analysis => ({
+                    label: `$(repo) ${analysis.repository}`,
+                    description: [analysis.historyLabel, safeFormatDate(analysis.generatedAt)].filter(Boolean).join(' · '),
+                    detail: analysis.repositoryRoot,
+                    analysis
+                })),
+                { title: 'Team X-Ray: Show Team Overview', placeHolder: 'Choose an analyzed repository' }
+            );
+            if (picked) {
+                webviewProvider.showAnalysisResults(picked.analysis);
+                treeProvider.refresh(picked.analysis);
+            }
+        } else if (analyses.length === 1) {
+            webviewProvider.showAnalysisResults(analyses[0]);
         } else {
             const choice = await vscode.window.showInformationMessage(
                 'No analysis available. Would you like to analyze the repository now?',
@@ -367,7 +852,7 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
     });
 
     // Helper function to get expert recent activity from local git history
-    async function getExpertRecentActivity(expert: any) {
+    async function getExpertRecentActivity(expert: any, repositoryRoot?: string) {
         const outputChannel = vscode.window.createOutputChannel('Team X-Ray Expert Activity');
 
         try {
@@ -380,7 +865,7 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
             }, async (progress) => {
                 progress.report({ increment: 0, message: "Reading local git history..." });
 
-                const result = await repositoryActivityService.getExpertRecentActivity(expert.email, expert.name);
+                const result = await repositoryActivityService.getExpertRecentActivity(expert.email, expert.name, repositoryRoot);
                 
                 if (result.success && result.activity) {
                     progress.report({ increment: 100, message: "Activity retrieved!" });
@@ -414,12 +899,15 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
     }
 
     // Register tree view commands
-    const openFileFromTreeCommand = vscode.commands.registerCommand('teamxray.openFileFromTree', async (filePath: string) => {
+    const openFileFromTreeCommand = vscode.commands.registerCommand('teamxray.openFileFromTree', async (filePath: string, repositoryRoot?: string) => {
         if (filePath) {
             try {
-                const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-                if (workspaceFolder) {
-                    const fullPath = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
+                // Tree paths are relative to the analyzed repository's root
+                const baseUri = repositoryRoot
+                    ? vscode.Uri.file(repositoryRoot)
+                    : vscode.workspace.workspaceFolders?.[0]?.uri;
+                if (baseUri) {
+                    const fullPath = vscode.Uri.joinPath(baseUri, filePath);
                     const document = await vscode.workspace.openTextDocument(fullPath);
                     await vscode.window.showTextDocument(document);
                 }
@@ -429,7 +917,7 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
         }
     });
 
-    const showExpertDetailsCommand = vscode.commands.registerCommand('teamxray.showExpertDetails', async (expert: any) => {
+    const showExpertDetailsCommand = vscode.commands.registerCommand('teamxray.showExpertDetails', async (expert: any, repositoryRoot?: string) => {
         if (expert) {
             const message = `${expert.name}
 Email: ${expert.email}
@@ -451,7 +939,7 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
                     vscode.window.showInformationMessage('Email copied to clipboard!');
                     break;
                 case 'Get Recent Activity':
-                    await getExpertRecentActivity(expert);
+                    await getExpertRecentActivity(expert, repositoryRoot);
                     break;
             }
         }
@@ -477,11 +965,41 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
                 description: 'Run a full team expertise analysis',
                 command: 'teamxray.analyzeRepository',
             },
+            {
+                label: '$(git-compare) Analyze Range…',
+                description: 'Analyze a release range or date range',
+                command: 'teamxray.analyzeRange',
+            },
+            {
+                label: '$(person-add) Suggest .mailmap Entries…',
+                description: 'Merge duplicate identities of the same person',
+                command: 'teamxray.suggestMailmap',
+            },
+            {
+                label: '$(shield) Generate CODEOWNERS…',
+                description: 'Propose owners per folder from the analysis',
+                command: 'teamxray.generateCodeowners',
+            },
+            {
+                label: '$(eye) Suggest Reviewers for My Changes…',
+                description: 'Rank reviewers for staged and unstaged changes',
+                command: 'teamxray.suggestReviewers',
+            },
             {
                 label: '$(person) Find Expert for File…',
                 description: 'Identify the best expert for a file',
                 command: 'teamxray.findExpertForFile',
             },
+            {
+                label: '$(list-selection) Find Expert for Selected Lines…',
+                description: 'Identify the experts for the selected code',
+                command: 'teamxray.findExpertForSelection',
+            },
+            {
+                label: '$(flame) Toggle Ownership Heatmap',
+                description: 'Color the gutter by line author and age',
+                command: 'teamxray.toggleOwnershipHeatmap',
+            },
             {
                 label: '$(calendar) Set History Window…',
                 description: 'Bound git-log analysis to N days',
@@ -520,7 +1038,18 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
     // Add all commands to subscriptions 
     context.subscriptions.push(
         analyzeRepositoryCommand,
+        analyzeRangeCommand,
+        suggestMailmapCommand,
+        codeownersPreviewProvider,
+        generateCodeownersCommand,
+        suggestReviewersCommand,
         findExpertCommand,
+        findExpertForSelectionCommand,
+        symbolExpertiseProvider,
+        symbolCodeLensRegistration,
+        showSymbolExpertsCommand,
+        ownershipHeatmap,
+        toggleOwnershipHeatmapCommand,
         showOverviewCommand,
         openFileFromTreeCommand,
         showExpertDetailsCommand,
@@ -528,6 +1057,13 @@ Specializations: ${(expert.specializations || []).join(', ')}`;
         statusBarItem
     );
 
+    analyzer.getStoredAnalyses().forEach(updateCodeownersDiagnostics);
+
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+        void noticeOrphanedFile(editor);
+    }));
+    void noticeOrphanedFile(vscode.window.activeTextEditor);
+
     // Check if we have a previous analysis and update the tree view
     const lastAnalysis = analyzer.getLastAnalysis();
     if (lastAnalysis) {
@@ -9,7 +9,8 @@ export interface Expert {
     teamRole: string;
     hiddenStrengths: string[];
     idealChallenges: string[];
-    workloadIndicator?: 'balanced' | 'overloaded' | 'underutilized';
+    /** Measured from commit times when the history allows (see ActivityProfile) */
+    workloadIndicator?: WorkloadIndicator;
     collaborationStyle?: 'independent' | 'collaborative' | 'mentoring';
     riskFactors?: string[];
     isBot?: boolean;
@@ -19,6 +20,176 @@ export interface Expert {
     aiAssistRate?: number;
     /** Friendly name of the identified agent/bot, e.g. 'Claude Code', 'Dependabot' */
     agentName?: string;
+    /** Lines of current code last changed by this contributor (git blame) */
+    survivingLines?: number;
+    /**
+     * Expertise with older work decayed by the knowledge half-life, 0-100
+     * relative to the most current person in the same scope; unset when
+     * decay is off
+     */
+    recencyScore?: number;
+    /** How the expertise score was measured, strongest factor first; unset when it came from the AI */
+    scoreBreakdown?: ExpertiseBreakdown;
+    /** Lines added across the analysed commits (git log --numstat) */
+    additions?: number;
+    /** Lines deleted across the analysed commits (git log --numstat) */
+    deletions?: number;
+    /** Review-trailer activity (Reviewed-by, Acked-by, Tested-by, Signed-off-by) */
+    reviews?: ReviewActivity;
+    /** When this contributor commits, from author dates */
+    activity?: ActivityProfile;
+}
+
+export type WorkloadIndicator = 'balanced' | 'overloaded' | 'underutilized';
+
+/** Measured signals that make up an expertise score */
+export type ExpertiseFactor = 'commits' | 'linesChanged' | 'recency' | 'survivingLines' | 'reviews';
+
+/** Relative weight of each factor (teamxray.scoringWeights) */
+export type ScoringWeights = Record<ExpertiseFactor, number>;
+
+/** One factor's part in an expertise score */
+export interface ScoreComponent {
+    factor: ExpertiseFactor;
+    /** Measured value: a count, or the decayed weight for recency */
+    value: number;
+    /** value relative to the highest in the same scope (0-1) */
+    relative: number;
+    /** Share (0-1) of the score this factor decides, after unavailable factors are left out */
+    weight: number;
+    /** relative × weight × 100 */
+    points: number;
+}
+
+/** Why someone has the expertise score they have */
+export interface ExpertiseBreakdown {
+    /** 0-100, the sum of the components' points */
+    score: number;
+    /** Largest contribution first */
+    components: ScoreComponent[];
+}
+
+/** Working-hours and timezone pattern of one identity, from author dates and their UTC offsets */
+export interface ActivityProfile {
+    /** Commits with a parseable author date */
+    commits: number;
+    /** Commits per hour of day (0-23) on the author's own clock */
+    hourHistogram: number[];
+    /** Commits per weekday on the author's own clock (0 = Sunday) */
+    weekdayHistogram: number[];
+    /** Commits per UTC hour (0-23), comparable across timezones */
+    utcHourHistogram: number[];
+    /** Most frequent UTC offset in minutes east, e.g. 120 for UTC+02:00 */
+    dominantUtcOffset: number;
+    /** Share (0-1) of commits on weekdays before 08:00 or from 19:00 local time */
+    afterHoursShare: number;
+    /** Share (0-1) of commits on Saturday or Sunday local time */
+    weekendShare: number;
+}
+
+/** Follow-the-sun coverage of the human team across UTC hours */
+export interface TimezoneCoverage {
+    /** Contributors grouped by dominant UTC offset, west to east */
+    timezones: Array<{ utcOffset: number; members: string[] }>;
+    /** Contributors whose usual working hours include each UTC hour (0-23) */
+    activeByUtcHour: number[];
+    /** Runs of UTC hours nobody usually works, possibly wrapping past midnight */
+    gaps: Array<{ startUtcHour: number; hours: number }>;
+}
+
+/** Review-trailer activity of one identity across the analysed commits */
+export interface ReviewActivity {
+    /** Reviewed-by trailers on commits authored by someone else */
+    reviewed: number;
+    /** Acked-by trailers on commits authored by someone else */
+    acked: number;
+    /** Tested-by trailers on commits authored by someone else */
+    tested: number;
+    /** Signed-off-by trailers on commits authored by someone else (maintainer sign-offs) */
+    signedOff: number;
+    /** Own commits carrying a review, ack or test trailer from someone else */
+    reviewedCommits: number;
+}
+
+/** Repository-level review participation measured from commit trailers */
+export interface ReviewParticipationSummary {
+    /** Commits considered (automation bots excluded) */
+    totalCommits: number;
+    /** Commits with a Reviewed-by, Acked-by or Tested-by trailer from someone other than the author */
+    reviewedCommits: number;
+    /** reviewedCommits / totalCommits (0-1) */
+    participation: number;
+    /** Distinct identities that reviewed, acked or tested someone else's commit; 0 means the workflow does not use review trailers */
+    reviewers: number;
+}
+
+/** A pull request reconstructed offline from a GitHub merge or squash-merge commit */
+export interface ReconstructedPullRequest {
+    number: number;
+    /** 'merge' for "Merge pull request #n from …" commits, 'squash' for "Title (#n)" commits */
+    kind: 'merge' | 'squash';
+    /** "owner/branch" from a merge subject; squash merges do not record it */
+    sourceBranch?: string;
+    /** Squash subject without the "(#n)" suffix; merge subjects carry no title */
+    title?: string;
+    mergeSha: string;
+    /** Author date of the merge or squash commit */
+    mergedAt: string;
+    /** Author of the merge commit; unknown for squash merges, which carry the PR author */
+    merger?: GitAuthor;
+    /** Most frequent author among the PR's commits */
+    author: GitAuthor;
+    /** SHAs of the commits the PR brought in, newest first */
+    commits: string[];
+    /** Earliest author date among the PR's commits */
+    firstCommitAt: string;
+    additions: number;
+    deletions: number;
+}
+
+/** Repository-level merge metrics derived from reconstructed pull requests */
+export interface PullRequestSummary {
+    total: number;
+    /** PRs landed through merge commits (merger known) */
+    merges: number;
+    squashes: number;
+    /** Merge-commit PRs whose commits were in the analysed history, so their author is known */
+    attributedMerges: number;
+    /** Attributed merge-commit PRs merged by someone other than their author */
+    mergedByOthers: number;
+    /** Median hours from a merge-commit PR's first commit to its merge; absent without merge commits */
+    medianHoursToMerge?: number;
+    /** PRs merged per week between the first and last merge (spans under a week count as one week) */
+    perWeek: number;
+}
+
+/** Why a commit was left out of expertise and ownership scoring */
+export type CommitExclusionReason = 'ignore-revs' | 'merge' | 'mass-change' | 'message';
+
+/** Commits dropped from expertise scoring; they still count in raw totals */
+export interface CommitExclusionSummary {
+    excluded: number;
+    byReason: Partial<Record<CommitExclusionReason, number>>;
+    /** Files-per-commit threshold in effect for 'mass-change' */
+    maxFilesPerCommit?: number;
+    /** Message pattern in effect for 'message' */
+    messagePattern?: string;
+}
+
+/** Change coupling: "when you touch `file` you usually also touch `coupledFile`" */
+export interface TemporalCoupling {
+    file: string;
+    coupledFile: string;
+    /** Commits changing both files */
+    coChanges: number;
+    /** coChanges / commits analysed (0-1) */
+    support: number;
+    /** coChanges / commits changing `file` (0-1) */
+    confidence: number;
+    /** The files live in different directories, so nothing in the layout hints they belong together */
+    crossModule: boolean;
+    /** Who made the co-changes, most first — often the only people who know about the coupling */
+    authors: Array<{ name: string; commits: number }>;
 }
 
 /** Repository-level AI attribution rollup derived from commit trailers */
@@ -40,6 +211,8 @@ export interface FileExpertise {
     experts: Expert[];
     lastModified: Date;
     changeFrequency: number;
+    /** Current line count, when blame ownership was computed */
+    totalLines?: number;
 }
 
 // Git-related types
@@ -55,6 +228,22 @@ export interface GitCommit {
     checkpointId?: string;
     /** Attribution trailer value (Entire-Attribution) when present */
     attribution?: string;
+    /** Lines added (from --numstat; absent when the log carried no line counts) */
+    additions?: number;
+    /** Lines deleted (from --numstat) */
+    deletions?: number;
+    /** Committer date (ISO), when the log carried it */
+    committedDate?: string;
+    /** Reviewed-by trailer identities */
+    reviewedBy?: GitAuthor[];
+    /** Acked-by trailer identities */
+    ackedBy?: GitAuthor[];
+    /** Tested-by trailer identities */
+    testedBy?: GitAuthor[];
+    /** Signed-off-by trailer identities */
+    signedOffBy?: GitAuthor[];
+    /** Parent SHAs, first parent first (absent when the log did not carry topology) */
+    parents?: string[];
 }
 
 export interface GitAuthor {
@@ -62,6 +251,27 @@ export interface GitAuthor {
     email: string;
 }
 
+export interface LineOwner {
+    name: string;
+    email: string;
+    /** Lines in the current file last changed by this author */
+    lines: number;
+    /** lines / totalLines (0-1) */
+    share: number;
+    /** ISO date of this author's newest surviving line */
+    lastCommitDate: string;
+    /** Surviving lines per author time (Unix seconds), for recency weighting */
+    linesByTime?: { time: number; lines: number }[];
+}
+
+/** Blame-derived ownership of one file's current lines */
+export interface FileOwnership {
+    filePath: string;
+    totalLines: number;
+    /** Sorted by surviving lines, largest first */
+    owners: LineOwner[];
+}
+
 export interface GitContributor {
     name: string;
     email: string;
@@ -70,6 +280,10 @@ export interface GitContributor {
     deletions: number;
     firstCommit: string;
     lastCommit: string;
+    /** Review-trailer activity, when the log carried review trailers */
+    reviews?: ReviewActivity;
+    /** Working-hours and timezone pattern from author dates */
+    activity?: ActivityProfile;
 }
 
 // Repository analysis types
@@ -82,6 +296,12 @@ export interface RepositoryStats {
     primaryLanguages: string[];
     recentActivityLevel: 'low' | 'medium' | 'high';
     repositorySize: 'small' | 'medium' | 'large' | 'enterprise';
+    /** Review participation measured from commit trailers */
+    reviewParticipation?: ReviewParticipationSummary;
+    /** Merge metrics from pull requests reconstructed out of local merge history */
+    pullRequests?: PullRequestSummary;
+    /** Commits excluded from expertise scoring (still counted in totalCommits) */
+    commitExclusions?: CommitExclusionSummary;
 }
 
 export interface RepositoryData {
@@ -91,6 +311,12 @@ export interface RepositoryData {
     contributors: GitContributor[];
     stats: RepositoryStats;
     collaborationData: CollaborationData;
+    /** Blame-based line ownership for the files that were blamed, if any */
+    fileOwnership?: FileOwnership[];
+    /** Pull requests reconstructed from merge history, newest first */
+    pullRequests?: ReconstructedPullRequest[];
+    /** File pairs that change together, strongest first */
+    temporalCoupling?: TemporalCoupling[];
 }
 
 export interface CollaborationData {
@@ -98,27 +324,47 @@ export interface CollaborationData {
     communicationPatterns: CommunicationPattern[];
     knowledgeSharing: KnowledgeSharing[];
     expertiseDistribution: ExpertiseDistribution[];
+    /** Contributor-to-contributor graph, strongest edges first (absent when not measured) */
+    collaborations?: CollaborationEdge[];
 }
 
 export interface CommunicationPattern {
     author: string;
+    /** Commits */
     frequency: number;
     style: 'detailed' | 'concise' | 'collaborative' | 'technical';
+    /** Mean commit subject length in characters */
     avgMessageLength: number;
 }
 
 export interface KnowledgeSharing {
     expert: string;
+    /** Areas (top-level directories) the person works in, most commits first */
     knowledge: string[];
+    /** Share (0-1) of the person's files someone else also changed within the collaboration window; 0 is a silo */
     sharingScore: number;
 }
 
 export interface ExpertiseDistribution {
     domain: string;
+    /** People behind at least a tenth of the area's commits, most first */
     experts: string[];
+    /** Share (0-1) of the team that changed the area at all */
     coverage: number;
 }
 
+/** Two contributors connected by files they both changed within weeks of each other, or by co-authored commits */
+export interface CollaborationEdge {
+    a: string;
+    b: string;
+    /** Files both changed within the collaboration window of each other, each counted once */
+    sharedFiles: number;
+    /** Commits one authored with the other as a Co-authored-by trailer */
+    coAuthoredCommits: number;
+    /** sharedFiles plus a heavier weight per co-authored commit */
+    weight: number;
+}
+
 // Analysis result types
 export interface AnalysisResult {
     repository: string;
@@ -163,6 +409,11 @@ export interface TeamHealthMetrics {
     collaborationMetrics: {
         crossTeamWork: number;
         codeReviewParticipation: number;
+        /**
+         * Whether codeReviewParticipation was measured from review trailers.
+         * False when the history carries none — the value is then 0, not a guess.
+         */
+        codeReviewMeasured?: boolean;
         knowledgeSharing: number;
         siloedMembers: string[];
     };
@@ -171,6 +422,163 @@ export interface TeamHealthMetrics {
         deploymentFrequency: string;
         blockers: string[];
     };
+    /** Truck factor measured from the scored history; absent without one */
+    busFactor?: BusFactorReport;
+}
+
+/** Truck factor of one part of the repository */
+export interface BusFactor {
+    /** Directory path, or '.' for the whole repository */
+    path: string;
+    scope: 'repository' | 'module' | 'directory';
+    /** Files in scope that have a human author in the analysed history */
+    files: number;
+    /** Fewest people whose departure leaves more than half of the files without an author */
+    busFactor: number;
+    /** Those people, in the order the greedy search removed them */
+    keyPeople: string[];
+    /** Share (0-1) of the files left without an author once keyPeople leave */
+    orphanedShare: number;
+    /** People who author at least one file in scope */
+    authors: number;
+}
+
+/** Ownership rolled up one directory of the repository */
+export interface DirectoryOwnership {
+    /** Directory path relative to the repository root; '.' for the root */
+    path: string;
+    /** Files under the directory that have a human author in the analysed history */
+    files: number;
+    /** People who author the most files under the directory, most first */
+    topExperts: DirectoryExpert[];
+    /** Truck factor of the files under the directory */
+    busFactor: number;
+    /** Newest human commit touching the directory (ISO date) */
+    lastActivity?: string;
+    /** Subdirectories, most files first; none below the rollup's depth limit */
+    children: DirectoryOwnership[];
+}
+
+export interface DirectoryExpert {
+    name: string;
+    email: string;
+    /** Files under the directory they author */
+    files: number;
+    /** Their commits touching the directory */
+    commits: number;
+}
+
+/**
+ * How a CODEOWNERS file disagrees with the history: an owner who has not
+ * touched their paths, a measured expert missing from a rule, or files no
+ * rule assigns an owner.
+ */
+export type CodeownersDriftKind = 'inactive-owner' | 'unlisted-expert' | 'unowned';
+
+export interface CodeownersDrift {
+    kind: CodeownersDriftKind;
+    /** The rule's pattern, or the directory whose files nobody owns */
+    pattern: string;
+    /** 1-based line of the rule in the CODEOWNERS file; absent for unowned paths */
+    line?: number;
+    /** The owner or expert concerned */
+    subject?: string;
+    /** Files the rule governs, or unowned files under the directory */
+    files: number;
+    message: string;
+}
+
+export interface CodeownersDriftReport {
+    /** CODEOWNERS path relative to the repository root */
+    file: string;
+    rules: number;
+    /** Files in the inventory that were checked */
+    checkedFiles: number;
+    unownedFiles: number;
+    issues: CodeownersDrift[];
+}
+
+/**
+ * Why a file counts as orphaned: every human expert has been inactive for
+ * longer than the threshold, or no human changed it in the analysed history
+ */
+export type OrphanedCodeReason = 'inactive-experts' | 'automation-only';
+
+export interface OrphanedFile {
+    filePath: string;
+    reason: OrphanedCodeReason;
+    /** Names of the file's human experts; empty when only automation changed it */
+    experts: string[];
+    /** The expert active most recently, or the bot or agent that last changed the file */
+    lastKnownBy: string;
+    /** ISO date of that person's last commit anywhere in the repository, or of the last change */
+    lastActive: string;
+}
+
+export interface OrphanedCodeReport {
+    /** Days without a commit after which an expert counts as inactive */
+    inactiveDays: number;
+    /** Files with analysed history that were checked */
+    checkedFiles: number;
+    /** Orphaned files found, including any left out of `files` */
+    orphanedFiles: number;
+    /** Longest-inactive first */
+    files: OrphanedFile[];
+}
+
+/** A file changed in the working tree, staged or not */
+export interface WorkingTreeChange {
+    path: string;
+    /** Lines added plus deleted, staged and unstaged together; 0 for binary files */
+    lines: number;
+}
+
+export interface ReviewerSuggestion {
+    name: string;
+    email: string;
+    /** `@login` from a GitHub address, else the email, as CODEOWNERS names owners */
+    handle: string;
+    /** File expertise (0-100) weighted by each file's share of the changed lines */
+    score: number;
+    /** Changed files they have expertise in */
+    files: number;
+    /** Strongest files first, e.g. "src/a.ts: 72% expertise, 40% of the change" */
+    reasons: string[];
+}
+
+/** Who last changed one line of a file on disk, for the ownership heatmap */
+export interface LineAuthorship {
+    /** 1-based line number */
+    line: number;
+    sha: string;
+    name: string;
+    email: string;
+    contributorKind: 'human' | 'ai-agent' | 'automation-bot' | 'ai-assisted-human';
+    /** 1-based rank of the author among the file's experts by surviving lines; 0 when uncommitted */
+    rank: number;
+    /** Author time in seconds since the epoch; 0 when uncommitted */
+    time: number;
+    /** Commit subject */
+    summary: string;
+    /** The commit carries agent-attribution trailers (see detectCommitAgentSignals) */
+    agentAssisted: boolean;
+    /** Agents named on the commit, e.g. 'Claude Code' */
+    agents: string[];
+    /** Saved on disk but not committed yet */
+    uncommitted: boolean;
+}
+
+export interface FileLineOwnership {
+    filePath: string;
+    /** Distinct authors of the committed lines */
+    experts: number;
+    lines: LineAuthorship[];
+}
+
+export interface BusFactorReport {
+    repository: BusFactor;
+    /** Modules and directories, riskiest (lowest bus factor, most files) first */
+    scopes: BusFactor[];
 }
 
 // API response types
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import {
+    buildActivityProfile,
+    computeTimezoneCoverage,
+    formatUtcOffset,
+    measureWorkload,
+    readAuthorClock,
+} from '../activity-profile';
+
+function commitsAt(dates: string[]): GitCommit[] {
+    return dates.map((date, i) => ({
+        sha: `sha${i}`,
+        author: { name: 'A', email: 'a@example.com' },
+        message: 'change',
+        date,
+        files: [],
+    }));
+}
+
+// Ten weekday commits at the given local hours, all on Tuesday 2026-07-07
+function weekdayCommits(hours: number[], offset: string): GitCommit[] {
+    return commitsAt(hours.map(hour => `2026-07-07T${String(hour).padStart(2, '0')}:15:00${offset}`));
+}
+
+describe('readAuthorClock', () => {
+    it('reads the local clock and converts to UTC across midnight', () => {
+        expect(readAuthorClock('2026-07-04T01:30:00+05:30')).toEqual({ localHour: 1, weekday: 6, utcHour: 20, utcOffset: 330 });
+        expect(readAuthorClock('2026-07-06T22:00:00-07:00')).toEqual({ localHour: 22, weekday: 1, utcHour: 5, utcOffset: -420 });
+        expect(readAuthorClock('2026-07-06T09:00:00Z')?.utcOffset).toBe(0);
+        expect(readAuthorClock('yesterday')).toBeNull();
+    });
+
+    it('formats offsets', () => {
+        expect(formatUtcOffset(0)).toBe('UTC');
+        expect(formatUtcOffset(330)).toBe('UTC+05:30');
+        expect(formatUtcOffset(-420)).toBe('UTC-07:00');
+    });
+});
+
+describe('buildActivityProfile', () => {
+    it('builds histograms, the dominant offset, and after-hours and weekend shares', () => {
+        const profile = buildActivityProfile(commitsAt([
+            '2026-07-07T10:00:00+02:00', // Tuesday, working hours
+            '2026-07-07T21:00:00+02:00', // Tuesday evening
+            '2026-07-11T11:00:00+02:00', // Saturday
+            '2026-07-08T06:00:00+01:00', // Wednesday early, travelling
+        ]))!;
+
+        expect(profile.commits).toBe(4);
+        expect(profile.dominantUtcOffset).toBe(120);
+        expect(profile.hourHistogram[21]).toBe(1);
+        expect(profile.weekdayHistogram[6]).toBe(1);
+        expect(profile.utcHourHistogram[8]).toBe(1);
+        expect(profile.afterHoursShare).toBe(0.5);
+        expect(profile.weekendShare).toBe(0.25);
+    });
+
+    it('returns undefined when no date parses', () => {
+        expect(buildActivityProfile(commitsAt(['not a date']))).toBeUndefined();
+    });
+});
+
+describe('measureWorkload', () => {
+    it('flags a large evening and weekend share and needs enough commits', () => {
+        const steady = buildActivityProfile(weekdayCommits([9, 10, 11, 12, 13, 14, 15, 16, 17, 18], '+00:00'));
+        const late = buildActivityProfile(weekdayCommits([9, 10, 11, 12, 13, 14, 20, 21, 22, 23], '+00:00'));
+
+        expect(measureWorkload(steady)).toBe('balanced');
+        expect(measureWorkload(late)).toBe('overloaded');
+        expect(measureWorkload(buildActivityProfile(weekdayCommits([22, 23], '+00:00')))).toBeUndefined();
+    });
+});
+
+describe('computeTimezoneCoverage', () => {
+    it('groups members by timezone and finds the UTC hours nobody covers', () => {
+        const workday = [9, 10, 11, 12, 13, 14, 15, 16, 17, 18];
+        const coverage = computeTimezoneCoverage([
+            { name: 'Berlin', activity: buildActivityProfile(weekdayCommits(workday, '+02:00')) },
+            { name: 'Denver', activity: buildActivityProfile(weekdayCommits(workday, '-06:00')) },
+            { name: 'Newcomer', activity: buildActivityProfile(weekdayCommits([9], '+09:00')) },
+        ]);
+
+        expect(coverage.timezones).toEqual([
+            { utcOffset: -360, members: ['Denver'] },
+            { utcOffset: 120, members: ['Berlin'] },
+        ]);
+        // Berlin covers 07-16 UTC, Denver 15-00 UTC
+        expect(coverage.activeByUtcHour[15]).toBe(2);
+        expect(coverage.gaps).toEqual([{ startUtcHour: 1, hours: 6 }]);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+    describeAnalysisScope,
+    describeHistoryWindow,
+    scopeToLogQuery,
+    validateRevisionRange,
+    validateScopeDate,
+} from '../analysis-scope';
+
+describe('validateRevisionRange', () => {
+    it('accepts refs and ranges', () => {
+        expect(validateRevisionRange('v2.0..v3.0')).toBeNull();
+        expect(validateRevisionRange('release/3.x')).toBeNull();
+        expect(validateRevisionRange('main...feature')).toBeNull();
+    });
+
+    it('rejects empty input, option-like values and whitespace', () => {
+        expect(validateRevisionRange('  ')).not.toBeNull();
+        expect(validateRevisionRange('--all')).not.toBeNull();
+        expect(validateRevisionRange('v2.0 v3.0')).not.toBeNull();
+    });
+});
+
+describe('validateScopeDate', () => {
+    it('accepts real calendar dates only', () => {
+        expect(validateScopeDate('2026-02-28')).toBeNull();
+        expect(validateScopeDate('2026-02-30')).toBe('2026-02-30 is not a valid date');
+        expect(validateScopeDate('28/02/2026')).toBe('Use the YYYY-MM-DD format');
+    });
+});
+
+describe('scopeToLogQuery', () => {
+    it('widens dates to whole days and passes the range through', () => {
+        expect(scopeToLogQuery({ range: ' v2.0..v3.0 ', since: '2026-01-01', until: '2026-03-31' })).toEqual({
+            range: 'v2.0..v3.0',
+            sinceDate: '2026-01-01T00:00:00',
+            untilDate: '2026-03-31T23:59:59',
+        });
+        expect(scopeToLogQuery({ since: '2026-01-01' })).toEqual({
+            range: undefined,
+            sinceDate: '2026-01-01T00:00:00',
+            untilDate: undefined,
+        });
+    });
+});
+
+describe('describeAnalysisScope', () => {
+    it('labels ranges, date ranges and open-ended dates', () => {
+        expect(describeAnalysisScope({ range: 'v2.0..v3.0' })).toBe('v2.0..v3.0');
+        expect(describeAnalysisScope({ since: '2026-01-01', until: '2026-03-31' })).toBe('2026-01-01 → 2026-03-31');
+        expect(describeAnalysisScope({ range: 'main', since: '2026-01-01' })).toBe('main · Since 2026-01-01');
+        expect(describeAnalysisScope({})).toBe('All history');
+    });
+
+    it('labels the rolling window', () => {
+        expect(describeHistoryWindow(0)).toBe('All history');
+        expect(describeHistoryWindow(90)).toBe('Last 90 days');
+    });
+});
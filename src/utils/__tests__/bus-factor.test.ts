@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { computeBusFactors, degreeOfAuthorship, fileAuthors, summarizeBusFactorRisk, truckFactor } from '../bus-factor';
+
+let day = 1;
+function commit(author: string, files: string[]): GitCommit {
+    return {
+        sha: `sha${day}`,
+        author: { name: author, email: `${author.toLowerCase()}@example.com` },
+        message: 'Change',
+        date: new Date(Date.UTC(2026, 0, day++)).toISOString(),
+        files,
+    };
+}
+
+const api = ['a', 'b', 'c', 'd', 'e'].map(name => `src/api/${name}.ts`);
+const web = ['a', 'b', 'c', 'd', 'e'].map(name => `src/web/${name}.tsx`);
+const commits = [
+    // Alice alone wrote the API
+    commit('Alice', api),
+    // Bob and Carol split the web app; Carol reworked Bob's e.tsx twice
+    commit('Bob', [web[0], web[1], web[4]]),
+    commit('Carol', [web[2], web[3]]),
+    commit('Carol', [web[4]]),
+    commit('Carol', [web[4]]),
+    // Bots author nothing, and a file only a bot changed is left out
+    commit('dependabot[bot]', [api[0], 'src/api/deps.json']),
+    // Deleted since
+    commit('Carol', ['src/old.ts']),
+];
+const files = [...api, ...web, 'src/api/deps.json'];
+
+describe('degreeOfAuthorship', () => {
+    it('rewards first authorship and own changes, and discounts changes by others', () => {
+        expect(degreeOfAuthorship(true, 1, 0)).toBeCloseTo(4.555);
+        expect(degreeOfAuthorship(false, 2, 1)).toBeCloseTo(3.398, 3);
+        expect(degreeOfAuthorship(false, 1, 1)).toBeLessThan(3.293);
+    });
+});
+
+describe('fileAuthors', () => {
+    it('counts people with a high enough degree of authorship', () => {
+        const { authors } = fileAuthors(commits, { files });
+
+        expect(Array.from(authors.get(web[4])!)).toEqual(['bob@example.com', 'carol@example.com']);
+        expect(Array.from(authors.get(api[0])!)).toEqual(['alice@example.com']);
+        expect(authors.has('src/api/deps.json')).toBe(false);
+        expect(authors.has('src/old.ts')).toBe(false);
+    });
+});
+
+describe('truckFactor', () => {
+    it('is zero without files and counts files nobody authors as orphaned', () => {
+        expect(truckFactor(new Map())).toEqual({ busFactor: 0, keyPeople: [], orphanedShare: 0 });
+        expect(truckFactor(new Map([['a', new Set<string>()], ['b', new Set(['x'])]]))).toEqual({
+            busFactor: 1,
+            keyPeople: ['x'],
+            orphanedShare: 1,
+        });
+        expect(truckFactor(new Map([['a', new Set<string>()], ['b', new Set<string>()], ['c', new Set(['x'])]])).busFactor).toBe(0);
+    });
+});
+
+describe('computeBusFactors', () => {
+    it('removes the broadest authors until more than half the files are orphaned', () => {
+        const report = computeBusFactors(commits, { files });
+
+        // Losing Alice orphans exactly half the files, which is not yet more than half
+        expect(report.repository).toEqual({
+            path: '.',
+            scope: 'repository',
+            files: 10,
+            busFactor: 2,
+            keyPeople: ['Alice', 'Bob'],
+            orphanedShare: 0.7,
+            authors: 3,
+        });
+    });
+
+    it('ranks modules and directories riskiest first', () => {
+        const report = computeBusFactors(commits, { files });
+
+        expect(report.scopes.map(scope => [scope.path, scope.scope, scope.busFactor, scope.keyPeople])).toEqual([
+            ['src/api', 'module', 1, ['Alice']],
+            ['src', 'directory', 2, ['Alice', 'Bob']],
+            ['src/web', 'module', 2, ['Bob', 'Carol']],
+        ]);
+    });
+
+    it('merges aliases through the resolver and skips small scopes', () => {
+        const report = computeBusFactors(commits, {
+            files,
+            resolveAuthor: author => (author.name === 'Carol' ? { name: 'Bob', email: 'bob@example.com' } : author),
+            minScopeFiles: 6,
+        });
+
+        expect(report.repository.authors).toBe(2);
+        expect(report.scopes.map(scope => scope.path)).toEqual(['src']);
+    });
+});
+
+describe('summarizeBusFactorRisk', () => {
+    it('names bus-factor-1 owners and scores risk from the measured truck factors', () => {
+        const summary = summarizeBusFactorRisk(computeBusFactors(commits, { files }));
+
+        // Repository bus factor 2 (40) plus half the module files in bus-factor-1 modules (+15)
+        expect(summary).toEqual({
+            singlePointsOfFailure: ['Alice (bus factor 1 in src/api)'],
+            riskScore: 55,
+        });
+    });
+
+    it('calls out a repository that hinges on one person', () => {
+        const summary = summarizeBusFactorRisk(computeBusFactors([commit('Alice', api)]));
+
+        expect(summary.singlePointsOfFailure).toEqual(['Alice (bus factor 1 for the whole repository)']);
+        expect(summary.riskScore).toBe(95);
+    });
+});
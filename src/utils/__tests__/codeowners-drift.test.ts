@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { createCodeownersMatcher, detectCodeownersDrift, ownerMatches, parseCodeowners } from '../codeowners-drift';
+
+const CODEOWNERS = [
+    '# Default owners',
+    '*            @alice-dev',
+    '/src/api/    @bob carol@example.com   # API team',
+    '/src/web/    @acme/frontend',
+    '/docs/',
+].join('\n');
+
+let day = 1;
+function commit(name: string, email: string, files: string[]): GitCommit {
+    return {
+        sha: `sha${day}`,
+        author: { name, email },
+        message: 'Change',
+        date: new Date(Date.UTC(2026, 0, day++)).toISOString(),
+        files,
+    };
+}
+
+const alice = '1234+alice-dev@users.noreply.github.com';
+const commits = [
+    commit('Alice', alice, ['src/core/a.ts', 'src/core/b.ts', 'README.md', 'docs/guide.md']),
+    commit('Dave', 'dave@example.com', ['src/api/x.ts', 'src/api/y.ts']),
+    commit('Carol', 'carol@example.com', ['src/api/x.ts']),
+    commit('Eve', 'eve@example.com', ['src/web/app.tsx']),
+    commit('dependabot[bot]', 'bot@dependabot.com', ['src/core/a.ts']),
+];
+
+describe('parseCodeowners', () => {
+    it('reads patterns and owners, skipping comments', () => {
+        expect(parseCodeowners(CODEOWNERS)).toEqual([
+            { line: 2, pattern: '*', owners: ['@alice-dev'] },
+            { line: 3, pattern: '/src/api/', owners: ['@bob', 'carol@example.com'] },
+            { line: 4, pattern: '/src/web/', owners: ['@acme/frontend'] },
+            { line: 5, pattern: '/docs/', owners: [] },
+        ]);
+        expect(parseCodeowners('\\#notes.md @alice')[0].pattern).toBe('#notes.md');
+    });
+});
+
+describe('createCodeownersMatcher', () => {
+    const PATHS = [
+        'README.md',
+        'app.js',
+        'docs/guide.md',
+        'docs/api/index.md',
+        'src/docs/notes.md',
+        'src/app.js',
+        'src/core/deep/engine.js',
+        'build/logs/out.txt',
+        'scripts/logs/run.txt',
+    ];
+    const matched = (pattern: string) => PATHS.filter(createCodeownersMatcher(pattern));
+
+    it('matches everything with a bare star and bare names at any depth', () => {
+        expect(matched('*')).toEqual(PATHS);
+        expect(matched('*.js')).toEqual(['app.js', 'src/app.js', 'src/core/deep/engine.js']);
+        expect(matched('docs')).toEqual(['docs/guide.md', 'docs/api/index.md', 'src/docs/notes.md']);
+    });
+
+    it('does not let a star cross a slash', () => {
+        expect(matched('docs/*')).toEqual(['docs/guide.md']);
+        expect(matched('/src/*.js')).toEqual(['src/app.js']);
+        expect(matched('src/*/engine.js')).toEqual([]);
+        expect(matched('src/**/engine.js')).toEqual(['src/core/deep/engine.js']);
+    });
+
+    it('matches the directory tree for a trailing slash, anchored only with a leading or inner slash', () => {
+        expect(matched('docs/')).toEqual(['docs/guide.md', 'docs/api/index.md', 'src/docs/notes.md']);
+        expect(matched('/docs/')).toEqual(['docs/guide.md', 'docs/api/index.md']);
+        expect(matched('src/core')).toEqual(['src/core/deep/engine.js']);
+        expect(matched('**/logs')).toEqual(['build/logs/out.txt', 'scripts/logs/run.txt']);
+        expect(matched('/')).toEqual([]);
+    });
+});
+
+describe('ownerMatches', () => {
+    it('matches by email, noreply login, email local part or name', () => {
+        expect(ownerMatches('@alice-dev', { email: alice, name: 'Alice Smith' })).toBe(true);
+        expect(ownerMatches('@bob', { email: 'bob@corp.example', name: 'Robert' })).toBe(true);
+        expect(ownerMatches('@janedoe', { email: 'jd@corp.example', name: 'Jane Doe' })).toBe(true);
+        expect(ownerMatches('Carol@Example.com', { email: 'carol@example.com', name: 'Carol' })).toBe(true);
+        expect(ownerMatches('@acme/frontend', { email: 'eve@example.com', name: 'Eve' })).toBe(false);
+    });
+});
+
+describe('detectCodeownersDrift', () => {
+    it('flags inactive owners, missing experts and unowned paths', () => {
+        const report = detectCodeownersDrift('.github/CODEOWNERS', CODEOWNERS, commits, { minShare: 0.2 });
+
+        expect(report).toMatchObject({ file: '.github/CODEOWNERS', rules: 4, checkedFiles: 7, unownedFiles: 1 });
+        expect(report.issues).toEqual([
+            {
+                kind: 'inactive-owner',
+                pattern: '/src/api/',
+                line: 3,
+                subject: '@bob',
+                files: 2,
+                message: '@bob owns /src/api/ but changed none of its 2 files in the analysed history',
+            },
+            {
+                kind: 'unlisted-expert',
+                pattern: '/src/api/',
+                line: 3,
+                subject: 'Dave',
+                files: 2,
+                message: 'Dave authors 2 of the 2 files under /src/api/ but is not an owner',
+            },
+            {
+                kind: 'unowned',
+                pattern: '/docs/',
+                files: 1,
+                message: '1 file under /docs/ has no owner',
+            },
+        ]);
+    });
+
+    it('treats files no rule matches as unowned and checks only files that still exist', () => {
+        const report = detectCodeownersDrift('CODEOWNERS', '/src/ @alice-dev', commits, {
+            minShare: 0.2,
+            files: ['src/core/a.ts', 'README.md', 'scripts/build.sh'],
+        });
+
+        expect(report.issues.map(issue => `${issue.kind} ${issue.pattern} ${issue.files}`)).toEqual([
+            'unowned / 1',
+            'unowned /scripts/ 1',
+        ]);
+    });
+});
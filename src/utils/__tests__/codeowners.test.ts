@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { DirectoryExpert, DirectoryOwnership } from '../../types/expert';
+import {
+    CODEOWNERS_BEGIN,
+    buildCodeownersRules,
+    codeownersHandle,
+    folderOwners,
+    formatCodeownersBlock,
+    mergeCodeowners,
+} from '../codeowners';
+import { guessGitHubUsername } from '../github-username';
+
+const alice: DirectoryExpert = { name: 'Alice', email: '1234+alice-dev@users.noreply.github.com', files: 0, commits: 0 };
+const bob: DirectoryExpert = { name: 'Bob', email: 'bob@example.com', files: 0, commits: 0 };
+const bot: DirectoryExpert = { name: 'Renovate', email: 'bot@renovateapp.com', files: 0, commits: 0 };
+
+function folder(path: string, files: number, owners: [DirectoryExpert, number][], children: DirectoryOwnership[] = []): DirectoryOwnership {
+    return {
+        path,
+        files,
+        topExperts: owners.map(([expert, count]) => ({ ...expert, files: count })),
+        busFactor: 1,
+        children,
+    };
+}
+
+const root = folder('.', 20, [[alice, 14], [bob, 6]], [
+    folder('src', 16, [[alice, 12], [bob, 4]], [
+        folder('src/core', 8, [[alice, 8]]),
+        folder('src/utils', 8, [[bob, 4], [alice, 4]]),
+    ]),
+    folder('docs', 4, [[bot, 3], [bob, 1]]),
+]);
+
+describe('codeownersHandle', () => {
+    it('uses the login from GitHub addresses and the email otherwise', () => {
+        expect(codeownersHandle(alice.email)).toBe('@alice-dev');
+        expect(codeownersHandle('carol@github.com')).toBe('@carol');
+        expect(codeownersHandle(bob.email)).toBe('bob@example.com');
+        // Avatars still guess from the local part
+        expect(guessGitHubUsername(bob.email, 'Bob')).toBe('bob');
+    });
+});
+
+describe('folderOwners', () => {
+    it('keeps authors above the share and tops up to the minimum owners', () => {
+        const utils = root.children[0].children[1];
+        expect(folderOwners(utils, { minShare: 0.6, minOwners: 1 }).map(owner => owner.name)).toEqual(['Bob']);
+        expect(folderOwners(utils, { minShare: 0.5, minOwners: 1 }).map(owner => owner.name)).toEqual(['Bob', 'Alice']);
+        expect(folderOwners(root.children[0], { minShare: 0.5, minOwners: 2 }).map(owner => owner.name)).toEqual(['Alice', 'Bob']);
+    });
+});
+
+describe('buildCodeownersRules', () => {
+    it('writes a rule only where the owners change, leaving out excluded identities', () => {
+        const rules = buildCodeownersRules(root, { minShare: 0.5, minOwners: 1, exclude: new Set([bot.email]) });
+
+        expect(rules).toEqual([
+            { pattern: '*', owners: ['@alice-dev'] },
+            { pattern: '/src/utils/', owners: ['bob@example.com', '@alice-dev'] },
+            { pattern: '/docs/', owners: ['bob@example.com'] },
+        ]);
+    });
+
+    it('scopes the rules to a workspace folder below the repository root', () => {
+        const nested = folder('.', 6, [[alice, 6]], [
+            folder('packages', 6, [[alice, 6]], [
+                folder('packages/web', 6, [[alice, 4], [bob, 2]], [
+                    folder('packages/web/src', 4, [[bob, 4]]),
+                ]),
+            ]),
+        ]);
+
+        expect(buildCodeownersRules(nested, { minShare: 0.5, minOwners: 1, folder: 'packages/web' })).toEqual([
+            { pattern: '/packages/web/', owners: ['@alice-dev'] },
+            { pattern: '/packages/web/src/', owners: ['bob@example.com'] },
+        ]);
+        // Deeper than the rollup goes: the deepest folder on the way stands in
+        expect(buildCodeownersRules(nested, { minShare: 0.5, minOwners: 1, folder: 'packages/web/src/app' })[0])
+            .toEqual({ pattern: '/packages/web/src/app/', owners: ['bob@example.com'] });
+    });
+
+    it('skips folders whose paths are not literal patterns', () => {
+        const odd = folder('.', 6, [[alice, 6]], [
+            folder('my docs', 2, [[bob, 2]], [folder('my docs/api', 2, [[bob, 2]])]),
+            folder('#notes', 2, [[bob, 2]]),
+            folder('[legacy]', 2, [[bob, 2]], [folder('[legacy]/core', 2, [[alice, 1], [bob, 1]])]),
+            folder('docs', 2, [[bob, 2]]),
+        ]);
+
+        expect(buildCodeownersRules(odd, { minShare: 1, minOwners: 1 })).toEqual([
+            { pattern: '*', owners: ['@alice-dev'] },
+            { pattern: '/docs/', owners: ['bob@example.com'] },
+        ]);
+    });
+});
+
+describe('mergeCodeowners', () => {
+    const block = formatCodeownersBlock([{ pattern: '*', owners: ['@alice-dev'] }], 'Proposed from the last 90 days.');
+
+    it('puts the block above hand-written rules so they keep precedence', () => {
+        expect(mergeCodeowners('', block)).toBe(block);
+        expect(mergeCodeowners('/infra/ @ops\n', block)).toBe(`${block}\n/infra/ @ops\n`);
+    });
+
+    it('replaces a previous block in place', () => {
+        const previous = `# Team rules\n${formatCodeownersBlock([{ pattern: '*', owners: ['@bob'] }], 'Old.')}/infra/ @ops\n`;
+        const merged = mergeCodeowners(previous, block);
+
+        expect(merged).toBe(`# Team rules\n${block}/infra/ @ops\n`);
+        expect(merged.split(CODEOWNERS_BEGIN)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { GitAuthor, GitCommit } from '../../types/expert';
+import { buildCollaborationData, domainOf } from '../collaboration-graph';
+
+let sequence = 0;
+function commit(author: string, files: string[], date: string, message = 'Fix the thing', coAuthors: GitAuthor[] = []): GitCommit {
+    return {
+        sha: `sha${sequence++}`,
+        author: { name: author, email: `${author.toLowerCase()}@example.com` },
+        message,
+        date,
+        files,
+        coAuthors,
+    };
+}
+
+const person = (name: string): GitAuthor => ({ name, email: `${name.toLowerCase()}@example.com` });
+
+describe('domainOf', () => {
+    it('uses the top-level directory, or the level below a container', () => {
+        expect(domainOf('README.md')).toBe('(root)');
+        expect(domainOf('docs/guide.md')).toBe('docs');
+        expect(domainOf('src/api/routes.ts')).toBe('src/api');
+        expect(domainOf('src/index.ts')).toBe('src');
+        expect(domainOf('packages/web/src/app.tsx')).toBe('packages/web');
+    });
+});
+
+describe('buildCollaborationData', () => {
+    const commits = [
+        // Alice and Bob both change routes.ts in January
+        commit('Alice', ['src/api/routes.ts', 'src/api/auth.ts'], '2026-01-05T10:00:00Z', 'Add the login route with rate limiting and audit logs'),
+        commit('Bob', ['src/api/routes.ts'], '2026-01-10T10:00:00Z', 'Tidy routes'),
+        // Carol changes routes.ts months later: not working together
+        commit('Carol', ['src/api/routes.ts', 'docs/api.md'], '2026-06-01T10:00:00Z', 'Document every route'),
+        // Dave pairs with Carol
+        commit('Dave', ['docs/api.md'], '2026-06-20T10:00:00Z', 'Fix typos in API docs', [person('Carol')]),
+        // Bots are not collaborators
+        commit('dependabot[bot]', ['src/api/routes.ts'], '2026-01-06T10:00:00Z', 'Bump express'),
+        commit('Bob', ['src/api/routes.ts'], '2026-01-07T10:00:00Z', 'Pair with a bot', [person('renovate[bot]')]),
+    ];
+
+    it('connects people who change the same file in the same window or co-author', () => {
+        const data = buildCollaborationData(commits);
+
+        expect(data.teamSize).toBe(4);
+        expect(data.collaborations).toEqual([
+            { a: 'Carol', b: 'Dave', sharedFiles: 1, coAuthoredCommits: 1, weight: 4 },
+            { a: 'Alice', b: 'Bob', sharedFiles: 1, coAuthoredCommits: 0, weight: 1 },
+        ]);
+    });
+
+    it('names co-authors who never committed by their trailer', () => {
+        const data = buildCollaborationData([
+            commit('Alice', ['src/a.ts'], '2026-01-05T10:00:00Z', 'Pair on a', [{ name: 'Erin Park', email: 'Erin@Example.com' }]),
+        ]);
+
+        expect(data.collaborations).toEqual([{ a: 'Alice', b: 'Erin Park', sharedFiles: 0, coAuthoredCommits: 1, weight: 3 }]);
+    });
+
+    it('measures commit message habits instead of assuming them', () => {
+        const patterns = buildCollaborationData(commits).communicationPatterns;
+
+        expect(patterns.find(p => p.author === 'Alice')).toEqual({ author: 'Alice', frequency: 1, style: 'technical', avgMessageLength: 53 });
+        expect(patterns.find(p => p.author === 'Bob')).toMatchObject({ frequency: 2, style: 'concise' });
+        expect(patterns.find(p => p.author === 'Dave')).toMatchObject({ style: 'collaborative' });
+    });
+
+    it('scores knowledge sharing and expertise distribution by area', () => {
+        const data = buildCollaborationData(commits);
+
+        // Alice touched two files, one of which Bob also changed that month
+        expect(data.knowledgeSharing.find(k => k.expert === 'Alice')).toEqual({ expert: 'Alice', knowledge: ['src/api'], sharingScore: 0.5 });
+        expect(data.expertiseDistribution).toEqual([
+            { domain: 'src/api', experts: ['Bob', 'Alice', 'Carol'], coverage: 0.75 },
+            { domain: 'docs', experts: ['Carol', 'Dave'], coverage: 0.5 },
+        ]);
+    });
+
+    it('merges aliases through the resolver', () => {
+        const data = buildCollaborationData(commits, {
+            resolveAuthor: author => (author.name === 'Bob' ? person('Alice') : author),
+        });
+        expect(data.teamSize).toBe(3);
+        expect(data.collaborations?.map(edge => `${edge.a}-${edge.b}`)).toEqual(['Carol-Dave']);
+    });
+});
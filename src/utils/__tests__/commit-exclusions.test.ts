@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import {
+    compileExclusionPattern,
+    describeCommitExclusions,
+    parseIgnoreRevs,
+    partitionCommits,
+    selectBlameIgnoreRevs,
+    type CommitExclusionRules,
+} from '../commit-exclusions';
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+const SHA_C = 'c'.repeat(40);
+const SHA_D = 'd'.repeat(40);
+const SHA_E = 'e'.repeat(40);
+
+function commit(sha: string, message: string, fileCount: number, parents: string[] = ['p'.repeat(40)]): GitCommit {
+    return {
+        sha,
+        author: { name: 'Jane Doe', email: 'jane@corp.com' },
+        message,
+        date: '2026-07-01T10:00:00+00:00',
+        files: Array.from({ length: fileCount }, (_, i) => `src/file${i}.ts`),
+        parents,
+    };
+}
+
+describe('parseIgnoreRevs', () => {
+    it('keeps full SHAs and skips comments, blanks and abbreviations', () => {
+        const revs = parseIgnoreRevs([
+            '# Prettier everywhere',
+            SHA_A.toUpperCase(),
+            '',
+            `${SHA_B} # eslint --fix`,
+            'abc1234',
+        ].join('\r\n'));
+
+        expect(Array.from(revs)).toEqual([SHA_A, SHA_B]);
+    });
+});
+
+describe('compileExclusionPattern', () => {
+    it('compiles case-insensitively and rejects blank or invalid patterns', () => {
+        expect(compileExclusionPattern('^style')?.test('Style: format')).toBe(true);
+        expect(compileExclusionPattern('  ')).toBeUndefined();
+        expect(compileExclusionPattern('(unclosed')).toBeUndefined();
+    });
+});
+
+describe('partitionCommits', () => {
+    const rules: CommitExclusionRules = {
+        ignoreRevs: new Set([SHA_A]),
+        messagePattern: /^chore\(format\)/i,
+        maxFilesPerCommit: 100,
+        excludeMerges: true,
+    };
+
+    it('drops commits by the first rule they trip and counts each reason', () => {
+        const { scored, excluded, summary } = partitionCommits([
+            commit(SHA_A, 'Run prettier on everything', 400),
+            commit(SHA_B, 'Merge pull request #12 from org/feature', 0, ['1'.repeat(40), '2'.repeat(40)]),
+            commit(SHA_C, 'Rename packages', 101),
+            commit(SHA_D, 'chore(format): sort imports', 3),
+            commit(SHA_E, 'Fix cache eviction', 2),
+        ], rules);
+
+        expect(scored.map(c => c.sha)).toEqual([SHA_E]);
+        expect(excluded).toHaveLength(4);
+        expect(summary).toEqual({
+            excluded: 4,
+            byReason: { 'ignore-revs': 1, merge: 1, 'mass-change': 1, message: 1 },
+            maxFilesPerCommit: 100,
+            messagePattern: '^chore\\(format\\)',
+        });
+    });
+
+    it('keeps merges and large commits when those rules are off', () => {
+        const { scored } = partitionCommits([
+            commit(SHA_B, 'Merge branch main', 0, ['1'.repeat(40), '2'.repeat(40)]),
+            commit(SHA_C, 'Rename packages', 500),
+        ], { ignoreRevs: new Set(), maxFilesPerCommit: 0, excludeMerges: false });
+
+        expect(scored).toHaveLength(2);
+    });
+});
+
+describe('selectBlameIgnoreRevs', () => {
+    it('lists rule-excluded non-merge commits largest first, leaving the ignore file to git', () => {
+        const excluded = [
+            commit(SHA_A, 'Run prettier on everything', 400),
+            commit(SHA_B, 'Merge branch main', 0, ['1'.repeat(40), '2'.repeat(40)]),
+            commit(SHA_D, 'chore(format): sort imports', 3),
+            commit(SHA_C, 'Rename packages', 101),
+        ];
+
+        expect(selectBlameIgnoreRevs(excluded, { ignoreRevs: new Set([SHA_A]), excludeMerges: true })).toEqual([SHA_C, SHA_D]);
+    });
+});
+
+describe('describeCommitExclusions', () => {
+    it('says how many commits were excluded and why', () => {
+        expect(describeCommitExclusions({
+            excluded: 12,
+            byReason: { 'ignore-revs': 3, 'mass-change': 9 },
+            maxFilesPerCommit: 100,
+        })).toBe('12 commits excluded from expertise: 3 in .git-blame-ignore-revs, 9 touching over 100 files');
+        expect(describeCommitExclusions({ excluded: 1, byReason: { merge: 1 } }))
+            .toBe('1 commit excluded from expertise: 1 merge commit');
+        expect(describeCommitExclusions({ excluded: 0, byReason: {} })).toBeUndefined();
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { mergeOwnershipWithCommits } from '../git-blame';
+import {
+    DEFAULT_SCORING_WEIGHTS,
+    contributorSignals,
+    explainScore,
+    fileExpertSignals,
+    normalizeScoringWeights,
+    rankByExpertise,
+    scoreExpertise,
+} from '../expertise-score';
+
+describe('scoreExpertise', () => {
+    it('weights each factor against the top candidate', () => {
+        const scores = scoreExpertise(new Map([
+            ['alice', { commits: 10, survivingLines: 100 }],
+            ['bob', { commits: 5, survivingLines: 0 }],
+        ]), { commits: 1, linesChanged: 0, recency: 0, survivingLines: 1, reviews: 0 });
+
+        expect(scores.get('alice')!.score).toBe(100);
+        expect(scores.get('bob')).toEqual({
+            score: 25,
+            components: [
+                { factor: 'commits', value: 5, relative: 0.5, weight: 0.5, points: 25 },
+                { factor: 'survivingLines', value: 0, relative: 0, weight: 0.5, points: 0 },
+            ],
+        });
+    });
+
+    it('leaves out factors nobody has, so a missing signal neither helps nor hurts', () => {
+        const scores = scoreExpertise(new Map([
+            ['alice', { commits: 4, linesChanged: undefined, reviews: 0 }],
+            ['bob', { commits: 2 }],
+        ]));
+        expect(scores.get('alice')!.components.map(c => c.factor)).toEqual(['commits']);
+        expect(scores.get('alice')!.components[0].weight).toBe(1);
+        expect(scores.get('bob')!.score).toBe(50);
+    });
+
+    it('falls back to the default weights when every measured factor is weighted 0', () => {
+        const scores = scoreExpertise(new Map([['alice', { commits: 3 }]]), { ...DEFAULT_SCORING_WEIGHTS, commits: 0 });
+        expect(scores.get('alice')!.score).toBe(100);
+    });
+});
+
+describe('rankByExpertise', () => {
+    it('orders by score, then recency, then the incoming order', () => {
+        const ranked = rankByExpertise([
+            { name: 'Carol', expertise: 60, recencyScore: 100 },
+            { name: 'Dave', expertise: 85 },
+            { name: 'Alice', expertise: 85, recencyScore: 40 },
+            { name: 'Bob', expertise: 60, recencyScore: 100 },
+        ]);
+        expect(ranked.map(expert => expert.name)).toEqual(['Alice', 'Dave', 'Carol', 'Bob']);
+    });
+});
+
+describe('normalizeScoringWeights', () => {
+    it('keeps valid entries and defaults the rest', () => {
+        expect(normalizeScoringWeights({ commits: 2, reviews: -1, recency: 'high' })).toEqual({
+            ...DEFAULT_SCORING_WEIGHTS,
+            commits: 2,
+        });
+        expect(normalizeScoringWeights(undefined)).toEqual(DEFAULT_SCORING_WEIGHTS);
+    });
+});
+
+describe('signals', () => {
+    it('reads contributor totals', () => {
+        expect(contributorSignals({
+            commits: 7,
+            additions: 30,
+            deletions: 12,
+            recencyScore: 80,
+            reviews: { reviewed: 2, acked: 1, tested: 0, signedOff: 5, reviewedCommits: 3 },
+        })).toEqual({ commits: 7, linesChanged: 42, recency: 80, reviews: 3 });
+        expect(contributorSignals({ commits: 1 })).toEqual({ commits: 1, linesChanged: undefined, recency: undefined, reviews: undefined });
+    });
+
+    it('reads file authors, their reviews and blame', () => {
+        const commits: GitCommit[] = [
+            {
+                sha: '1', author: { name: 'Alice', email: 'alice@test.com' }, message: 'a', date: '2026-07-01T00:00:00Z', files: ['a.ts'],
+                reviewedBy: [{ name: 'Bob', email: 'bob@test.com' }],
+            },
+            { sha: '2', author: { name: 'Bob', email: 'bob@test.com' }, message: 'b', date: '2026-07-02T00:00:00Z', files: ['a.ts'] },
+        ];
+        const authors = mergeOwnershipWithCommits(commits, {
+            filePath: 'a.ts',
+            totalLines: 10,
+            owners: [{ name: 'Alice', email: 'alice@test.com', lines: 10, share: 1, lastCommitDate: '2026-07-01T00:00:00.000Z' }],
+        });
+
+        const signals = fileExpertSignals(authors, commits, { hasOwnership: true, decay: false });
+
+        expect(signals.get('alice@test.com')).toEqual({ commits: 1, linesChanged: undefined, recency: undefined, survivingLines: 10, reviews: 0 });
+        expect(signals.get('bob@test.com')).toMatchObject({ commits: 1, survivingLines: 0, reviews: 1 });
+    });
+});
+
+describe('explainScore', () => {
+    it('lists the factors that earned points, strongest first', () => {
+        const scores = scoreExpertise(new Map([
+            ['alice', { commits: 12, survivingLines: 420, recency: 3 }],
+            ['bob', { commits: 24, survivingLines: 100, recency: 4 }],
+        ]));
+        expect(explainScore(scores.get('alice')!)).toBe('surviving lines 420 (+33) · recent work (+25) · commits 12 (+17)');
+        expect(explainScore({ score: 0, components: [] })).toBe('no measured activity');
+    });
+});
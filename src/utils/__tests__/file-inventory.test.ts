@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { buildLsFilesArgs, createFileMatcher, filterCommitFiles, filterFileInventory, parseLsFiles } from '../file-inventory';
+
+const TRACKED = [
+    'README.md',
+    'Dockerfile',
+    '.github/workflows/ci.yml',
+    'infra/main.tf',
+    'db/migrations/001_init.sql',
+    'src/app.ts',
+    'src/app.test.ts',
+    'package-lock.json',
+    'web/dist/bundle.js',
+    'web/static/app.min.js',
+    'vendor/lib/lib.go',
+    'api/service.pb.go',
+    'docs/logo.png',
+];
+
+describe('git ls-files', () => {
+    it('lists everything or one literal directory, NUL-separated', () => {
+        expect(buildLsFilesArgs()).toEqual(['ls-files', '-z']);
+        expect(buildLsFilesArgs('packages/[web]')).toEqual(['ls-files', '-z', '--', ':(literal)packages/[web]']);
+        expect(parseLsFiles('a.ts\0dir/with space.md\0"quoted".txt\0')).toEqual(['a.ts', 'dir/with space.md', '"quoted".txt']);
+    });
+});
+
+describe('filterFileInventory', () => {
+    it('keeps docs, config and infrastructure while dropping generated and vendored files', () => {
+        expect(filterFileInventory(TRACKED, { include: [], exclude: [], excludeGenerated: true })).toEqual([
+            'README.md',
+            'Dockerfile',
+            '.github/workflows/ci.yml',
+            'infra/main.tf',
+            'db/migrations/001_init.sql',
+            'src/app.ts',
+            'src/app.test.ts',
+        ]);
+    });
+
+    it('applies include and exclude globs', () => {
+        expect(filterFileInventory(TRACKED, {
+            include: ['src/', '*.{tf,sql}'],
+            exclude: ['**/*.test.ts'],
+            excludeGenerated: true,
+        })).toEqual(['infra/main.tf', 'db/migrations/001_init.sql', 'src/app.ts']);
+    });
+
+    it('keeps generated files when the built-in list is off', () => {
+        expect(filterFileInventory(TRACKED, { include: [], exclude: [], excludeGenerated: false })).toEqual(TRACKED);
+    });
+});
+
+describe('filterCommitFiles', () => {
+    it('narrows each commit to the files that count and keeps untouched commits as they are', () => {
+        const commit = (sha: string, files: string[]): GitCommit =>
+            ({ sha, author: { name: 'Alice', email: 'alice@test.com' }, message: 'change', date: '2026-07-01T10:00:00Z', files });
+        const bump = commit('a', ['package.json', 'package-lock.json']);
+        const fix = commit('b', ['src/app.ts']);
+
+        const filtered = filterCommitFiles([bump, fix], { include: [], exclude: [], excludeGenerated: true });
+
+        expect(filtered[0].files).toEqual(['package.json']);
+        expect(bump.files).toEqual(['package.json', 'package-lock.json']);
+        expect(filtered[1]).toBe(fix);
+    });
+});
+
+describe('createFileMatcher', () => {
+    const matches = (globs: string[], file: string) =>
+        !createFileMatcher({ include: [], exclude: globs, excludeGenerated: false })(file);
+
+    it('follows .gitignore conventions', () => {
+        // No slash: any depth, file or directory name
+        expect(matches(['generated'], 'a/generated/x.ts')).toBe(true);
+        expect(matches(['*.snap'], 'a/b/c.snap')).toBe(true);
+        // Leading or inner slash: anchored at the root
+        expect(matches(['/build'], 'build/x.js')).toBe(true);
+        expect(matches(['/build'], 'tools/build/x.js')).toBe(false);
+        expect(matches(['docs/api'], 'docs/api/index.md')).toBe(true);
+        expect(matches(['docs/api'], 'site/docs/api/index.md')).toBe(false);
+        // Trailing slash: directories only
+        expect(matches(['out/'], 'out')).toBe(false);
+        expect(matches(['out/'], 'src/out/x.ts')).toBe(true);
+        // ** spans directories, * and ? stay within one
+        expect(matches(['src/**/fixtures'], 'src/fixtures/a.json')).toBe(true);
+        expect(matches(['src/*.ts'], 'src/deep/a.ts')).toBe(false);
+        expect(matches(['v?.json'], 'v1.json')).toBe(true);
+    });
+
+    it('ignores blank globs and comments', () => {
+        expect(matches(['', '   ', '# dist/'], 'dist/a.js')).toBe(false);
+    });
+});
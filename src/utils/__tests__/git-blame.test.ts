@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+    UNCOMMITTED_SHA,
+    buildBlameArgs,
+    fileRecencyScores,
+    mergeOwnershipWithCommits,
+    ownershipFromBlameLines,
+    parseBlameLines,
+    parseBlamePorcelain
+} from '../git-blame';
+import type { GitCommit } from '../../types/expert';
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+
+function commitHeader(sha: string, line: number, name: string, email: string, time: number, group?: number): string[] {
+    return [
+        group === undefined ? `${sha} ${line} ${line}` : `${sha} ${line} ${line} ${group}`,
+        `author ${name}`,
+        `author-mail <${email}>`,
+        `author-time ${time}`,
+        'author-tz +0000',
+        `committer ${name}`,
+        `committer-mail <${email}>`,
+        `committer-time ${time}`,
+        'committer-tz +0000',
+        'summary change',
+        'filename src/a.ts',
+    ];
+}
+
+function makeCommit(name: string, email: string, date: string): GitCommit {
+    return { sha: date, author: { name, email }, message: 'change', date, files: ['src/a.ts'] };
+}
+
+describe('buildBlameArgs', () => {
+    it('blames HEAD ignoring whitespace and separates the path', () => {
+        expect(buildBlameArgs('-weird.ts')).toEqual(['blame', '--porcelain', '-w', 'HEAD', '--', '-weird.ts']);
+    });
+
+    it('passes ignore lists before the revision', () => {
+        expect(buildBlameArgs('a.ts', { ignoreRevsFile: '/repo/.git-blame-ignore-revs', ignoreRevs: [SHA_A] })).toEqual([
+            'blame', '--porcelain', '-w',
+            '--ignore-revs-file', '/repo/.git-blame-ignore-revs',
+            '--ignore-rev', SHA_A,
+            'HEAD', '--', 'a.ts',
+        ]);
+    });
+
+    it('limits blame to a line range', () => {
+        expect(buildBlameArgs('a.ts', {}, { start: 10, end: 24 })).toEqual(['blame', '--porcelain', '-w', '-L', '10,24', 'HEAD', '--', 'a.ts']);
+    });
+
+    it('blames the file on disk for the working tree', () => {
+        expect(buildBlameArgs('a.ts', {}, undefined, true)).toEqual(['blame', '--porcelain', '-w', '--', 'a.ts']);
+    });
+});
+
+describe('parseBlamePorcelain', () => {
+    it('counts lines per author using metadata cached from the first header', () => {
+        const output = [
+            ...commitHeader(SHA_A, 1, 'Alice', 'Alice@Test.com', 1_750_000_000, 2),
+            '\tconst a = 1;',
+            `${SHA_A} 2 2`,
+            '\tconst b = 2;',
+            ...commitHeader(SHA_B, 3, 'Bob', 'bob@test.com', 1_760_000_000, 1),
+            '\tauthor fake-header-in-content',
+        ].join('\n');
+
+        const ownership = parseBlamePorcelain(output, 'src/a.ts');
+
+        expect(ownership.totalLines).toBe(3);
+        expect(ownership.owners).toHaveLength(2);
+        expect(ownership.owners[0]).toMatchObject({ name: 'Alice', email: 'Alice@Test.com', lines: 2 });
+        expect(ownership.owners[0].share).toBeCloseTo(2 / 3);
+        expect(ownership.owners[1]).toMatchObject({ name: 'Bob', lines: 1 });
+        expect(ownership.owners[1].lastCommitDate).toBe(new Date(1_760_000_000 * 1000).toISOString());
+        expect(ownership.owners[0].linesByTime).toEqual([{ time: 1_750_000_000, lines: 2 }]);
+    });
+
+    it('returns an empty ownership for empty output', () => {
+        expect(parseBlamePorcelain('', 'src/empty.ts')).toEqual({ filePath: 'src/empty.ts', totalLines: 0, owners: [] });
+    });
+});
+
+describe('parseBlameLines', () => {
+    it('returns every line with its commit metadata, including uncommitted lines', () => {
+        const output = [
+            ...commitHeader(SHA_A, 1, 'Alice', 'alice@test.com', 1_750_000_000, 1),
+            '\tconst a = 1;',
+            ...commitHeader(UNCOMMITTED_SHA, 2, 'Not Committed Yet', 'not.committed.yet', 1_760_000_000, 1),
+            '\tconst b = 2;',
+            `${SHA_A} 2 3 1`,
+            '\tsummary fake-header-in-content',
+        ].join('\n');
+
+        expect(parseBlameLines(output)).toEqual([
+            { line: 1, sha: SHA_A, name: 'Alice', email: 'alice@test.com', time: 1_750_000_000, summary: 'change' },
+            { line: 2, sha: UNCOMMITTED_SHA, name: 'Not Committed Yet', email: 'not.committed.yet', time: 1_760_000_000, summary: 'change' },
+            { line: 3, sha: SHA_A, name: 'Alice', email: 'alice@test.com', time: 1_750_000_000, summary: 'change' },
+        ]);
+    });
+});
+
+describe('ownershipFromBlameLines', () => {
+    it('counts committed lines per author and leaves uncommitted lines out', () => {
+        const line = (number: number, sha: string, name: string, email: string, time: number) =>
+            ({ line: number, sha, name, email, time, summary: 'change' });
+        const ownership = ownershipFromBlameLines('src/a.ts', [
+            line(1, SHA_A, 'Alice', 'alice@test.com', 1_750_000_000),
+            line(2, SHA_B, 'Bob', 'bob@test.com', 1_700_000_000),
+            line(3, SHA_A, 'Alice', 'ALICE@test.com', 1_750_000_000),
+            line(4, UNCOMMITTED_SHA, 'Not Committed Yet', 'not.committed.yet', 1_760_000_000),
+        ]);
+
+        expect(ownership.totalLines).toBe(3);
+        expect(ownership.owners.map(owner => [owner.name, owner.lines, owner.linesByTime])).toEqual([
+            ['Alice', 2, [{ time: 1_750_000_000, lines: 2 }]],
+            ['Bob', 1, [{ time: 1_700_000_000, lines: 1 }]],
+        ]);
+    });
+});
+
+describe('mergeOwnershipWithCommits', () => {
+    const commits = [
+        makeCommit('Alice', 'alice@test.com', '2026-07-01T10:00:00Z'),
+        makeCommit('Alice', 'alice@test.com', '2026-07-02T10:00:00Z'),
+        makeCommit('Alice', 'alice@test.com', '2026-07-03T10:00:00Z'),
+        makeCommit('Bob', 'bob@test.com', '2026-06-01T10:00:00Z'),
+    ];
+
+    it('ranks by commits when ownership is unavailable', () => {
+        const merged = mergeOwnershipWithCommits(commits, null);
+        expect(merged.map(a => a.name)).toEqual(['Alice', 'Bob']);
+        expect(merged[0]).toMatchObject({ commits: 3, lastDate: '2026-07-03T10:00:00Z', survivingLines: 0 });
+    });
+
+    it('ranks surviving lines above commit counts and keeps blame-only authors', () => {
+        const merged = mergeOwnershipWithCommits(commits, {
+            filePath: 'src/a.ts',
+            totalLines: 100,
+            owners: [
+                { name: 'Bob', email: 'BOB@test.com', lines: 80, share: 0.8, lastCommitDate: '2026-06-01T10:00:00.000Z' },
+                { name: 'Carol', email: 'carol@test.com', lines: 15, share: 0.15, lastCommitDate: '2025-01-01T00:00:00.000Z' },
+                { name: 'Alice', email: 'alice@test.com', lines: 5, share: 0.05, lastCommitDate: '2026-07-03T10:00:00.000Z' },
+            ],
+        });
+
+        expect(merged.map(a => a.name)).toEqual(['Bob', 'Carol', 'Alice']);
+        expect(merged[0]).toMatchObject({ commits: 1, survivingLines: 80, lineShare: 0.8 });
+        expect(merged[1]).toMatchObject({ commits: 0, survivingLines: 15 });
+    });
+
+    it('ranks by decayed lines with a half-life, so recent owners lead', () => {
+        const now = Date.parse('2026-07-04T00:00:00Z');
+        const ownership = {
+            filePath: 'src/a.ts',
+            totalLines: 100,
+            owners: [
+                // Carol wrote most of the file two years ago
+                { name: 'Carol', email: 'carol@test.com', lines: 70, share: 0.7, lastCommitDate: '2024-07-04T00:00:00.000Z' },
+                { name: 'Alice', email: 'alice@test.com', lines: 30, share: 0.3, lastCommitDate: '2026-07-03T10:00:00.000Z' },
+            ],
+        };
+
+        const merged = mergeOwnershipWithCommits(commits, ownership, { halfLifeDays: 180, now });
+
+        expect(merged.map(a => a.name)).toEqual(['Alice', 'Carol', 'Bob']);
+        expect(merged[1].decayedLines).toBeLessThan(70 / 4);
+        expect(fileRecencyScores(merged, true).get('alice@test.com')).toBe(100);
+        expect(mergeOwnershipWithCommits(commits, ownership).map(a => a.name)).toEqual(['Carol', 'Alice', 'Bob']);
+    });
+
+    it('merges aliases in commits and blame owners through the resolver', () => {
+        const resolveAuthor = (author: { name: string; email: string }) =>
+            author.email === 'alice@home.example' ? { name: 'Alice', email: 'alice@test.com' } : author;
+        const merged = mergeOwnershipWithCommits([...commits, makeCommit('ally', 'alice@home.example', '2026-07-04T10:00:00Z')], {
+            filePath: 'src/a.ts',
+            totalLines: 100,
+            owners: [
+                { name: 'Bob', email: 'bob@test.com', lines: 50, share: 0.5, lastCommitDate: '2026-06-01T10:00:00.000Z' },
+                { name: 'Alice', email: 'alice@test.com', lines: 30, share: 0.3, lastCommitDate: '2026-07-03T10:00:00.000Z' },
+                { name: 'ally', email: 'alice@home.example', lines: 20, share: 0.2, lastCommitDate: '2026-07-04T10:00:00.000Z' },
+            ],
+        }, { halfLifeDays: 0, resolveAuthor });
+
+        expect(merged.map(a => a.name)).toEqual(['Alice', 'Bob']);
+        expect(merged[0]).toMatchObject({ email: 'alice@test.com', commits: 4, survivingLines: 50, lineShare: 0.5, lastDate: '2026-07-04T10:00:00Z' });
+    });
+});
@@ -1,11 +1,20 @@
 import { describe, it, expect } from 'vitest';
 import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
     COMMIT_LOG_FORMAT,
+    COMMIT_LOG_FORMAT_WITH_FILES,
+    NUMSTAT_LOG_ARGS,
     parseCoAuthorValue,
     parseCommitLog,
     parseCommitLogWithFiles,
+    parseCommitLogWithNumstat,
+    parseDiffNumstat,
+    parseReviewTrailers,
     COMMIT_BLOCK_SENTINEL,
+    createRecordSplitter,
 } from '../git-log-format';
 
 const NUL = '\x00';
@@ -74,6 +83,24 @@ describe('parseCommitLog', () => {
         expect(commits[0].checkpointId).toBeUndefined();
     });
 
+    it('parses review trailers from the ninth field', () => {
+        const output = record([
+            'd'.repeat(40),
+            'Alice',
+            'alice@test.com',
+            '2026-07-01T10:00:00+00:00',
+            'mm: fix reclaim',
+            '',
+            '',
+            '',
+            'Reviewed-by: Bob <Bob@Test.com>;Signed-off-by: Alice <alice@test.com>;Signed-off-by: Maint <maint@test.com>',
+        ]);
+        const [commit] = parseCommitLog(output);
+        expect(commit.reviewedBy).toEqual([{ name: 'Bob', email: 'bob@test.com' }]);
+        expect(commit.signedOffBy?.map(s => s.email)).toEqual(['alice@test.com', 'maint@test.com']);
+        expect(commit.ackedBy).toBeUndefined();
+    });
+
     it('parses multiple newline-separated records', () => {
         const output =
             record(['a'.repeat(40), 'A', 'a@t.com', '2026-07-01T10:00:00+00:00', 'one', '', '', '']) +
@@ -83,6 +110,16 @@ describe('parseCommitLog', () => {
     });
 });
 
+describe('parseReviewTrailers', () => {
+    it('matches keys case-insensitively and skips malformed entries', () => {
+        expect(parseReviewTrailers('acked-by: Ann <ann@t.com>;Tested-by: no email;TESTED-BY: Tim <tim@t.com>;garbage')).toEqual({
+            ackedBy: [{ name: 'Ann', email: 'ann@t.com' }],
+            testedBy: [{ name: 'Tim', email: 'tim@t.com' }],
+        });
+        expect(parseReviewTrailers('')).toEqual({});
+    });
+});
+
 describe('parseCommitLogWithFiles', () => {
     it('associates file lists with their commit', () => {
         const fields = ['c'.repeat(40), 'A', 'a@t.com', '2026-07-01T10:00:00+00:00', 'touch files', '', '', ''].join(NUL);
@@ -93,6 +130,86 @@ describe('parseCommitLogWithFiles', () => {
     });
 });
 
+describe('parseCommitLogWithNumstat', () => {
+    const meta = (sha: string, subject: string) =>
+        [sha, 'A', 'a@t.com', '2026-07-01T10:00:00+00:00', subject, '', '', ''].join(NUL);
+
+    it('sums line counts and collects files per commit', () => {
+        const output =
+            `${RS}${meta('a'.repeat(40), 'feat')}\n10\t2\tsrc/a.ts${NUL}3\t0\tsrc/b.ts${NUL}${NUL}` +
+            `${RS}${meta('b'.repeat(40), 'merge')}${NUL}` +
+            `${RS}${meta('c'.repeat(40), 'logo')}\n-\t-\tassets/logo.png${NUL}1\t1\tREADME.md${NUL}`;
+        const commits = parseCommitLogWithNumstat(output);
+
+        expect(commits).toHaveLength(3);
+        expect(commits[0]).toMatchObject({ additions: 13, deletions: 2, files: ['src/a.ts', 'src/b.ts'] });
+        expect(commits[1]).toMatchObject({ additions: 0, deletions: 0, files: [] });
+        expect(commits[2]).toMatchObject({ additions: 1, deletions: 1, files: ['assets/logo.png', 'README.md'] });
+    });
+
+    it('reads the committer date and parent SHAs after the review trailers', () => {
+        const merge = [meta('d'.repeat(40), 'Merge pull request #7 from a/b'), '', '2026-07-01T11:00:00+00:00', `${'e'.repeat(40)} ${'f'.repeat(40)}`].join(NUL);
+        const [commit] = parseCommitLogWithNumstat(`${RS}${merge}${NUL}`);
+
+        expect(commit.committedDate).toBe('2026-07-01T11:00:00+00:00');
+        expect(commit.parents).toEqual(['e'.repeat(40), 'f'.repeat(40)]);
+        expect(parseCommitLogWithNumstat(`${RS}${meta('a'.repeat(40), 'root')}\n1\t0\ta.ts${NUL}`)[0].parents).toEqual([]);
+    });
+
+    it('resolves renames to their destination and keeps paths unquoted', () => {
+        const output = `${RS}${meta('a'.repeat(40), 'move')}\n` +
+            `1\t0\t${NUL}src/old/a.ts${NUL}src/new/a.ts${NUL}2\t1\tsrc/\u00e9 notes.ts${NUL}`;
+
+        expect(parseCommitLogWithNumstat(output)[0]).toMatchObject({
+            additions: 3,
+            deletions: 1,
+            files: ['src/new/a.ts', 'src/\u00e9 notes.ts'],
+        });
+    });
+});
+
+describe('parseDiffNumstat', () => {
+    it('sums added and deleted lines per path, counting binary files as 0', () => {
+        expect(parseDiffNumstat('12\t3\tsrc/a.ts\0-\t-\tlogo.png\x001\t1\t\0src/old/b.ts\0src/new/b.ts\0')).toEqual([
+            { path: 'src/a.ts', lines: 15 },
+            { path: 'logo.png', lines: 0 },
+            { path: 'src/new/b.ts', lines: 2 },
+        ]);
+    });
+
+    it('keeps paths git would quote without -z', () => {
+        expect(parseDiffNumstat('2\t0\tdocs/caf\u00e9 notes.md\x004\t1\tsrc/tab\there.ts\0')).toEqual([
+            { path: 'docs/caf\u00e9 notes.md', lines: 2 },
+            { path: 'src/tab\there.ts', lines: 5 },
+        ]);
+        expect(parseDiffNumstat('')).toEqual([]);
+    });
+});
+
+describe('createRecordSplitter', () => {
+    it('emits records split across arbitrary chunk boundaries', () => {
+        const records: string[] = [];
+        const splitter = createRecordSplitter(record => records.push(record));
+        const output = `${RS}first\n1\t0\ta.ts\n${RS}second\n${RS}third`;
+
+        for (let i = 0; i < output.length; i += 3) {
+            splitter.push(output.slice(i, i + 3));
+        }
+        expect(records).toEqual(['first\n1\t0\ta.ts\n', 'second\n']);
+
+        splitter.flush();
+        expect(records).toEqual(['first\n1\t0\ta.ts\n', 'second\n', 'third']);
+    });
+
+    it('drops empty records and leading newlines for trailing-separator formats', () => {
+        const records: string[] = [];
+        const splitter = createRecordSplitter(record => records.push(record));
+        splitter.push(`one${RS}\ntwo${RS}`);
+        splitter.flush();
+        expect(records).toEqual(['one', 'two']);
+    });
+});
+
 describe('integration with real git', () => {
     it('round-trips through an actual git log invocation', () => {
         let output: string;
@@ -112,4 +229,61 @@ describe('integration with real git', () => {
             expect(commit.date).toMatch(/^\d{4}-\d{2}-\d{2}T/);
         }
     });
+
+    it('round-trips a numstat log', () => {
+        let output: string;
+        try {
+            output = execFileSync('git', [...NUMSTAT_LOG_ARGS, '-n', '5'], {
+                encoding: 'utf8',
+                timeout: 10_000,
+            });
+        } catch {
+            return;
+        }
+        const commits = parseCommitLogWithNumstat(output);
+        expect(commits.length).toBeGreaterThan(0);
+        for (const commit of commits) {
+            expect(commit.sha).toMatch(/^[0-9a-f]{40}$/);
+            expect(commit.committedDate).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+            for (const parent of commit.parents ?? []) {
+                expect(parent).toMatch(/^[0-9a-f]{40}$/);
+            }
+            expect(commit.additions).toBeGreaterThanOrEqual(0);
+            expect(commit.deletions).toBeGreaterThanOrEqual(0);
+        }
+    });
+
+    it('reads non-ASCII paths from a numstat log as-is', () => {
+        const repo = mkdtempSync(path.join(os.tmpdir(), 'teamxray-numstat-'));
+        try {
+            const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8', timeout: 10_000 });
+            git('init', '-q');
+            writeFileSync(path.join(repo, '\u00e9.ts'), 'one\ntwo\n');
+            git('add', '.');
+            git('-c', 'user.name=A', '-c', 'user.email=a@t.com', 'commit', '-q', '-m', 'Add');
+
+            const [commit] = parseCommitLogWithNumstat(git('-c', 'core.quotePath=true', ...NUMSTAT_LOG_ARGS));
+            expect(commit).toMatchObject({ files: ['\u00e9.ts'], additions: 2 });
+        } finally {
+            rmSync(repo, { recursive: true, force: true });
+        }
+    });
+
+    it('round-trips a line-range log without patches', () => {
+        let output: string;
+        try {
+            output = execFileSync('git', ['log', '-L1,3:package.json', '-s', `--pretty=format:${COMMIT_LOG_FORMAT_WITH_FILES}`, '-n', '5'], {
+                encoding: 'utf8',
+                timeout: 10_000,
+            });
+        } catch {
+            return;
+        }
+        const commits = parseCommitLogWithFiles(output);
+        expect(commits.length).toBeGreaterThan(0);
+        for (const commit of commits) {
+            expect(commit.sha).toMatch(/^[0-9a-f]{40}$/);
+            expect(commit.files).toEqual([]);
+        }
+    });
 });
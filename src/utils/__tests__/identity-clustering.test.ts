@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import {
+    appendMailmapEntries,
+    buildIdentityResolver,
+    clusterIdentities,
+    formatMailmapEntries,
+} from '../identity-clustering';
+
+let sequence = 0;
+function commitsBy(name: string, email: string, count = 1): GitCommit[] {
+    return Array.from({ length: count }, () => ({
+        sha: `sha${sequence++}`,
+        author: { name, email },
+        message: 'change',
+        date: '2026-07-01T10:00:00+00:00',
+        files: [],
+    }));
+}
+
+describe('clusterIdentities', () => {
+    it('links the same name, handles that spell it, and GitHub noreply logins', () => {
+        const clusters = clusterIdentities([
+            ...commitsBy('Jane Doe', 'jane@corp.com', 5),
+            ...commitsBy('jane doe', 'jane.doe@gmail.com', 2),
+            ...commitsBy('jdoe', 'jdoe@users.noreply.github.com', 1),
+            ...commitsBy('Bob Stone', 'bob@corp.com', 3),
+        ]);
+
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].canonical).toEqual({ name: 'Jane Doe', email: 'jane@corp.com' });
+        expect(clusters[0].aliases).toEqual([
+            { name: 'jane doe', email: 'jane.doe@gmail.com' },
+            { name: 'jdoe', email: 'jdoe@users.noreply.github.com' },
+        ]);
+        expect(clusters[0].reasons).toEqual(expect.arrayContaining(['same name', 'handle matches initial and surname']));
+        expect(clusters[0].commits).toBe(8);
+    });
+
+    it('keeps ambiguous initials, generic names and bots apart', () => {
+        const clusters = clusterIdentities([
+            ...commitsBy('Jane Doe', 'jane@corp.com'),
+            ...commitsBy('John Doe', 'john@corp.com'),
+            ...commitsBy('jdoe', 'jdoe@example.com'),
+            ...commitsBy('root', 'root@build-1'),
+            ...commitsBy('root', 'root@build-2'),
+            ...commitsBy('dependabot[bot]', '49699333+dependabot[bot]@users.noreply.github.com'),
+            ...commitsBy('Dependabot', 'support@github.com'),
+        ]);
+
+        expect(clusters).toEqual([]);
+    });
+
+    it('links a shared name only when the emails back it up', () => {
+        const clusters = clusterIdentities([
+            ...commitsBy('John Smith', 'js1984@mail.example', 2),
+            ...commitsBy('John Smith', 'k.w@other.example'),
+            ...commitsBy('Ann Lee', 'ann.lee@corp.com'),
+            ...commitsBy('Ann Lee', 'al@corp.com'),
+        ]);
+
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].aliases).toEqual([{ name: 'Ann Lee', email: 'al@corp.com' }]);
+        expect(clusters[0].reasons).toEqual(['same name']);
+    });
+
+    it('resolves aliases to the canonical identity', () => {
+        const clusters = clusterIdentities([
+            ...commitsBy('Jane Doe', 'jane@corp.com', 2),
+            ...commitsBy('Jane', 'jane@corp.com'),
+        ]);
+        const resolve = buildIdentityResolver(clusters);
+
+        expect(resolve({ name: 'Jane', email: 'JANE@corp.com' })).toEqual({ name: 'Jane Doe', email: 'jane@corp.com' });
+        expect(resolve({ name: 'Bob', email: 'bob@corp.com' })).toEqual({ name: 'Bob', email: 'bob@corp.com' });
+    });
+});
+
+describe('.mailmap entries', () => {
+    const clusters = clusterIdentities([
+        ...commitsBy('Jane Doe', 'jane@corp.com', 2),
+        ...commitsBy('jdoe', 'jdoe@users.noreply.github.com'),
+    ]);
+
+    it('maps each alias with the full proper/commit form', () => {
+        expect(formatMailmapEntries(clusters)).toEqual([
+            'Jane Doe <jane@corp.com> jdoe <jdoe@users.noreply.github.com>',
+        ]);
+    });
+
+    it('appends only new lines and terminates the file with a newline', () => {
+        const entries = formatMailmapEntries(clusters);
+        const existing = '# Team identities\nBob Stone <bob@corp.com> bob <bob@home>';
+
+        expect(appendMailmapEntries(existing, entries)).toBe(`${existing}\n${entries[0]}\n`);
+        expect(appendMailmapEntries(`${entries[0]}\n`, entries)).toBe(`${entries[0]}\n`);
+        expect(appendMailmapEntries('', entries)).toBe(`${entries[0]}\n`);
+    });
+});
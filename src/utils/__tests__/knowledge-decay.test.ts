@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { decayWeight, decayedCommitCounts, decayedLines, relativeScores } from '../knowledge-decay';
+
+const NOW = Date.parse('2026-07-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+function commit(name: string, date: string): GitCommit {
+    return { sha: date, author: { name, email: `${name.toLowerCase()}@example.com` }, message: 'change', date, files: [] };
+}
+
+describe('decayWeight', () => {
+    it('halves every half-life', () => {
+        const options = { halfLifeDays: 90, now: NOW };
+        expect(decayWeight(daysAgo(0), options)).toBe(1);
+        expect(decayWeight(daysAgo(90), options)).toBeCloseTo(0.5);
+        expect(decayWeight(daysAgo(180), options)).toBeCloseTo(0.25);
+    });
+
+    it('counts everything in full when decay is off, and nothing it cannot date', () => {
+        expect(decayWeight(daysAgo(1000), { halfLifeDays: 0, now: NOW })).toBe(1);
+        expect(decayWeight('not a date', { halfLifeDays: 90, now: NOW })).toBe(0);
+        expect(decayWeight(NOW + DAY_MS, { halfLifeDays: 90, now: NOW })).toBe(1);
+    });
+});
+
+describe('decayedLines', () => {
+    const owner = { name: 'Alice', email: 'alice@example.com', lines: 30, share: 1, lastCommitDate: daysAgo(0) };
+
+    it('weights each line by when it was written', () => {
+        const linesByTime = [{ time: NOW / 1000, lines: 10 }, { time: (NOW - 90 * DAY_MS) / 1000, lines: 20 }];
+        expect(decayedLines({ ...owner, linesByTime }, { halfLifeDays: 90, now: NOW })).toBeCloseTo(20);
+    });
+
+    it('falls back to the newest line date', () => {
+        expect(decayedLines({ ...owner, lastCommitDate: daysAgo(90) }, { halfLifeDays: 90, now: NOW })).toBeCloseTo(15);
+    });
+});
+
+describe('recency scores', () => {
+    // Carol committed a lot two years ago; Alice a little, recently
+    const commits = [
+        ...Array.from({ length: 20 }, () => commit('Carol', daysAgo(730))),
+        commit('Alice', daysAgo(10)),
+        commit('Alice', daysAgo(30)),
+        commit('Bob', daysAgo(200)),
+    ];
+
+    it('ranks people who still know the code first', () => {
+        const scores = relativeScores(decayedCommitCounts(commits, { halfLifeDays: 180, now: NOW }));
+        expect(scores.get('alice@example.com')).toBe(100);
+        // Twenty two-year-old commits are worth less than two from this month
+        expect(scores.get('carol@example.com')).toBeLessThan(100);
+    });
+
+    it('credits the resolved identity', () => {
+        const counts = decayedCommitCounts(commits, {
+            halfLifeDays: 0,
+            resolveAuthor: author => (author.name === 'Bob' ? { name: 'Alice', email: 'alice@example.com' } : author),
+        });
+        expect(counts.get('alice@example.com')).toBe(3);
+        expect(counts.has('bob@example.com')).toBe(false);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { GitAuthor, GitCommit } from '../../types/expert';
+import { UNCOMMITTED_SHA, type BlameLine } from '../git-blame';
+import { buildLineOwnership, describeLineAuthorship, lineAgeBucket } from '../line-ownership';
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+const SHA_D = 'd'.repeat(40);
+const now = Date.parse('2026-10-01T00:00:00Z');
+const daysAgo = (days: number) => Math.floor((now - days * 24 * 60 * 60 * 1000) / 1000);
+
+function blameLine(line: number, sha: string, name: string, email: string, time: number): BlameLine {
+    return { line, sha, name, email, time, summary: 'blame subject' };
+}
+
+const blame = [
+    blameLine(1, SHA_A, 'Alice', 'alice@example.com', daysAgo(10)),
+    blameLine(2, SHA_A, 'Alice', 'alice@example.com', daysAgo(10)),
+    blameLine(3, SHA_B, 'Bob', 'bob@example.com', daysAgo(400)),
+    blameLine(4, SHA_D, 'Alice Smith', 'alice@old.example', daysAgo(90)),
+    blameLine(5, UNCOMMITTED_SHA, 'Not Committed Yet', 'not.committed.yet', daysAgo(0)),
+];
+const commits: GitCommit[] = [
+    {
+        sha: SHA_A,
+        author: { name: 'Alice', email: 'alice@example.com' },
+        message: 'Add parser',
+        date: '2026-09-21T00:00:00Z',
+        files: [],
+        coAuthors: [{ name: 'Claude', email: 'noreply@anthropic.com' }],
+    },
+    { sha: SHA_B, author: { name: 'Bob', email: 'bob@example.com' }, message: 'Initial import', date: '2025-08-27T00:00:00Z', files: [] },
+];
+const resolveAuthor = (author: GitAuthor) => author.email === 'alice@old.example' ? { name: 'Alice', email: 'alice@example.com' } : author;
+
+describe('buildLineOwnership', () => {
+    it('ranks authors by surviving lines and marks agent-assisted and uncommitted lines', () => {
+        const ownership = buildLineOwnership('src/parser.ts', blame, commits, { resolveAuthor });
+
+        expect(ownership.experts).toBe(2);
+        expect(ownership.lines.map(line => [line.line, line.name, line.rank, line.agentAssisted, line.uncommitted])).toEqual([
+            [1, 'Alice', 1, true, false],
+            [2, 'Alice', 1, true, false],
+            [3, 'Bob', 2, false, false],
+            [4, 'Alice', 1, false, false],
+            [5, 'Not Committed Yet', 0, false, true],
+        ]);
+        expect(ownership.lines[0]).toMatchObject({ summary: 'Add parser', agents: ['Claude Code'], contributorKind: 'human' });
+        expect(ownership.lines[3].summary).toBe('blame subject');
+    });
+
+    it('ranks authors in the given order', () => {
+        const ownership = buildLineOwnership('src/parser.ts', blame, commits, { resolveAuthor, ranking: ['bob@example.com', 'alice@example.com'] });
+
+        expect(ownership.lines.slice(0, 4).map(line => [line.name, line.rank])).toEqual([
+            ['Alice', 2],
+            ['Alice', 2],
+            ['Bob', 1],
+            ['Alice', 2],
+        ]);
+    });
+});
+
+describe('lineAgeBucket', () => {
+    it('buckets lines by age', () => {
+        const { lines } = buildLineOwnership('src/parser.ts', blame, commits);
+
+        expect(lines.slice(0, 4).map(line => lineAgeBucket(line, now))).toEqual([0, 0, 3, 1]);
+    });
+});
+
+describe('describeLineAuthorship', () => {
+    it('names the author, kind, rank, commit and agents', () => {
+        const { lines, experts } = buildLineOwnership('src/parser.ts', blame, commits, { resolveAuthor });
+
+        expect(describeLineAuthorship(lines[0], experts, now)).toEqual([
+            'Alice · Human · #1 of 2 experts in this file',
+            `Add parser (aaaaaaa, ${new Date(daysAgo(10) * 1000).toISOString().slice(0, 10)}, 10 days ago)`,
+            'Agent-assisted: Claude Code',
+        ]);
+        expect(describeLineAuthorship(lines[4], experts, now)).toEqual(['Not committed yet']);
+    });
+});
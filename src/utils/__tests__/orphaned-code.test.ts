@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { DEFAULT_ORPHANED_INACTIVE_DAYS, describeOrphanedFile, detectOrphanedCode } from '../orphaned-code';
+
+const now = Date.parse('2026-10-01T00:00:00Z');
+
+function commit(sha: string, name: string, email: string, date: string, files: string[]): GitCommit {
+    return { sha, author: { name, email }, message: 'Change', date: `${date}T12:00:00Z`, files };
+}
+
+const commits = [
+    commit('a1', 'Alice', 'alice@example.com', '2025-01-05', ['src/legacy.ts', 'src/shared.ts']),
+    commit('r1', 'renovate[bot]', 'bot@renovateapp.com', '2026-08-01', ['package-lock.json']),
+    commit('b1', 'Bob', 'bob@example.com', '2026-09-20', ['src/shared.ts', 'src/new.ts']),
+    commit('b2', 'Bob', 'bob@example.com', '2026-09-21', ['src/shared.ts']),
+    commit('d1', 'dependabot[bot]', '49699333+dependabot[bot]@users.noreply.github.com', '2026-09-25', ['package-lock.json']),
+];
+
+describe('detectOrphanedCode', () => {
+    it('reports files whose experts are all inactive and files only automation changed', () => {
+        const report = detectOrphanedCode(commits, { inactiveDays: 180, now });
+
+        expect(report).toMatchObject({ inactiveDays: 180, checkedFiles: 4, orphanedFiles: 2 });
+        expect(report.files).toEqual([
+            {
+                filePath: 'src/legacy.ts',
+                reason: 'inactive-experts',
+                experts: ['Alice'],
+                lastKnownBy: 'Alice',
+                lastActive: '2025-01-05T12:00:00.000Z',
+            },
+            {
+                filePath: 'package-lock.json',
+                reason: 'automation-only',
+                experts: [],
+                lastKnownBy: 'dependabot[bot]',
+                lastActive: '2026-09-25T12:00:00.000Z',
+            },
+        ]);
+    });
+
+    it('counts activity anywhere in the repository from the contributors list', () => {
+        const report = detectOrphanedCode(commits, {
+            inactiveDays: 180,
+            now,
+            contributors: [{ name: 'Alice', email: 'Alice@example.com', lastCommit: '2026-09-01T00:00:00Z' }],
+        });
+
+        expect(report.files.map(file => file.filePath)).toEqual(['package-lock.json']);
+    });
+
+    it('checks only files that still exist', () => {
+        const report = detectOrphanedCode(commits, { inactiveDays: 180, now, files: ['src/shared.ts', 'src/new.ts'] });
+
+        expect(report).toMatchObject({ checkedFiles: 2, orphanedFiles: 0, files: [] });
+    });
+
+    it('finds stale files with the default settings once given the full history', () => {
+        const history = [
+            ...commits,
+            commit('c1', 'Carol', 'carol@example.com', '2026-02-01', ['src/report.ts']),
+            commit('a0', 'Alice', 'alice@example.com', '2024-11-01', ['package-lock.json']),
+        ];
+        // The default 90-day teamxray.historyWindowDays
+        const windowStart = now - 90 * 24 * 60 * 60 * 1000;
+        const windowed = history.filter(entry => Date.parse(entry.date) >= windowStart);
+        const files = ['src/legacy.ts', 'src/shared.ts', 'src/new.ts', 'src/report.ts', 'package-lock.json'];
+
+        const inWindow = detectOrphanedCode(windowed, { inactiveDays: DEFAULT_ORPHANED_INACTIVE_DAYS, now, files });
+        expect(inWindow.files.filter(file => file.reason === 'inactive-experts')).toEqual([]);
+
+        const report = detectOrphanedCode(history, { inactiveDays: DEFAULT_ORPHANED_INACTIVE_DAYS, now, files });
+        expect(report).toMatchObject({ checkedFiles: 5, orphanedFiles: 3 });
+        expect(report.files.map(file => [file.filePath, file.reason, file.lastKnownBy])).toEqual([
+            ['package-lock.json', 'inactive-experts', 'Alice'],
+            ['src/legacy.ts', 'inactive-experts', 'Alice'],
+            ['src/report.ts', 'inactive-experts', 'Carol'],
+        ]);
+    });
+});
+
+describe('describeOrphanedFile', () => {
+    it('says who last knew the file and when', () => {
+        const [legacy, lockfile] = detectOrphanedCode(commits, { inactiveDays: 180, now }).files;
+
+        expect(describeOrphanedFile(legacy, now)).toBe(
+            'Nobody active knows src/legacy.ts. Alice knew it most recently and last committed on 2025-01-05 (633 days ago).'
+        );
+        expect(describeOrphanedFile(lockfile, now)).toBe(
+            'No human has changed package-lock.json in the analysed history. dependabot[bot] last changed it on 2026-09-25 (5 days ago).'
+        );
+        expect(describeOrphanedFile({ ...legacy, experts: ['Alice', 'Carol'] }, now)).toContain('Other experts: Carol.');
+    });
+});
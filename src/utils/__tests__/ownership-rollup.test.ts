@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { buildOwnershipRollup, findOwningDirectory } from '../ownership-rollup';
+
+let day = 1;
+function commit(author: string, files: string[]): GitCommit {
+    return {
+        sha: `sha${day}`,
+        author: { name: author, email: `${author.toLowerCase()}@example.com` },
+        message: 'Change',
+        date: new Date(Date.UTC(2026, 0, day++)).toISOString(),
+        files,
+    };
+}
+
+const commits = [
+    commit('Alice', ['src/core/analyzer.ts', 'src/core/store.ts']),
+    commit('Bob', ['src/utils/git.ts', 'src/utils/format.ts']),
+    commit('Alice', ['src/core/analyzer.ts', 'src/utils/git.ts']),
+    commit('Carol', ['README.md']),
+    commit('renovate[bot]', ['src/core/store.ts']),
+];
+
+describe('buildOwnershipRollup', () => {
+    it('rolls owners, bus factor and last activity up the folder tree', () => {
+        const root = buildOwnershipRollup(commits);
+
+        expect(root.path).toBe('.');
+        expect(root.files).toBe(5);
+        expect(root.lastActivity).toBe('2026-01-04T00:00:00.000Z');
+        expect(root.children.map(child => child.path)).toEqual(['src']);
+
+        const [core, utils] = root.children[0].children;
+        expect(core).toEqual({
+            path: 'src/core',
+            files: 2,
+            topExperts: [{ name: 'Alice', email: 'alice@example.com', files: 2, commits: 2 }],
+            busFactor: 1,
+            lastActivity: '2026-01-03T00:00:00.000Z',
+            children: [],
+        });
+        // Alice's later change to git.ts does not make her its author
+        expect(utils.topExperts).toEqual([
+            { name: 'Bob', email: 'bob@example.com', files: 2, commits: 1 },
+        ]);
+    });
+
+    it('folds folders below the depth limit into their ancestor', () => {
+        const root = buildOwnershipRollup([commit('Alice', ['a/b/c/d.ts', 'a/b/e.ts'])], { maxDepth: 2 });
+
+        expect(root.children[0].children[0]).toMatchObject({ path: 'a/b', files: 2, children: [] });
+    });
+
+    it('ignores files that no longer exist', () => {
+        const root = buildOwnershipRollup(commits, { files: ['src/core/analyzer.ts', 'README.md'] });
+
+        expect(root.files).toBe(2);
+        expect(root.children[0].children.map(child => child.path)).toEqual(['src/core']);
+    });
+});
+
+describe('findOwningDirectory', () => {
+    it('finds the deepest folder in the rollup that holds a file', () => {
+        const root = buildOwnershipRollup(commits);
+
+        expect(findOwningDirectory(root, 'src/utils/git.ts')?.path).toBe('src/utils');
+        expect(findOwningDirectory(root, 'src/new/thing.ts')?.path).toBe('src');
+        expect(findOwningDirectory(root, 'README.md')?.path).toBe('.');
+    });
+});
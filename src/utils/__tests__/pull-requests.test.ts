@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { measuredMergeReviewPercentage, reconstructPullRequests, summarizePullRequests } from '../pull-requests';
+
+function commit(sha: string, author: string, hour: number, message: string, parents: string[], additions = 0): GitCommit {
+    return {
+        sha,
+        author: { name: author, email: `${author.toLowerCase()}@example.com` },
+        message,
+        date: `2026-01-05T${String(hour).padStart(2, '0')}:00:00Z`,
+        files: [],
+        additions,
+        deletions: 0,
+        parents,
+    };
+}
+
+// main:  R - A1 ------- M1 - S - M3      (M1 merges PR #1, S squashes PR #2, M3 merges PR #3)
+// bob:         \- F1 - F2 /         /
+// carol:        \- G1 -------- G2 /     (G2 merges main back into the topic branch)
+const history: GitCommit[] = [
+    commit('m3', 'Carol', 9, 'Merge pull request #3 from carol/topic', ['s', 'g2']),
+    commit('g2', 'Carol', 7, "Merge branch 'main' into topic", ['g1', 'm1']),
+    commit('s', 'Dave', 6, 'Fix login redirect (#2)', ['m1'], 4),
+    commit('m1', 'Alice', 5, 'Merge pull request #1 from bob/feature', ['a1', 'f2']),
+    commit('g1', 'Carol', 4, 'Start topic', ['a1'], 7),
+    commit('f2', 'Bob', 3, 'Finish feature', ['f1'], 5),
+    commit('f1', 'Bob', 2, 'Start feature', ['a1'], 10),
+    commit('a1', 'Alice', 1, 'Initial layout', ['r']),
+    commit('r', 'Alice', 0, 'Root', []),
+];
+
+describe('reconstructPullRequests', () => {
+    it('groups branch commits under merge commits and recognizes squash merges', () => {
+        const pullRequests = reconstructPullRequests(history);
+
+        expect(pullRequests.map(pr => pr.number)).toEqual([3, 2, 1]);
+        expect(pullRequests[2]).toMatchObject({
+            kind: 'merge',
+            sourceBranch: 'bob/feature',
+            merger: { name: 'Alice' },
+            author: { name: 'Bob' },
+            commits: ['f2', 'f1'],
+            firstCommitAt: '2026-01-05T02:00:00Z',
+            additions: 15,
+        });
+        expect(pullRequests[1]).toMatchObject({ kind: 'squash', title: 'Fix login redirect', author: { name: 'Dave' }, commits: ['s'] });
+    });
+
+    it('stops at the mainline and does not re-claim commits from earlier PRs', () => {
+        const pr3 = reconstructPullRequests(history).find(pr => pr.number === 3)!;
+
+        expect(pr3.commits).toEqual(['g2', 'g1']);
+        expect(pr3.author.name).toBe('Carol');
+    });
+
+    it('still lists merges from subjects when the log carried no topology', () => {
+        const flat = history.map(({ parents: _parents, ...rest }) => rest);
+        const pullRequests = reconstructPullRequests(flat);
+
+        expect(pullRequests.map(pr => pr.number)).toEqual([3, 2, 1]);
+        expect(pullRequests.every(pr => pr.kind === 'squash' || pr.commits.length === 0)).toBe(true);
+    });
+});
+
+describe('summarizePullRequests', () => {
+    it('measures merge frequency, time to merge and who merged', () => {
+        const summary = summarizePullRequests(reconstructPullRequests(history));
+
+        expect(summary).toEqual({
+            total: 3,
+            merges: 2,
+            squashes: 1,
+            attributedMerges: 2,
+            mergedByOthers: 1,
+            medianHoursToMerge: 4,
+            perWeek: 3,
+        });
+        expect(measuredMergeReviewPercentage(summary)).toBe(50);
+    });
+
+    it('reports nothing measured when no merge commit has known commits', () => {
+        const flat = history.map(({ parents: _parents, ...rest }) => rest);
+        const summary = summarizePullRequests(reconstructPullRequests(flat));
+
+        expect(summary.attributedMerges).toBe(0);
+        expect(summary.medianHoursToMerge).toBeUndefined();
+        expect(measuredMergeReviewPercentage(summary)).toBeNull();
+    });
+});
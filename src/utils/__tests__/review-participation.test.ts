@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+    collectReviewActivity,
+    isReviewedCommit,
+    mapTrailerIdentities,
+    measuredReviewPercentage,
+    summarizeReviewParticipation,
+    trailerIdentities,
+} from '../review-participation';
+import type { GitAuthor, GitCommit } from '../../types/expert';
+
+const alice = { name: 'Alice', email: 'alice@test.com' };
+const bob = { name: 'Bob', email: 'bob@test.com' };
+const carol = { name: 'Carol', email: 'carol@test.com' };
+const bot = { name: 'dependabot[bot]', email: 'bot@test.com' };
+
+let nextSha = 0;
+
+function makeCommit(author: typeof alice, trailers: Partial<GitCommit> = {}): GitCommit {
+    return { sha: String(nextSha++), author, message: 'change', date: '2026-07-01T10:00:00Z', files: [], ...trailers };
+}
+
+describe('isReviewedCommit', () => {
+    it('ignores the author reviewing or signing off their own commit', () => {
+        expect(isReviewedCommit(makeCommit(alice, { reviewedBy: [{ ...alice, email: 'ALICE@test.com' }] }))).toBe(false);
+        expect(isReviewedCommit(makeCommit(alice, { signedOffBy: [bob] }))).toBe(false);
+        expect(isReviewedCommit(makeCommit(alice, { testedBy: [bob] }))).toBe(true);
+    });
+
+    it('recognises the author reviewing under another address through the resolver', () => {
+        const aliceWork = { name: 'Alice', email: 'alice@work.example' };
+        const resolve = (author: GitAuthor) => author.email === aliceWork.email ? alice : author;
+        const commit = makeCommit(alice, { reviewedBy: [aliceWork] });
+
+        expect(isReviewedCommit(commit)).toBe(true);
+        expect(isReviewedCommit(commit, resolve)).toBe(false);
+        expect(collectReviewActivity([commit], resolve).size).toBe(0);
+        expect(summarizeReviewParticipation([commit], new Set(), resolve).reviewedCommits).toBe(0);
+    });
+});
+
+describe('collectReviewActivity', () => {
+    it('credits reviewers and counts reviewed commits for authors', () => {
+        const activity = collectReviewActivity([
+            makeCommit(alice, { reviewedBy: [bob], signedOffBy: [alice, carol] }),
+            makeCommit(alice, { ackedBy: [bob, bob] }),
+            makeCommit(bob, { reviewedBy: [alice] }),
+        ]);
+
+        expect(activity.get('bob@test.com')).toEqual({ reviewed: 1, acked: 1, tested: 0, signedOff: 0, reviewedCommits: 1 });
+        expect(activity.get('alice@test.com')).toMatchObject({ reviewed: 1, signedOff: 0, reviewedCommits: 2 });
+        expect(activity.get('carol@test.com')).toMatchObject({ signedOff: 1, reviewedCommits: 0 });
+    });
+});
+
+describe('summarizeReviewParticipation', () => {
+    it('measures the reviewed share and excludes automation bots', () => {
+        const summary = summarizeReviewParticipation([
+            makeCommit(alice, { reviewedBy: [bob] }),
+            makeCommit(alice),
+            makeCommit(bob, { ackedBy: [carol] }),
+            makeCommit(bob),
+            makeCommit(bot),
+        ], new Set(['bot@test.com']));
+
+        expect(summary).toEqual({ totalCommits: 4, reviewedCommits: 2, participation: 0.5, reviewers: 2 });
+        expect(measuredReviewPercentage(summary)).toBe(50);
+    });
+
+    it('reports nothing measurable when the history has only sign-offs', () => {
+        const summary = summarizeReviewParticipation([makeCommit(alice, { signedOffBy: [alice] })]);
+        expect(measuredReviewPercentage(summary)).toBeNull();
+        expect(measuredReviewPercentage(undefined)).toBeNull();
+    });
+});
+
+describe('mapTrailerIdentities', () => {
+    it('rewrites every trailer identity and leaves commits without trailers alone', () => {
+        const old = { name: 'Bob', email: 'bob@old.example' };
+        const plain = makeCommit(alice);
+        const commits = [makeCommit(alice, { reviewedBy: [old], coAuthors: [old, carol] }), plain];
+
+        expect(trailerIdentities(commits)).toEqual([old, carol]);
+        const mapped = mapTrailerIdentities(commits, identity => identity.email === old.email ? bob : identity);
+        expect(mapped[0].reviewedBy).toEqual([bob]);
+        expect(mapped[0].coAuthors).toEqual([bob, carol]);
+        expect(mapped[1]).toBe(plain);
+    });
+});
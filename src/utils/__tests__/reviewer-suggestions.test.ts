@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { GitAuthor } from '../../types/expert';
+import { formatReviewerHandles, suggestReviewers } from '../reviewer-suggestions';
+
+const alice = { name: 'Alice', email: '1234+alice-dev@users.noreply.github.com' };
+const aliceAlias = { name: 'Alice Smith', email: 'alice@old.example' };
+const bob = { name: 'Bob', email: 'bob@example.com' };
+const me = { name: 'Me', email: 'me@example.com' };
+const resolveAuthor = (author: GitAuthor) => author.email === aliceAlias.email ? alice : author;
+
+const changes = [
+    { path: 'src/api.ts', lines: 80 },
+    { path: 'src/util.ts', lines: 20 },
+];
+const fileExperts = [
+    {
+        path: 'src/api.ts',
+        experts: [
+            { ...me, score: 100 },
+            { ...alice, score: 90 },
+            { ...bob, score: 30 },
+            { name: 'dependabot[bot]', email: '49699333+dependabot[bot]@users.noreply.github.com', score: 50 },
+        ],
+    },
+    {
+        path: 'src/util.ts',
+        experts: [
+            { ...bob, score: 100 },
+            { ...aliceAlias, score: 40 },
+            { ...alice, score: 20 },
+        ],
+    },
+];
+
+describe('suggestReviewers', () => {
+    it('weights file expertise by share of changed lines, leaving out the author and bots', () => {
+        const reviewers = suggestReviewers(changes, fileExperts, {
+            author: { name: 'Me', email: 'ME@example.com' },
+            resolveAuthor,
+        });
+
+        expect(reviewers).toEqual([
+            {
+                name: 'Alice',
+                email: alice.email,
+                handle: '@alice-dev',
+                score: 80,
+                files: 2,
+                reasons: ['src/api.ts: 90% expertise, 80% of the change', 'src/util.ts: 40% expertise, 20% of the change'],
+            },
+            {
+                name: 'Bob',
+                email: bob.email,
+                handle: 'bob@example.com',
+                score: 44,
+                files: 2,
+                reasons: ['src/api.ts: 30% expertise, 80% of the change', 'src/util.ts: 100% expertise, 20% of the change'],
+            },
+        ]);
+        expect(formatReviewerHandles(reviewers)).toBe('@alice-dev bob@example.com');
+        expect(suggestReviewers(changes, fileExperts, { author: me, limit: 1 }).map(reviewer => reviewer.name)).toEqual(['Alice']);
+    });
+
+    it('counts binary files as one line and summarises long file lists', () => {
+        const binaries = ['a.png', 'b.png', 'c.png', 'd.png', 'e.png'].map(path => ({ path, lines: 0 }));
+        const [carol] = suggestReviewers(
+            binaries,
+            binaries.map(({ path }) => ({ path, experts: [{ name: 'Carol', email: 'carol@example.com', score: 50 }] }))
+        );
+
+        expect(carol.score).toBe(50);
+        expect(carol.reasons).toEqual([
+            'a.png: 50% expertise, 20% of the change',
+            'b.png: 50% expertise, 20% of the change',
+            'c.png: 50% expertise, 20% of the change',
+            '+2 more files',
+        ]);
+    });
+});
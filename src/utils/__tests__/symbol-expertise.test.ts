@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { Expert } from '../../types/expert';
+import { flattenSymbols, formatSymbolLens } from '../symbol-expertise';
+
+const CLASS = 4;
+const METHOD = 5;
+const PROPERTY = 6;
+const FUNCTION = 11;
+
+function expert(name: string, expertise: number, contributions: number, extra: Partial<Expert> = {}): Expert {
+    return {
+        name,
+        email: `${name.toLowerCase()}@example.com`,
+        expertise,
+        contributions,
+        lastCommit: new Date('2026-09-01T00:00:00Z'),
+        specializations: [],
+        communicationStyle: '',
+        teamRole: '',
+        hiddenStrengths: [],
+        idealChallenges: [],
+        ...extra,
+    };
+}
+
+describe('flattenSymbols', () => {
+    it('finds symbols of the given kinds at any depth, parents first', () => {
+        const outline = [
+            {
+                name: 'Parser',
+                kind: CLASS,
+                children: [
+                    { name: 'options', kind: PROPERTY },
+                    { name: 'parse', kind: METHOD, children: [{ name: 'helper', kind: FUNCTION }] },
+                ],
+            },
+            { name: 'main', kind: FUNCTION },
+        ];
+
+        expect(flattenSymbols(outline, new Set([CLASS, METHOD, FUNCTION])).map(symbol => symbol.name))
+            .toEqual(['Parser', 'parse', 'helper', 'main']);
+    });
+});
+
+describe('formatSymbolLens', () => {
+    it('names the strongest human expert', () => {
+        expect(formatSymbolLens([
+            expert('Bob', 40, 3),
+            expert('Ana', 85, 12),
+            expert('dependabot[bot]', 95, 20, { isBot: true }),
+        ])).toBe('Top expert: Ana · 12 commits');
+    });
+
+    it('falls back to bots, then to surviving lines, and to nothing', () => {
+        expect(formatSymbolLens([expert('renovate[bot]', 50, 1, { isBot: true })])).toBe('Top expert: renovate[bot] · 1 commit');
+        expect(formatSymbolLens([expert('Ana', 30, 0, { survivingLines: 14 })])).toBe('Top expert: Ana · 14 lines');
+        expect(formatSymbolLens([])).toBeUndefined();
+    });
+});
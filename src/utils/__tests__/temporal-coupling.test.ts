@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { GitCommit } from '../../types/expert';
+import { computeTemporalCoupling, couplingForFile } from '../temporal-coupling';
+
+let sequence = 0;
+function commit(files: string[], author = 'Alice'): GitCommit {
+    return {
+        sha: `sha${sequence++}`,
+        author: { name: author, email: `${author.toLowerCase()}@example.com` },
+        message: 'change',
+        date: '2026-07-01T10:00:00+00:00',
+        files,
+    };
+}
+
+describe('computeTemporalCoupling', () => {
+    const commits = [
+        // api.ts and schema.sql change together 4 times, by Alice and Bob
+        commit(['src/api.ts', 'db/schema.sql']),
+        commit(['src/api.ts', 'db/schema.sql']),
+        commit(['src/api.ts', 'db/schema.sql', 'src/api.test.ts'], 'Bob'),
+        commit(['src/api.ts', 'db/schema.sql']),
+        // api.ts also changes alone twice, schema.sql never does
+        commit(['src/api.ts']),
+        commit(['src/api.ts']),
+        // A sweep touching everything is not evidence of coupling
+        commit(Array.from({ length: 40 }, (_, i) => (i === 0 ? 'src/api.ts' : `src/file${i}.ts`))),
+    ];
+
+    it('computes support and confidence in each direction', () => {
+        const rules = computeTemporalCoupling(commits);
+
+        expect(rules).toEqual([
+            {
+                file: 'db/schema.sql',
+                coupledFile: 'src/api.ts',
+                coChanges: 4,
+                support: 4 / 6,
+                confidence: 1,
+                crossModule: true,
+                authors: [{ name: 'Alice', commits: 3 }, { name: 'Bob', commits: 1 }],
+            },
+            expect.objectContaining({ file: 'src/api.ts', coupledFile: 'db/schema.sql', confidence: 4 / 6 }),
+        ]);
+    });
+
+    it('applies the thresholds and limit', () => {
+        expect(computeTemporalCoupling(commits, { minConfidence: 0.9 })).toHaveLength(1);
+        expect(computeTemporalCoupling(commits, { minCoChanges: 5 })).toEqual([]);
+        expect(computeTemporalCoupling(commits, { limit: 1 })).toHaveLength(1);
+    });
+
+    it('credits co-changes to the resolved identity', () => {
+        const rules = computeTemporalCoupling(commits, {
+            resolveAuthor: author => (author.name === 'Bob' ? { name: 'Alice', email: 'alice@example.com' } : author),
+        });
+        expect(rules[0].authors).toEqual([{ name: 'Alice', commits: 4 }]);
+    });
+
+    it('does not flag files in the same directory as hidden', () => {
+        const sameDir = computeTemporalCoupling([
+            commit(['src/a.ts', 'src/b.ts']),
+            commit(['src/a.ts', 'src/b.ts']),
+            commit(['src/a.ts', 'src/b.ts']),
+        ]);
+        expect(sameDir.map(rule => rule.crossModule)).toEqual([false, false]);
+    });
+});
+
+describe('couplingForFile', () => {
+    it('matches the file on either side', () => {
+        const rules = computeTemporalCoupling([
+            commit(['src/a.ts', 'lib/b.ts']),
+            commit(['src/a.ts', 'lib/b.ts']),
+            commit(['src/a.ts', 'lib/b.ts']),
+        ]);
+        expect(couplingForFile(rules, 'lib/b.ts')).toHaveLength(2);
+        expect(couplingForFile(rules, './lib\\b.ts')).toHaveLength(2);
+        expect(couplingForFile(rules, 'src/other.ts')).toEqual([]);
+    });
+
+    it('does not match path fragments', () => {
+        const rules = computeTemporalCoupling([
+            commit(['src/a.ts', 'lib/b.ts']),
+            commit(['src/a.ts', 'lib/b.ts']),
+            commit(['src/a.ts', 'lib/b.ts']),
+        ]);
+        expect(couplingForFile(rules, 'a.ts')).toEqual([]);
+        expect(couplingForFile(rules, 'lib')).toEqual([]);
+        expect(couplingForFile(rules, 'src/a.tsx')).toEqual([]);
+    });
+});
@@ -0,0 +1,175 @@
+/**
+ * Working-hours and timezone patterns from author dates. `%aI` keeps the
+ * author's UTC offset, so the hour and weekday in the string are the
+ * author's own clock. Must NOT import 'vscode'.
+ */
+import type { ActivityProfile, GitCommit, TimezoneCoverage, WorkloadIndicator } from '../types/expert';
+
+/** Local working day, [start, end) hours */
+export const WORKDAY_START_HOUR = 8;
+export const WORKDAY_END_HOUR = 19;
+// Fewer commits than this say little about someone's working pattern
+const MIN_COMMITS_FOR_PATTERN = 10;
+// Share of commits outside working hours (evenings plus weekends) that reads as overload
+const OVERLOADED_OUTSIDE_HOURS_SHARE = 0.3;
+// An hour belongs to someone's working day once it holds this share of their commits
+const ACTIVE_HOUR_SHARE = 0.04;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|([+-])(\d{2}):?(\d{2}))$/;
+
+interface AuthorClock {
+    localHour: number;
+    /** 0 = Sunday */
+    weekday: number;
+    utcHour: number;
+    /** Minutes east of UTC */
+    utcOffset: number;
+}
+
+/** The author's local hour and weekday, plus the UTC hour, from an ISO date with offset; null when unparseable. */
+export function readAuthorClock(isoDate: string): AuthorClock | null {
+    const match = ISO_DATE.exec(isoDate);
+    if (!match) {
+        return null;
+    }
+    const [, year, month, day, hour, minute, zone, sign, offsetHours, offsetMinutes] = match;
+    const utcOffset = zone === 'Z' ? 0 : (sign === '-' ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes));
+    const localMinutes = Number(hour) * 60 + Number(minute);
+    const utcMinutes = (((localMinutes - utcOffset) % 1440) + 1440) % 1440;
+    return {
+        localHour: Number(hour),
+        weekday: new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))).getUTCDay(),
+        utcHour: Math.floor(utcMinutes / 60),
+        utcOffset,
+    };
+}
+
+/** "UTC", "UTC+02:00", "UTC-05:30" */
+export function formatUtcOffset(minutes: number): string {
+    if (!Number.isFinite(minutes) || Math.round(minutes) === 0) {
+        return 'UTC';
+    }
+    const absolute = Math.abs(Math.round(minutes));
+    const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+    const rest = String(absolute % 60).padStart(2, '0');
+    return `UTC${minutes < 0 ? '-' : '+'}${hours}:${rest}`;
+}
+
+/** Activity profile of one contributor's commits; undefined when none carry a parseable date. */
+export function buildActivityProfile(commits: GitCommit[]): ActivityProfile | undefined {
+    const hourHistogram = new Array<number>(24).fill(0);
+    const weekdayHistogram = new Array<number>(7).fill(0);
+    const utcHourHistogram = new Array<number>(24).fill(0);
+    const offsets = new Map<number, number>();
+    let counted = 0;
+    let afterHours = 0;
+    let weekend = 0;
+
+    for (const commit of commits) {
+        const clock = readAuthorClock(commit.date);
+        if (!clock) {
+            continue;
+        }
+        counted++;
+        hourHistogram[clock.localHour]++;
+        weekdayHistogram[clock.weekday]++;
+        utcHourHistogram[clock.utcHour]++;
+        offsets.set(clock.utcOffset, (offsets.get(clock.utcOffset) ?? 0) + 1);
+        if (clock.weekday === 0 || clock.weekday === 6) {
+            weekend++;
+        } else if (clock.localHour < WORKDAY_START_HOUR || clock.localHour >= WORKDAY_END_HOUR) {
+            afterHours++;
+        }
+    }
+
+    if (counted === 0) {
+        return undefined;
+    }
+
+    let dominantUtcOffset = 0;
+    let dominantCount = -1;
+    for (const [offset, count] of offsets) {
+        if (count > dominantCount) {
+            dominantUtcOffset = offset;
+            dominantCount = count;
+        }
+    }
+
+    return {
+        commits: counted,
+        hourHistogram,
+        weekdayHistogram,
+        utcHourHistogram,
+        dominantUtcOffset,
+        afterHoursShare: afterHours / counted,
+        weekendShare: weekend / counted,
+    };
+}
+
+/**
+ * Workload measured from when someone commits: 'overloaded' when evenings
+ * and weekends carry a large share of their work, otherwise 'balanced'.
+ * Undefined with too few commits to tell. Git history cannot tell an
+ * underutilized person from one whose work happens outside git, so
+ * 'underutilized' is never inferred.
+ */
+export function measureWorkload(profile: ActivityProfile | undefined): WorkloadIndicator | undefined {
+    if (!profile || profile.commits < MIN_COMMITS_FOR_PATTERN) {
+        return undefined;
+    }
+    return profile.afterHoursShare + profile.weekendShare >= OVERLOADED_OUTSIDE_HOURS_SHARE ? 'overloaded' : 'balanced';
+}
+
+/**
+ * Follow-the-sun coverage of a team: who works in which timezone, how many
+ * people are active in each UTC hour, and the UTC hours nobody covers.
+ * Members with too few commits to show a pattern are left out.
+ */
+export function computeTimezoneCoverage(members: Array<{ name: string; activity?: ActivityProfile }>): TimezoneCoverage {
+    const byOffset = new Map<number, string[]>();
+    const activeByUtcHour = new Array<number>(24).fill(0);
+
+    for (const member of members) {
+        const profile = member.activity;
+        if (!profile || profile.commits < MIN_COMMITS_FOR_PATTERN) {
+            continue;
+        }
+        const names = byOffset.get(profile.dominantUtcOffset) ?? [];
+        names.push(member.name);
+        byOffset.set(profile.dominantUtcOffset, names);
+        profile.utcHourHistogram.forEach((count, hour) => {
+            if (count / profile.commits >= ACTIVE_HOUR_SHARE) {
+                activeByUtcHour[hour]++;
+            }
+        });
+    }
+
+    return {
+        timezones: Array.from(byOffset, ([utcOffset, names]) => ({ utcOffset, members: names }))
+            .sort((a, b) => a.utcOffset - b.utcOffset),
+        activeByUtcHour,
+        gaps: findUncoveredRuns(activeByUtcHour),
+    };
+}
+
+// Runs of consecutive zero hours, wrapping past midnight UTC
+function findUncoveredRuns(activeByUtcHour: number[]): TimezoneCoverage['gaps'] {
+    const firstCovered = activeByUtcHour.findIndex(count => count > 0);
+    if (firstCovered === -1) {
+        return [];
+    }
+    const gaps: TimezoneCoverage['gaps'] = [];
+    let runStart = -1;
+    for (let step = 1; step <= 24; step++) {
+        const hour = (firstCovered + step) % 24;
+        if (activeByUtcHour[hour] === 0) {
+            if (runStart === -1) {
+                runStart = hour;
+            }
+        } else if (runStart !== -1) {
+            gaps.push({ startUtcHour: runStart, hours: (hour - runStart + 24) % 24 });
+            runStart = -1;
+        }
+    }
+    return gaps.sort((a, b) => a.startUtcHour - b.startUtcHour);
+}
@@ -4,6 +4,8 @@ import {
     RepositoryStats,
     TeamHealthMetrics
 } from '../types/expert';
+import { measuredReviewPercentage } from './review-participation';
+import { measuredMergeReviewPercentage } from './pull-requests';
 
 type PartialTeamHealthMetrics = Partial<{
     knowledgeDistribution: Partial<TeamHealthMetrics['knowledgeDistribution']>;
@@ -51,6 +53,15 @@ function toStringValue(value: unknown, fallback: string): string {
     return normalized.length > 0 ? normalized : fallback;
 }
 
+function formatHours(hours: number): string {
+    if (hours < 24) {
+        const rounded = Math.max(1, Math.round(hours));
+        return `${rounded} ${rounded === 1 ? 'hour' : 'hours'}`;
+    }
+    const days = Math.round(hours / 24);
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+}
+
 function normalizeCategory(value: unknown): ManagementInsight['category'] {
     if (typeof value === 'string') {
         const upper = value.toUpperCase();
@@ -154,18 +165,18 @@ export function buildFallbackTeamHealthMetrics(
     const teamSizeBoost = clamp(humanExperts.length * 4, 0, 20);
 
     const crossTeamWork = clamp(70 - collaborationPenalty + teamSizeBoost, 20, 95);
-    const codeReviewParticipation = clamp(
-        62 +
-            (stats?.recentActivityLevel === 'high' ? 12 : stats?.recentActivityLevel === 'medium' ? 6 : 0) -
-            singlePointsOfFailure.length * 8,
-        20,
-        98
-    );
+    // Measured from review trailers, else from who merged reconstructed pull
+    // requests; without either there is nothing to measure, and 0 flagged as
+    // unmeasured beats a plausible-looking guess
+    const measuredReview = measuredReviewPercentage(stats?.reviewParticipation)
+        ?? measuredMergeReviewPercentage(stats?.pullRequests);
+    const codeReviewParticipation = measuredReview ?? 0;
     const knowledgeSharing = clamp(45 + wellDistributed.length * 15 - collaborationPenalty, 15, 95);
 
     const siloedMembers = singlePointsOfFailure.map(entry => entry.split(' (')[0]).slice(0, 3);
 
     const weeklyDeployments = Math.max(1, Math.round((stats?.recentActivity ?? 0) / 12));
+    const pullRequests = stats?.pullRequests;
     const blockers = singlePointsOfFailure.slice(0, 2).map(entry => `Dependency on ${entry.split(' (')[0]} for key decisions`);
 
     return {
@@ -178,12 +189,17 @@ export function buildFallbackTeamHealthMetrics(
         collaborationMetrics: {
             crossTeamWork,
             codeReviewParticipation,
+            codeReviewMeasured: measuredReview !== null,
             knowledgeSharing,
             siloedMembers
         },
         performanceIndicators: {
-            averageReviewTime: stats?.recentActivityLevel === 'high' ? '8 hours' : stats?.recentActivityLevel === 'medium' ? '1 day' : '2 days',
-            deploymentFrequency: `${weeklyDeployments}/week`,
+            averageReviewTime: pullRequests?.medianHoursToMerge !== undefined
+                ? formatHours(pullRequests.medianHoursToMerge)
+                : stats?.recentActivityLevel === 'high' ? '8 hours' : stats?.recentActivityLevel === 'medium' ? '1 day' : '2 days',
+            deploymentFrequency: pullRequests && pullRequests.total > 0
+                ? `${Math.round(pullRequests.perWeek * 10) / 10} PRs merged/week`
+                : `${weeklyDeployments}/week`,
             blockers
         }
     };
@@ -206,8 +222,10 @@ export function buildFallbackManagementInsights(
                 ? 'MEDIUM'
                 : 'LOW';
 
+    const reviewMeasured = teamHealthMetrics.collaborationMetrics.codeReviewMeasured !== false;
+    const reviewShare = teamHealthMetrics.collaborationMetrics.codeReviewParticipation;
     const efficiencyPriority: ManagementInsight['priority'] =
-        teamHealthMetrics.collaborationMetrics.codeReviewParticipation < 50 ? 'HIGH' : 'MEDIUM';
+        reviewMeasured && reviewShare < 50 ? 'HIGH' : 'MEDIUM';
 
     return [
         {
@@ -242,7 +260,11 @@ export function buildFallbackManagementInsights(
             category: 'EFFICIENCY',
             priority: efficiencyPriority,
             title: 'Review Throughput and Coordination',
-            description: `Current review participation is ${teamHealthMetrics.collaborationMetrics.codeReviewParticipation}%, with ${stats?.recentActivityLevel || 'medium'} recent activity.`,
+            description: !reviewMeasured
+                ? `Review participation is not visible in git history (no Reviewed-by/Acked-by/Tested-by trailers or pull request merges), with ${stats?.recentActivityLevel || 'medium'} recent activity.`
+                : measuredReviewPercentage(stats?.reviewParticipation) !== null
+                    ? `${reviewShare}% of commits carry a review trailer from someone other than the author, with ${stats?.recentActivityLevel || 'medium'} recent activity.`
+                    : `${reviewShare}% of merged pull requests were merged by someone other than their author, with ${stats?.recentActivityLevel || 'medium'} recent activity.`,
             actionItems: [
                 'Expand the active reviewer pool',
                 'Set lightweight review SLAs for high-priority changes',
@@ -280,10 +302,10 @@ export function normalizeTeamHealthMetrics(
         },
         collaborationMetrics: {
             crossTeamWork: normalizePercentage(collaborationMetrics.crossTeamWork, fallback.collaborationMetrics.crossTeamWork),
-            codeReviewParticipation: normalizePercentage(
-                collaborationMetrics.codeReviewParticipation,
-                fallback.collaborationMetrics.codeReviewParticipation
-            ),
+            // Always the git-measured value: an AI estimate of review
+            // participation has nothing in the data to be grounded on
+            codeReviewParticipation: fallback.collaborationMetrics.codeReviewParticipation,
+            codeReviewMeasured: fallback.collaborationMetrics.codeReviewMeasured,
             knowledgeSharing: normalizePercentage(
                 collaborationMetrics.knowledgeSharing,
                 fallback.collaborationMetrics.knowledgeSharing
@@ -291,14 +313,13 @@ export function normalizeTeamHealthMetrics(
             siloedMembers: toStringArray(collaborationMetrics.siloedMembers, fallback.collaborationMetrics.siloedMembers)
         },
         performanceIndicators: {
-            averageReviewTime: toStringValue(
-                performanceIndicators.averageReviewTime,
-                fallback.performanceIndicators.averageReviewTime
-            ),
-            deploymentFrequency: toStringValue(
-                performanceIndicators.deploymentFrequency,
-                fallback.performanceIndicators.deploymentFrequency
-            ),
+            // Measured merge metrics win over AI estimates, as for review participation
+            averageReviewTime: stats?.pullRequests?.medianHoursToMerge !== undefined
+                ? fallback.performanceIndicators.averageReviewTime
+                : toStringValue(performanceIndicators.averageReviewTime, fallback.performanceIndicators.averageReviewTime),
+            deploymentFrequency: stats?.pullRequests && stats.pullRequests.total > 0
+                ? fallback.performanceIndicators.deploymentFrequency
+                : toStringValue(performanceIndicators.deploymentFrequency, fallback.performanceIndicators.deploymentFrequency),
             blockers: toStringArray(performanceIndicators.blockers, fallback.performanceIndicators.blockers)
         }
     };
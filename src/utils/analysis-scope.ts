@@ -0,0 +1,80 @@
+/**
+ * Explicit analysis scopes — a revision range, a date range, or both — for
+ * per-release retrospectives, as opposed to the rolling
+ * `teamxray.historyWindowDays` window. Must NOT import 'vscode'.
+ */
+import type { CommitLogQuery } from './git-log-format';
+
+export interface AnalysisScope {
+    /** Ref or revision range passed to `git log`, e.g. "v2.0..v3.0" or "release/3.x" */
+    range?: string;
+    /** First day included (YYYY-MM-DD, local time) */
+    since?: string;
+    /** Last day included (YYYY-MM-DD, local time) */
+    until?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Error message for an unusable ref or range, or null when it is safe to pass to git. */
+export function validateRevisionRange(range: string): string | null {
+    const trimmed = range.trim();
+    if (!trimmed) {
+        return 'Enter a ref or revision range, e.g. v2.0..v3.0';
+    }
+    // A leading dash would be read as a git option
+    if (trimmed.startsWith('-')) {
+        return 'A revision range cannot start with "-"';
+    }
+    if (/[\s\x00-\x1f\x7f]/.test(trimmed)) {
+        return 'A revision range cannot contain whitespace';
+    }
+    return null;
+}
+
+/** Error message for a malformed calendar date, or null when `value` is YYYY-MM-DD and real. */
+export function validateScopeDate(value: string): string | null {
+    if (!DATE_PATTERN.test(value)) {
+        return 'Use the YYYY-MM-DD format';
+    }
+    // Rejects dates like 2026-02-30 that Date would silently roll over
+    const parsed = new Date(`${value}T00:00:00Z`);
+    if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) {
+        return `${value} is not a valid date`;
+    }
+    return null;
+}
+
+/**
+ * Worker query for a scope. Dates are widened to whole days: git reads a
+ * bare date as "that day at the current time", which would silently drop
+ * the morning of the first day and the evening of the last.
+ */
+export function scopeToLogQuery(scope: AnalysisScope): CommitLogQuery {
+    return {
+        range: scope.range?.trim() || undefined,
+        sinceDate: scope.since ? `${scope.since}T00:00:00` : undefined,
+        untilDate: scope.until ? `${scope.until}T23:59:59` : undefined,
+    };
+}
+
+/** Header label for an explicit scope, e.g. "v2.0..v3.0 · 2026-01-01 → 2026-03-31". */
+export function describeAnalysisScope(scope: AnalysisScope): string {
+    const parts: string[] = [];
+    if (scope.range) {
+        parts.push(scope.range);
+    }
+    if (scope.since && scope.until) {
+        parts.push(`${scope.since} → ${scope.until}`);
+    } else if (scope.since) {
+        parts.push(`Since ${scope.since}`);
+    } else if (scope.until) {
+        parts.push(`Until ${scope.until}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'All history';
+}
+
+/** Header label for the rolling history window setting. */
+export function describeHistoryWindow(windowDays: number): string {
+    return windowDays === 0 ? 'All history' : `Last ${windowDays} days`;
+}
@@ -0,0 +1,226 @@
+/**
+ * Truck factor per repository, module and directory: the fewest people who
+ * would have to leave before more than half of the files have nobody left
+ * who knows them. Follows Avelino et al., "A novel approach for estimating
+ * truck factors" (ICPC 2016): file authors come from a degree-of-authorship
+ * model, then the author covering the most files is removed until the
+ * orphan threshold is crossed. Must NOT import 'vscode'.
+ */
+import type { BusFactor, BusFactorReport, GitAuthor, GitCommit } from '../types/expert';
+import { detectBotContributor } from './bot-detection';
+import { domainOf } from './collaboration-graph';
+
+/** A scope is at risk once more than this share of its files is orphaned */
+export const ORPHAN_THRESHOLD = 0.5;
+/** Modules and directories with fewer files are too small to rank */
+export const MIN_SCOPE_FILES = 5;
+// Degree-of-authorship coefficients from the paper: first authorship and
+// own deliveries raise it, changes by others lower it
+const DOA_BASE = 3.293;
+const DOA_FIRST_AUTHORSHIP = 1.098;
+const DOA_DELIVERIES = 0.164;
+const DOA_ACCEPTANCES = 0.321;
+// An author's DOA relative to the file's best, from the paper
+const AUTHORSHIP_SHARE = 0.75;
+// Risk score base by repository bus factor (1, 2, 3, more), plus up to
+// MODULE_RISK for the share of module files in bus-factor-1 modules
+const REPOSITORY_RISK = [65, 40, 25, 10];
+const MODULE_RISK = 30;
+// Single points of failure listed, and modules named per person
+const MAX_SINGLE_POINTS = 5;
+const MAX_MODULES_PER_PERSON = 3;
+
+export interface BusFactorOptions {
+    /** Maps aliases to one identity so a person counts once */
+    resolveAuthor?: (author: GitAuthor) => GitAuthor;
+    /** Files that exist now; history for anything else is ignored */
+    files?: string[];
+    minScopeFiles?: number;
+}
+
+/**
+ * Degree of authorship of one person on one file. `firstAuthor` is whether
+ * they made the file's earliest analysed change, `deliveries` their own
+ * changes, `acceptances` changes by everyone else.
+ */
+export function degreeOfAuthorship(firstAuthor: boolean, deliveries: number, acceptances: number): number {
+    return DOA_BASE
+        + (firstAuthor ? DOA_FIRST_AUTHORSHIP : 0)
+        + DOA_DELIVERIES * deliveries
+        - DOA_ACCEPTANCES * Math.log(1 + acceptances);
+}
+
+/**
+ * Authors of each file, keyed by lowercased email: everyone whose degree of
+ * authorship is at least 75% of the file's highest and at least the
+ * model's base value. Bots and AI agents are not authors, and files
+ * only they changed are left out.
+ */
+export function fileAuthors(commits: GitCommit[], options: BusFactorOptions = {}): { authors: Map<string, Set<string>>; names: Map<string, string> } {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const existing = options.files?.length ? new Set(options.files) : undefined;
+    const names = new Map<string, string>();
+    const history = new Map<string, { first: string; deliveries: Map<string, number>; total: number }>();
+
+    // Oldest first, so the first change seen to a file is its first author's
+    const ordered = commits
+        .map(commit => ({ commit, time: Date.parse(commit.date) }))
+        .sort((x, y) => (Number.isFinite(x.time) ? x.time : Infinity) - (Number.isFinite(y.time) ? y.time : Infinity));
+
+    for (const { commit } of ordered) {
+        if (!commit.author) {
+            continue;
+        }
+        const author = resolveAuthor(commit.author);
+        if (!author.email || detectBotContributor(author.name, author.email)) {
+            continue;
+        }
+        const key = author.email.toLowerCase();
+        if (!names.has(key)) {
+            names.set(key, author.name);
+        }
+        for (const file of new Set(commit.files ?? [])) {
+            if (existing && !existing.has(file)) {
+                continue;
+            }
+            let entry = history.get(file);
+            if (!entry) {
+                entry = { first: key, deliveries: new Map(), total: 0 };
+                history.set(file, entry);
+            }
+            entry.deliveries.set(key, (entry.deliveries.get(key) ?? 0) + 1);
+            entry.total++;
+        }
+    }
+
+    const authors = new Map<string, Set<string>>();
+    for (const [file, entry] of history) {
+        const degrees = Array.from(entry.deliveries, ([key, deliveries]) =>
+            [key, degreeOfAuthorship(key === entry.first, deliveries, entry.total - deliveries)] as const);
+        const best = Math.max(...degrees.map(([, degree]) => degree));
+        authors.set(file, new Set(degrees
+            .filter(([, degree]) => degree >= DOA_BASE && degree >= best * AUTHORSHIP_SHARE)
+            .map(([key]) => key)));
+    }
+    return { authors, names };
+}
+
+/**
+ * Greedy truck factor over one set of files: remove the person who authors
+ * the most remaining files until more than half are orphaned. Ties go to
+ * the alphabetically first key so results are stable.
+ */
+export function truckFactor(authors: Map<string, Set<string>>): { busFactor: number; keyPeople: string[]; orphanedShare: number } {
+    const total = authors.size;
+    if (total === 0) {
+        return { busFactor: 0, keyPeople: [], orphanedShare: 0 };
+    }
+    const remaining = Array.from(authors.values(), set => new Set(set));
+    let orphaned = remaining.filter(set => set.size === 0).length;
+    const keyPeople: string[] = [];
+
+    while (orphaned / total <= ORPHAN_THRESHOLD) {
+        const coverage = new Map<string, number>();
+        for (const set of remaining) {
+            for (const key of set) {
+                coverage.set(key, (coverage.get(key) ?? 0) + 1);
+            }
+        }
+        const top = Array.from(coverage).sort((x, y) => y[1] - x[1] || x[0].localeCompare(y[0]))[0];
+        if (!top) {
+            break;
+        }
+        keyPeople.push(top[0]);
+        for (const set of remaining) {
+            if (set.delete(top[0]) && set.size === 0) {
+                orphaned++;
+            }
+        }
+    }
+    return { busFactor: keyPeople.length, keyPeople, orphanedShare: orphaned / total };
+}
+
+/**
+ * Truck factor for the repository and for every directory with at least
+ * `minScopeFiles` authored files under it, ranked riskiest first. A
+ * directory is reported as a module when it is the root of one (see
+ * domainOf), so `src/api` is a module and `src` a directory.
+ */
+export function computeBusFactors(commits: GitCommit[], options: BusFactorOptions = {}): BusFactorReport {
+    const { authors, names } = fileAuthors(commits, options);
+    const minFiles = options.minScopeFiles ?? MIN_SCOPE_FILES;
+
+    const directoryFiles = new Map<string, string[]>();
+    for (const file of authors.keys()) {
+        const segments = file.split('/').slice(0, -1);
+        for (let depth = 1; depth <= segments.length; depth++) {
+            const directory = segments.slice(0, depth).join('/');
+            const files = directoryFiles.get(directory) ?? [];
+            files.push(file);
+            directoryFiles.set(directory, files);
+        }
+    }
+    // domainOf maps anything nested inside a module root to the root itself
+    const isModuleRoot = (directory: string) => domainOf(`${directory}/_/_`) === directory;
+
+    const measure = (path: string, scope: BusFactor['scope'], files: string[]): BusFactor => {
+        const subset = new Map(files.map(file => [file, authors.get(file)!]));
+        const result = truckFactor(subset);
+        return {
+            path,
+            scope,
+            files: files.length,
+            busFactor: result.busFactor,
+            keyPeople: result.keyPeople.map(key => names.get(key) ?? key),
+            orphanedShare: Math.round(result.orphanedShare * 100) / 100,
+            authors: new Set(files.flatMap(file => Array.from(authors.get(file)!))).size,
+        };
+    };
+
+    const scopes = Array.from(directoryFiles)
+        .filter(([, files]) => files.length >= minFiles)
+        .map(([path, files]) => measure(path, isModuleRoot(path) ? 'module' : 'directory', files))
+        .sort((x, y) => x.busFactor - y.busFactor || y.files - x.files || x.path.localeCompare(y.path));
+
+    return {
+        repository: measure('.', 'repository', Array.from(authors.keys())),
+        scopes,
+    };
+}
+
+/**
+ * Single points of failure and a 0-100 knowledge risk score measured from
+ * the truck factors: the repository's own bus factor sets the base, and
+ * the share of module files in bus-factor-1 modules adds to it.
+ */
+export function summarizeBusFactorRisk(report: BusFactorReport): { singlePointsOfFailure: string[]; riskScore: number } {
+    const soleModules = new Map<string, string[]>();
+    for (const scope of report.scopes) {
+        if (scope.scope === 'module' && scope.busFactor === 1) {
+            const person = scope.keyPeople[0];
+            soleModules.set(person, [...(soleModules.get(person) ?? []), scope.path]);
+        }
+    }
+
+    const singlePointsOfFailure: string[] = [];
+    if (report.repository.busFactor === 1) {
+        singlePointsOfFailure.push(`${report.repository.keyPeople[0]} (bus factor 1 for the whole repository)`);
+        soleModules.delete(report.repository.keyPeople[0]);
+    }
+    for (const [person, modules] of Array.from(soleModules).sort((x, y) => y[1].length - x[1].length)) {
+        const named = modules.slice(0, MAX_MODULES_PER_PERSON).join(', ');
+        const more = modules.length > MAX_MODULES_PER_PERSON ? ` +${modules.length - MAX_MODULES_PER_PERSON} more` : '';
+        singlePointsOfFailure.push(`${person} (bus factor 1 in ${named}${more})`);
+    }
+
+    const modules = report.scopes.filter(scope => scope.scope === 'module');
+    const moduleFiles = modules.reduce((sum, scope) => sum + scope.files, 0);
+    const atRiskFiles = modules.filter(scope => scope.busFactor <= 1).reduce((sum, scope) => sum + scope.files, 0);
+    const base = REPOSITORY_RISK[Math.min(Math.max(report.repository.busFactor, 1), REPOSITORY_RISK.length) - 1];
+    const riskScore = Math.round(base + (moduleFiles > 0 ? MODULE_RISK * atRiskFiles / moduleFiles : 0));
+
+    return {
+        singlePointsOfFailure: singlePointsOfFailure.slice(0, MAX_SINGLE_POINTS),
+        riskScore: Math.min(95, Math.max(5, riskScore)),
+    };
+}
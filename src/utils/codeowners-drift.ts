@@ -0,0 +1,233 @@
+/**
+ * CODEOWNERS drift: compare each rule of an existing CODEOWNERS file with
+ * who actually changes and knows the files it governs. Patterns follow
+ * GitHub's CODEOWNERS rules, and the last matching rule decides a file's
+ * owners. Must NOT import 'vscode'.
+ *
+ * Owners are matched to commit identities by email, by the login in a
+ * GitHub noreply address, or by a login equal to the email's local part or
+ * the name without spaces. Team owners (`@org/team`) cannot be resolved
+ * from git, so rules with a team are never flagged for missing experts and
+ * the team itself never for inactivity.
+ */
+import type { CodeownersDrift, CodeownersDriftKind, CodeownersDriftReport, GitAuthor, GitCommit } from '../types/expert';
+import { detectBotContributor } from './bot-detection';
+import { fileAuthors } from './bus-factor';
+import { domainOf } from './collaboration-graph';
+import { parseGitHubEmail } from './github-username';
+
+export interface CodeownersEntry {
+    /** 1-based line in the file */
+    line: number;
+    pattern: string;
+    owners: string[];
+}
+
+export interface CodeownersDriftOptions {
+    /** Files that exist now; defaults to every file in the commits */
+    files?: string[];
+    resolveAuthor?: (author: GitAuthor) => GitAuthor;
+    /** Share (0-1) of a rule's files someone must author to be expected among its owners */
+    minShare: number;
+}
+
+const KIND_ORDER: Record<CodeownersDriftKind, number> = { 'inactive-owner': 0, 'unlisted-expert': 1, unowned: 2 };
+
+/** Rules in file order. Comments and blank lines are skipped; `\#` escapes a leading `#`. */
+export function parseCodeowners(content: string): CodeownersEntry[] {
+    const entries: CodeownersEntry[] = [];
+    content.split(/\r?\n/).forEach((text, index) => {
+        const tokens = text.trim().split(/\s+/).filter(Boolean);
+        if (tokens.length === 0 || tokens[0].startsWith('#')) {
+            return;
+        }
+        const comment = tokens.findIndex((token, position) => position > 0 && token.startsWith('#'));
+        entries.push({
+            line: index + 1,
+            pattern: tokens[0].replace(/^\\#/, '#'),
+            owners: tokens.slice(1, comment === -1 ? undefined : comment),
+        });
+    });
+    return entries;
+}
+
+// Regex source for a pattern without its leading and trailing slashes
+function patternBody(pattern: string): string {
+    let out = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (pattern.startsWith('**/', i)) {
+            out += '(?:.*/)?';
+            i += 2;
+        } else if (pattern.startsWith('**', i)) {
+            out += '.*';
+            i += 1;
+        } else if (char === '*') {
+            out += '[^/]*';
+        } else if (char === '?') {
+            out += '[^/]';
+        } else {
+            // GitHub has no [ ] ranges, so brackets are literal too
+            out += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return out;
+}
+
+/**
+ * Predicate for one CODEOWNERS pattern over repository-relative paths, as
+ * GitHub applies it: `*` and `?` never cross `/`; a pattern without a slash
+ * (other than a trailing one) matches at any depth; a leading or inner slash
+ * anchors it to the root; a trailing slash matches everything under that
+ * directory; and a pattern ending in a plain name matches that file or the
+ * directory tree under it, while one ending in a wildcard matches only at
+ * that level (`docs/*` matches `docs/a.md`, not `docs/api/b.md`).
+ */
+export function createCodeownersMatcher(pattern: string): (file: string) => boolean {
+    const trimmed = pattern.trim();
+    const directory = trimmed.endsWith('/');
+    const body = trimmed.replace(/\/+$/, '');
+    const anchored = body.includes('/');
+    const path = body.replace(/^\/+/, '');
+    if (!path) {
+        return () => false;
+    }
+    const last = path.slice(path.lastIndexOf('/') + 1);
+    const beneath = directory ? '/.*' : /[*?]/.test(last) ? '' : '(?:/.*)?';
+    const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${patternBody(path)}${beneath}$`);
+    return file => regex.test(file);
+}
+
+const isTeam = (owner: string) => owner.startsWith('@') && owner.includes('/');
+
+/** Whether a CODEOWNERS owner (`@login` or email) is this commit identity. */
+export function ownerMatches(owner: string, identity: { email: string; name: string }): boolean {
+    const email = identity.email.toLowerCase();
+    if (!owner.startsWith('@')) {
+        return owner.toLowerCase() === email;
+    }
+    if (isTeam(owner)) {
+        return false;
+    }
+    const login = owner.slice(1).toLowerCase();
+    return parseGitHubEmail(email) === login
+        || email.split('@')[0] === login
+        || identity.name.replace(/\s+/g, '').toLowerCase() === login;
+}
+
+/** Issues, most actionable kind first, then by how many files they concern. */
+export function detectCodeownersDrift(
+    file: string,
+    content: string,
+    commits: GitCommit[],
+    options: CodeownersDriftOptions
+): CodeownersDriftReport {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const entries = parseCodeowners(content);
+    const matchers = entries.map(entry => createCodeownersMatcher(entry.pattern));
+    const inventory = options.files?.length
+        ? options.files
+        : Array.from(new Set(commits.flatMap(commit => commit.files ?? [])));
+
+    // Who changed each file in the analysed history, humans only
+    const names = new Map<string, string>();
+    const changedBy = new Map<string, Set<string>>();
+    for (const commit of commits) {
+        if (!commit.author) {
+            continue;
+        }
+        const author = resolveAuthor(commit.author);
+        if (!author.email || detectBotContributor(author.name, author.email)) {
+            continue;
+        }
+        const key = author.email.toLowerCase();
+        names.set(key, names.get(key) ?? author.name);
+        for (const changed of commit.files ?? []) {
+            const people = changedBy.get(changed) ?? new Set<string>();
+            people.add(key);
+            changedBy.set(changed, people);
+        }
+    }
+    const { authors } = fileAuthors(commits, { resolveAuthor, files: inventory });
+    const identity = (key: string) => ({ email: key, name: names.get(key) ?? key });
+
+    // The last matching rule governs a file
+    const governed = entries.map(() => [] as string[]);
+    const unowned: string[] = [];
+    for (const path of inventory) {
+        let rule = -1;
+        for (let index = entries.length - 1; index >= 0; index--) {
+            if (matchers[index](path)) {
+                rule = index;
+                break;
+            }
+        }
+        if (rule === -1 || entries[rule].owners.length === 0) {
+            unowned.push(path);
+        } else {
+            governed[rule].push(path);
+        }
+    }
+
+    const issues: CodeownersDrift[] = [];
+    entries.forEach((entry, index) => {
+        const files = governed[index];
+        if (files.length === 0) {
+            return;
+        }
+        const active = new Set(files.flatMap(path => Array.from(changedBy.get(path) ?? [])));
+        for (const owner of entry.owners.filter(owner => !isTeam(owner))) {
+            if (!Array.from(active).some(key => ownerMatches(owner, identity(key)))) {
+                issues.push({
+                    kind: 'inactive-owner',
+                    pattern: entry.pattern,
+                    line: entry.line,
+                    subject: owner,
+                    files: files.length,
+                    message: `${owner} owns ${entry.pattern} but changed none of its ${files.length} file${files.length === 1 ? '' : 's'} in the analysed history`,
+                });
+            }
+        }
+
+        if (entry.owners.some(isTeam)) {
+            return;
+        }
+        const authored = new Map<string, number>();
+        for (const path of files) {
+            for (const key of authors.get(path) ?? []) {
+                authored.set(key, (authored.get(key) ?? 0) + 1);
+            }
+        }
+        for (const [key, count] of Array.from(authored).sort((x, y) => y[1] - x[1])) {
+            if (count / files.length < options.minShare || entry.owners.some(owner => ownerMatches(owner, identity(key)))) {
+                continue;
+            }
+            issues.push({
+                kind: 'unlisted-expert',
+                pattern: entry.pattern,
+                line: entry.line,
+                subject: names.get(key) ?? key,
+                files: count,
+                message: `${names.get(key) ?? key} authors ${count} of the ${files.length} files under ${entry.pattern} but is not an owner`,
+            });
+        }
+    });
+
+    const unownedByModule = new Map<string, number>();
+    for (const path of unowned) {
+        const module = domainOf(path);
+        unownedByModule.set(module, (unownedByModule.get(module) ?? 0) + 1);
+    }
+    for (const [module, count] of unownedByModule) {
+        const pattern = module === '(root)' ? '/' : `/${module}/`;
+        issues.push({
+            kind: 'unowned',
+            pattern,
+            files: count,
+            message: `${count} file${count === 1 ? '' : 's'} under ${pattern} ${count === 1 ? 'has' : 'have'} no owner`,
+        });
+    }
+
+    issues.sort((x, y) => KIND_ORDER[x.kind] - KIND_ORDER[y.kind] || y.files - x.files || (x.line ?? 0) - (y.line ?? 0));
+    return { file, rules: entries.length, checkedFiles: inventory.length, unownedFiles: unowned.length, issues };
+}
@@ -0,0 +1,121 @@
+/**
+ * CODEOWNERS proposals from the folder ownership rollup. Each folder is
+ * owned by the people who author enough of its files; a rule is written
+ * only where the owners change from the folder above, since CODEOWNERS
+ * applies the last matching rule. Generated rules live in a marked block at
+ * the top of the file, so hand-written rules below it still win. Must NOT
+ * import 'vscode'.
+ */
+import type { DirectoryExpert, DirectoryOwnership } from '../types/expert';
+import { parseGitHubEmail } from './github-username';
+
+export const CODEOWNERS_BEGIN = '# BEGIN Team X-Ray generated owners';
+export const CODEOWNERS_END = '# END Team X-Ray generated owners';
+/** Where GitHub looks for the file, in its order of precedence */
+export const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export const DEFAULT_CODEOWNERS_MIN_SHARE = 0.2;
+export const DEFAULT_CODEOWNERS_MIN_OWNERS = 1;
+
+export interface CodeownersOptions {
+    /** Share (0-1) of a folder's files someone must author to own it */
+    minShare: number;
+    /** Owners listed per rule; the next-largest authors fill in below minShare */
+    minOwners: number;
+    /** Lowercased emails never listed, e.g. bots and AI agents */
+    exclude?: Set<string>;
+    /**
+     * Repository-relative folder the analysis covered when the workspace is
+     * a subdirectory of the repository; its rule replaces `*` so the
+     * generated owners never claim the rest of the repository
+     */
+    folder?: string;
+}
+
+export interface CodeownersRule {
+    /** `*` for the repository, `/path/` for a folder */
+    pattern: string;
+    /** `@login` when the email is a GitHub address, else the email */
+    owners: string[];
+}
+
+/** `@login` for GitHub addresses; GitHub also accepts the email of a verified account. */
+export function codeownersHandle(email: string): string {
+    const login = parseGitHubEmail(email);
+    return login ? `@${login}` : email;
+}
+
+/** The people who own a folder: everyone at or above minShare, topped up to minOwners. */
+export function folderOwners(folder: DirectoryOwnership, options: CodeownersOptions): DirectoryExpert[] {
+    const candidates = folder.topExperts.filter(expert => expert.files > 0 && !options.exclude?.has(expert.email.toLowerCase()));
+    const qualified = candidates.filter(expert => folder.files > 0 && expert.files / folder.files >= options.minShare);
+    return qualified.length >= options.minOwners ? qualified : candidates.slice(0, options.minOwners);
+}
+
+// Whitespace and `#` end a CODEOWNERS pattern or start a comment, and GitHub
+// does not support `!` negation or `[ ]` ranges; glob characters would widen
+// the rule. Folders with any of these in their path get no rule of their own.
+const UNSAFE_PATH = /[\s#!\[\]*?\\]/;
+
+/**
+ * Rules for the rollup, parents before children, skipping folders whose
+ * owners match the folder above. With `options.folder`, the rollup is read
+ * from that folder down and its rule is `/folder/` rather than `*`. Folders
+ * whose path can't be written as a literal pattern inherit from above.
+ */
+export function buildCodeownersRules(root: DirectoryOwnership, options: CodeownersOptions): CodeownersRule[] {
+    const scope = (options.folder ?? '').replace(/^\/+|\/+$/g, '');
+    // The deepest rolled-up folder on the way to the scope (the rollup is depth-limited)
+    let start = root;
+    let next: DirectoryOwnership | undefined = root;
+    while (next) {
+        start = next;
+        next = next.children.find(child => scope === child.path || scope.startsWith(`${child.path}/`));
+    }
+
+    const rules: CodeownersRule[] = [];
+    const visit = (folder: DirectoryOwnership, inherited: string) => {
+        const path = folder === start ? scope : folder.path;
+        const owners = folderOwners(folder, options).map(expert => codeownersHandle(expert.email));
+        const key = owners.join(' ');
+        let effective = inherited;
+        if (owners.length > 0 && key !== inherited && !UNSAFE_PATH.test(path)) {
+            rules.push({ pattern: path === '' || path === '.' ? '*' : `/${path}/`, owners });
+            effective = key;
+        }
+        for (const child of folder.children) {
+            visit(child, effective);
+        }
+    };
+    visit(start, '');
+    return rules;
+}
+
+/** The generated block, markers included, ending in a newline. */
+export function formatCodeownersBlock(rules: CodeownersRule[], description: string): string {
+    const width = Math.max(0, ...rules.map(rule => rule.pattern.length));
+    return [
+        CODEOWNERS_BEGIN,
+        `# ${description}`,
+        '# Rules after this block take precedence; edit those, not this block.',
+        ...rules.map(rule => `${rule.pattern.padEnd(width)} ${rule.owners.join(' ')}`),
+        CODEOWNERS_END,
+    ].join('\n') + '\n';
+}
+
+/**
+ * Put the generated block into existing CODEOWNERS content: replace a
+ * previous block, otherwise insert it at the top.
+ */
+export function mergeCodeowners(existing: string, block: string): string {
+    const begin = existing.indexOf(CODEOWNERS_BEGIN);
+    const end = existing.indexOf(CODEOWNERS_END, begin);
+    if (begin !== -1 && end !== -1) {
+        const after = existing.slice(end + CODEOWNERS_END.length).replace(/^\r?\n/, '');
+        return existing.slice(0, begin) + block + after;
+    }
+    if (existing.trim().length === 0) {
+        return block;
+    }
+    return `${block}\n${existing}`;
+}
@@ -0,0 +1,225 @@
+/**
+ * Contributor-to-contributor collaboration graph from git history. Two
+ * people are connected when they change the same file within a few weeks of
+ * each other, and more strongly when one lists the other as a co-author. The
+ * graph and per-person rollups fill CollaborationData with measured values.
+ * Must NOT import 'vscode'.
+ */
+import type {
+    CollaborationData,
+    CollaborationEdge,
+    CommunicationPattern,
+    ExpertiseDistribution,
+    GitAuthor,
+    GitCommit,
+    KnowledgeSharing,
+} from '../types/expert';
+import { detectBotContributor } from './bot-detection';
+
+/** Changes to the same file at most this many days apart count as working together */
+export const COLLABORATION_WINDOW_DAYS = 30;
+// A co-authored commit is direct pairing, worth several shared files
+const CO_AUTHOR_WEIGHT = 3;
+// Files most of the team touches within a window (changelogs, manifests) say
+// nothing about who works with whom, and would add a clique of edges
+const MAX_AUTHORS_PER_FILE_WINDOW = 8;
+// Mean subject lengths that read as terse or as descriptive
+const CONCISE_SUBJECT_LENGTH = 25;
+const DETAILED_SUBJECT_LENGTH = 60;
+// Share of an area's commits that makes someone one of its experts
+const DOMAIN_EXPERT_SHARE = 0.1;
+const MAX_KNOWLEDGE_AREAS = 5;
+const MAX_EDGES = 200;
+// Directories that hold every module, so the area is the level below them
+const CONTAINER_DIRECTORIES = new Set(['src', 'lib', 'libs', 'packages', 'apps', 'services', 'modules', 'components']);
+
+export interface CollaborationOptions {
+    /** Maps aliases to one identity so a person is one node */
+    resolveAuthor?: (author: GitAuthor) => GitAuthor;
+    windowDays?: number;
+}
+
+interface Person {
+    name: string;
+    commits: number;
+    subjectLength: number;
+    files: Set<string>;
+    sharedFiles: Set<string>;
+    areas: Map<string, number>;
+    coAuthors: boolean;
+}
+
+/** Area a file belongs to: its top-level directory, or the level below a container such as `src/` or `packages/`. */
+export function domainOf(file: string): string {
+    const segments = file.split('/');
+    if (segments.length === 1) {
+        return '(root)';
+    }
+    return CONTAINER_DIRECTORIES.has(segments[0]) && segments.length > 2
+        ? `${segments[0]}/${segments[1]}`
+        : segments[0];
+}
+
+function identityKey(author: GitAuthor): string {
+    return author.email.toLowerCase();
+}
+
+/** Measured CollaborationData over the human authors of `commits`; bots and AI agents are left out. */
+export function buildCollaborationData(commits: GitCommit[], options: CollaborationOptions = {}): CollaborationData {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const windowMs = (options.windowDays ?? COLLABORATION_WINDOW_DAYS) * 24 * 60 * 60 * 1000;
+    const isHuman = (author: GitAuthor) => !!author.email && !detectBotContributor(author.name, author.email);
+
+    const people = new Map<string, Person>();
+    const edges = new Map<string, CollaborationEdge>();
+    const fileChanges = new Map<string, { time: number; key: string }[]>();
+    const areaCommits = new Map<string, Map<string, number>>();
+    // Names from Co-authored-by trailers, for co-authors who never committed
+    const trailerNames = new Map<string, string>();
+
+    const edgeBetween = (x: string, y: string) => {
+        const [a, b] = x < y ? [x, y] : [y, x];
+        const key = `${a}\0${b}`;
+        let edge = edges.get(key);
+        if (!edge) {
+            edge = { a, b, sharedFiles: 0, coAuthoredCommits: 0, weight: 0 };
+            edges.set(key, edge);
+        }
+        return edge;
+    };
+
+    for (const commit of commits) {
+        if (!commit.author) {
+            continue;
+        }
+        const author = resolveAuthor(commit.author);
+        if (!isHuman(author)) {
+            continue;
+        }
+        const key = identityKey(author);
+        let person = people.get(key);
+        if (!person) {
+            person = { name: author.name, commits: 0, subjectLength: 0, files: new Set(), sharedFiles: new Set(), areas: new Map(), coAuthors: false };
+            people.set(key, person);
+        }
+        person.commits++;
+        person.subjectLength += (commit.message ?? '').length;
+
+        const files = commit.files ?? [];
+        const time = Date.parse(commit.date);
+        for (const file of files) {
+            person.files.add(file);
+            if (Number.isFinite(time)) {
+                const changes = fileChanges.get(file) ?? [];
+                changes.push({ time, key });
+                fileChanges.set(file, changes);
+            }
+        }
+        for (const area of new Set(files.map(domainOf))) {
+            person.areas.set(area, (person.areas.get(area) ?? 0) + 1);
+            const byPerson = areaCommits.get(area) ?? new Map<string, number>();
+            byPerson.set(key, (byPerson.get(key) ?? 0) + 1);
+            areaCommits.set(area, byPerson);
+        }
+
+        for (const coAuthor of commit.coAuthors ?? []) {
+            const partner = resolveAuthor(coAuthor);
+            const partnerKey = identityKey(partner);
+            if (!isHuman(partner) || partnerKey === key) {
+                continue;
+            }
+            if (!trailerNames.has(partnerKey)) {
+                trailerNames.set(partnerKey, partner.name || partner.email);
+            }
+            edgeBetween(key, partnerKey).coAuthoredCommits++;
+            person.coAuthors = true;
+        }
+    }
+
+    // Slide a window over each file's changes; a pair shares the file once
+    // however often they overlap on it
+    for (const [file, changes] of fileChanges) {
+        changes.sort((x, y) => x.time - y.time);
+        const pairs = new Set<string>();
+        let start = 0;
+        for (let end = 0; end < changes.length; end++) {
+            while (changes[end].time - changes[start].time > windowMs) {
+                start++;
+            }
+            const authors = new Set(changes.slice(start, end + 1).map(change => change.key));
+            if (authors.size < 2 || authors.size > MAX_AUTHORS_PER_FILE_WINDOW) {
+                continue;
+            }
+            const current = changes[end].key;
+            for (const other of authors) {
+                if (other !== current) {
+                    pairs.add(current < other ? `${current}\0${other}` : `${other}\0${current}`);
+                }
+            }
+        }
+        for (const pair of pairs) {
+            const [a, b] = pair.split('\0');
+            edgeBetween(a, b).sharedFiles++;
+            people.get(a)!.sharedFiles.add(file);
+            people.get(b)!.sharedFiles.add(file);
+        }
+    }
+
+    // Co-authors who never committed themselves still appear in the graph,
+    // under the name their trailer gives
+    const nameOf = (key: string) => people.get(key)?.name ?? trailerNames.get(key) ?? key;
+    const ranked = Array.from(people.values()).sort((x, y) => y.commits - x.commits);
+
+    const communicationPatterns: CommunicationPattern[] = ranked.map(person => {
+        const avgMessageLength = Math.round(person.subjectLength / person.commits);
+        return {
+            author: person.name,
+            frequency: person.commits,
+            style: person.coAuthors ? 'collaborative'
+                : avgMessageLength >= DETAILED_SUBJECT_LENGTH ? 'detailed'
+                    : avgMessageLength <= CONCISE_SUBJECT_LENGTH ? 'concise'
+                        : 'technical',
+            avgMessageLength,
+        };
+    });
+
+    const knowledgeSharing: KnowledgeSharing[] = ranked.map(person => ({
+        expert: person.name,
+        knowledge: Array.from(person.areas).sort((x, y) => y[1] - x[1]).slice(0, MAX_KNOWLEDGE_AREAS).map(([area]) => area),
+        sharingScore: person.files.size > 0 ? Math.round(person.sharedFiles.size / person.files.size * 100) / 100 : 0,
+    }));
+
+    const expertiseDistribution: ExpertiseDistribution[] = Array.from(areaCommits)
+        .map(([domain, byPerson]) => {
+            const total = Array.from(byPerson.values()).reduce((sum, count) => sum + count, 0);
+            return {
+                domain,
+                total,
+                experts: Array.from(byPerson)
+                    .filter(([, count]) => count / total >= DOMAIN_EXPERT_SHARE)
+                    .sort((x, y) => y[1] - x[1])
+                    .map(([key]) => nameOf(key)),
+                coverage: Math.round(byPerson.size / people.size * 100) / 100,
+            };
+        })
+        .sort((x, y) => y.total - x.total)
+        .map(({ total: _total, ...distribution }) => distribution);
+
+    const collaborations = Array.from(edges.values())
+        .map(edge => ({
+            ...edge,
+            a: nameOf(edge.a),
+            b: nameOf(edge.b),
+            weight: edge.sharedFiles + CO_AUTHOR_WEIGHT * edge.coAuthoredCommits,
+        }))
+        .sort((x, y) => y.weight - x.weight || x.a.localeCompare(y.a))
+        .slice(0, MAX_EDGES);
+
+    return {
+        teamSize: people.size,
+        communicationPatterns,
+        knowledgeSharing,
+        expertiseDistribution,
+        collaborations,
+    };
+}
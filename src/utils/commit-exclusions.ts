@@ -0,0 +1,137 @@
+/**
+ * Mass-change exclusion: drops commits that touch code without conveying
+ * knowledge of it — reformatting sweeps listed in .git-blame-ignore-revs,
+ * commits touching an implausible number of files, merges, and messages
+ * matching a configured pattern — from expertise and ownership scoring.
+ * Must NOT import 'vscode'.
+ */
+import type { CommitExclusionReason, CommitExclusionSummary, GitCommit } from '../types/expert';
+import type { BlameIgnoreOptions } from './git-blame';
+
+/** The conventional ignore list, honoured by `git blame` and GitHub's blame view */
+export const BLAME_IGNORE_REVS_FILE = '.git-blame-ignore-revs';
+// Each rule-excluded commit becomes one `--ignore-rev` argument to blame;
+// beyond this the command line gets unwieldy (Windows caps it at 32K chars)
+const MAX_BLAME_IGNORE_REVS = 200;
+
+const FULL_SHA = /^[0-9a-f]{40}(?:[0-9a-f]{24})?$/i;
+
+export interface CommitExclusionRules {
+    /** Full SHAs from .git-blame-ignore-revs, lowercased */
+    ignoreRevs: Set<string>;
+    messagePattern?: RegExp;
+    /** Commits touching more files than this are mass changes; unset or 0 disables */
+    maxFilesPerCommit?: number;
+    excludeMerges: boolean;
+}
+
+/** Rules for filtering a commit list plus what blame should look through */
+export interface CommitExclusionContext {
+    rules: CommitExclusionRules;
+    blame: BlameIgnoreOptions;
+}
+
+export interface CommitPartition {
+    /** Commits that count towards expertise and ownership */
+    scored: GitCommit[];
+    excluded: GitCommit[];
+    summary: CommitExclusionSummary;
+}
+
+/**
+ * SHAs listed in .git-blame-ignore-revs content. Like git, only full object
+ * names count; comments (`#`) and blank lines are skipped.
+ */
+export function parseIgnoreRevs(content: string): Set<string> {
+    const revs = new Set<string>();
+    for (const raw of content.split(/\r?\n/)) {
+        const line = raw.replace(/#.*$/, '').trim();
+        if (FULL_SHA.test(line)) {
+            revs.add(line.toLowerCase());
+        }
+    }
+    return revs;
+}
+
+/** Case-insensitive message pattern from a setting; undefined when blank or not a valid regex. */
+export function compileExclusionPattern(source: string | undefined): RegExp | undefined {
+    if (!source?.trim()) {
+        return undefined;
+    }
+    try {
+        return new RegExp(source, 'i');
+    } catch {
+        return undefined;
+    }
+}
+
+/** The first rule a commit trips, checked from most to least explicit; undefined when it counts. */
+export function commitExclusionReason(commit: GitCommit, rules: CommitExclusionRules): CommitExclusionReason | undefined {
+    if (rules.ignoreRevs.has(commit.sha.toLowerCase())) {
+        return 'ignore-revs';
+    }
+    if (rules.excludeMerges && (commit.parents?.length ?? 0) > 1) {
+        return 'merge';
+    }
+    if (rules.maxFilesPerCommit && rules.maxFilesPerCommit > 0 && (commit.files?.length ?? 0) > rules.maxFilesPerCommit) {
+        return 'mass-change';
+    }
+    if (rules.messagePattern?.test(commit.message)) {
+        return 'message';
+    }
+    return undefined;
+}
+
+/** Split commits into those scored for expertise and those excluded, with counts by reason. */
+export function partitionCommits(commits: GitCommit[], rules: CommitExclusionRules): CommitPartition {
+    const scored: GitCommit[] = [];
+    const excluded: GitCommit[] = [];
+    const byReason: CommitExclusionSummary['byReason'] = {};
+    for (const commit of commits) {
+        const reason = commitExclusionReason(commit, rules);
+        if (reason) {
+            excluded.push(commit);
+            byReason[reason] = (byReason[reason] ?? 0) + 1;
+        } else {
+            scored.push(commit);
+        }
+    }
+    return {
+        scored,
+        excluded,
+        summary: {
+            excluded: excluded.length,
+            byReason,
+            maxFilesPerCommit: rules.maxFilesPerCommit || undefined,
+            messagePattern: rules.messagePattern?.source,
+        },
+    };
+}
+
+/**
+ * Rule-excluded commits blame should look through, largest first. Entries
+ * from .git-blame-ignore-revs travel as `--ignore-revs-file` and merges
+ * never own lines, so neither is repeated here.
+ */
+export function selectBlameIgnoreRevs(excluded: GitCommit[], rules: CommitExclusionRules): string[] {
+    return excluded
+        .filter(commit => !rules.ignoreRevs.has(commit.sha.toLowerCase()) && (commit.parents?.length ?? 0) <= 1)
+        .sort((a, b) => (b.files?.length ?? 0) - (a.files?.length ?? 0))
+        .slice(0, MAX_BLAME_IGNORE_REVS)
+        .map(commit => commit.sha);
+}
+
+/** "12 commits excluded from expertise: 3 in .git-blame-ignore-revs, 9 touching over 100 files"; undefined when none were. */
+export function describeCommitExclusions(summary: CommitExclusionSummary | undefined): string | undefined {
+    if (!summary || summary.excluded === 0) {
+        return undefined;
+    }
+    const { byReason } = summary;
+    const parts = [
+        byReason['ignore-revs'] ? `${byReason['ignore-revs']} in ${BLAME_IGNORE_REVS_FILE}` : '',
+        byReason.merge ? `${byReason.merge} merge commit${byReason.merge === 1 ? '' : 's'}` : '',
+        byReason['mass-change'] ? `${byReason['mass-change']} touching over ${summary.maxFilesPerCommit} files` : '',
+        byReason.message ? `${byReason.message} matching /${summary.messagePattern}/` : '',
+    ].filter(part => part.length > 0);
+    return `${summary.excluded} commit${summary.excluded === 1 ? '' : 's'} excluded from expertise: ${parts.join(', ')}`;
+}
@@ -0,0 +1,182 @@
+/**
+ * The one expertise formula. Every ranking (team profiles, Find Expert,
+ * blame ownership) feeds measured signals through scoreExpertise, so the
+ * number means the same everywhere and can be explained factor by factor.
+ * Must NOT import 'vscode'.
+ *
+ * Each factor is scored against the highest value among the candidates in
+ * the same scope (a file, the team) and weighted. A factor nobody in the
+ * scope has a measurement for (no blame, no line counts, no review trailers)
+ * is left out and the remaining weights share its part, so a missing signal
+ * neither helps nor hurts anyone.
+ */
+import type {
+    ExpertiseBreakdown,
+    ExpertiseFactor,
+    GitAuthor,
+    GitCommit,
+    ReviewActivity,
+    ScoreComponent,
+    ScoringWeights,
+} from '../types/expert';
+import type { FileAuthorStats } from './git-blame';
+import { collectReviewActivity } from './review-participation';
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    commits: 0.25,
+    linesChanged: 0.15,
+    recency: 0.25,
+    survivingLines: 0.25,
+    reviews: 0.1,
+};
+
+const FACTORS = Object.keys(DEFAULT_SCORING_WEIGHTS) as ExpertiseFactor[];
+
+const FACTOR_LABELS: Record<ExpertiseFactor, string> = {
+    commits: 'commits',
+    linesChanged: 'lines changed',
+    recency: 'recent work',
+    survivingLines: 'surviving lines',
+    reviews: 'reviews given',
+};
+
+/** Measured values for one candidate; undefined when not measured */
+export type ExpertiseSignals = Partial<Record<ExpertiseFactor, number>>;
+
+/** Weights from settings, with missing, negative or non-numeric entries at their defaults. */
+export function normalizeScoringWeights(weights?: Partial<Record<string, unknown>>): ScoringWeights {
+    const normalized = { ...DEFAULT_SCORING_WEIGHTS };
+    for (const factor of FACTORS) {
+        const value = weights?.[factor];
+        if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+            normalized[factor] = value;
+        }
+    }
+    return normalized;
+}
+
+/**
+ * The one expert order: highest score first, then the most current (by
+ * `recencyScore`), then the incoming order. Sort before cutting a list
+ * short, so the top scorer is never dropped.
+ */
+export function rankByExpertise<T extends { expertise: number; recencyScore?: number }>(experts: T[]): T[] {
+    return experts
+        .map((expert, index) => ({ expert, index }))
+        .sort((x, y) => y.expert.expertise - x.expert.expertise
+            || (y.expert.recencyScore ?? -1) - (x.expert.recencyScore ?? -1)
+            || x.index - y.index)
+        .map(({ expert }) => expert);
+}
+
+/** Reviews, acks and tests given on other people's commits; sign-offs are not review. */
+export function reviewsGiven(reviews: ReviewActivity | undefined): number | undefined {
+    return reviews ? reviews.reviewed + reviews.acked + reviews.tested : undefined;
+}
+
+/**
+ * Score candidates in one scope against each other. Returns a breakdown
+ * per key; scores are 0-100 with 100 meaning top on every weighted factor.
+ */
+export function scoreExpertise<K>(
+    candidates: Map<K, ExpertiseSignals>,
+    weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): Map<K, ExpertiseBreakdown> {
+    const maxima = new Map<ExpertiseFactor, number>();
+    for (const signals of candidates.values()) {
+        for (const factor of FACTORS) {
+            const value = signals[factor];
+            if (value !== undefined && Number.isFinite(value) && value > (maxima.get(factor) ?? 0)) {
+                maxima.set(factor, value);
+            }
+        }
+    }
+
+    let available = FACTORS.filter(factor => maxima.has(factor) && weights[factor] > 0);
+    let totalWeight = available.reduce((sum, factor) => sum + weights[factor], 0);
+    if (totalWeight === 0) {
+        // Every measured factor is weighted 0: fall back to the defaults
+        available = FACTORS.filter(factor => maxima.has(factor));
+        weights = DEFAULT_SCORING_WEIGHTS;
+        totalWeight = available.reduce((sum, factor) => sum + weights[factor], 0);
+    }
+
+    const scores = new Map<K, ExpertiseBreakdown>();
+    for (const [key, signals] of candidates) {
+        const components: ScoreComponent[] = available.map(factor => {
+            const value = Math.max(0, signals[factor] ?? 0);
+            const relative = Math.min(1, value / maxima.get(factor)!);
+            const weight = weights[factor] / totalWeight;
+            return { factor, value, relative, weight, points: relative * weight * 100 };
+        });
+        components.sort((x, y) => y.points - x.points);
+        scores.set(key, {
+            score: Math.round(components.reduce((sum, component) => sum + component.points, 0)),
+            components,
+        });
+    }
+    return scores;
+}
+
+/**
+ * Signals for a file's authors, keyed by lowercased email: commits, decayed
+ * lines (or commits without blame) as recency, surviving lines when blame
+ * ran, line counts when the log carried them, and review trailers given on
+ * the file's commits. Pass the `resolveAuthor` the authors were merged with.
+ */
+export function fileExpertSignals(
+    authors: FileAuthorStats[],
+    commits: GitCommit[],
+    options: { hasOwnership: boolean; decay: boolean; resolveAuthor?: (author: GitAuthor) => GitAuthor }
+): Map<string, ExpertiseSignals> {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const linesChanged = new Map<string, number>();
+    for (const commit of commits) {
+        if (commit.additions === undefined && commit.deletions === undefined) {
+            continue;
+        }
+        const key = commit.author ? resolveAuthor(commit.author).email.toLowerCase() : '';
+        linesChanged.set(key, (linesChanged.get(key) ?? 0) + (commit.additions ?? 0) + (commit.deletions ?? 0));
+    }
+    const reviews = collectReviewActivity(commits, resolveAuthor);
+
+    return new Map(authors.map(author => {
+        const key = author.email.toLowerCase();
+        return [key, {
+            commits: author.commits,
+            linesChanged: linesChanged.get(key),
+            recency: options.decay ? (options.hasOwnership ? author.decayedLines : author.decayedCommits) : undefined,
+            survivingLines: options.hasOwnership ? author.survivingLines : undefined,
+            reviews: reviewsGiven(reviews.get(key)),
+        }];
+    }));
+}
+
+/** Signals from a repository contributor (commit totals, churn, recency score, reviews). */
+export function contributorSignals(contributor: {
+    commits?: number;
+    additions?: number;
+    deletions?: number;
+    recencyScore?: number;
+    reviews?: ReviewActivity;
+}): ExpertiseSignals {
+    return {
+        commits: contributor.commits ?? 0,
+        linesChanged: contributor.additions === undefined && contributor.deletions === undefined
+            ? undefined
+            : (contributor.additions ?? 0) + (contributor.deletions ?? 0),
+        recency: contributor.recencyScore,
+        reviews: reviewsGiven(contributor.reviews),
+    };
+}
+
+/** One line for "why this person", e.g. "surviving lines 420 (+38) · commits 12 (+25) · recent work (+20)". */
+export function explainScore(breakdown: ExpertiseBreakdown): string {
+    return breakdown.components
+        .filter(component => component.points >= 0.5)
+        .map(component => {
+            const value = component.factor === 'recency' ? '' : ` ${Math.round(component.value)}`;
+            return `${FACTOR_LABELS[component.factor]}${value} (+${Math.round(component.points)})`;
+        })
+        .join(' · ') || 'no measured activity';
+}
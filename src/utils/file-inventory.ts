@@ -0,0 +1,167 @@
+/**
+ * Which files count towards expertise: the tracked files `git ls-files`
+ * reports, so ignored build output never appears, narrowed by user
+ * include/exclude globs and a built-in list of generated and vendored
+ * files. Must NOT import 'vscode'.
+ *
+ * Globs follow .gitignore conventions: a pattern without a slash matches
+ * a file or directory name at any depth, a leading slash anchors it to the
+ * repository root, a trailing slash matches directories only, and a
+ * pattern that matches a directory matches everything beneath it.
+ */
+import type { GitCommit } from '../types/expert';
+
+export interface FileInventoryFilter {
+    /** When non-empty, only files matching one of these count */
+    include: string[];
+    exclude: string[];
+    /** Also drop GENERATED_FILE_PATTERNS */
+    excludeGenerated: boolean;
+}
+
+/** Files nobody gains expertise from editing: lockfiles, build output, vendored code, generated sources, binaries */
+export const GENERATED_FILE_PATTERNS: readonly string[] = [
+    // Lockfiles
+    'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+    'composer.lock', 'Gemfile.lock', 'Cargo.lock', 'poetry.lock', 'Pipfile.lock', 'go.sum',
+    'packages.lock.json', 'Podfile.lock', 'pubspec.lock', 'mix.lock',
+    // Build output and vendored dependencies
+    'dist/', 'build/', 'out/', 'coverage/', '.next/', 'node_modules/', 'bower_components/',
+    'vendor/', 'third_party/', '.yarn/',
+    // Minified and generated sources
+    '*.min.js', '*.min.css', '*.map', '*.pb.go', '*_pb2.py', '*_pb2_grpc.py', '*.g.dart',
+    '*.generated.*', '*.designer.cs', '__generated__/', '__snapshots__/',
+    // Binary assets
+    '*.png', '*.jpg', '*.jpeg', '*.gif', '*.ico', '*.pdf', '*.zip', '*.jar',
+    '*.woff', '*.woff2', '*.ttf', '*.eot',
+];
+
+/** `git ls-files` arguments, optionally limited to a repository-relative directory. */
+export function buildLsFilesArgs(directory?: string): string[] {
+    return directory
+        ? ['ls-files', '-z', '--', `:(literal)${directory}`]
+        : ['ls-files', '-z'];
+}
+
+/** Paths from NUL-separated `git ls-files -z` output, unquoted whatever their characters. */
+export function parseLsFiles(output: string): string[] {
+    return output.split('\0').filter(file => file.length > 0);
+}
+
+interface CompiledGlob {
+    source: string;
+    directoryOnly: boolean;
+}
+
+/** One regex for globs that can match files, one for any glob matching a directory */
+interface GlobSet {
+    files?: RegExp;
+    directories?: RegExp;
+}
+
+function compileGlob(glob: string): CompiledGlob | null {
+    let pattern = glob.trim().replace(/\\/g, '/');
+    if (!pattern || pattern.startsWith('#')) {
+        return null;
+    }
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    if (!pattern) {
+        return null;
+    }
+    return { source: `${anchored ? '' : '(?:.*/)?'}${globBody(pattern)}`, directoryOnly };
+}
+
+function globBody(pattern: string): string {
+    let out = '';
+    let braceDepth = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // "**/" spans zero or more directories; a bare "**" anything
+                if (pattern[i + 2] === '/') {
+                    out += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    out += '.*';
+                    i += 1;
+                }
+            } else {
+                out += '[^/]*';
+            }
+        } else if (char === '?') {
+            out += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            out += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            out += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            out += '|';
+        } else {
+            out += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return out + ')'.repeat(braceDepth);
+}
+
+function compileGlobSet(globs: readonly string[]): GlobSet | null {
+    const compiled = globs
+        .map(glob => compileGlob(glob))
+        .filter((glob): glob is CompiledGlob => glob !== null);
+    if (compiled.length === 0) {
+        return null;
+    }
+    const union = (parts: CompiledGlob[]) => parts.length > 0
+        ? new RegExp(`^(?:${parts.map(part => part.source).join('|')})$`)
+        : undefined;
+    return {
+        files: union(compiled.filter(glob => !glob.directoryOnly)),
+        directories: union(compiled),
+    };
+}
+
+// A glob matches a file when it matches the path itself or one of its directories
+function matchesGlobSet(file: string, set: GlobSet): boolean {
+    if (set.files?.test(file)) {
+        return true;
+    }
+    for (let slash = file.indexOf('/'); slash !== -1; slash = file.indexOf('/', slash + 1)) {
+        if (set.directories?.test(file.slice(0, slash))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/** Predicate for repository-relative paths; blank globs and `#` comments are ignored. */
+export function createFileMatcher(filter: FileInventoryFilter): (file: string) => boolean {
+    const include = compileGlobSet(filter.include);
+    const exclude = compileGlobSet([...filter.exclude, ...(filter.excludeGenerated ? GENERATED_FILE_PATTERNS : [])]);
+
+    return file => (!include || matchesGlobSet(file, include))
+        && !(exclude && matchesGlobSet(file, exclude));
+}
+
+/** The files that count towards expertise, in their original order. */
+export function filterFileInventory(files: string[], filter: FileInventoryFilter): string[] {
+    const matches = createFileMatcher(filter);
+    return files.filter(matches);
+}
+
+/**
+ * The commits with their file lists narrowed to the files that count, so
+ * lockfiles and generated output couple, author and orphan nothing.
+ * Commits that keep every file are returned as they are.
+ */
+export function filterCommitFiles(commits: GitCommit[], filter: FileInventoryFilter): GitCommit[] {
+    const matches = createFileMatcher(filter);
+    return commits.map(commit => {
+        const files = (commit.files ?? []).filter(matches);
+        return files.length === (commit.files ?? []).length ? commit : { ...commit, files };
+    });
+}
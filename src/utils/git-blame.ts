@@ -0,0 +1,317 @@
+/**
+ * Blame-based line ownership shared by the extension host (GitService) and
+ * the worker thread (git-worker). Must NOT import 'vscode'.
+ *
+ * `git blame --porcelain` prints a header line per blamed line, but commit
+ * metadata (author, author-mail, author-time) only the first time a commit
+ * appears — so metadata is cached by SHA while surviving lines are counted.
+ * Content lines are always prefixed with a TAB, which makes them impossible
+ * to confuse with headers.
+ */
+import type { FileOwnership, GitAuthor, GitCommit } from '../types/expert';
+import { decayWeight, decayedLines, relativeScores, type DecayOptions } from './knowledge-decay';
+
+/** Per-author view of one file combining commit history with surviving lines. */
+export interface FileAuthorStats {
+    name: string;
+    email: string;
+    commits: number;
+    lastDate: string;
+    survivingLines: number;
+    /** Share (0-1) of the file's current lines; 0 when blame was unavailable */
+    lineShare: number;
+    /** commits with older ones decayed by the half-life; equal to commits without decay */
+    decayedCommits: number;
+    /** survivingLines with older lines decayed by the half-life */
+    decayedLines: number;
+}
+
+/** Commits blame should look through, attributing their lines to earlier commits. */
+export interface BlameIgnoreOptions {
+    /** Absolute path of an ignore list such as .git-blame-ignore-revs */
+    ignoreRevsFile?: string;
+    /** Individual SHAs to ignore on top of the file */
+    ignoreRevs?: string[];
+}
+
+/** 1-based, inclusive line range of a file at HEAD */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/** Blame's SHA for lines changed in the working tree but not committed */
+export const UNCOMMITTED_SHA = '0'.repeat(40);
+
+/** One line of `git blame --porcelain` output with its commit's metadata. */
+export interface BlameLine {
+    /** 1-based line number in the blamed file */
+    line: number;
+    sha: string;
+    name: string;
+    email: string;
+    /** Author time in seconds since the epoch */
+    time: number;
+    summary: string;
+}
+
+// -w ignores whitespace-only changes so re-indenting a block doesn't steal
+// ownership. Blaming HEAD keeps uncommitted edits ("Not Committed Yet") out;
+// workingTree blames the file on disk instead, uncommitted lines included.
+export function buildBlameArgs(filePath: string, ignore: BlameIgnoreOptions = {}, range?: LineRange, workingTree = false): string[] {
+    const ignoreArgs = [
+        ...(ignore.ignoreRevsFile ? ['--ignore-revs-file', ignore.ignoreRevsFile] : []),
+        ...(ignore.ignoreRevs ?? []).flatMap(sha => ['--ignore-rev', sha]),
+    ];
+    const rangeArgs = range ? ['-L', `${range.start},${range.end}`] : [];
+    return ['blame', '--porcelain', '-w', ...ignoreArgs, ...rangeArgs, ...(workingTree ? [] : ['HEAD']), '--', filePath];
+}
+
+const HEADER_LINE = /^([0-9a-f]{40}) \d+ (\d+)(?: \d+)?$/;
+
+/** Parse `git blame --porcelain` output into per-author surviving line counts. */
+export function parseBlamePorcelain(output: string, filePath: string): FileOwnership {
+    const commitInfo = new Map<string, { name: string; email: string; time: number }>();
+    const lineCounts = new Map<string, number>();
+    let currentSha = '';
+    let totalLines = 0;
+
+    for (const line of output.split('\n')) {
+        if (line.startsWith('\t')) {
+            if (currentSha) {
+                lineCounts.set(currentSha, (lineCounts.get(currentSha) ?? 0) + 1);
+                totalLines++;
+            }
+            continue;
+        }
+
+        const header = line.match(HEADER_LINE);
+        if (header) {
+            currentSha = header[1];
+            if (!commitInfo.has(currentSha)) {
+                commitInfo.set(currentSha, { name: '', email: '', time: 0 });
+            }
+            continue;
+        }
+
+        const info = commitInfo.get(currentSha);
+        if (!info) {
+            continue;
+        }
+        if (line.startsWith('author-mail ')) {
+            info.email = line.slice('author-mail '.length).replace(/^<|>$/g, '').trim();
+        } else if (line.startsWith('author-time ')) {
+            info.time = Number.parseInt(line.slice('author-time '.length), 10) || 0;
+        } else if (line.startsWith('author ')) {
+            info.name = line.slice('author '.length).trim();
+        }
+    }
+
+    const owners = new Map<string, { name: string; email: string; lines: number; time: number; linesByTime: Map<number, number> }>();
+    for (const [sha, lines] of lineCounts) {
+        const info = commitInfo.get(sha);
+        if (!info) {
+            continue;
+        }
+        const key = info.email.toLowerCase() || info.name;
+        const existing = owners.get(key);
+        if (existing) {
+            existing.lines += lines;
+            existing.time = Math.max(existing.time, info.time);
+            existing.linesByTime.set(info.time, (existing.linesByTime.get(info.time) ?? 0) + lines);
+        } else {
+            owners.set(key, { name: info.name, email: info.email, lines, time: info.time, linesByTime: new Map([[info.time, lines]]) });
+        }
+    }
+
+    return {
+        filePath,
+        totalLines,
+        owners: Array.from(owners.values())
+            .map(owner => ({
+                name: owner.name,
+                email: owner.email,
+                lines: owner.lines,
+                share: totalLines > 0 ? owner.lines / totalLines : 0,
+                lastCommitDate: new Date(owner.time * 1000).toISOString(),
+                linesByTime: Array.from(owner.linesByTime, ([time, lines]) => ({ time, lines })),
+            }))
+            .sort((a, b) => b.lines - a.lines),
+    };
+}
+
+/** Parse `git blame --porcelain` output into one entry per line, in file order. */
+export function parseBlameLines(output: string): BlameLine[] {
+    const commitInfo = new Map<string, { name: string; email: string; time: number; summary: string }>();
+    const lines: BlameLine[] = [];
+    let current: { sha: string; line: number } | null = null;
+
+    for (const line of output.split('\n')) {
+        if (line.startsWith('\t')) {
+            const info = current && commitInfo.get(current.sha);
+            if (current && info) {
+                lines.push({ line: current.line, sha: current.sha, ...info });
+            }
+            current = null;
+            continue;
+        }
+
+        const header = line.match(HEADER_LINE);
+        if (header) {
+            current = { sha: header[1], line: Number.parseInt(header[2], 10) };
+            if (!commitInfo.has(current.sha)) {
+                commitInfo.set(current.sha, { name: '', email: '', time: 0, summary: '' });
+            }
+            continue;
+        }
+
+        const info = current && commitInfo.get(current.sha);
+        if (!info) {
+            continue;
+        }
+        if (line.startsWith('author-mail ')) {
+            info.email = line.slice('author-mail '.length).replace(/^<|>$/g, '').trim();
+        } else if (line.startsWith('author-time ')) {
+            info.time = Number.parseInt(line.slice('author-time '.length), 10) || 0;
+        } else if (line.startsWith('author ')) {
+            info.name = line.slice('author '.length).trim();
+        } else if (line.startsWith('summary ')) {
+            info.summary = line.slice('summary '.length);
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Surviving lines per author from per-line blame, as parseBlamePorcelain
+ * counts them. Uncommitted lines belong to nobody and are left out.
+ */
+export function ownershipFromBlameLines(filePath: string, blame: BlameLine[]): FileOwnership {
+    const committed = blame.filter(line => line.sha !== UNCOMMITTED_SHA);
+    const owners = new Map<string, { name: string; email: string; lines: number; time: number; linesByTime: Map<number, number> }>();
+    for (const line of committed) {
+        const key = line.email.toLowerCase() || line.name;
+        const owner = owners.get(key) ?? { name: line.name, email: line.email, lines: 0, time: 0, linesByTime: new Map<number, number>() };
+        owner.lines++;
+        owner.time = Math.max(owner.time, line.time);
+        owner.linesByTime.set(line.time, (owner.linesByTime.get(line.time) ?? 0) + 1);
+        owners.set(key, owner);
+    }
+
+    return {
+        filePath,
+        totalLines: committed.length,
+        owners: Array.from(owners.values())
+            .map(owner => ({
+                name: owner.name,
+                email: owner.email,
+                lines: owner.lines,
+                share: owner.lines / committed.length,
+                lastCommitDate: new Date(owner.time * 1000).toISOString(),
+                linesByTime: Array.from(owner.linesByTime, ([time, lines]) => ({ time, lines })),
+            }))
+            .sort((a, b) => b.lines - a.lines),
+    };
+}
+
+/**
+ * Fold blame owners that resolve to the same person into one owner under
+ * the resolved identity, so an alias's lines count toward the person.
+ */
+export function resolveOwnership(ownership: FileOwnership, resolveAuthor?: (author: GitAuthor) => GitAuthor): FileOwnership {
+    if (!resolveAuthor) {
+        return ownership;
+    }
+    const owners = new Map<string, FileOwnership['owners'][number]>();
+    for (const owner of ownership.owners) {
+        const identity = resolveAuthor({ name: owner.name, email: owner.email });
+        const key = identity.email.toLowerCase() || identity.name;
+        const existing = owners.get(key);
+        if (existing) {
+            existing.lines += owner.lines;
+            existing.share += owner.share;
+            if (owner.lastCommitDate > existing.lastCommitDate) { existing.lastCommitDate = owner.lastCommitDate; }
+            existing.linesByTime = [...(existing.linesByTime ?? []), ...(owner.linesByTime ?? [])];
+        } else {
+            owners.set(key, { ...owner, name: identity.name, email: identity.email });
+        }
+    }
+    return { ...ownership, owners: Array.from(owners.values()).sort((a, b) => b.lines - a.lines) };
+}
+
+/**
+ * Merge a file's commit history with its blame ownership. Authors are ranked
+ * by surviving lines when ownership is available (so whoever wrote most of
+ * the current code wins over a string of one-line fixes), then by commits.
+ * With a half-life, older lines and commits count for less, so the ranking
+ * favours people who still know the code. Aliases merge through
+ * `resolveAuthor` when given.
+ */
+export function mergeOwnershipWithCommits(
+    commits: GitCommit[],
+    ownership: FileOwnership | null,
+    decay: DecayOptions & { resolveAuthor?: (author: GitAuthor) => GitAuthor } = { halfLifeDays: 0 }
+): FileAuthorStats[] {
+    const resolveAuthor = decay.resolveAuthor ?? ((author: GitAuthor) => author);
+    const authors = new Map<string, FileAuthorStats>();
+
+    for (const commit of commits) {
+        const author = commit.author ? resolveAuthor(commit.author) : { name: '', email: '' };
+        const key = author.email.toLowerCase();
+        const existing = authors.get(key);
+        if (existing) {
+            existing.commits++;
+            existing.decayedCommits += decayWeight(commit.date, decay);
+            if (commit.date > existing.lastDate) { existing.lastDate = commit.date; }
+        } else {
+            authors.set(key, {
+                name: author.name,
+                email: author.email,
+                commits: 1,
+                lastDate: commit.date,
+                survivingLines: 0,
+                lineShare: 0,
+                decayedCommits: decayWeight(commit.date, decay),
+                decayedLines: 0,
+            });
+        }
+    }
+
+    for (const owner of ownership ? resolveOwnership(ownership, decay.resolveAuthor).owners : []) {
+        const key = owner.email.toLowerCase();
+        const existing = authors.get(key);
+        if (existing) {
+            existing.survivingLines = owner.lines;
+            existing.lineShare = owner.share;
+            existing.decayedLines = decayedLines(owner, decay);
+        } else {
+            // Lines that survived a rename beyond --follow's reach, or history
+            // outside the fetched commit window
+            authors.set(key, {
+                name: owner.name,
+                email: owner.email,
+                commits: 0,
+                lastDate: owner.lastCommitDate,
+                survivingLines: owner.lines,
+                lineShare: owner.share,
+                decayedCommits: 0,
+                decayedLines: decayedLines(owner, decay),
+            });
+        }
+    }
+
+    return Array.from(authors.values())
+        .sort((a, b) => b.decayedLines - a.decayedLines || b.decayedCommits - a.decayedCommits);
+}
+
+/**
+ * 0-100 recency score per lowercased email for a file's authors: decayed
+ * surviving lines when blame was available, decayed commits otherwise.
+ */
+export function fileRecencyScores(authors: FileAuthorStats[], hasOwnership: boolean): Map<string, number> {
+    return relativeScores(new Map(authors.map(author => [
+        author.email.toLowerCase(),
+        hasOwnership ? author.decayedLines : author.decayedCommits,
+    ])));
+}
@@ -6,7 +6,14 @@
  * (0x1E), so author names or subjects containing '|' can never shift fields.
  * Trailers are extracted by git itself via %(trailers:key=...), which keeps
  * the transferred data small while exposing agent attribution signals:
- * Co-authored-by lines and checkpoint/attribution trailers.
+ * Co-authored-by lines and checkpoint/attribution trailers. Review trailers
+ * (Reviewed-by, Acked-by, Tested-by, Signed-off-by) share one field as
+ * "Key: Name <email>" entries so a single extra field covers all four.
+ *
+ * The numstat variant puts the separator *before* each record so a commit's
+ * `--numstat` entries stay inside its own record (metadata on the first line,
+ * then one NUL-terminated "added<TAB>deleted<TAB>path" entry per file). It is
+ * read with `-z`, so paths are never C-quoted.
  */
 
 export interface ParsedCoAuthor {
@@ -23,11 +30,40 @@ export interface ParsedCommit {
     coAuthors: ParsedCoAuthor[];
     checkpointId?: string;
     attribution?: string;
+    /** Lines added across all files (numstat logs only; binary files count 0) */
+    additions?: number;
+    /** Lines deleted across all files (numstat logs only) */
+    deletions?: number;
+    /** Committer date (numstat logs only) — what `--since` filters on */
+    committedDate?: string;
+    /** Reviewed-by trailer identities */
+    reviewedBy?: ParsedCoAuthor[];
+    /** Acked-by trailer identities */
+    ackedBy?: ParsedCoAuthor[];
+    /** Tested-by trailer identities */
+    testedBy?: ParsedCoAuthor[];
+    /** Signed-off-by trailer identities (the author's own sign-off included) */
+    signedOffBy?: ParsedCoAuthor[];
+    /** Parent SHAs, first parent first (numstat logs only) */
+    parents?: string[];
 }
 
 const FIELD_SEP = '\x00';
 const RECORD_SEP = '\x1e';
 
+const REVIEW_TRAILERS =
+    '%x00%(trailers:key=Reviewed-by,key=Acked-by,key=Tested-by,key=Signed-off-by,unfold,separator=%x3B)';
+
+type ReviewTrailerField = 'reviewedBy' | 'ackedBy' | 'testedBy' | 'signedOffBy';
+
+// Trailer keys are matched case-insensitively by git, so normalize here too
+const REVIEW_TRAILER_KEYS: Record<string, ReviewTrailerField> = {
+    'reviewed-by': 'reviewedBy',
+    'acked-by': 'ackedBy',
+    'tested-by': 'testedBy',
+    'signed-off-by': 'signedOffBy',
+};
+
 // %aN/%aE respect .mailmap so contributors with multiple identities merge;
 // %aI is strict ISO 8601. Trailer key matching is case-insensitive in git,
 // so this catches both "Co-authored-by" and "Co-Authored-By".
@@ -36,6 +72,7 @@ export const COMMIT_LOG_FORMAT =
     '%x00%(trailers:key=Co-authored-by,unfold,valueonly,separator=%x3B)' +
     '%x00%(trailers:key=Entire-Checkpoint,unfold,valueonly,separator=%x3B)' +
     '%x00%(trailers:key=Entire-Attribution,unfold,valueonly,separator=%x3B)' +
+    REVIEW_TRAILERS +
     '%x1e';
 
 // Variant for logs that append per-commit file lists (--name-only). Files
@@ -46,7 +83,49 @@ export const COMMIT_LOG_FORMAT_WITH_FILES =
     '%H%x00%aN%x00%aE%x00%aI%x00%s' +
     '%x00%(trailers:key=Co-authored-by,unfold,valueonly,separator=%x3B)' +
     '%x00%(trailers:key=Entire-Checkpoint,unfold,valueonly,separator=%x3B)' +
-    '%x00%(trailers:key=Entire-Attribution,unfold,valueonly,separator=%x3B)';
+    '%x00%(trailers:key=Entire-Attribution,unfold,valueonly,separator=%x3B)' +
+    REVIEW_TRAILERS;
+
+// Record separator leads so the --numstat block that git prints after the
+// metadata line belongs to the same record. Merges have no numstat entries.
+// Read with NUMSTAT_LOG_ARGS: without -z git C-quotes non-ASCII paths.
+// The committer date follows the review trailers so cached history can be re-windowed
+// with the same semantics as `git log --since`; parent SHAs come last so
+// merge topology (pull request reconstruction) survives in the cache.
+export const COMMIT_LOG_FORMAT_WITH_NUMSTAT =
+    '%x1e%H%x00%aN%x00%aE%x00%aI%x00%s' +
+    '%x00%(trailers:key=Co-authored-by,unfold,valueonly,separator=%x3B)' +
+    '%x00%(trailers:key=Entire-Checkpoint,unfold,valueonly,separator=%x3B)' +
+    '%x00%(trailers:key=Entire-Attribution,unfold,valueonly,separator=%x3B)' +
+    REVIEW_TRAILERS +
+    '%x00%cI%x00%P';
+
+/** `git log` arguments for COMMIT_LOG_FORMAT_WITH_NUMSTAT output. */
+export const NUMSTAT_LOG_ARGS: readonly string[] =
+    ['log', '-z', '--numstat', `--pretty=format:${COMMIT_LOG_FORMAT_WITH_NUMSTAT}`];
+
+/** Options for a streamed commit log (worker `getCommits`). */
+export interface CommitLogQuery {
+    /** Maximum commits to read; 0 or omitted reads the whole history */
+    limit?: number;
+    /** Passed to `git log --since` */
+    sinceDate?: string;
+    /** Passed to `git log --until` */
+    untilDate?: string;
+    /** Revision range such as "<sha>..HEAD"; defaults to HEAD */
+    range?: string;
+}
+
+/** Periodic progress posted by the worker while a log is streaming. */
+export interface CommitStreamProgress {
+    commits: number;
+}
+
+export interface CommitStreamResult {
+    commits: ParsedCommit[];
+    /** True when reading stopped at the memory ceiling before history ended */
+    truncated: boolean;
+}
 
 /** Parse a "Name <email>" co-author value. Returns null for malformed values. */
 export function parseCoAuthorValue(value: string): ParsedCoAuthor | null {
@@ -57,6 +136,26 @@ export function parseCoAuthorValue(value: string): ParsedCoAuthor | null {
     return { name: match[1].trim(), email: match[2].trim().toLowerCase() };
 }
 
+/**
+ * Split a review-trailer field ("Reviewed-by: A <a@x>;Acked-by: B <b@x>")
+ * into identities per trailer kind. Kinds with no valid entries are omitted.
+ */
+export function parseReviewTrailers(value: string): Pick<ParsedCommit, ReviewTrailerField> {
+    const result: Pick<ParsedCommit, ReviewTrailerField> = {};
+    for (const entry of value.split(';')) {
+        const separator = entry.indexOf(':');
+        if (separator < 0) {
+            continue;
+        }
+        const field = REVIEW_TRAILER_KEYS[entry.slice(0, separator).trim().toLowerCase()];
+        const identity = field ? parseCoAuthorValue(entry.slice(separator + 1)) : null;
+        if (field && identity) {
+            (result[field] ??= []).push(identity);
+        }
+    }
+    return result;
+}
+
 function commitFromFields(fields: string[], files: string[]): ParsedCommit | null {
     if (fields.length < 5 || !fields[0]) {
         return null;
@@ -79,6 +178,7 @@ function commitFromFields(fields: string[], files: string[]): ParsedCommit | nul
         coAuthors,
         checkpointId: checkpointId || undefined,
         attribution: attribution || undefined,
+        ...parseReviewTrailers(fields[8] ?? ''),
     };
 }
 
@@ -110,3 +210,126 @@ export function parseCommitLogWithFiles(output: string): ParsedCommit[] {
         })
         .filter((commit): commit is ParsedCommit => commit !== null);
 }
+
+interface NumstatEntry {
+    path: string;
+    added: number;
+    deleted: number;
+}
+
+/**
+ * Parse NUL-terminated `--numstat -z` entries. Paths come through as-is;
+ * a rename has an empty path field followed by the old and new paths, and
+ * resolves to the new one. "-" counts (binary files) read as 0.
+ */
+function parseNumstatEntries(output: string): NumstatEntry[] {
+    const entries: NumstatEntry[] = [];
+    const fields = output.split('\0');
+    for (let i = 0; i < fields.length; i++) {
+        const match = fields[i].match(/^(\d+|-)\t(\d+|-)\t([\s\S]*)$/);
+        if (!match) {
+            continue;
+        }
+        let filePath = match[3];
+        if (filePath === '') {
+            // Rename or copy: old path, then new path
+            filePath = fields[i + 2] ?? '';
+            i += 2;
+        }
+        if (filePath) {
+            const count = (value: string) => value === '-' ? 0 : Number.parseInt(value, 10);
+            entries.push({ path: filePath, added: count(match[1]), deleted: count(match[2]) });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Parse one COMMIT_LOG_FORMAT_WITH_NUMSTAT record (without its leading
+ * separator). Exported so streaming readers can parse records as they arrive.
+ */
+export function parseNumstatRecord(record: string): ParsedCommit | null {
+    // Metadata fields never contain newlines; merges have no "\n" or entries
+    const newline = record.indexOf('\n');
+    const metadataLine = newline >= 0 ? record.slice(0, newline) : record;
+    if (!metadataLine) {
+        return null;
+    }
+
+    const files: string[] = [];
+    let additions = 0;
+    let deletions = 0;
+    for (const entry of newline >= 0 ? parseNumstatEntries(record.slice(newline + 1)) : []) {
+        additions += entry.added;
+        deletions += entry.deleted;
+        files.push(entry.path);
+    }
+
+    const fields = metadataLine.split(FIELD_SEP);
+    const commit = commitFromFields(fields, files);
+    if (!commit) {
+        return null;
+    }
+    const parents = (fields[10] ?? '').split(' ').filter(parent => parent.length > 0);
+    return { ...commit, additions, deletions, committedDate: fields[9] || undefined, parents };
+}
+
+/**
+ * Parse `git diff --numstat -z` output: each path with lines added plus
+ * deleted (0 for binary files). Paths are NUL-terminated and never quoted,
+ * so names with tabs, newlines or non-ASCII characters come through as-is;
+ * a rename has an empty path field followed by the old and new paths.
+ */
+export function parseDiffNumstat(output: string): Array<{ path: string; lines: number }> {
+    return parseNumstatEntries(output).map(entry => ({ path: entry.path, lines: entry.added + entry.deleted }));
+}
+
+/** Parse output produced with COMMIT_LOG_FORMAT_WITH_NUMSTAT (--numstat). */
+export function parseCommitLogWithNumstat(output: string): ParsedCommit[] {
+    return output
+        .split(RECORD_SEP)
+        .map(record => record.replace(/^[\r\n]+/, ''))
+        .filter(record => record.length > 0)
+        .map(record => parseNumstatRecord(record))
+        .filter((commit): commit is ParsedCommit => commit !== null);
+}
+
+/** Incremental splitter fed by a streaming `git log` child process. */
+export interface RecordSplitter {
+    /** Feed a decoded stdout chunk; complete records are emitted synchronously */
+    push(chunk: string): void;
+    /** Emit whatever remains buffered once the stream has ended */
+    flush(): void;
+}
+
+/**
+ * Split streamed log output on the record separator without holding the
+ * whole output in memory. Only the trailing partial record is buffered.
+ * Works for both separator placements: empty leading/trailing records
+ * are dropped.
+ */
+export function createRecordSplitter(onRecord: (record: string) => void): RecordSplitter {
+    let buffer = '';
+    const emit = (record: string) => {
+        const trimmed = record.replace(/^[\r\n]+/, '');
+        if (trimmed.length > 0) {
+            onRecord(trimmed);
+        }
+    };
+
+    return {
+        push(chunk: string) {
+            buffer += chunk;
+            let separatorIndex = buffer.indexOf(RECORD_SEP);
+            while (separatorIndex >= 0) {
+                emit(buffer.slice(0, separatorIndex));
+                buffer = buffer.slice(separatorIndex + 1);
+                separatorIndex = buffer.indexOf(RECORD_SEP);
+            }
+        },
+        flush() {
+            emit(buffer);
+            buffer = '';
+        },
+    };
+}
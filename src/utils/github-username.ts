@@ -0,0 +1,28 @@
+/**
+ * GitHub logins from commit identities. Only GitHub's own addresses carry
+ * the login; anything else is a guess. Must NOT import 'vscode'.
+ */
+
+/**
+ * The login in a GitHub address: `username@users.noreply.github.com`,
+ * `12345+username@users.noreply.github.com` or `username@github.com`.
+ */
+export function parseGitHubEmail(email: string): string | undefined {
+    const match = email.match(/^(?:\d+\+)?([^@]+)@(users\.noreply\.)?github\.com$/);
+    return match ? normalizeGitHubUsername(match[1]) || undefined : undefined;
+}
+
+/** Best guess at a login for avatars: the GitHub address, else the email's local part, else the name. */
+export function guessGitHubUsername(email: string, name: string): string {
+    const candidate = parseGitHubEmail(email) ?? (email.includes('@') ? email.split('@')[0] : '');
+    return normalizeGitHubUsername(candidate || name);
+}
+
+function normalizeGitHubUsername(value: string): string {
+    return value
+        .replace(/^\d+\+/, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9-]/g, '')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 39);
+}
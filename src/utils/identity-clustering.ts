@@ -0,0 +1,293 @@
+/**
+ * Identity resolution for histories without a .mailmap: clusters author
+ * identities that are likely the same person, so "Jane Doe <jane@corp>" and
+ * "jdoe <jane@gmail>" count as one expert, and renders the clusters as
+ * .mailmap entries. Must NOT import 'vscode'.
+ */
+import type { GitAuthor, GitCommit } from '../types/expert';
+import { detectBotContributor } from './bot-detection';
+
+export interface IdentityCluster {
+    /** Identity the aliases map to: the most used full name and non-noreply email */
+    canonical: GitAuthor;
+    /** Other name/email pairs of the same person, as they appear in commits */
+    aliases: GitAuthor[];
+    /** Why the identities were grouped, e.g. "same name" */
+    reasons: string[];
+    /** Commits across all of the person's identities */
+    commits: number;
+}
+
+interface Identity {
+    author: GitAuthor;
+    commits: number;
+    /** Lowercased, accent-free name tokens */
+    tokens: string[];
+    /** GitHub login from a noreply address */
+    login?: string;
+    /** Numeric GitHub user id from a noreply address */
+    githubId?: string;
+}
+
+const NOREPLY_EMAIL = /^(?:(\d+)\+)?([^@]+)@users\.noreply\.github\.com$/i;
+// Shared or placeholder identities that must never anchor a merge
+const GENERIC_NAMES = new Set([
+    'root', 'admin', 'administrator', 'user', 'ubuntu', 'unknown', 'git', 'dev', 'developer',
+    'test', 'info', 'contact', 'noreply', 'github', 'support', 'build', 'ci', 'jenkins', 'team',
+]);
+// Handles shorter than this match too many unrelated names
+const MIN_HANDLE_LENGTH = 4;
+
+function identityKey(author: GitAuthor): string {
+    return `${author.name}\0${author.email.toLowerCase()}`;
+}
+
+function nameTokens(name: string): string[] {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 0);
+}
+
+// Email local part without separators or +tags: "Jane.Doe+git" -> "janedoe"
+function emailHandle(email: string): string {
+    return email.split('@')[0].split('+')[0].toLowerCase().replace(/[._-]/g, '');
+}
+
+function isNoreply(email: string): boolean {
+    return NOREPLY_EMAIL.test(email);
+}
+
+// Two people can share a name, so a shared name links identities only when
+// their emails back it up: the same domain, the same handle, or a handle
+// drawn from the name (a name token, the full name or initial and surname)
+function emailsCorroborate(a: Identity, b: Identity): boolean {
+    const handleOf = (identity: Identity) => identity.login?.replace(/[._-]/g, '') ?? emailHandle(identity.author.email);
+    const domainOf = (identity: Identity) => isNoreply(identity.author.email) ? undefined : identity.author.email.split('@')[1]?.toLowerCase();
+    const fromName = (identity: Identity) => {
+        const handle = handleOf(identity);
+        const tokens = identity.tokens;
+        return tokens.includes(handle)
+            || handle === tokens.join('')
+            || handle === `${tokens[0][0]}${tokens[tokens.length - 1]}`;
+    };
+    const domain = domainOf(a);
+    return (domain !== undefined && domain === domainOf(b))
+        || handleOf(a) === handleOf(b)
+        || fromName(a)
+        || fromName(b);
+}
+
+class UnionFind {
+    private readonly parent: number[];
+
+    constructor(size: number) {
+        this.parent = Array.from({ length: size }, (_, i) => i);
+    }
+
+    find(i: number): number {
+        while (this.parent[i] !== i) {
+            this.parent[i] = this.parent[this.parent[i]];
+            i = this.parent[i];
+        }
+        return i;
+    }
+
+    union(a: number, b: number): void {
+        this.parent[this.find(a)] = this.find(b);
+    }
+}
+
+function collectIdentities(commits: GitCommit[]): Identity[] {
+    const byKey = new Map<string, Identity>();
+    for (const commit of commits) {
+        const author = commit.author;
+        if (!author?.email || detectBotContributor(author.name, author.email)) {
+            continue;
+        }
+        const key = identityKey(author);
+        const existing = byKey.get(key);
+        if (existing) {
+            existing.commits++;
+            continue;
+        }
+        const noreply = NOREPLY_EMAIL.exec(author.email);
+        byKey.set(key, {
+            author: { name: author.name, email: author.email },
+            commits: 1,
+            tokens: nameTokens(author.name),
+            login: noreply?.[2].toLowerCase(),
+            githubId: noreply?.[1],
+        });
+    }
+    return Array.from(byKey.values());
+}
+
+/**
+ * Cluster likely aliases among the commit authors. Identities are linked
+ * when they share an email, share a full (multi-word) name that their
+ * emails corroborate (same domain, same handle, or a handle taken from the
+ * name), share a GitHub
+ * noreply user id, or when one's handle (email local part, noreply login,
+ * or single-word name) spells out another's full name or initial and
+ * surname unambiguously. Bots are never clustered. Clusters come largest first.
+ */
+export function clusterIdentities(commits: GitCommit[]): IdentityCluster[] {
+    const identities = collectIdentities(commits);
+    const sets = new UnionFind(identities.length);
+    const links: Array<{ a: number; reason: string }> = [];
+    const link = (a: number, b: number, reason: string) => {
+        if (sets.find(a) !== sets.find(b)) {
+            sets.union(a, b);
+            links.push({ a, reason });
+        }
+    };
+    const linkAll = (groups: Map<string, number[]>, reason: string) => {
+        for (const members of groups.values()) {
+            for (let i = 1; i < members.length; i++) {
+                link(members[0], members[i], reason);
+            }
+        }
+    };
+    const group = (keyOf: (identity: Identity, index: number) => string | undefined) => {
+        const groups = new Map<string, number[]>();
+        identities.forEach((identity, index) => {
+            const key = keyOf(identity, index);
+            if (key) {
+                const members = groups.get(key);
+                if (members) {
+                    members.push(index);
+                } else {
+                    groups.set(key, [index]);
+                }
+            }
+        });
+        return groups;
+    };
+
+    const fullName = (identity: Identity) =>
+        identity.tokens.length >= 2 && !identity.tokens.every(token => GENERIC_NAMES.has(token))
+            ? identity.tokens.join('')
+            : undefined;
+
+    const byCompactName = group(fullName);
+    linkAll(group(identity => identity.author.email.toLowerCase()), 'same email');
+    for (const members of byCompactName.values()) {
+        for (let i = 0; i < members.length; i++) {
+            for (let j = i + 1; j < members.length; j++) {
+                if (emailsCorroborate(identities[members[i]], identities[members[j]])) {
+                    link(members[i], members[j], 'same name');
+                }
+            }
+        }
+    }
+    linkAll(group(identity => identity.githubId), 'same GitHub user id');
+
+    // Handles -> the full names they spell; initial+surname keys only when
+    // they point at a single person
+    const byInitialSurname = group(identity => fullName(identity) && `${identity.tokens[0][0]}${identity.tokens[identity.tokens.length - 1]}`);
+    identities.forEach((identity, index) => {
+        const handles = new Set<string>();
+        const login = identity.login?.replace(/[._-]/g, '');
+        if (!isNoreply(identity.author.email)) {
+            handles.add(emailHandle(identity.author.email));
+        }
+        if (login) {
+            handles.add(login);
+        }
+        if (identity.tokens.length === 1) {
+            handles.add(identity.tokens[0]);
+        }
+        for (const handle of handles) {
+            if (handle.length < MIN_HANDLE_LENGTH || GENERIC_NAMES.has(handle)) {
+                continue;
+            }
+            const named = byCompactName.get(handle);
+            if (named) {
+                link(index, named[0], login === handle ? 'GitHub login matches name' : 'handle matches name');
+                continue;
+            }
+            const initials = byInitialSurname.get(handle);
+            if (initials && new Set(initials.map(i => fullName(identities[i]))).size === 1) {
+                link(index, initials[0], 'handle matches initial and surname');
+            }
+        }
+    });
+
+    const members = group((_, index) => String(sets.find(index)));
+    const reasonsByRoot = new Map<string, Set<string>>();
+    for (const { a, reason } of links) {
+        const root = String(sets.find(a));
+        reasonsByRoot.set(root, (reasonsByRoot.get(root) ?? new Set()).add(reason));
+    }
+
+    const clusters: IdentityCluster[] = [];
+    for (const [root, indexes] of members) {
+        if (indexes.length < 2) {
+            continue;
+        }
+        const cluster = indexes.map(i => identities[i]);
+        const canonical = pickCanonical(cluster);
+        const aliases = cluster
+            .map(identity => identity.author)
+            .filter(author => identityKey(author) !== identityKey(canonical));
+        clusters.push({
+            canonical,
+            aliases,
+            reasons: Array.from(reasonsByRoot.get(root) ?? []),
+            commits: cluster.reduce((sum, identity) => sum + identity.commits, 0),
+        });
+    }
+    return clusters.sort((a, b) => b.commits - a.commits);
+}
+
+// Most used multi-word name and most used real (non-noreply) email
+function pickCanonical(cluster: Identity[]): GitAuthor {
+    const tally = (values: Array<[string, number]>) => {
+        const totals = new Map<string, number>();
+        for (const [value, count] of values) {
+            totals.set(value, (totals.get(value) ?? 0) + count);
+        }
+        return Array.from(totals).sort((a, b) => b[1] - a[1])[0]?.[0];
+    };
+    const fullNames = cluster.filter(identity => identity.tokens.length >= 2);
+    const realEmails = cluster.filter(identity => !isNoreply(identity.author.email));
+    return {
+        name: tally((fullNames.length > 0 ? fullNames : cluster).map(identity => [identity.author.name, identity.commits]))!,
+        email: tally((realEmails.length > 0 ? realEmails : cluster).map(identity => [identity.author.email, identity.commits]))!,
+    };
+}
+
+/** Maps an author to its cluster's canonical identity; authors outside any cluster map to themselves. */
+export function buildIdentityResolver(clusters: IdentityCluster[]): (author: GitAuthor) => GitAuthor {
+    const canonicalByKey = new Map<string, GitAuthor>();
+    for (const cluster of clusters) {
+        for (const alias of cluster.aliases) {
+            canonicalByKey.set(identityKey(alias), cluster.canonical);
+        }
+    }
+    return author => (author ? canonicalByKey.get(identityKey(author)) ?? author : author);
+}
+
+/** One .mailmap line per alias: "Proper Name <proper@email> Commit Name <commit@email>". */
+export function formatMailmapEntries(clusters: IdentityCluster[]): string[] {
+    return clusters.flatMap(cluster => cluster.aliases.map(alias =>
+        `${cluster.canonical.name} <${cluster.canonical.email}> ${alias.name} <${alias.email}>`
+    ));
+}
+
+/**
+ * Append entries to existing .mailmap content, skipping lines already
+ * present. Returns the content unchanged when there is nothing new.
+ */
+export function appendMailmapEntries(existing: string, entries: string[]): string {
+    const present = new Set(existing.split(/\r?\n/).map(line => line.trim()));
+    const added = Array.from(new Set(entries)).filter(entry => !present.has(entry));
+    if (added.length === 0) {
+        return existing;
+    }
+    const separator = existing.length === 0 || existing.endsWith('\n') ? '' : '\n';
+    return `${existing}${separator}${added.join('\n')}\n`;
+}
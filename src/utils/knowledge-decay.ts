@@ -0,0 +1,70 @@
+/**
+ * Recency-weighted expertise: knowledge fades, so each commit (or surviving
+ * blame line) counts for less the older it is, halving every half-life.
+ * Someone who wrote most of a module two years ago and has not touched it
+ * since ranks below the person who reworked it last month. Must NOT import
+ * 'vscode'.
+ */
+import type { GitAuthor, GitCommit, LineOwner } from '../types/expert';
+
+/** Days after which a commit or line counts half as much */
+export const DEFAULT_HALF_LIFE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DecayOptions {
+    /** 0 or less turns decay off: everything counts in full */
+    halfLifeDays: number;
+    /** Reference time in epoch milliseconds; defaults to now */
+    now?: number;
+}
+
+/**
+ * Weight (0-1] of work done at `date` (ISO string or epoch milliseconds).
+ * Unparseable dates weigh nothing; future dates (clock skew) weigh 1.
+ */
+export function decayWeight(date: string | number, options: DecayOptions): number {
+    if (options.halfLifeDays <= 0) {
+        return 1;
+    }
+    const time = typeof date === 'number' ? date : Date.parse(date);
+    if (!Number.isFinite(time)) {
+        return 0;
+    }
+    const ageDays = Math.max(0, ((options.now ?? Date.now()) - time) / DAY_MS);
+    return Math.pow(0.5, ageDays / options.halfLifeDays);
+}
+
+/**
+ * A blame owner's surviving lines, each weighted by when it was written.
+ * Owners without per-commit times fall back to their newest line's date.
+ */
+export function decayedLines(owner: LineOwner, options: DecayOptions): number {
+    if (!owner.linesByTime?.length) {
+        return owner.lines * decayWeight(owner.lastCommitDate, options);
+    }
+    return owner.linesByTime.reduce((sum, entry) => sum + entry.lines * decayWeight(entry.time * 1000, options), 0);
+}
+
+/** Decayed commit count per author, keyed by lowercased (resolved) email. */
+export function decayedCommitCounts(
+    commits: GitCommit[],
+    options: DecayOptions & { resolveAuthor?: (author: GitAuthor) => GitAuthor }
+): Map<string, number> {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const counts = new Map<string, number>();
+    for (const commit of commits) {
+        if (!commit.author) {
+            continue;
+        }
+        const key = resolveAuthor(commit.author).email.toLowerCase();
+        counts.set(key, (counts.get(key) ?? 0) + decayWeight(commit.date, options));
+    }
+    return counts;
+}
+
+/** Weights rescaled to 0-100 against the largest, rounded. */
+export function relativeScores(weights: Map<string, number>): Map<string, number> {
+    const max = Math.max(0, ...weights.values());
+    return new Map(Array.from(weights, ([key, weight]) => [key, max > 0 ? Math.round(weight / max * 100) : 0]));
+}
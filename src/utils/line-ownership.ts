@@ -0,0 +1,142 @@
+/**
+ * Line-level ownership for the editor heatmap: who last changed each line,
+ * how that person ranks among the file's experts, how old the line is and
+ * whether an agent helped write it. Lines come from blame of the file on
+ * disk, agent signals from the trailers of the commits behind them.
+ * Must NOT import 'vscode'.
+ */
+import type { FileLineOwnership, GitAuthor, GitCommit, LineAuthorship } from '../types/expert';
+import { classifyContributor, detectCommitAgentSignals } from './bot-detection';
+import { UNCOMMITTED_SHA, type BlameLine } from './git-blame';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bounds (days) of the age buckets; older lines fall in the last bucket */
+export const LINE_AGE_BUCKET_DAYS = [30, 180, 365];
+
+const KIND_LABELS: Record<LineAuthorship['contributorKind'], string> = {
+    'human': 'Human',
+    'ai-assisted-human': 'AI-assisted human',
+    'ai-agent': 'AI agent',
+    'automation-bot': 'Automation bot',
+};
+
+export interface LineOwnershipOptions {
+    /** Maps aliases to one identity so a person is ranked once */
+    resolveAuthor?: (author: GitAuthor) => GitAuthor;
+    /** Resolved, lowercased emails in the order Find Expert lists the file's experts */
+    ranking?: string[];
+}
+
+/**
+ * Annotate blamed lines with their author's rank and kind and the commit's
+ * agent signals. Authors are ranked in `ranking` order; anyone missing
+ * from it follows, by surviving lines. Commits missing from `commits` fall
+ * back to blame's subject.
+ */
+export function buildLineOwnership(
+    filePath: string,
+    blame: BlameLine[],
+    commits: GitCommit[],
+    options: LineOwnershipOptions = {}
+): FileLineOwnership {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const commitsBySha = new Map(commits.map(commit => [commit.sha, commit]));
+    const authors = new Map<string, { identity: GitAuthor; lines: number; commits: GitCommit[] }>();
+    const authorKeys = new Map<string, string>();
+
+    for (const line of blame) {
+        if (line.sha === UNCOMMITTED_SHA) {
+            continue;
+        }
+        const identity = resolveAuthor({ name: line.name, email: line.email });
+        const key = identity.email.toLowerCase() || identity.name;
+        const author = authors.get(key) ?? { identity, lines: 0, commits: [] };
+        author.lines++;
+        const commit = commitsBySha.get(line.sha);
+        if (commit && !author.commits.includes(commit)) {
+            author.commits.push(commit);
+        }
+        authors.set(key, author);
+        authorKeys.set(line.sha, key);
+    }
+
+    const order = new Map((options.ranking ?? []).map((key, index) => [key, index]));
+    const position = (key: string) => order.get(key) ?? order.size;
+    const ranked = Array.from(authors.entries())
+        .sort(([xKey, x], [yKey, y]) => position(xKey) - position(yKey)
+            || y.lines - x.lines
+            || x.identity.name.localeCompare(y.identity.name));
+    const ranks = new Map(ranked.map(([key], index) => [key, index + 1]));
+    const kinds = new Map(ranked.map(([key, author]) => [
+        key,
+        classifyContributor(author.identity.name, author.identity.email, author.commits).kind,
+    ]));
+
+    return {
+        filePath,
+        experts: ranked.length,
+        lines: blame.map(line => {
+            const key = authorKeys.get(line.sha);
+            const author = key ? authors.get(key) : undefined;
+            if (!key || !author) {
+                return {
+                    line: line.line,
+                    sha: line.sha,
+                    name: line.name,
+                    email: line.email,
+                    contributorKind: 'human',
+                    rank: 0,
+                    time: 0,
+                    summary: '',
+                    agentAssisted: false,
+                    agents: [],
+                    uncommitted: true,
+                };
+            }
+            const commit = commitsBySha.get(line.sha);
+            const signals = commit ? detectCommitAgentSignals(commit) : undefined;
+            return {
+                line: line.line,
+                sha: line.sha,
+                name: author.identity.name,
+                email: author.identity.email,
+                contributorKind: kinds.get(key) ?? 'human',
+                rank: ranks.get(key) ?? 0,
+                time: line.time,
+                summary: commit?.message || line.summary,
+                agentAssisted: signals?.assisted ?? false,
+                agents: signals?.agents ?? [],
+                uncommitted: false,
+            };
+        }),
+    };
+}
+
+/** 0 for the newest lines up to LINE_AGE_BUCKET_DAYS.length for the oldest. */
+export function lineAgeBucket(line: LineAuthorship, now: number = Date.now()): number {
+    const ageDays = (now - line.time * 1000) / DAY_MS;
+    const bucket = LINE_AGE_BUCKET_DAYS.findIndex(days => ageDays <= days);
+    return bucket === -1 ? LINE_AGE_BUCKET_DAYS.length : bucket;
+}
+
+/**
+ * The hover for one line as plain-text paragraphs: author, kind and rank,
+ * then the commit, then any agents that helped write it.
+ */
+export function describeLineAuthorship(line: LineAuthorship, experts: number, now: number = Date.now()): string[] {
+    if (line.uncommitted) {
+        return ['Not committed yet'];
+    }
+    const date = new Date(line.time * 1000);
+    const days = Math.max(0, Math.floor((now - date.getTime()) / DAY_MS));
+    const paragraphs = [
+        `${line.name} · ${KIND_LABELS[line.contributorKind]} · #${line.rank} of ${experts} expert${experts === 1 ? '' : 's'} in this file`,
+        `${line.summary || '(no subject)'} (${line.sha.slice(0, 7)}, ${date.toISOString().slice(0, 10)}, ${days} day${days === 1 ? '' : 's'} ago)`,
+    ];
+    if (line.agentAssisted) {
+        paragraphs.push(line.agents.length > 0
+            ? `Agent-assisted: ${line.agents.join(', ')}`
+            : 'Agent-assisted (attribution trailer)');
+    }
+    return paragraphs;
+}
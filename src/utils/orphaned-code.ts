@@ -0,0 +1,136 @@
+/**
+ * Orphaned and stale-knowledge code: files whose experts have all stopped
+ * committing for longer than a threshold, and files no human has changed.
+ * A file's experts are its degree-of-authorship authors (the bus factor's
+ * measure), or every human who changed it when nobody qualifies; how long
+ * each has been away comes from their last commit anywhere in the
+ * repository. Both need the full history: a window no longer than the
+ * threshold holds nobody who has been gone that long. Must NOT import
+ * 'vscode'.
+ */
+import type { GitAuthor, GitCommit, OrphanedCodeReport, OrphanedFile } from '../types/expert';
+import { detectBotContributor } from './bot-detection';
+import { fileAuthors } from './bus-factor';
+
+/** Days without a commit after which an expert counts as gone */
+export const DEFAULT_ORPHANED_INACTIVE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OrphanedCodeOptions {
+    /** Days without a commit after which an expert counts as inactive */
+    inactiveDays: number;
+    /** Contributors with their last commit; people missing here use their last commit in `commits` */
+    contributors?: Array<{ name: string; email: string; lastCommit: string }>;
+    resolveAuthor?: (author: GitAuthor) => GitAuthor;
+    /** Files that exist now, each checked against its history in `commits`; defaults to every file in the commits */
+    files?: string[];
+    /** Reference time in epoch milliseconds; defaults to now */
+    now?: number;
+}
+
+/** Orphaned files in the commits' history, longest-inactive first. */
+export function detectOrphanedCode(commits: GitCommit[], options: OrphanedCodeOptions): OrphanedCodeReport {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const existing = options.files?.length ? new Set(options.files) : undefined;
+    const cutoff = (options.now ?? Date.now()) - options.inactiveDays * DAY_MS;
+
+    const names = new Map<string, string>();
+    const lastCommit = new Map<string, number>();
+    const changedBy = new Map<string, Set<string>>();
+    const automation = new Map<string, { name: string; time: number }>();
+    for (const commit of commits) {
+        const time = Date.parse(commit.date);
+        if (!commit.author || !Number.isFinite(time)) {
+            continue;
+        }
+        const author = resolveAuthor(commit.author);
+        const isAutomation = !author.email || detectBotContributor(author.name, author.email);
+        const key = author.email.toLowerCase();
+        if (!isAutomation) {
+            names.set(key, names.get(key) ?? author.name);
+            lastCommit.set(key, Math.max(lastCommit.get(key) ?? 0, time));
+        }
+        for (const file of commit.files ?? []) {
+            if (existing && !existing.has(file)) {
+                continue;
+            }
+            const people = changedBy.get(file) ?? new Set<string>();
+            changedBy.set(file, people);
+            if (!isAutomation) {
+                people.add(key);
+            } else if (time > (automation.get(file)?.time ?? -Infinity)) {
+                automation.set(file, { name: author.name || author.email, time });
+            }
+        }
+    }
+    for (const contributor of options.contributors ?? []) {
+        const time = Date.parse(contributor.lastCommit);
+        const key = String(contributor.email ?? '').toLowerCase();
+        if (Number.isFinite(time)) {
+            lastCommit.set(key, Math.max(lastCommit.get(key) ?? 0, time));
+        }
+    }
+
+    const { authors } = fileAuthors(commits, { resolveAuthor, files: options.files });
+    const orphaned: OrphanedFile[] = [];
+    const checked = options.files?.length ? Array.from(new Set(options.files)) : Array.from(changedBy.keys());
+    let checkedFiles = 0;
+    for (const filePath of checked) {
+        const people = changedBy.get(filePath);
+        // No history to judge by (e.g. older than a truncated read)
+        if (!people) {
+            continue;
+        }
+        checkedFiles++;
+        if (people.size === 0) {
+            const last = automation.get(filePath);
+            if (last) {
+                orphaned.push({
+                    filePath,
+                    reason: 'automation-only',
+                    experts: [],
+                    lastKnownBy: last.name,
+                    lastActive: new Date(last.time).toISOString(),
+                });
+            }
+            continue;
+        }
+        const doa = authors.get(filePath);
+        const experts = Array.from(doa?.size ? doa : people)
+            .map(key => ({ key, time: lastCommit.get(key) ?? 0 }))
+            .sort((x, y) => y.time - x.time || x.key.localeCompare(y.key));
+        if (experts[0].time >= cutoff) {
+            continue;
+        }
+        orphaned.push({
+            filePath,
+            reason: 'inactive-experts',
+            experts: experts.map(expert => names.get(expert.key) ?? expert.key),
+            lastKnownBy: names.get(experts[0].key) ?? experts[0].key,
+            lastActive: new Date(experts[0].time).toISOString(),
+        });
+    }
+
+    orphaned.sort((x, y) => x.lastActive.localeCompare(y.lastActive) || x.filePath.localeCompare(y.filePath));
+    return {
+        inactiveDays: options.inactiveDays,
+        checkedFiles,
+        orphanedFiles: orphaned.length,
+        files: orphaned,
+    };
+}
+
+/** One-line notice saying who last knew an orphaned file, and when. */
+export function describeOrphanedFile(file: OrphanedFile, now: number = Date.now()): string {
+    const time = Date.parse(file.lastActive);
+    const days = Number.isFinite(time) ? Math.max(0, Math.floor((now - time) / DAY_MS)) : undefined;
+    const when = days === undefined
+        ? 'at an unknown date'
+        : `on ${file.lastActive.slice(0, 10)} (${days === 0 ? 'today' : `${days} day${days === 1 ? '' : 's'} ago`})`;
+    if (file.reason === 'automation-only') {
+        return `No human has changed ${file.filePath} in the analysed history. ${file.lastKnownBy} last changed it ${when}.`;
+    }
+    const others = file.experts.length > 1 ? ` Other experts: ${file.experts.filter(name => name !== file.lastKnownBy).join(', ')}.` : '';
+    return `Nobody active knows ${file.filePath}. ${file.lastKnownBy} knew it most recently and last committed ${when}.${others}`;
+}
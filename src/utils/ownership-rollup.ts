@@ -0,0 +1,134 @@
+/**
+ * Ownership rolled up the directory hierarchy: for every folder, the people
+ * who author most of the files under it, its bus factor, and when a human
+ * last touched it. File authorship is the bus factor's degree-of-authorship
+ * model, so a folder's owners and its bus factor always agree. Must NOT
+ * import 'vscode'.
+ */
+import type { DirectoryExpert, DirectoryOwnership, GitAuthor, GitCommit } from '../types/expert';
+import { detectBotContributor } from './bot-detection';
+import { fileAuthors, truckFactor, type BusFactorOptions } from './bus-factor';
+
+/** Folders deeper than this are folded into their ancestor */
+export const MAX_ROLLUP_DEPTH = 3;
+const TOP_EXPERTS = 3;
+// Subfolders kept per folder, most files first; with the depth limit this
+// bounds the size of a stored analysis
+const MAX_CHILDREN = 20;
+
+export interface OwnershipRollupOptions extends BusFactorOptions {
+    maxDepth?: number;
+}
+
+interface DirectoryActivity {
+    lastActivity: number;
+    commits: Map<string, number>;
+}
+
+function directoriesOf(file: string, maxDepth: number): string[] {
+    const segments = file.split('/').slice(0, -1);
+    const directories = ['.'];
+    for (let depth = 1; depth <= Math.min(segments.length, maxDepth); depth++) {
+        directories.push(segments.slice(0, depth).join('/'));
+    }
+    return directories;
+}
+
+/** The repository root with its folders nested under it; empty without authored files. */
+export function buildOwnershipRollup(commits: GitCommit[], options: OwnershipRollupOptions = {}): DirectoryOwnership {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const maxDepth = options.maxDepth ?? MAX_ROLLUP_DEPTH;
+    const { authors, names } = fileAuthors(commits, options);
+
+    const directoryFiles = new Map<string, string[]>();
+    for (const file of authors.keys()) {
+        for (const directory of directoriesOf(file, maxDepth)) {
+            const files = directoryFiles.get(directory) ?? [];
+            files.push(file);
+            directoryFiles.set(directory, files);
+        }
+    }
+
+    // A commit counts once per folder however many of its files it changed
+    const activity = new Map<string, DirectoryActivity>();
+    for (const commit of commits) {
+        if (!commit.author) {
+            continue;
+        }
+        const author = resolveAuthor(commit.author);
+        if (!author.email || detectBotContributor(author.name, author.email)) {
+            continue;
+        }
+        const key = author.email.toLowerCase();
+        const time = Date.parse(commit.date);
+        const directories = new Set((commit.files ?? [])
+            .filter(file => authors.has(file))
+            .flatMap(file => directoriesOf(file, maxDepth)));
+        for (const directory of directories) {
+            const entry = activity.get(directory) ?? { lastActivity: -Infinity, commits: new Map() };
+            if (Number.isFinite(time) && time > entry.lastActivity) {
+                entry.lastActivity = time;
+            }
+            entry.commits.set(key, (entry.commits.get(key) ?? 0) + 1);
+            activity.set(directory, entry);
+        }
+    }
+
+    const childrenOf = new Map<string, string[]>();
+    for (const directory of directoryFiles.keys()) {
+        if (directory === '.') {
+            continue;
+        }
+        const slash = directory.lastIndexOf('/');
+        const parent = slash === -1 ? '.' : directory.slice(0, slash);
+        const siblings = childrenOf.get(parent) ?? [];
+        siblings.push(directory);
+        childrenOf.set(parent, siblings);
+    }
+
+    const build = (path: string): DirectoryOwnership => {
+        const files = directoryFiles.get(path) ?? [];
+        const owned = new Map<string, number>();
+        for (const file of files) {
+            for (const key of authors.get(file)!) {
+                owned.set(key, (owned.get(key) ?? 0) + 1);
+            }
+        }
+        const commitsBy = activity.get(path)?.commits ?? new Map<string, number>();
+        const topExperts: DirectoryExpert[] = Array.from(owned)
+            .map(([key, count]) => ({ name: names.get(key) ?? key, email: key, files: count, commits: commitsBy.get(key) ?? 0 }))
+            .sort((x, y) => y.files - x.files || y.commits - x.commits || x.name.localeCompare(y.name))
+            .slice(0, TOP_EXPERTS);
+        const lastActivity = activity.get(path)?.lastActivity;
+
+        return {
+            path,
+            files: files.length,
+            topExperts,
+            busFactor: truckFactor(new Map(files.map(file => [file, authors.get(file)!]))).busFactor,
+            lastActivity: lastActivity !== undefined && Number.isFinite(lastActivity) ? new Date(lastActivity).toISOString() : undefined,
+            children: (childrenOf.get(path) ?? [])
+                .map(child => [child, directoryFiles.get(child)!.length] as const)
+                .sort((x, y) => y[1] - x[1] || x[0].localeCompare(y[0]))
+                .slice(0, MAX_CHILDREN)
+                .map(([child]) => build(child)),
+        };
+    };
+
+    return build('.');
+}
+
+/** The deepest folder in the rollup that contains `file`, or undefined when none does. */
+export function findOwningDirectory(root: DirectoryOwnership, file: string): DirectoryOwnership | undefined {
+    let current: DirectoryOwnership | undefined;
+    let children = [root];
+    while (children.length > 0) {
+        const next: DirectoryOwnership | undefined = children.find(node => node.path === '.' || file.startsWith(`${node.path}/`));
+        if (!next) {
+            break;
+        }
+        current = next;
+        children = next.children;
+    }
+    return current;
+}
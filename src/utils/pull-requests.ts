@@ -0,0 +1,200 @@
+/**
+ * Pull requests reconstructed offline from local history. GitHub leaves two
+ * shapes behind: merge commits ("Merge pull request #123 from owner/branch"),
+ * whose second parent brings in the PR's commits, and squash merges
+ * ("Title (#123)"), a single commit on the mainline. Must NOT import 'vscode'.
+ */
+import type { GitAuthor, GitCommit, PullRequestSummary, ReconstructedPullRequest } from '../types/expert';
+
+const MERGE_SUBJECT = /^Merge pull request #(\d+) from (\S+)/;
+const SQUASH_SUBJECT = /^(.*\S)\s+\(#(\d+)\)$/;
+// Long-lived branches merged as a "PR" would otherwise claim most of history
+const MAX_COMMITS_PER_PR = 500;
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+// First-parent chain from the tip: commits that landed on the mainline
+// directly rather than through a merged branch.
+function firstParentChain(commits: GitCommit[], bySha: Map<string, GitCommit>): Set<string> {
+    const mainline = new Set<string>();
+    let current: GitCommit | undefined = commits[0];
+    while (current && !mainline.has(current.sha)) {
+        mainline.add(current.sha);
+        const parent: string | undefined = current.parents?.[0];
+        current = parent ? bySha.get(parent) : undefined;
+    }
+    return mainline;
+}
+
+// Commits reachable from the merge's second parent, stopping at the mainline,
+// at commits an earlier PR already claimed, and at the edge of the loaded history.
+function collectBranchCommits(
+    merge: GitCommit,
+    bySha: Map<string, GitCommit>,
+    mainline: Set<string>,
+    claimed: Set<string>
+): GitCommit[] {
+    const collected: GitCommit[] = [];
+    const pending = merge.parents!.slice(1);
+    const visited = new Set<string>();
+
+    while (pending.length > 0 && collected.length < MAX_COMMITS_PER_PR) {
+        const sha = pending.pop()!;
+        const commit = bySha.get(sha);
+        if (!commit || visited.has(sha) || mainline.has(sha) || claimed.has(sha)) {
+            continue;
+        }
+        visited.add(sha);
+        collected.push(commit);
+        pending.push(...(commit.parents ?? []));
+    }
+    return collected;
+}
+
+function mostFrequentAuthor(commits: GitCommit[], fallback: GitAuthor): GitAuthor {
+    const counts = new Map<string, { author: GitAuthor; count: number }>();
+    for (const commit of commits) {
+        const email = commit.author.email.toLowerCase();
+        const entry = counts.get(email) ?? { author: commit.author, count: 0 };
+        entry.count++;
+        counts.set(email, entry);
+    }
+    let best: { author: GitAuthor; count: number } | undefined;
+    for (const entry of counts.values()) {
+        if (!best || entry.count > best.count) {
+            best = entry;
+        }
+    }
+    return best?.author ?? fallback;
+}
+
+function earliestDate(commits: GitCommit[], fallback: string): string {
+    let earliest = fallback;
+    for (const commit of commits) {
+        if (Date.parse(commit.date) < Date.parse(earliest)) {
+            earliest = commit.date;
+        }
+    }
+    return earliest;
+}
+
+/**
+ * Groups commits (newest first, as `git log` prints them) into pull
+ * requests, newest merge first. The first commit is taken as the mainline
+ * tip. Commits without parent SHAs (e.g. a log that did not carry topology)
+ * still yield PRs from their subjects, just without the commits inside.
+ */
+export function reconstructPullRequests(commits: GitCommit[]): ReconstructedPullRequest[] {
+    const bySha = new Map(commits.map(commit => [commit.sha, commit]));
+    const mainline = firstParentChain(commits, bySha);
+    const hasTopology = commits.some(commit => commit.parents !== undefined);
+    const claimed = new Set<string>();
+    const pullRequests: ReconstructedPullRequest[] = [];
+
+    // Oldest first, so a commit belongs to the PR that merged it first even
+    // when a later PR's branch reaches it through an update-from-main merge
+    for (let i = commits.length - 1; i >= 0; i--) {
+        const commit = commits[i];
+        const subject = commit.message.split('\n')[0];
+        const parents = commit.parents ?? [];
+
+        const merge = MERGE_SUBJECT.exec(subject);
+        if (merge && (parents.length > 1 || !hasTopology)) {
+            const inside = hasTopology ? collectBranchCommits(commit, bySha, mainline, claimed) : [];
+            inside.forEach(c => claimed.add(c.sha));
+            pullRequests.push({
+                number: Number(merge[1]),
+                kind: 'merge',
+                sourceBranch: merge[2],
+                mergeSha: commit.sha,
+                mergedAt: commit.date,
+                merger: commit.author,
+                author: mostFrequentAuthor(inside, commit.author),
+                commits: inside
+                    .slice()
+                    .sort((a, b) => Date.parse(b.date) - Date.parse(a.date))
+                    .map(c => c.sha),
+                firstCommitAt: earliestDate(inside, commit.date),
+                additions: inside.reduce((sum, c) => sum + (c.additions ?? 0), 0),
+                deletions: inside.reduce((sum, c) => sum + (c.deletions ?? 0), 0),
+            });
+            continue;
+        }
+
+        const squash = SQUASH_SUBJECT.exec(subject);
+        if (squash && parents.length <= 1 && !claimed.has(commit.sha) && (!hasTopology || mainline.has(commit.sha))) {
+            claimed.add(commit.sha);
+            pullRequests.push({
+                number: Number(squash[2]),
+                kind: 'squash',
+                title: squash[1],
+                mergeSha: commit.sha,
+                mergedAt: commit.date,
+                author: commit.author,
+                commits: [commit.sha],
+                firstCommitAt: commit.date,
+                additions: commit.additions ?? 0,
+                deletions: commit.deletions ?? 0,
+            });
+        }
+    }
+
+    return pullRequests.reverse();
+}
+
+function median(values: number[]): number | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Merge metrics for the team health report. Time to merge only counts
+ * merge-commit PRs whose commits were in the loaded history; a squash
+ * commit's date is the merge itself.
+ */
+export function summarizePullRequests(pullRequests: ReconstructedPullRequest[]): PullRequestSummary {
+    const merges = pullRequests.filter(pr => pr.kind === 'merge');
+    // Without its commits a PR's author is unknown (it falls back to the merger)
+    const attributed = merges.filter(pr => pr.commits.length > 0);
+    const mergedByOthers = attributed.filter(pr =>
+        pr.merger && pr.merger.email.toLowerCase() !== pr.author.email.toLowerCase()
+    ).length;
+    const hoursToMerge = attributed.map(pr => Math.max(0, Date.parse(pr.mergedAt) - Date.parse(pr.firstCommitAt)) / HOUR_MS);
+
+    let first = Infinity;
+    let last = -Infinity;
+    for (const pr of pullRequests) {
+        const time = Date.parse(pr.mergedAt);
+        if (!Number.isNaN(time)) {
+            first = Math.min(first, time);
+            last = Math.max(last, time);
+        }
+    }
+    const weeks = last > first ? Math.max(1, (last - first) / WEEK_MS) : 1;
+
+    return {
+        total: pullRequests.length,
+        merges: merges.length,
+        squashes: pullRequests.length - merges.length,
+        attributedMerges: attributed.length,
+        mergedByOthers,
+        medianHoursToMerge: median(hoursToMerge),
+        perWeek: pullRequests.length / weeks,
+    };
+}
+
+/**
+ * Share (0-100) of merge-commit PRs merged by someone other than their
+ * author, or null without merge commits — squash merges do not record who
+ * merged them.
+ */
+export function measuredMergeReviewPercentage(summary: PullRequestSummary | undefined): number | null {
+    if (!summary || summary.attributedMerges === 0) {
+        return null;
+    }
+    return Math.round((summary.mergedByOthers / summary.attributedMerges) * 100);
+}
@@ -0,0 +1,178 @@
+/**
+ * Review participation measured from commit trailers (Reviewed-by,
+ * Acked-by, Tested-by, Signed-off-by) as used by kernel- and Gerrit-style
+ * workflows. Only trailers naming someone other than the commit author
+ * count: an author signing off their own change is not review. Trailer
+ * identities go through the same alias resolver as commit authors, so a
+ * person reviewing under another address is still the author.
+ */
+import type { GitAuthor, GitCommit, ReviewActivity, ReviewParticipationSummary } from '../types/expert';
+
+type ReviewCounter = Exclude<keyof ReviewActivity, 'reviewedCommits'>;
+
+const TRAILER_COUNTERS: Array<[keyof Pick<GitCommit, 'reviewedBy' | 'ackedBy' | 'testedBy' | 'signedOffBy'>, ReviewCounter]> = [
+    ['reviewedBy', 'reviewed'],
+    ['ackedBy', 'acked'],
+    ['testedBy', 'tested'],
+    ['signedOffBy', 'signedOff'],
+];
+
+function emptyActivity(): ReviewActivity {
+    return { reviewed: 0, acked: 0, tested: 0, signedOff: 0, reviewedCommits: 0 };
+}
+
+/** Maps aliases to one identity; the identity itself when none is configured */
+export type IdentityResolver = (author: GitAuthor) => GitAuthor;
+
+const sameIdentity: IdentityResolver = author => author;
+
+// Lowercased resolved email of the commit author
+function authorKey(commit: GitCommit, resolve: IdentityResolver): string {
+    return commit.author ? resolve(commit.author).email.toLowerCase() : '';
+}
+
+// Lowercased resolved emails other than the author's, once per commit even if repeated
+function otherIdentities(identities: GitAuthor[] | undefined, authorEmail: string, resolve: IdentityResolver): string[] {
+    const emails = new Set((identities ?? []).map(identity => resolve(identity).email.toLowerCase()));
+    emails.delete(authorEmail);
+    return Array.from(emails);
+}
+
+/** Whether someone other than the author reviewed, acked or tested the commit (sign-offs alone do not count). */
+export function isReviewedCommit(commit: GitCommit, resolve: IdentityResolver = sameIdentity): boolean {
+    const author = authorKey(commit, resolve);
+    return TRAILER_COUNTERS.some(([field, counter]) =>
+        counter !== 'signedOff' && otherIdentities(commit[field], author, resolve).length > 0
+    );
+}
+
+/**
+ * Review activity per identity, keyed by lowercased (resolved) email:
+ * trailers given on other people's commits, plus how many of the
+ * identity's own commits were reviewed by someone else.
+ */
+export function collectReviewActivity(commits: GitCommit[], resolve: IdentityResolver = sameIdentity): Map<string, ReviewActivity> {
+    const activity = new Map<string, ReviewActivity>();
+    const get = (email: string) => {
+        let entry = activity.get(email);
+        if (!entry) {
+            entry = emptyActivity();
+            activity.set(email, entry);
+        }
+        return entry;
+    };
+
+    for (const commit of commits) {
+        const author = authorKey(commit, resolve);
+        for (const [field, counter] of TRAILER_COUNTERS) {
+            for (const email of otherIdentities(commit[field], author, resolve)) {
+                get(email)[counter]++;
+            }
+        }
+        if (author && isReviewedCommit(commit, resolve)) {
+            get(author).reviewedCommits++;
+        }
+    }
+
+    return activity;
+}
+
+/** Sum of several identities' review activity (aliases of one person); undefined when none has any. */
+export function combineReviewActivity(entries: Array<ReviewActivity | undefined>): ReviewActivity | undefined {
+    const present = entries.filter((entry): entry is ReviewActivity => entry !== undefined);
+    if (present.length <= 1) {
+        return present[0];
+    }
+    return present.reduce((total, entry) => ({
+        reviewed: total.reviewed + entry.reviewed,
+        acked: total.acked + entry.acked,
+        tested: total.tested + entry.tested,
+        signedOff: total.signedOff + entry.signedOff,
+        reviewedCommits: total.reviewedCommits + entry.reviewedCommits,
+    }), emptyActivity());
+}
+
+/**
+ * Share of commits reviewed by someone other than their author. Commits by
+ * `excludedEmails` (automation bots) are left out of both sides.
+ */
+export function summarizeReviewParticipation(
+    commits: GitCommit[],
+    excludedEmails: Set<string> = new Set(),
+    resolve: IdentityResolver = sameIdentity
+): ReviewParticipationSummary {
+    const considered = commits.filter(commit => !excludedEmails.has(commit.author?.email?.toLowerCase() ?? ''));
+    const reviewers = new Set<string>();
+    let reviewedCommits = 0;
+
+    for (const commit of considered) {
+        const author = authorKey(commit, resolve);
+        let reviewed = false;
+        for (const [field, counter] of TRAILER_COUNTERS) {
+            if (counter === 'signedOff') {
+                continue;
+            }
+            for (const email of otherIdentities(commit[field], author, resolve)) {
+                reviewers.add(email);
+                reviewed = true;
+            }
+        }
+        if (reviewed) {
+            reviewedCommits++;
+        }
+    }
+
+    return {
+        totalCommits: considered.length,
+        reviewedCommits,
+        participation: considered.length > 0 ? reviewedCommits / considered.length : 0,
+        reviewers: reviewers.size,
+    };
+}
+
+/**
+ * Review participation as a 0-100 percentage, or null when the history has
+ * no review trailers to measure from (e.g. a pull-request workflow).
+ */
+export function measuredReviewPercentage(summary: ReviewParticipationSummary | undefined): number | null {
+    if (!summary || summary.reviewers === 0 || summary.totalCommits === 0) {
+        return null;
+    }
+    return Math.round(summary.participation * 100);
+}
+
+/** Identities named in commit trailers (co-authors and review trailers), once each. */
+export function trailerIdentities(commits: GitCommit[]): GitAuthor[] {
+    const identities = new Map<string, GitAuthor>();
+    for (const commit of commits) {
+        for (const identity of [
+            ...(commit.coAuthors ?? []),
+            ...TRAILER_COUNTERS.flatMap(([field]) => commit[field] ?? []),
+        ]) {
+            identities.set(`${identity.name}\0${identity.email}`, identity);
+        }
+    }
+    return Array.from(identities.values());
+}
+
+/**
+ * Rewrite the identities in commit trailers, e.g. through the repository's
+ * .mailmap, which git applies to authors but not to trailers. Commits
+ * without trailer identities are returned as they are.
+ */
+export function mapTrailerIdentities(commits: GitCommit[], map: IdentityResolver): GitCommit[] {
+    const mapAll = (identities: GitAuthor[] | undefined) => identities?.map(map);
+    return commits.map(commit => {
+        if (!commit.coAuthors?.length && TRAILER_COUNTERS.every(([field]) => !commit[field]?.length)) {
+            return commit;
+        }
+        return {
+            ...commit,
+            coAuthors: mapAll(commit.coAuthors),
+            reviewedBy: mapAll(commit.reviewedBy),
+            ackedBy: mapAll(commit.ackedBy),
+            testedBy: mapAll(commit.testedBy),
+            signedOffBy: mapAll(commit.signedOffBy),
+        };
+    });
+}
@@ -0,0 +1,95 @@
+/**
+ * Reviewers for a set of working-tree changes: each changed file's experts,
+ * weighted by that file's share of the changed lines and summed per person,
+ * so the expert on a 400-line rewrite outranks the expert on a one-line
+ * typo fix. The author of the changes and bots or AI agents are never
+ * suggested. Must NOT import 'vscode'.
+ */
+import type { GitAuthor, ReviewerSuggestion, WorkingTreeChange } from '../types/expert';
+import { detectBotContributor } from './bot-detection';
+import { codeownersHandle } from './codeowners';
+
+/** Reviewers returned when no limit is given */
+export const DEFAULT_REVIEWER_LIMIT = 10;
+// Files named per reviewer before the rest are summarised
+const REASONS_PER_REVIEWER = 3;
+
+/** One changed file's experts, scored 0-100 as Find Expert scores them */
+export interface FileExpertScores {
+    path: string;
+    experts: Array<{ name: string; email: string; score: number }>;
+}
+
+export interface ReviewerOptions {
+    /** Whoever made the changes (the configured git user) */
+    author?: GitAuthor | null;
+    /** Maps aliases to one identity so a person is suggested once */
+    resolveAuthor?: (author: GitAuthor) => GitAuthor;
+    limit?: number;
+}
+
+/** Ranked reviewers, strongest first. Binary files count as one changed line. */
+export function suggestReviewers(
+    changes: WorkingTreeChange[],
+    fileExperts: FileExpertScores[],
+    options: ReviewerOptions = {}
+): ReviewerSuggestion[] {
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+    const totalLines = changes.reduce((sum, change) => sum + Math.max(1, change.lines), 0);
+    const shares = new Map(changes.map(change => [change.path, Math.max(1, change.lines) / totalLines]));
+    const author = options.author?.email ? resolveAuthor(options.author) : undefined;
+    const isAuthor = (identity: GitAuthor) => !!author && (
+        identity.email.toLowerCase() === author.email.toLowerCase()
+        || (!!author.name && identity.name.toLowerCase() === author.name.toLowerCase())
+    );
+
+    const candidates = new Map<string, { name: string; email: string; files: Array<{ path: string; score: number; share: number }> }>();
+    for (const file of fileExperts) {
+        const share = shares.get(file.path);
+        if (!share) {
+            continue;
+        }
+        // Aliases of one person can both appear on a file; their best score counts
+        const best = new Map<string, { identity: GitAuthor; score: number }>();
+        for (const expert of file.experts) {
+            const identity = resolveAuthor({ name: expert.name, email: expert.email });
+            const key = identity.email.toLowerCase();
+            if (!key || expert.score <= 0 || isAuthor(identity) || detectBotContributor(identity.name, identity.email)) {
+                continue;
+            }
+            if (expert.score > (best.get(key)?.score ?? 0)) {
+                best.set(key, { identity, score: expert.score });
+            }
+        }
+        for (const [key, { identity, score }] of best) {
+            const candidate = candidates.get(key) ?? { name: identity.name, email: identity.email, files: [] };
+            candidate.files.push({ path: file.path, score, share });
+            candidates.set(key, candidate);
+        }
+    }
+
+    return Array.from(candidates.values())
+        .map(candidate => {
+            const files = candidate.files.sort((x, y) => y.score * y.share - x.score * x.share || x.path.localeCompare(y.path));
+            const reasons = files.slice(0, REASONS_PER_REVIEWER)
+                .map(file => `${file.path}: ${Math.round(file.score)}% expertise, ${Math.round(file.share * 100)}% of the change`);
+            if (files.length > REASONS_PER_REVIEWER) {
+                reasons.push(`+${files.length - REASONS_PER_REVIEWER} more file${files.length - REASONS_PER_REVIEWER === 1 ? '' : 's'}`);
+            }
+            return {
+                name: candidate.name,
+                email: candidate.email,
+                handle: codeownersHandle(candidate.email),
+                score: Math.round(files.reduce((sum, file) => sum + file.score * file.share, 0)),
+                files: files.length,
+                reasons,
+            };
+        })
+        .sort((x, y) => y.score - x.score || y.files - x.files || x.name.localeCompare(y.name))
+        .slice(0, options.limit ?? DEFAULT_REVIEWER_LIMIT);
+}
+
+/** The reviewers' handles on one line, ready to paste into a pull request. */
+export function formatReviewerHandles(reviewers: ReviewerSuggestion[]): string {
+    return Array.from(new Set(reviewers.map(reviewer => reviewer.handle))).join(' ');
+}
@@ -0,0 +1,48 @@
+/**
+ * Helpers for the symbol expertise CodeLens: which document symbols get a
+ * lens, and the one-line summary shown above each. The experts themselves
+ * come from the history of the symbol's lines (see findExpertsForRange).
+ * Must NOT import 'vscode'.
+ */
+import type { Expert } from '../types/expert';
+
+/** The parts of a document symbol the lens needs; vscode.DocumentSymbol fits */
+export interface OutlineSymbol<T extends OutlineSymbol<T>> {
+    kind: number;
+    children?: T[];
+}
+
+/**
+ * Symbols of the given kinds anywhere in the outline, parents before their
+ * children, so methods are found inside classes and nested functions inside
+ * functions.
+ */
+export function flattenSymbols<T extends OutlineSymbol<T>>(symbols: T[], kinds: ReadonlySet<number>): T[] {
+    const found: T[] = [];
+    const visit = (symbol: T) => {
+        if (kinds.has(symbol.kind)) {
+            found.push(symbol);
+        }
+        symbol.children?.forEach(visit);
+    };
+    symbols.forEach(visit);
+    return found;
+}
+
+/**
+ * The lens title, e.g. "Top expert: Ana · 12 commits". The strongest human
+ * expert is named; a bot or AI agent only when nobody else touched the
+ * lines. Undefined when there are no experts.
+ */
+export function formatSymbolLens(experts: Expert[]): string | undefined {
+    const humans = experts.filter(expert => !expert.isBot);
+    const top = (humans.length > 0 ? humans : experts)
+        .reduce<Expert | undefined>((best, expert) => !best || expert.expertise > best.expertise ? expert : best, undefined);
+    if (!top) {
+        return undefined;
+    }
+    const evidence = top.contributions > 0 || !top.survivingLines
+        ? `${top.contributions} commit${top.contributions === 1 ? '' : 's'}`
+        : `${top.survivingLines} line${top.survivingLines === 1 ? '' : 's'}`;
+    return `Top expert: ${top.name} · ${evidence}`;
+}
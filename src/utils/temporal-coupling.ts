@@ -0,0 +1,129 @@
+/**
+ * Temporal (change) coupling from commit file lists: file pairs that keep
+ * changing in the same commits, as association rules with support and
+ * confidence. Coupling across directories is the dependency nobody wrote
+ * down — the people who made the co-changes are the ones who know about it.
+ * Must NOT import 'vscode'.
+ */
+import type { GitAuthor, GitCommit, TemporalCoupling } from '../types/expert';
+
+/** Pairs need at least this many shared commits to count as coupled */
+export const MIN_CO_CHANGES = 3;
+/** A rule needs this share of the first file's commits to also touch the second */
+export const MIN_CONFIDENCE = 0.5;
+// Commits touching more files than this are sweeps (renames, reformatting),
+// not evidence that two files belong together; they would also add O(n²) pairs
+const MAX_FILES_PER_COMMIT = 30;
+const MAX_AUTHORS_PER_PAIR = 3;
+
+export interface CouplingOptions {
+    minCoChanges?: number;
+    minConfidence?: number;
+    /** Most rules to return */
+    limit?: number;
+    /** Maps aliases to one identity so co-change authors aren't split */
+    resolveAuthor?: (author: GitAuthor) => GitAuthor;
+}
+
+function directoryOf(file: string): string {
+    const slash = file.lastIndexOf('/');
+    return slash === -1 ? '' : file.slice(0, slash);
+}
+
+function pairKey(a: string, b: string): string {
+    return `${a}\0${b}`;
+}
+
+/**
+ * Directional coupling rules over commits that touch between one and
+ * MAX_FILES_PER_COMMIT files. Both directions of a pair are returned when
+ * each clears the confidence threshold. Strongest (by confidence, then
+ * shared commits) first.
+ */
+export function computeTemporalCoupling(commits: GitCommit[], options: CouplingOptions = {}): TemporalCoupling[] {
+    const minCoChanges = options.minCoChanges ?? MIN_CO_CHANGES;
+    const minConfidence = options.minConfidence ?? MIN_CONFIDENCE;
+    const resolveAuthor = options.resolveAuthor ?? ((author: GitAuthor) => author);
+
+    const changeSets = commits
+        .map(commit => ({ commit, files: Array.from(new Set(commit.files ?? [])) }))
+        .filter(({ files }) => files.length > 0 && files.length <= MAX_FILES_PER_COMMIT);
+
+    const revisions = new Map<string, number>();
+    for (const { files } of changeSets) {
+        for (const file of files) {
+            revisions.set(file, (revisions.get(file) ?? 0) + 1);
+        }
+    }
+
+    // Only files changed often enough can be part of a qualifying pair
+    const candidatesOf = (files: string[]) => files
+        .filter(file => (revisions.get(file) ?? 0) >= minCoChanges)
+        .sort();
+    const coChanges = new Map<string, number>();
+    for (const { files } of changeSets) {
+        const candidates = candidatesOf(files);
+        for (let i = 0; i < candidates.length; i++) {
+            for (let j = i + 1; j < candidates.length; j++) {
+                const key = pairKey(candidates[i], candidates[j]);
+                coChanges.set(key, (coChanges.get(key) ?? 0) + 1);
+            }
+        }
+    }
+    const coupledPairs = new Set(Array.from(coChanges).filter(([, count]) => count >= minCoChanges).map(([key]) => key));
+
+    // Second pass: who made the co-changes, for the pairs that qualified
+    const authorsByPair = new Map<string, Map<string, number>>();
+    for (const { commit, files } of changeSets) {
+        const candidates = candidatesOf(files);
+        const name = commit.author ? resolveAuthor(commit.author).name : 'Unknown';
+        for (let i = 0; i < candidates.length; i++) {
+            for (let j = i + 1; j < candidates.length; j++) {
+                const key = pairKey(candidates[i], candidates[j]);
+                if (coupledPairs.has(key)) {
+                    const authors = authorsByPair.get(key) ?? new Map<string, number>();
+                    authors.set(name, (authors.get(name) ?? 0) + 1);
+                    authorsByPair.set(key, authors);
+                }
+            }
+        }
+    }
+
+    const rules: TemporalCoupling[] = [];
+    for (const key of coupledPairs) {
+        const [a, b] = key.split('\0');
+        const count = coChanges.get(key)!;
+        const authors = Array.from(authorsByPair.get(key) ?? [], ([name, commitCount]) => ({ name, commits: commitCount }))
+            .sort((x, y) => y.commits - x.commits)
+            .slice(0, MAX_AUTHORS_PER_PAIR);
+        for (const [file, coupledFile] of [[a, b], [b, a]]) {
+            const confidence = count / revisions.get(file)!;
+            if (confidence >= minConfidence) {
+                rules.push({
+                    file,
+                    coupledFile,
+                    coChanges: count,
+                    support: count / changeSets.length,
+                    confidence,
+                    crossModule: directoryOf(file) !== directoryOf(coupledFile),
+                    authors,
+                });
+            }
+        }
+    }
+
+    rules.sort((x, y) => y.confidence - x.confidence || y.coChanges - x.coChanges || x.file.localeCompare(y.file));
+    return options.limit !== undefined ? rules.slice(0, options.limit) : rules;
+}
+
+// Repository-relative form of a path as written by a user or the model:
+// forward slashes, no leading "./" or "/"
+function normalizePath(file: string): string {
+    return file.trim().replace(/\\/g, '/').replace(/^(?:\.?\/)+/, '');
+}
+
+/** Rules where `file`, a repository-relative path, is exactly one side. */
+export function couplingForFile(rules: TemporalCoupling[], file: string): TemporalCoupling[] {
+    const target = normalizePath(file);
+    return rules.filter(rule => normalizePath(rule.file) === target || normalizePath(rule.coupledFile) === target);
+}